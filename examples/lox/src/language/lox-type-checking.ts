@@ -5,7 +5,7 @@
 ******************************************************************************/
 
 import { AstNode, AstUtils, LangiumSharedCoreServices, Module, assertUnreachable } from 'langium';
-import { CreateFieldDetails, CreateFunctionTypeDetails, CreateParameterDetails, InferOperatorWithMultipleOperands, InferOperatorWithSingleOperand, InferenceRuleNotApplicable, NO_PARAMETER_NAME, TypirServices, UniqueClassValidation, UniqueFunctionValidation, UniqueMethodValidation, ValidationMessageDetails, createNoSuperClassCyclesValidation } from 'typir';
+import { ClassOverrideValidation, CreateFieldDetails, CreateFunctionTypeDetails, CreateParameterDetails, InferOperatorWithMultipleOperands, InferOperatorWithSingleOperand, InferenceRuleNotApplicable, NO_FUNCTION_NAME, NO_PARAMETER_NAME, TypirServices, UniqueClassValidation, UniqueFunctionValidation, UniqueMethodValidation, ValidationMessageDetails, createNoSuperClassCyclesValidation } from 'typir';
 import { AbstractLangiumTypeCreator, LangiumServicesForTypirBinding, PartialTypirLangiumServices } from 'typir-langium';
 import { BinaryExpression, FunctionDeclaration, MemberCall, MethodMember, TypeReference, UnaryExpression, isBinaryExpression, isBooleanLiteral, isClass, isFieldMember, isForStatement, isFunctionDeclaration, isIfStatement, isMemberCall, isMethodMember, isNilLiteral, isNumberLiteral, isParameter, isPrintStatement, isReturnStatement, isStringLiteral, isTypeReference, isUnaryExpression, isVariableDeclaration, isWhileStatement } from './generated/ast.js';
 
@@ -43,8 +43,8 @@ export class LoxTypeCreator extends AbstractLangiumTypeCreator {
                 isPrintStatement,
                 (node: unknown) => isReturnStatement(node) && node.value === undefined
             ] });
-        const typeNil = this.typir.factory.Primitives.create({ primitiveName: 'nil',
-            inferenceRules: isNilLiteral }); // 'nil' is only assignable to variables with a class as type in the LOX implementation here
+        const typeNil = this.typir.factory.Optionals.createNullType({ primitiveName: 'nil',
+            inferenceRules: isNilLiteral }); // since LOX has no optional types, 'nil' is made assignable to variables with a class as type in the LOX implementation here
         const typeAny = this.typir.factory.Top.create({});
 
         // extract inference rules, which is possible here thanks to the unified structure of the Langium grammar (but this is not possible in general!)
@@ -111,7 +111,7 @@ export class LoxTypeCreator extends AbstractLangiumTypeCreator {
             if (isMemberCall(languageNode)) {
                 const ref = languageNode.element?.ref;
                 if (isClass(ref)) {
-                    return InferenceRuleNotApplicable; // not required anymore
+                    return InferenceRuleNotApplicable; // inference rules are registered directly at the Classes (for constructor calls and for references to the classes themselves)
                 } else if (isFieldMember(ref)) {
                     return InferenceRuleNotApplicable; // inference rule is registered directly at the Fields
                 } else if (isMethodMember(ref)) {
@@ -121,7 +121,7 @@ export class LoxTypeCreator extends AbstractLangiumTypeCreator {
                 } else if (isParameter(ref)) {
                     return ref.type; // use parameters inside expressions
                 } else if (isFunctionDeclaration(ref)) {
-                    return InferenceRuleNotApplicable; // there is already an inference rule for function calls
+                    return InferenceRuleNotApplicable; // there are already inference rules for function calls and references to functions
                 } else if (ref === undefined) {
                     return InferenceRuleNotApplicable; // unresolved cross-reference: syntactic issues must be fixed before type checking can be applied
                 } else {
@@ -185,6 +185,8 @@ export class LoxTypeCreator extends AbstractLangiumTypeCreator {
             (method, _type) => method.$container,
             uniqueClassValidator,
         ));
+        // check for compatible overriding methods and shadowed fields
+        this.typir.validation.Collector.addValidationRuleWithBeforeAndAfter(new ClassOverrideValidation(this.typir, isClass, uniqueClassValidator));
         this.typir.validation.Collector.addValidationRuleWithBeforeAndAfter(uniqueClassValidator); // TODO this order is important, solve it in a different way!
         // check for cycles in super-sub-type relationships
         this.typir.validation.Collector.addValidationRule(createNoSuperClassCyclesValidation(isClass));
@@ -198,7 +200,16 @@ export class LoxTypeCreator extends AbstractLangiumTypeCreator {
             this.typir.factory.Functions.create(createFunctionDetails(node)); // this logic is reused for methods of classes, since the LOX grammar defines them very similar
         }
 
-        // TODO support lambda (type references)!
+        // function types (lambdas): they are anonymous, i.e. they are identified by their signature only
+        if (isTypeReference(node) && node.returnType) {
+            this.typir.factory.Functions.create({
+                functionName: NO_FUNCTION_NAME,
+                outputParameter: { name: NO_PARAMETER_NAME, type: node.returnType },
+                inputParameters: node.parameters.map(p => (<CreateParameterDetails>{ name: p.name ?? NO_PARAMETER_NAME, type: p.type })),
+                inferenceRuleForDeclaration: (languageNode: unknown) => languageNode === node, // only the current function type matches!
+                associatedLanguageNode: node,
+            });
+        }
 
         // class types (nominal typing):
         if (isClass(node)) {
@@ -228,18 +239,21 @@ export class LoxTypeCreator extends AbstractLangiumTypeCreator {
                     matching: (languageNode: TypeReference) => isClass(languageNode.reference?.ref) && languageNode.reference!.ref.name === className,
                     inputValuesForFields: (_languageNode: TypeReference) => new Map(), // values for fields don't matter for nominal typing
                 },
+                // inference rule for references to the class itself (in contrast to instances of the class), e.g. 'var c = MyClass;'
+                inferenceRuleForClassReference: (languageNode: unknown) => isMemberCall(languageNode) && languageNode.element?.ref === node && !languageNode.explicitOperationCall,
                 // inference rule for accessing fields
                 inferenceRuleForFieldAccess: (languageNode: unknown) => isMemberCall(languageNode) && isFieldMember(languageNode.element?.ref) && languageNode.element!.ref.$container === node && !languageNode.explicitOperationCall
                     ? languageNode.element!.ref.name : InferenceRuleNotApplicable,
                 associatedLanguageNode: node,
             });
 
-            // explicitly declare, that 'nil' can be assigned to any Class variable
+            // explicitly declare, that 'nil' can be assigned to any Class variable:
+            // Optional types (e.g. 'MyClass?') are not used for that, since LOX has no syntax for nullable types, i.e. all class references in LOX are nullable.
+            // Therefore declared variables, parameters and return values with a class type and instances of the class need to have the same type,
+            // otherwise values of class references could not be passed to other class references anymore.
             classType.addListener(type => {
-                this.typir.Conversion.markAsConvertible(this.typir.factory.Primitives.get({ primitiveName: 'nil' })!, type, 'IMPLICIT_EXPLICIT');
+                this.typir.Conversion.markAsConvertible(this.typir.factory.Optionals.getNullType()!, type, 'IMPLICIT_EXPLICIT');
             });
-            // The following idea does not work, since variables in LOX have a concrete class type and not an "any class" type:
-            // this.typir.conversion.markAsConvertible(typeNil, this.classKind.getOrCreateTopClassType({}), 'IMPLICIT_EXPLICIT');
         }
     }
 }
@@ -252,6 +266,8 @@ function createFunctionDetails(node: FunctionDeclaration | MethodMember): Create
         inputParameters: node.parameters.map(p => (<CreateParameterDetails>{ name: p.name, type: p.type })),
         // inference rule for function declaration:
         inferenceRuleForDeclaration: (languageNode: unknown) => languageNode === node, // only the current function/method declaration matches!
+        // inference rule for references to functions/methods without calling them, e.g. to assign them to variables with a function type:
+        inferenceRuleForReferences: (languageNode: unknown) => isMemberCall(languageNode) && languageNode.element?.ref === node && !languageNode.explicitOperationCall,
         /** inference rule for funtion/method calls:
          * - inferring of overloaded functions works only, if the actual arguments have the expected types!
          * - (inferring calls to non-overloaded functions works independently from the types of the given parameters)
@@ -102,6 +102,17 @@ describe('Class literals', () => {
         expectTypirTypes(loxServices.typir, isClassType, 'MyClass1', 'MyClass2');
     });
 
+    test('References to classes themselves are no instances of these classes', async () => {
+        await validateLox(`
+            class MyClass {}
+            var c1 = MyClass; // reference to the class itself
+            var v1: MyClass = MyClass;
+        `, [
+            "The expression 'MyClass' of type 'typeof MyClass' is not assignable to 'v1' with type 'MyClass'",
+        ]);
+        expectTypirTypes(loxServices.typir, isClassType, 'MyClass');
+    });
+
     test('nil is assignable to any Class', async () => {
         await validateLox(`
             class MyClass1 {}
@@ -94,4 +94,16 @@ describe('Test type checking for user-defined functions', () => {
         expect(call2Type.getName()).toBe('boolean');
     });
 
+    test('function types: references to functions need to fit to the declared function type', async () => {
+        await validateLox(`
+            fun myFunction(input: number) : number { return 987; }
+            var f1: (number) => number = myFunction;
+            var f2: (value: number) => number = myFunction;
+            var f3: (boolean) => number = myFunction;
+        `, [
+            "The expression 'myFunction' of type '(number) => number' is not assignable to 'f3' with type '(boolean) => number'",
+        ]);
+        expectTypirTypes(loxServices.typir, isFunctionType, 'myFunction', '(number) => number', '(boolean) => number', ...operatorNames);
+    });
+
 });
@@ -148,3 +148,24 @@ describe('Test overloaded methods', () => {
     });
 
 });
+
+describe('Test overriding methods', () => {
+
+    test('Class methods: overriding methods need compatible signatures', async () => {
+        await validateLox(`
+            class MyClass1 {
+                method1(input: number): number { return 123; }
+            }
+            class MyClass2 < MyClass1 {
+                method1(input: number): number { return 456; }
+            }
+            class MyClass3 < MyClass1 {
+                method1(input: number): boolean { return true; }
+            }
+        `, [
+            "The method 'method1(input: number): boolean' of class 'MyClass3' is not compatible with the overridden method 'method1(input: number): number' of class 'MyClass1'.",
+        ]);
+        expectTypirTypes(loxServices.typir, isClassType, 'MyClass1', 'MyClass2', 'MyClass3');
+    });
+
+});
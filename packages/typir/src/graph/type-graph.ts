@@ -20,7 +20,7 @@ import { Type } from './type-node.js';
 export class TypeGraph {
 
     protected readonly nodes: Map<string, Type> = new Map(); // type name => Type
-    protected readonly edges: TypeEdge[] = [];
+    protected readonly edges: Set<TypeEdge> = new Set(); // a set for fast look-ups and removals of edges
 
     protected readonly listeners: TypeGraphListener[] = [];
 
@@ -57,9 +57,12 @@ export class TypeGraph {
      */
     removeNode(typeToRemove: Type, key?: string): void {
         const mapKey = key ?? typeToRemove.getIdentifier();
-        // remove all edges which are connected to the type to remove
-        typeToRemove.getAllIncomingEdges().forEach(e => this.removeEdge(e));
-        typeToRemove.getAllOutgoingEdges().forEach(e => this.removeEdge(e));
+        // remove all edges which are connected to the type to remove (listeners might remove some of these edges in the meantime)
+        typeToRemove.getAllEdges().forEach(e => {
+            if (this.edges.has(e)) {
+                this.removeEdge(e);
+            }
+        });
         // remove the type itself
         const contained = this.nodes.delete(mapKey);
         if (contained) {
@@ -88,7 +91,7 @@ export class TypeGraph {
         }
         // TODO what about the other direction for bidirectional edges? for now, the user has to ensure no duplicates here!
 
-        this.edges.push(edge);
+        this.edges.add(edge);
 
         // register this new edge at the connected nodes
         edge.to.addIncomingEdge(edge);
@@ -102,9 +105,7 @@ export class TypeGraph {
         edge.to.removeIncomingEdge(edge);
         edge.from.removeOutgoingEdge(edge);
 
-        const index = this.edges.indexOf(edge);
-        if (index >= 0) {
-            this.edges.splice(index, 1);
+        if (this.edges.delete(edge)) {
             this.listeners.forEach(listener => listener.onRemovedEdge?.call(listener, edge));
         } else {
             throw new Error(`Edge does not exist: ${edge.$relation}`);
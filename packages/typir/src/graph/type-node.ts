@@ -106,6 +106,15 @@ export abstract class Type {
      */
     abstract getUserRepresentation(): string;
 
+    /**
+     * Returns the type which represents this type in the relationships between types, i.e. in the sub-type and conversion relationships stored in the type graph.
+     * By default, each type represents itself. Types which are transparent for these relationships (e.g. aliases) return the type they stand for.
+     * @returns the type which is used for the relationships of this type
+     */
+    getTypeForRelationships(): Type {
+        return this;
+    }
+
 
 
     // store the state of the initialization process of this type
@@ -260,6 +269,10 @@ export abstract class Type {
         this.waitForCompleted.addListener({
             onFulfilled(_waiter) {
                 if (thisType.waitForIdentifiable.isFulfilled()) {
+                    if (thisType.isInState('Invalid')) {
+                        // the preconditions for Identifiable are still fulfilled, since only references which are relevant for Completed were invalidated in the meantime
+                        thisType.switchFromInvalidToIdentifiable();
+                    }
                     thisType.switchFromIdentifiableToCompleted();
                 } else {
                     // switching will be done later by 'waitForIdentifiable' in order to conform to the stric order Identifiable --> Completed
@@ -12,26 +12,73 @@ export * from './initialization/type-initializer.js';
 export * from './initialization/type-reference.js';
 export * from './initialization/type-selector.js';
 export * from './initialization/type-waiting.js';
+export * from './kinds/alias/alias-initializer.js';
+export * from './kinds/alias/alias-kind.js';
+export * from './kinds/alias/alias-type.js';
+export * from './kinds/array/array-initializer.js';
+export * from './kinds/array/array-kind.js';
+export * from './kinds/array/array-type.js';
 export * from './kinds/bottom/bottom-kind.js';
 export * from './kinds/bottom/bottom-type.js';
 export * from './kinds/class/class-initializer.js';
 export * from './kinds/class/class-kind.js';
 export * from './kinds/class/class-type.js';
 export * from './kinds/class/class-validation.js';
+export * from './kinds/class/meta-class-kind.js';
+export * from './kinds/class/meta-class-type.js';
 export * from './kinds/class/top-class-kind.js';
 export * from './kinds/class/top-class-type.js';
+export * from './kinds/compound/compound-initializer.js';
+export * from './kinds/compound/compound-kind.js';
+export * from './kinds/compound/compound-type.js';
+export * from './kinds/derived-subtypes.js';
+export * from './kinds/distinct/distinct-initializer.js';
+export * from './kinds/distinct/distinct-kind.js';
+export * from './kinds/distinct/distinct-type.js';
+export * from './kinds/enum/enum-kind.js';
+export * from './kinds/enum/enum-type.js';
+export * from './kinds/enum/enum-validation.js';
+export * from './kinds/fixed-parameters/fixed-parameters-factory.js';
+export * from './kinds/fixed-parameters/fixed-parameters-initializer.js';
 export * from './kinds/fixed-parameters/fixed-parameters-kind.js';
 export * from './kinds/fixed-parameters/fixed-parameters-type.js';
 export * from './kinds/function/function-initializer.js';
 export * from './kinds/function/function-kind.js';
 export * from './kinds/function/function-type.js';
 export * from './kinds/function/function-validation.js';
+export * from './kinds/interface/interface-initializer.js';
+export * from './kinds/interface/interface-kind.js';
+export * from './kinds/interface/interface-type.js';
+export * from './kinds/interface/interface-validation.js';
+export * from './kinds/intersection/intersection-kind.js';
+export * from './kinds/intersection/intersection-type.js';
+export * from './kinds/literal/literal-kind.js';
+export * from './kinds/literal/literal-type.js';
+export * from './kinds/map/map-kind.js';
+export * from './kinds/multiplicity/multiplicity-initializer.js';
 export * from './kinds/multiplicity/multiplicity-kind.js';
 export * from './kinds/multiplicity/multiplicity-type.js';
+export * from './kinds/optional/optional-initializer.js';
+export * from './kinds/optional/optional-kind.js';
+export * from './kinds/optional/optional-type.js';
 export * from './kinds/primitive/primitive-kind.js';
 export * from './kinds/primitive/primitive-type.js';
+export * from './kinds/primitive/primitive-validation.js';
+export * from './kinds/record/record-initializer.js';
+export * from './kinds/record/record-kind.js';
+export * from './kinds/record/record-type.js';
 export * from './kinds/top/top-kind.js';
 export * from './kinds/top/top-type.js';
+export * from './kinds/tuple/tuple-initializer.js';
+export * from './kinds/tuple/tuple-kind.js';
+export * from './kinds/tuple/tuple-type.js';
+export * from './kinds/type-variable/type-variable-kind.js';
+export * from './kinds/type-variable/type-variable-substitution.js';
+export * from './kinds/type-variable/type-variable-type.js';
+export * from './kinds/union/union-kind.js';
+export * from './kinds/union/union-type.js';
+export * from './kinds/unit/unit-kind.js';
+export * from './kinds/unit/unit-type.js';
 export * from './kinds/kind.js';
 export * from './services/assignability.js';
 export * from './services/caching.js';
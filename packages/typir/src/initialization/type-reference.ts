@@ -139,8 +139,11 @@ export class TypeReference<T extends Type = Type> implements TypeGraphListener,
     onRemovedType(removedType: Type, _key: string): void {
         // the resolved type of this TypeReference is removed!
         if (removedType === this.resolvedType) {
+            const previousType = this.resolvedType;
+            // discard the removed type before notifying the observers, since they might check the current state of this TypeReference
+            this.resolvedType = undefined;
             // notify observers, that the type reference is broken
-            this.listeners.slice().forEach(listener => listener.onTypeReferenceInvalidated(this, this.resolvedType!));
+            this.listeners.slice().forEach(listener => listener.onTypeReferenceInvalidated(this, previousType));
             // start resolving the type again
             this.startResolving();
         }
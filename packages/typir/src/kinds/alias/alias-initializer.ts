@@ -0,0 +1,78 @@
+/******************************************************************************
+ * Copyright 2025 TypeFox GmbH
+ * This program and the accompanying materials are made available under the
+ * terms of the MIT License, which is available in the project root.
+ ******************************************************************************/
+
+import { Type, TypeStateListener } from '../../graph/type-node.js';
+import { TypeInitializer } from '../../initialization/type-initializer.js';
+import { InferenceRuleNotApplicable, TypeInferenceRule } from '../../services/inference.js';
+import { TypirServices } from '../../typir.js';
+import { assertType } from '../../utils/utils.js';
+import { AliasKind, CreateAliasTypeDetails } from './alias-kind.js';
+import { AliasType, isAliasType } from './alias-type.js';
+
+export class AliasTypeInitializer extends TypeInitializer<AliasType> implements TypeStateListener {
+    protected readonly typeDetails: CreateAliasTypeDetails;
+    protected readonly kind: AliasKind;
+    protected inferenceRules: TypeInferenceRule[];
+    protected initialAliasType: AliasType;
+
+    constructor(services: TypirServices, kind: AliasKind, typeDetails: CreateAliasTypeDetails) {
+        super(services);
+        this.typeDetails = typeDetails;
+        this.kind = kind;
+
+        // create the alias type
+        this.initialAliasType = new AliasType(kind, typeDetails);
+
+        this.inferenceRules = this.createInferenceRules(this.typeDetails, this.initialAliasType);
+        // register all the inference rules already now to enable early type inference for this type
+        this.inferenceRules.forEach(rule => services.Inference.addInferenceRule(rule, undefined)); // 'undefined', since the Identifier is still missing
+
+        this.initialAliasType.addListener(this, true); // trigger directly, if some initialization states are already reached!
+    }
+
+    onSwitchedToIdentifiable(aliasType: Type): void {
+        assertType(aliasType, isAliasType);
+        const readyAliasType = this.producedType(aliasType);
+
+        // remove the inference rules for the not yet identifiable type
+        this.inferenceRules.forEach(rule => this.services.Inference.removeInferenceRule(rule, undefined));
+        if (readyAliasType !== aliasType) {
+            // the same type was already created earlier => skip the new type
+            aliasType.removeListener(this);
+            // but re-create the inference rules for the existing type!
+            this.inferenceRules = this.createInferenceRules(this.typeDetails, readyAliasType);
+        }
+        this.inferenceRules.forEach(rule => this.services.Inference.addInferenceRule(rule, readyAliasType));
+    }
+
+    onSwitchedToCompleted(aliasType: Type): void {
+        // the work of this initializer is done now
+        aliasType.removeListener(this);
+    }
+
+    onSwitchedToInvalid(_aliasType: Type): void {
+        // nothing specific needs to be done here, since the base implementation takes already care about all relevant stuff
+    }
+
+    override getTypeInitial(): AliasType {
+        return this.initialAliasType;
+    }
+
+    protected createInferenceRules(typeDetails: CreateAliasTypeDetails, aliasType: AliasType): TypeInferenceRule[] {
+        const result: TypeInferenceRule[] = [];
+        if (typeDetails.inferenceRuleForDeclaration) {
+            result.push((languageNode, _typir) => {
+                if (typeDetails.inferenceRuleForDeclaration!(languageNode)) {
+                    return aliasType;
+                } else {
+                    return InferenceRuleNotApplicable;
+                }
+            });
+        }
+        return result;
+    }
+
+}
@@ -0,0 +1,83 @@
+/******************************************************************************
+ * Copyright 2025 TypeFox GmbH
+ * This program and the accompanying materials are made available under the
+ * terms of the MIT License, which is available in the project root.
+ ******************************************************************************/
+
+import { TypeDetails } from '../../graph/type-node.js';
+import { TypeInitializer } from '../../initialization/type-initializer.js';
+import { TypeReference } from '../../initialization/type-reference.js';
+import { TypeSelector } from '../../initialization/type-selector.js';
+import { TypirServices } from '../../typir.js';
+import { isKind, Kind } from '../kind.js';
+import { AliasTypeInitializer } from './alias-initializer.js';
+import { AliasType } from './alias-type.js';
+
+export interface AliasKindOptions {
+    /** Will be used only internally as prefix for the unique identifiers for alias types. */
+    identifierPrefix: string,
+}
+
+export interface AliasTypeDetails extends TypeDetails {
+    /** The name of the alias, which is used to print the alias type. */
+    name: string,
+    /** The aliased type, it is resolved lazily, i.e. the alias might be declared before the aliased type. */
+    aliasOf: TypeSelector,
+}
+
+export interface CreateAliasTypeDetails extends AliasTypeDetails {
+    inferenceRuleForDeclaration?: (languageNode: unknown) => boolean,
+}
+
+export const AliasKindName = 'AliasKind';
+
+export interface AliasFactoryService {
+    create(typeDetails: CreateAliasTypeDetails): TypeInitializer<AliasType>;
+    get(typeDetails: AliasTypeDetails): TypeReference<AliasType>;
+    calculateIdentifier(typeDetails: AliasTypeDetails): string;
+}
+
+/**
+ * Aliases introduce another name for an existing type, e.g. `type Meters = number`.
+ * Aliases are transparent, i.e. equality, sub-typing, assignability and conversion are delegated to the aliased type,
+ * while the alias type keeps its name in order to print it in messages for users.
+ * Aliases are identified by their name.
+ */
+export class AliasKind implements Kind, AliasFactoryService {
+    readonly $name: 'AliasKind';
+    readonly services: TypirServices;
+    readonly options: Readonly<AliasKindOptions>;
+
+    constructor(services: TypirServices, options?: Partial<AliasKindOptions>) {
+        this.$name = AliasKindName;
+        this.services = services;
+        this.services.infrastructure.Kinds.register(this);
+        this.options = this.collectOptions(options);
+    }
+
+    protected collectOptions(options?: Partial<AliasKindOptions>): AliasKindOptions {
+        return {
+            // the default values:
+            identifierPrefix: 'alias',
+            // the actually overriden values:
+            ...options
+        };
+    }
+
+    get(typeDetails: AliasTypeDetails): TypeReference<AliasType> {
+        return new TypeReference(() => this.calculateIdentifier(typeDetails), this.services);
+    }
+
+    create(typeDetails: CreateAliasTypeDetails): TypeInitializer<AliasType> {
+        return new AliasTypeInitializer(this.services, this, typeDetails);
+    }
+
+    calculateIdentifier(typeDetails: AliasTypeDetails): string {
+        // since the aliased type is not required to calculate the identifier, aliases might be used, before their aliased type exists
+        return `${this.options.identifierPrefix}-${typeDetails.name}`;
+    }
+}
+
+export function isAliasKind(kind: unknown): kind is AliasKind {
+    return isKind(kind) && kind.$name === AliasKindName;
+}
@@ -0,0 +1,106 @@
+/******************************************************************************
+ * Copyright 2025 TypeFox GmbH
+ * This program and the accompanying materials are made available under the
+ * terms of the MIT License, which is available in the project root.
+ ******************************************************************************/
+
+import { isType, Type } from '../../graph/type-node.js';
+import { TypeReference } from '../../initialization/type-reference.js';
+import { TypeEqualityProblem } from '../../services/equality.js';
+import { TypirProblem } from '../../utils/utils-definitions.js';
+import { AliasKind, AliasTypeDetails, isAliasKind } from './alias-kind.js';
+
+export class AliasType extends Type {
+    override readonly kind: AliasKind;
+    readonly aliasName: string;
+    readonly aliasOf: TypeReference;
+
+    constructor(kind: AliasKind, typeDetails: AliasTypeDetails) {
+        super(undefined, typeDetails);
+        this.kind = kind;
+        this.aliasName = typeDetails.name;
+        this.aliasOf = new TypeReference(typeDetails.aliasOf, kind.services);
+
+        // the identifier does not depend on the aliased type, but the alias type is completed only after the aliased type is known
+        this.defineTheInitializationProcessOfThisType({
+            preconditionsForCompleted: {
+                referencesToBeIdentifiable: [this.aliasOf],
+            },
+            referencesRelevantForInvalidation: [this.aliasOf],
+            onIdentifiable: () => {
+                // the identifier is calculated now
+                this.identifier = this.kind.calculateIdentifier(typeDetails);
+                // the registration of the type in the type graph is done by the TypeInitializer
+            },
+            onCompleted: () => {
+                // no additional checks so far
+            },
+            onInvalidated: () => {
+                // nothing to do
+            },
+        });
+    }
+
+    override getName(): string {
+        return this.aliasName;
+    }
+
+    override getUserRepresentation(): string {
+        const aliasedType = this.aliasOf.getType();
+        return `${this.aliasName} = ${aliasedType ? aliasedType.getUserRepresentation() : '?'}`;
+    }
+
+    getAliasedType(): Type {
+        const type = this.aliasOf.getType();
+        if (type) {
+            return type;
+        } else {
+            throw new Error(`The aliased type of '${this.aliasName}' is not resolved.`);
+        }
+    }
+
+    /** Aliases are transparent for the relationships between types, i.e. the relationships are stored at the (finally) aliased type. */
+    override getTypeForRelationships(): Type {
+        return resolveAliases(this);
+    }
+
+    override analyzeTypeEqualityProblems(otherType: Type): TypirProblem[] {
+        // aliases are transparent, i.e. the aliased type is compared
+        const aliasedType = this.aliasOf.getType();
+        if (aliasedType) {
+            const problem = this.kind.services.Equality.getTypeEqualityProblem(aliasedType, otherType);
+            return problem ? [problem] : [];
+        } else {
+            return [<TypeEqualityProblem>{
+                $problem: TypeEqualityProblem,
+                type1: this,
+                type2: otherType,
+                subProblems: [], // the aliased type is not yet known
+            }];
+        }
+    }
+
+}
+
+export function isAliasType(type: unknown): type is AliasType {
+    return isType(type) && isAliasKind(type.kind);
+}
+
+/**
+ * Resolves (nested) aliases to the finally aliased type, since aliases are transparent for the relationships between types.
+ * @param type the type which might be an alias
+ * @returns the aliased type, or the given type, if it is no alias or if its aliased type is not yet resolved
+ */
+export function resolveAliases(type: Type): Type {
+    const visited: Set<Type> = new Set();
+    while (isAliasType(type) && visited.has(type) === false) {
+        visited.add(type);
+        const aliasedType = type.aliasOf.getType();
+        if (aliasedType) {
+            type = aliasedType;
+        } else {
+            break;
+        }
+    }
+    return type;
+}
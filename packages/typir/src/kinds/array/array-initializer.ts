@@ -0,0 +1,79 @@
+/******************************************************************************
+ * Copyright 2025 TypeFox GmbH
+ * This program and the accompanying materials are made available under the
+ * terms of the MIT License, which is available in the project root.
+ ******************************************************************************/
+
+import { Type, TypeStateListener } from '../../graph/type-node.js';
+import { TypeInitializer } from '../../initialization/type-initializer.js';
+import { InferenceRuleNotApplicable, TypeInferenceRule } from '../../services/inference.js';
+import { TypirServices } from '../../typir.js';
+import { assertType } from '../../utils/utils.js';
+import { ArrayKind, CreateArrayTypeDetails } from './array-kind.js';
+import { ArrayType, isArrayType } from './array-type.js';
+
+export class ArrayTypeInitializer extends TypeInitializer<ArrayType> implements TypeStateListener {
+    protected readonly typeDetails: CreateArrayTypeDetails;
+    protected readonly kind: ArrayKind;
+    protected inferenceRules: TypeInferenceRule[];
+    protected initialArrayType: ArrayType;
+
+    constructor(services: TypirServices, kind: ArrayKind, typeDetails: CreateArrayTypeDetails) {
+        super(services);
+        this.typeDetails = typeDetails;
+        this.kind = kind;
+
+        // create the array type
+        this.initialArrayType = new ArrayType(kind, typeDetails);
+
+        this.inferenceRules = this.createInferenceRules(this.typeDetails, this.initialArrayType);
+        // register all the inference rules already now to enable early type inference for this array type
+        this.inferenceRules.forEach(rule => services.Inference.addInferenceRule(rule, undefined)); // 'undefined', since the Identifier is still missing
+
+        this.initialArrayType.addListener(this, true); // trigger directly, if some initialization states are already reached!
+    }
+
+    onSwitchedToIdentifiable(arrayType: Type): void {
+        assertType(arrayType, isArrayType);
+        const readyArrayType = this.producedType(arrayType);
+
+        // remove the inference rules for the not yet identifiable type
+        this.inferenceRules.forEach(rule => this.services.Inference.removeInferenceRule(rule, undefined));
+        if (readyArrayType !== arrayType) {
+            // the same array type was already created earlier => skip the new array type
+            arrayType.removeListener(this);
+            // but re-create the inference rules for the existing type!
+            this.inferenceRules = this.createInferenceRules(this.typeDetails, readyArrayType);
+        }
+        this.inferenceRules.forEach(rule => this.services.Inference.addInferenceRule(rule, readyArrayType));
+    }
+
+    onSwitchedToCompleted(arrayType: Type): void {
+        // the work of this initializer is done now
+        arrayType.removeListener(this);
+    }
+
+    onSwitchedToInvalid(_arrayType: Type): void {
+        // nothing specific needs to be done for arrays here, since the base implementation takes already care about all relevant stuff
+    }
+
+    override getTypeInitial(): ArrayType {
+        return this.initialArrayType;
+    }
+
+    protected createInferenceRules(typeDetails: CreateArrayTypeDetails, arrayType: ArrayType): TypeInferenceRule[] {
+        const result: TypeInferenceRule[] = [];
+        if (typeDetails.inferenceRuleForDeclaration) {
+            result.push((languageNode, _typir) => {
+                if (typeDetails.inferenceRuleForDeclaration!(languageNode)) {
+                    return arrayType;
+                } else {
+                    return InferenceRuleNotApplicable;
+                }
+            });
+        }
+        // the inference rules for literals and index accesses are registered by the kind, since they are not bound to a particular array type
+        return result;
+    }
+
+}
@@ -0,0 +1,185 @@
+/******************************************************************************
+ * Copyright 2025 TypeFox GmbH
+ * This program and the accompanying materials are made available under the
+ * terms of the MIT License, which is available in the project root.
+ ******************************************************************************/
+
+import { Type, TypeDetails } from '../../graph/type-node.js';
+import { TypeInitializer } from '../../initialization/type-initializer.js';
+import { TypeReference } from '../../initialization/type-reference.js';
+import { TypeSelector } from '../../initialization/type-selector.js';
+import { InferenceProblem, InferenceRuleNotApplicable } from '../../services/inference.js';
+import { TypirServices } from '../../typir.js';
+import { TypirProblem } from '../../utils/utils-definitions.js';
+import { calculateCommonSuperType, getOrCreateType, resolveFallbackType } from '../../utils/utils-type-comparison.js';
+import { analyzeVarianceProblems, ParameterVariance } from '../fixed-parameters/fixed-parameters-kind.js';
+import { DerivedSubTypes } from '../derived-subtypes.js';
+import { isKind, Kind } from '../kind.js';
+import { ArrayTypeInitializer } from './array-initializer.js';
+import { ArrayType, isArrayType } from './array-type.js';
+
+export interface ArrayKindOptions {
+    /** Describes, how the sub-type relationship of the element types influences the sub-type relationship of the array types, e.g. `integer[]` is a sub-type of `double[]` for 'COVARIANT'. */
+    elementVariance: ParameterVariance,
+    /** The element type for empty array literals and for array literals whose elements have no common super type. If undefined, the top type is used. */
+    fallbackElementType: TypeSelector | undefined,
+    /** Will be used only internally as prefix for the unique identifiers for array type names. */
+    identifierPrefix: string,
+}
+
+export interface ArrayTypeDetails extends TypeDetails {
+    elementType: TypeSelector,
+}
+
+export interface CreateArrayTypeDetails extends ArrayTypeDetails {
+    inferenceRuleForDeclaration?: (languageNode: unknown) => boolean,
+}
+
+export type InferArrayLiteral<T = unknown> = {
+    filter: (languageNode: unknown) => languageNode is T;
+    matching: (languageNode: T) => boolean;
+    inputValuesForElements: (languageNode: T) => unknown[]; // the values for the elements of the array, might be empty
+};
+
+export type InferArrayIndexAccess<T = unknown> = {
+    filter: (languageNode: unknown) => languageNode is T;
+    matching: (languageNode: T) => boolean;
+    array: (languageNode: T) => unknown; // the language node whose type is the accessed array type
+};
+
+export const ArrayKindName = 'ArrayKind';
+
+export interface ArrayFactoryService {
+    create(typeDetails: CreateArrayTypeDetails): TypeInitializer<ArrayType>;
+    get(typeDetails: ArrayTypeDetails): TypeReference<ArrayType>;
+    calculateIdentifier(typeDetails: ArrayTypeDetails): string;
+    /** The inference rule for array literals creates the array types on demand, since their element types depend on the actual elements. */
+    addInferenceRuleForLiterals<T>(rule: InferArrayLiteral<T>): void;
+    /** The inference rule for index accesses infers the element type of the accessed array type. */
+    addInferenceRuleForIndexAccess<T>(rule: InferArrayIndexAccess<T>): void;
+    /**
+     * Calculates the most specific type, to which all the given types are equal or of which they are sub-types.
+     * @param types the types, e.g. of the elements of an array literal
+     * @returns the common super type or undefined, if there are no types, no common super type or no unique most specific common super type
+     */
+    calculateCommonSuperType(types: Type[]): Type | undefined;
+}
+
+/**
+ * Arrays (or lists) have a single element type, e.g. `integer[]`, and are identified by their element type.
+ * In contrast to types with fixed parameters (see `FixedParameterKind`), the element types of array literals are inferred:
+ * The element type of an array literal is the common super type of the types of all its elements,
+ * e.g. `[1, 2.0]` is inferred to `double[]`, if `integer` is a sub-type of `double`.
+ * Since the element type of array literals is known only after inferring the types of their elements,
+ * the inference rules for literals and index accesses are registered for the whole kind and create the array types on demand.
+ */
+export class ArrayKind implements Kind, ArrayFactoryService {
+    readonly $name: 'ArrayKind';
+    readonly services: TypirServices;
+    readonly options: Readonly<ArrayKindOptions>;
+    readonly derivedSubTypes: DerivedSubTypes<ArrayType>;
+
+    constructor(services: TypirServices, options?: Partial<ArrayKindOptions>) {
+        this.$name = ArrayKindName;
+        this.services = services;
+        this.services.infrastructure.Kinds.register(this);
+        this.options = this.collectOptions(options);
+        // the sub-type relationships between array types are derived from the relationships between their element types
+        this.derivedSubTypes = new DerivedSubTypes(services, {
+            isDerivedType: (type): type is ArrayType => isArrayType(type) && type.kind === this,
+            getDependencies: array => [array.getElementType()],
+            isSubType: (subType, superType) => isArrayType(subType) && isArrayType(superType) && subType.analyzeSubTypeProblems(subType, superType).length <= 0,
+        });
+    }
+
+    protected collectOptions(options?: Partial<ArrayKindOptions>): ArrayKindOptions {
+        return {
+            // the default values:
+            elementVariance: 'COVARIANT',
+            fallbackElementType: undefined,
+            identifierPrefix: 'array',
+            // the actually overriden values:
+            ...options
+        };
+    }
+
+    get(typeDetails: ArrayTypeDetails): TypeReference<ArrayType> {
+        return new TypeReference(() => this.calculateIdentifier(typeDetails), this.services);
+    }
+
+    create(typeDetails: CreateArrayTypeDetails): TypeInitializer<ArrayType> {
+        return new ArrayTypeInitializer(this.services, this, typeDetails);
+    }
+
+    getOrCreateArrayType(elementType: Type): ArrayType {
+        // since the element type is already known, the new array type is directly completed
+        return getOrCreateType(this.calculateIdentifier({ elementType }), isArrayType, () => this.create({ elementType }), this.services);
+    }
+
+    addInferenceRuleForLiterals<T>(rule: InferArrayLiteral<T>): void {
+        this.services.Inference.addInferenceRule({
+            inferTypeWithoutChildren: (languageNode, _typir) => {
+                if (rule.filter(languageNode) && rule.matching(languageNode)) {
+                    return rule.inputValuesForElements(languageNode);
+                }
+                return InferenceRuleNotApplicable;
+            },
+            inferTypeWithChildrensTypes: (_languageNode, childrenTypes, _typir) => {
+                // the types of all elements are successfully inferred at this point
+                const elementType = this.calculateCommonSuperType(childrenTypes as Type[]) ?? this.getFallbackElementType();
+                return this.getOrCreateArrayType(elementType);
+            },
+        });
+    }
+
+    addInferenceRuleForIndexAccess<T>(rule: InferArrayIndexAccess<T>): void {
+        this.services.Inference.addInferenceRule({
+            inferTypeWithoutChildren: (languageNode, _typir) => {
+                if (rule.filter(languageNode) && rule.matching(languageNode)) {
+                    return [rule.array(languageNode)];
+                }
+                return InferenceRuleNotApplicable;
+            },
+            inferTypeWithChildrensTypes: (languageNode, childrenTypes, _typir) => {
+                const arrayType = childrenTypes[0];
+                if (isArrayType(arrayType)) {
+                    return arrayType.getElementType();
+                }
+                return <InferenceProblem>{
+                    $problem: InferenceProblem,
+                    languageNode: languageNode,
+                    location: 'accessed array',
+                    subProblems: [],
+                };
+            },
+        });
+    }
+
+    calculateCommonSuperType(types: Type[]): Type | undefined {
+        return calculateCommonSuperType(types, this.services);
+    }
+
+    getFallbackElementType(): Type {
+        return resolveFallbackType(this.options.fallbackElementType, this.services);
+    }
+
+    /**
+     * Analyzes, whether the element type of a sub array fits to the element type of a super array, depending on the configured variance.
+     * @param subElementType the element type of the sub array
+     * @param superElementType the element type of the super array
+     * @returns an empty array, if the element types fit, otherwise the found problems
+     */
+    analyzeElementTypeProblems(subElementType: Type, superElementType: Type): TypirProblem[] {
+        return analyzeVarianceProblems(this.options.elementVariance, subElementType, superElementType, this.services);
+    }
+
+    calculateIdentifier(typeDetails: ArrayTypeDetails): string {
+        const prefix = this.options.identifierPrefix ? this.options.identifierPrefix + '-' : '';
+        return `${prefix}${this.services.infrastructure.TypeResolver.resolve(typeDetails.elementType).getIdentifier()}`;
+    }
+
+}
+
+export function isArrayKind(kind: unknown): kind is ArrayKind {
+    return isKind(kind) && kind.$name === ArrayKindName;
+}
@@ -0,0 +1,100 @@
+/******************************************************************************
+ * Copyright 2025 TypeFox GmbH
+ * This program and the accompanying materials are made available under the
+ * terms of the MIT License, which is available in the project root.
+ ******************************************************************************/
+
+import { isType, Type } from '../../graph/type-node.js';
+import { TypeReference } from '../../initialization/type-reference.js';
+import { TypeEqualityProblem } from '../../services/equality.js';
+import { TypirProblem } from '../../utils/utils-definitions.js';
+import { createKindConflict, IndexedTypeConflict } from '../../utils/utils-type-comparison.js';
+import { toArray } from '../../utils/utils.js';
+import { ArrayKind, ArrayTypeDetails, isArrayKind } from './array-kind.js';
+
+export class ArrayType extends Type {
+    override readonly kind: ArrayKind;
+    protected readonly elementType: TypeReference;
+
+    constructor(kind: ArrayKind, typeDetails: ArrayTypeDetails) {
+        super(undefined, typeDetails);
+        this.kind = kind;
+        this.elementType = new TypeReference(typeDetails.elementType, kind.services);
+
+        // define to wait for the element type
+        this.defineTheInitializationProcessOfThisType({
+            preconditionsForIdentifiable: {
+                referencesToBeIdentifiable: [this.elementType],
+            },
+            referencesRelevantForInvalidation: [this.elementType],
+            onIdentifiable: () => {
+                // the identifier is calculated now
+                this.identifier = this.kind.calculateIdentifier(typeDetails);
+                // the registration of the type in the type graph is done by the TypeInitializer
+            },
+            onCompleted: () => {
+                // duplicated types are not registered in the type graph, i.e. they are not considered for sub-type relationships
+                this.kind.derivedSubTypes.register(this);
+            },
+            onInvalidated: () => {
+                this.kind.derivedSubTypes.unregister(this);
+            },
+        });
+    }
+
+    getElementType(): Type {
+        const type = this.elementType.getType();
+        if (type) {
+            return type;
+        } else {
+            throw new Error('The element type is not resolved.');
+        }
+    }
+
+    override getName(): string {
+        return `${this.getElementType().getName()}[]`;
+    }
+
+    override getUserRepresentation(): string {
+        return `${this.getElementType().getUserRepresentation()}[]`;
+    }
+
+    override analyzeTypeEqualityProblems(otherType: Type): TypirProblem[] {
+        if (isArrayType(otherType)) {
+            return toArray(this.kind.services.Equality.getTypeEqualityProblem(this.getElementType(), otherType.getElementType()));
+        } else {
+            return [<TypeEqualityProblem>{
+                $problem: TypeEqualityProblem,
+                type1: this,
+                type2: otherType,
+                subProblems: [createKindConflict(otherType, this)],
+            }];
+        }
+    }
+
+    /**
+     * Analyzes, whether the given sub array is a sub-type of the given super array:
+     * Their element types need to fit to each other according to the configured variance (see `ArrayKindOptions.elementVariance`).
+     * @param subType the sub array
+     * @param superType the super array
+     * @returns an empty array, if the sub-type relationship exists, otherwise the found conflict
+     */
+    analyzeSubTypeProblems(subType: ArrayType, superType: ArrayType): TypirProblem[] {
+        const subProblems = this.kind.analyzeElementTypeProblems(subType.getElementType(), superType.getElementType());
+        if (subProblems.length >= 1) {
+            return [<IndexedTypeConflict>{
+                $problem: IndexedTypeConflict,
+                expected: superType.getElementType(),
+                actual: subType.getElementType(),
+                propertyName: `element type (${this.kind.options.elementVariance})`,
+                subProblems,
+            }];
+        }
+        return [];
+    }
+
+}
+
+export function isArrayType(type: unknown): type is ArrayType {
+    return isType(type) && isArrayKind(type.kind);
+}
@@ -119,33 +119,80 @@ export class ClassTypeInitializer<T = unknown, T1 = unknown, T2 = unknown> exten
         if (typeDetails.inferenceRuleForReference) {
             result.push(this.createInferenceRuleForLiteral(typeDetails.inferenceRuleForReference, classType));
         }
-        if (typeDetails.inferenceRuleForFieldAccess) {
+        if (typeDetails.inferenceRuleForClassReference) {
             result.push((languageNode, _typir) => {
-                const result = typeDetails.inferenceRuleForFieldAccess!(languageNode);
-                if (result === InferenceRuleNotApplicable) {
-                    return InferenceRuleNotApplicable;
-                } else if (typeof result === 'string') {
-                    // get the type of the given field name
-                    const fieldType = classType.getFields(true).get(result);
-                    if (fieldType) {
-                        return fieldType;
+                if (typeDetails.inferenceRuleForClassReference!(languageNode)) {
+                    if (classType.isInStateOrLater('Identifiable')) {
+                        return this.kind.getMetaClassKind().getOrCreateMetaClassType(classType);
                     }
                     return <InferenceProblem>{
                         $problem: InferenceProblem,
                         languageNode: languageNode,
                         inferenceCandidate: classType,
-                        location: `unknown field '${result}'`,
-                        // rule: this, // this does not work with functions ...
+                        location: 'meta class of the referenced class',
                         subProblems: [],
                     };
-                } else {
-                    return result; // do the type inference for this language node instead
                 }
+                return InferenceRuleNotApplicable;
             });
         }
+        if (typeDetails.inferenceRuleForFieldAccess) {
+            result.push((languageNode, typir) => this.inferFieldAccess(typeDetails, typeDetails.inferenceRuleForFieldAccess!(languageNode), false, languageNode, classType, typir));
+        }
+        if (typeDetails.inferenceRuleForStaticFieldAccess) {
+            result.push((languageNode, typir) => this.inferFieldAccess(typeDetails, typeDetails.inferenceRuleForStaticFieldAccess!(languageNode), true, languageNode, classType, typir));
+        }
         return result;
     }
 
+    protected inferFieldAccess<T, T1, T2>(typeDetails: CreateClassTypeDetails<T, T1, T2>, result: unknown, staticAccess: boolean,
+        languageNode: unknown, classType: ClassType, typir: TypirServices): Type | unknown | InferenceProblem | InferenceRuleNotApplicable {
+        if (result === InferenceRuleNotApplicable) {
+            return InferenceRuleNotApplicable;
+        } else if (typeof result === 'string') {
+            // get the type of the given field name
+            const field = classType.getField(result, true);
+            if (field) {
+                // static fields are accessed via the class, but not via its instances
+                if (staticAccess && field.modifiers.static !== true) {
+                    return <InferenceProblem>{
+                        $problem: InferenceProblem,
+                        languageNode: languageNode,
+                        inferenceCandidate: classType,
+                        location: `non-static field '${result}'`,
+                        subProblems: [],
+                    };
+                }
+                // check the visibility of the field, if the class containing the access is known
+                if (typeDetails.accessingClassForFieldAccess) {
+                    const accessingNode = typeDetails.accessingClassForFieldAccess(languageNode);
+                    const accessingType = accessingNode === undefined ? undefined : typir.Inference.inferType(accessingNode);
+                    const accessingClass = isClassType(accessingType) ? accessingType : undefined;
+                    if (this.kind.isMemberAccessible(field.modifiers, field.declaringClass, accessingClass) === false) {
+                        return <InferenceProblem>{
+                            $problem: InferenceProblem,
+                            languageNode: languageNode,
+                            inferenceCandidate: classType,
+                            location: `${field.modifiers.visibility} field '${result}'`,
+                            subProblems: [],
+                        };
+                    }
+                }
+                return field.type;
+            }
+            return <InferenceProblem>{
+                $problem: InferenceProblem,
+                languageNode: languageNode,
+                inferenceCandidate: classType,
+                location: `unknown field '${result}'`,
+                // rule: this, // this does not work with functions ...
+                subProblems: [],
+            };
+        } else {
+            return result; // do the type inference for this language node instead
+        }
+    }
+
     protected createInferenceRuleForLiteral<T>(rule: InferClassLiteral<T>, classType: ClassType): TypeInferenceRule {
         const mapListConverter = new MapListConverter();
         const kind = this.kind;
@@ -14,9 +14,12 @@ import { TypirServices } from '../../typir.js';
 import { TypeCheckStrategy } from '../../utils/utils-type-comparison.js';
 import { assertTrue, assertType, toArray } from '../../utils/utils.js';
 import { CreateFunctionTypeDetails, FunctionFactoryService } from '../function/function-kind.js';
+import { DerivedSubTypes } from '../derived-subtypes.js';
 import { Kind, isKind } from '../kind.js';
+import { substituteFunctionDetails, substituteTypeVariables, TypeVariableSubstitutions } from '../type-variable/type-variable-substitution.js';
 import { ClassTypeInitializer } from './class-initializer.js';
 import { ClassType, isClassType } from './class-type.js';
+import { isMetaClassKind, MetaClassKind, MetaClassKindName } from './meta-class-kind.js';
 import { TopClassKind, TopClassKindName, isTopClassKind } from './top-class-kind.js';
 
 export interface ClassKindOptions {
@@ -24,28 +27,72 @@ export interface ClassKindOptions {
     /** Values < 0 indicate an arbitrary number of super classes. */
     maximumNumberOfSuperClasses: number,
     subtypeFieldChecking: TypeCheckStrategy,
+    /** Whether private fields of super types are required for structurally typed sub types or not. Static fields are always ignored for structural typing. */
+    privateMembersInStructuralTyping: 'EXCLUDED' | 'REQUIRED',
     /** Will be used only internally as prefix for the unique identifiers for class type names. */
     identifierPrefix: string,
 }
 
 export const ClassKindName = 'ClassKind';
 
+export type MemberVisibility = 'public' | 'protected' | 'private';
+
+/** Modifiers of fields and methods of classes. Members without modifiers are public, non-static, writable and not abstract. */
+export interface MemberModifiers {
+    visibility?: MemberVisibility;
+    static?: boolean;
+    readonly?: boolean;
+    abstract?: boolean;
+}
+
 export interface CreateFieldDetails {
     name: string;
     type: TypeSelector;
+    modifiers?: MemberModifiers;
+}
+
+export interface CreateMethodDetails<T = unknown> extends CreateFunctionTypeDetails<T> {
+    modifiers?: MemberModifiers;
 }
 
+/**
+ * Constructors are functions, which are named like their class and which return their class.
+ * Therefore only the input parameters and the inference rules (in particular for calls of the constructor) need to be specified.
+ */
+export type CreateConstructorDetails<T = unknown> = Omit<CreateFunctionTypeDetails<T>, 'functionName' | 'outputParameter'>;
+
 export interface ClassTypeDetails<T = unknown> extends TypeDetails {
     className: string,
+    /** Abstract classes cannot be instantiated and might have abstract methods (see `MemberModifiers.abstract`). */
+    abstract?: boolean,
     superClasses?: TypeSelector | TypeSelector[],
+    /** Classes might implement an arbitrary number of interfaces, independently from the maximum number of super classes. */
+    implementedInterfaces?: TypeSelector | TypeSelector[],
     fields: CreateFieldDetails[],
-    methods: Array<CreateFunctionTypeDetails<T>>, // all details of functions can be configured for methods as well, in particular, inference rules for function/method calls!
+    methods: Array<CreateMethodDetails<T>>, // all details of functions can be configured for methods as well, in particular, inference rules for function/method calls!
+    /** Explicit constructors of the class, which might be overloaded. Their calls are inferred and validated in the same way as calls of (overloaded) functions.
+     * Constructors are not relevant for the identity of classes and are not taken over by instances of generic classes. */
+    constructors?: Array<CreateConstructorDetails<T>>,
+    /** The type parameters of generic classes, e.g. `T` in `class Box<T>`, which need to be type variables. */
+    typeParameters?: TypeSelector[],
+    /** Only for instances of generic classes, e.g. `Box<number>`: the generic class and the types to use for its type parameters.
+     * Usually, they are not specified directly, but 'ClassFactoryService.instantiate(...)' is used instead. */
+    genericClass?: TypeSelector,
+    typeArguments?: TypeSelector[],
 }
 export interface CreateClassTypeDetails<T = unknown, T1 = unknown, T2 = unknown> extends ClassTypeDetails<T> { // TODO the generics look very bad!
     inferenceRuleForDeclaration?: (languageNode: unknown) => boolean,
     inferenceRuleForConstructor?: InferClassLiteral<T1>, // InferClassLiteral<T> | Array<InferClassLiteral<T>>, does not work: https://stackoverflow.com/questions/65129070/defining-an-array-of-differing-generic-types-in-typescript
+    /** for references to the class in type positions, e.g. the type of a variable => returns the class type */
     inferenceRuleForReference?: InferClassLiteral<T2>,
+    /** for references to the class itself in value positions, e.g. `Math` in `Math.max(...)` => returns the meta class type (see `MetaClassKind`) */
+    inferenceRuleForClassReference?: (languageNode: unknown) => boolean,
+    /** for accesses of static fields via the class itself, e.g. `Math.PI` */
+    inferenceRuleForStaticFieldAccess?: (languageNode: unknown) => string | unknown | InferenceRuleNotApplicable, // name of the static field | language node to infer the type of the field | rule not applicable
     inferenceRuleForFieldAccess?: (languageNode: unknown) => string | unknown | InferenceRuleNotApplicable, // name of the field | language node to infer the type of the field (e.g. the type) | rule not applicable
+    /** Returns the language node of the class declaration, which contains the given field access, or undefined for accesses outside of classes.
+     * If specified, the visibility of accessed fields is respected by the inference rule for field accesses. */
+    accessingClassForFieldAccess?: (languageNode: unknown) => unknown,
     // inference rules for Method calls are part of "methods: CreateFunctionTypeDetails[]" above!
 }
 
@@ -59,16 +106,25 @@ export type InferClassLiteral<T = unknown> = {
     inputValuesForFields: (languageNode: T) => Map<string, unknown>; // simple field name (including inherited fields) => value for this field!
 };
 
+export interface InstantiateClassTypeDetails {
+    /** The generic class to instantiate, e.g. `Box<T>`. */
+    genericClass: TypeSelector,
+    /** The types to use for the type parameters of the generic class, e.g. `number` for `Box<number>`. */
+    typeArguments: TypeSelector[],
+}
+
 
 export interface ClassFactoryService {
     create<T, T1, T2>(typeDetails: CreateClassTypeDetails<T, T1, T2>): TypeInitializer<ClassType>;
     get<T>(typeDetails: ClassTypeDetails<T> | string): TypeReference<ClassType>;
+    instantiate(typeDetails: InstantiateClassTypeDetails): TypeReference<ClassType>;
 }
 
 /**
  * Classes have a name and have an arbitrary number of fields, consisting of a name and a type, and an arbitrary number of super-classes.
  * Fields have exactly one type and no multiplicity (which can be realized with a type of kind 'MultiplicityKind').
- * Fields have exactly one name which must be unique for the current class (TODO what about same field names in extended class?).
+ * Fields have exactly one name which must be unique for the current class.
+ * Fields of sub-classes might shadow fields of super-classes with the same name, incompatible types of such fields and incompatible overriding methods are reported by the `ClassOverrideValidation`.
  * The field name is used to identify fields of classes.
  * The order of fields is not defined, i.e. there is no order of fields.
  */
@@ -76,6 +132,7 @@ export class ClassKind implements Kind, ClassFactoryService {
     readonly $name: 'ClassKind';
     readonly services: TypirServices;
     readonly options: Readonly<ClassKindOptions>;
+    readonly derivedSubTypes: DerivedSubTypes<ClassType>;
 
     constructor(services: TypirServices, options?: Partial<ClassKindOptions>) {
         this.$name = ClassKindName;
@@ -83,6 +140,14 @@ export class ClassKind implements Kind, ClassFactoryService {
         this.services.infrastructure.Kinds.register(this);
         this.options = this.collectOptions(options);
         assertTrue(this.options.maximumNumberOfSuperClasses >= 0); // no negative values
+        // the sub-type relationships between structurally typed classes are derived from the relationships between the types of their fields
+        this.derivedSubTypes = new DerivedSubTypes(services, {
+            isDerivedType: (type): type is ClassType => isClassType(type) && this.options.typing === 'Structural',
+            getDependencies: classType => Array.from(classType.getFieldsForStructuralTyping().values()), // including fields of super-classes
+            isSubType: (subType, superType) => isClassType(subType) && isClassType(superType)
+                && subType.hasSubSuperClassCycles() === false && superType.hasSubSuperClassCycles() === false // cycles are reported by a dedicated validation
+                && subType.analyzeSubTypeProblems(subType, superType).length <= 0,
+        });
     }
 
     protected collectOptions(options?: Partial<ClassKindOptions>): ClassKindOptions {
@@ -91,6 +156,7 @@ export class ClassKind implements Kind, ClassFactoryService {
             typing: 'Nominal',
             maximumNumberOfSuperClasses: 1,
             subtypeFieldChecking: 'EQUAL_TYPE',
+            privateMembersInStructuralTyping: 'EXCLUDED',
             identifierPrefix: 'class',
             // the actually overriden values:
             ...options
@@ -123,6 +189,52 @@ export class ClassKind implements Kind, ClassFactoryService {
         return new ClassTypeInitializer(this.services, this, typeDetails);
     }
 
+    /**
+     * For the use case, that a generic class is used with concrete types for its type parameters, e.g. `Box<number>` for `class Box<T> { value: T }`.
+     * The type variables in the fields, methods and super classes of the generic class are replaced by the given type arguments.
+     * Instances are created only once, i.e. instantiating the same generic class with the same type arguments results in the same class type.
+     * The generic class and the type arguments need to be resolvable and the generic class needs to be completed.
+     * @param typeDetails the generic class and the type arguments
+     * @returns a reference to the instantiated class type
+     */
+    instantiate(typeDetails: InstantiateClassTypeDetails): TypeReference<ClassType> {
+        const resolver = this.services.infrastructure.TypeResolver;
+        const genericClass = resolver.resolve(typeDetails.genericClass);
+        assertType(genericClass, isClassType);
+        const typeParameters = genericClass.getTypeParameters();
+        const typeArguments = typeDetails.typeArguments.map(arg => resolver.resolve(arg));
+        if (typeParameters.length <= 0) {
+            throw new Error(`The class '${genericClass.getName()}' is not generic.`);
+        }
+        if (typeParameters.length !== typeArguments.length) {
+            throw new Error(`The generic class '${genericClass.getName()}' has ${typeParameters.length} type parameters, but ${typeArguments.length} type arguments are given.`);
+        }
+
+        // instantiate each generic class with the same type arguments only once (this key works for nominal and structural typing)
+        const instanceIdentifier = this.calculateIdentifierWithClassNameOnly({ className: genericClass.className, typeArguments, fields: [], methods: [] });
+        if (this.services.infrastructure.Graph.getType(instanceIdentifier) === undefined) {
+            const substitutions: TypeVariableSubstitutions = new Map(typeParameters.map((parameter, index) => [parameter, typeArguments[index]]));
+            this.create({
+                className: genericClass.className,
+                abstract: genericClass.isAbstract(),
+                genericClass,
+                typeArguments,
+                superClasses: genericClass.getDeclaredSuperClasses().map(superClass => substituteTypeVariables(superClass, substitutions, this.services)),
+                implementedInterfaces: genericClass.getDeclaredInterfaces(),
+                fields: Array.from(genericClass.getFields(false).entries()).map(([name, type]) => <CreateFieldDetails>{
+                    name,
+                    type: substituteTypeVariables(type, substitutions, this.services),
+                    modifiers: genericClass.getField(name, false)?.modifiers,
+                }),
+                methods: genericClass.getMethods(false).map(method => <CreateMethodDetails>{
+                    ...substituteFunctionDetails(method, substitutions, this.services),
+                    modifiers: genericClass.getMethodModifiers(method),
+                }),
+            });
+        }
+        return new TypeReference(instanceIdentifier, this.services);
+    }
+
     getIdentifierPrefix(): string {
         return this.options.identifierPrefix ? this.options.identifierPrefix + '-' : '';
     }
@@ -166,7 +278,7 @@ export class ClassKind implements Kind, ClassFactoryService {
                 .sort()
                 .join(',');
             // complete identifier (the name of the class does not matter for structural typing!)
-            return `${this.getIdentifierPrefix()}fields{${fields}}-methods{${methods}}-extends{${superClasses}}`;
+            return `${this.getIdentifierPrefix()}fields{${fields}}-methods{${methods}}-extends{${superClasses}}${this.calculateTypeArgumentsSuffix(typeDetails)}`;
         } else if (this.options.typing === 'Nominal') {
             // only the name of the class matters for nominal typing!
             return this.calculateIdentifierWithClassNameOnly(typeDetails);
@@ -183,13 +295,71 @@ export class ClassKind implements Kind, ClassFactoryService {
      * @returns the identifier based on the class name
      */
     calculateIdentifierWithClassNameOnly<T>(typeDetails: ClassTypeDetails<T>): string {
-        return `${this.getIdentifierPrefix()}${typeDetails.className}`;
+        return `${this.getIdentifierPrefix()}${typeDetails.className}${this.calculateTypeArgumentsSuffix(typeDetails)}`;
+    }
+
+    /**
+     * Instances of generic classes are distinguished by their type arguments, e.g. `Box<number>` and `Box<string>`.
+     * @param typeDetails the details of the class
+     * @returns the suffix for the identifier, which is empty for classes which are no instances of generic classes
+     */
+    protected calculateTypeArgumentsSuffix<T>(typeDetails: ClassTypeDetails<T>): string {
+        if (typeDetails.typeArguments === undefined || typeDetails.typeArguments.length <= 0) {
+            return '';
+        }
+        return `<${typeDetails.typeArguments.map(arg => this.services.infrastructure.TypeResolver.resolve(arg).getIdentifier()).join(',')}>`;
+    }
+
+    /**
+     * Checks, whether a member with the given modifiers, which is declared in the given class, is accessible from the given class.
+     * Public members are accessible everywhere, protected members only inside of the declaring class and its sub-classes,
+     * private members only inside of the declaring class.
+     * @param modifiers the modifiers of the accessed member
+     * @param declaringClass the class which declares the accessed member
+     * @param accessingClass the class which contains the access, undefined for accesses outside of classes
+     * @returns true, if the access is allowed
+     */
+    isMemberAccessible(modifiers: MemberModifiers, declaringClass: ClassType, accessingClass: ClassType | undefined): boolean {
+        const visibility = modifiers.visibility ?? 'public';
+        switch (visibility) {
+            case 'public':
+                return true;
+            case 'protected':
+                return accessingClass !== undefined && accessingClass.getAllSuperClasses(true).has(declaringClass);
+            case 'private':
+                return accessingClass === declaringClass;
+            default:
+                assertUnreachable(visibility);
+        }
+    }
+
+    printModifiers(modifiers: MemberModifiers): string {
+        const result: string[] = [];
+        if (modifiers.visibility && modifiers.visibility !== 'public') {
+            result.push(modifiers.visibility);
+        }
+        if (modifiers.static) {
+            result.push('static');
+        }
+        if (modifiers.readonly) {
+            result.push('readonly');
+        }
+        if (modifiers.abstract) {
+            result.push('abstract');
+        }
+        return result.map(modifier => `${modifier} `).join('');
     }
 
     getMethodFactory(): FunctionFactoryService {
         return this.services.factory.Functions;
     }
 
+    getMetaClassKind(): MetaClassKind {
+        // ensure, that Typir uses the predefined 'MetaClass' kind
+        const kind = this.services.infrastructure.Kinds.get(MetaClassKindName);
+        return isMetaClassKind(kind) ? kind : new MetaClassKind(this.services);
+    }
+
     getTopClassKind(): TopClassKind {
         // ensure, that Typir uses the predefined 'TopClass' kind
         const kind = this.services.infrastructure.Kinds.get(TopClassKindName);
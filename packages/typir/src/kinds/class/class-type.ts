@@ -10,12 +10,16 @@ import { TypeEqualityProblem } from '../../services/equality.js';
 import { TypirProblem } from '../../utils/utils-definitions.js';
 import { checkNameTypesMap, checkValueForConflict, createKindConflict, createTypeCheckStrategy, IndexedTypeConflict } from '../../utils/utils-type-comparison.js';
 import { assertUnreachable, toArray } from '../../utils/utils.js';
+import { NO_PARAMETER_NAME } from '../function/function-kind.js';
 import { FunctionType } from '../function/function-type.js';
-import { ClassKind, ClassTypeDetails, isClassKind } from './class-kind.js';
+import { InterfaceType } from '../interface/interface-type.js';
+import { isTypeVariableType, TypeVariableType } from '../type-variable/type-variable-type.js';
+import { ClassKind, ClassTypeDetails, isClassKind, MemberModifiers } from './class-kind.js';
 
 export interface FieldDetails {
     name: string;
     type: TypeReference<Type>;
+    modifiers: MemberModifiers;
 }
 
 /**
@@ -26,17 +30,31 @@ export interface FieldDetails {
  */
 export interface MethodDetails {
     type: TypeReference<FunctionType>;
-    // methods might have some more properties in the future
+    modifiers: MemberModifiers;
+}
+
+/** A resolved field or method of a class together with its modifiers and the class which declares it. */
+export interface ClassMember<T extends Type = Type> {
+    name: string;
+    type: T;
+    modifiers: MemberModifiers;
+    declaringClass: ClassType;
 }
 
 export class ClassType extends Type {
     override readonly kind: ClassKind;
     readonly className: string;
+    protected readonly abstractClass: boolean;
     /** The super classes are readonly, since they might be used to calculate the identifier of the current class, which must be stable. */
     protected superClasses: Array<TypeReference<ClassType>>; // if necessary, the array could be replaced by Map<string, ClassType>: name/form -> ClassType, for faster look-ups
+    protected readonly implementedInterfaces: Array<TypeReference<InterfaceType>>;
     protected readonly subClasses: ClassType[] = []; // additional sub classes might be added later on!
     protected readonly fields: Map<string, FieldDetails> = new Map(); // unordered
     protected methods: MethodDetails[]; // unordered
+    protected readonly constructors: Array<TypeReference<FunctionType>>; // unordered
+    protected readonly typeParameters: Array<TypeReference<TypeVariableType>>; // only for generic classes
+    protected readonly genericClass: TypeReference<ClassType> | undefined; // only for instances of generic classes
+    protected readonly typeArguments: TypeReference[]; // only for instances of generic classes
 
     constructor(kind: ClassKind, typeDetails: ClassTypeDetails) {
         super(kind.options.typing === 'Nominal'
@@ -45,6 +63,7 @@ export class ClassType extends Type {
         typeDetails);
         this.kind = kind;
         this.className = typeDetails.className;
+        this.abstractClass = typeDetails.abstract ?? false;
 
         // eslint-disable-next-line @typescript-eslint/no-this-alias
         const thisType = this;
@@ -72,11 +91,15 @@ export class ClassType extends Type {
             return superRef;
         });
 
+        // resolve the implemented interfaces (the sub-type relationships are established, when this class is completed)
+        this.implementedInterfaces = toArray(typeDetails.implementedInterfaces).map(implemented => new TypeReference<InterfaceType>(implemented, kind.services));
+
         // resolve fields
         typeDetails.fields
             .map(field => <FieldDetails>{
                 name: field.name,
                 type: new TypeReference(field.type, kind.services),
+                modifiers: field.modifiers ?? {},
             })
             .forEach(field => {
                 if (this.fields.has(field.name)) {
@@ -92,10 +115,29 @@ export class ClassType extends Type {
         // resolve methods
         this.methods = typeDetails.methods.map(method => <MethodDetails>{
             type: new TypeReference(kind.getMethodFactory().create(method), kind.services),
+            modifiers: method.modifiers ?? {},
         });
         const refMethods = this.methods.map(m => m.type);
         // the uniqueness of methods can be checked with the predefined UniqueMethodValidation below
 
+        // resolve constructors: since they return this class, they are neither relevant for the identifier nor for the completion of this class
+        const classIdentifier = kind.calculateIdentifierWithClassNameOnly(typeDetails); // this identifier is known for nominal and structural classes already now
+        this.constructors = toArray(typeDetails.constructors).map(constructorDetails => new TypeReference(kind.getMethodFactory().create({
+            ...constructorDetails,
+            functionName: this.className,
+            outputParameter: { name: NO_PARAMETER_NAME, type: classIdentifier },
+            associatedLanguageNode: constructorDetails.associatedLanguageNode ?? typeDetails.associatedLanguageNode,
+        }), kind.services));
+
+        // resolve type parameters and type arguments of generic classes
+        this.typeParameters = toArray(typeDetails.typeParameters).map(parameter => new TypeReference<TypeVariableType>(parameter, kind.services));
+        this.genericClass = typeDetails.genericClass !== undefined ? new TypeReference<ClassType>(typeDetails.genericClass, kind.services) : undefined;
+        this.typeArguments = toArray(typeDetails.typeArguments).map(argument => new TypeReference(argument, kind.services));
+        const refGenerics: TypeReference[] = [...this.typeParameters, ...this.typeArguments];
+        if (this.genericClass) {
+            refGenerics.push(this.genericClass);
+        }
+
         // const all: Array<TypeReference<Type | FunctionType>> = [];
         const fieldsAndMethods: Array<TypeReference<Type>> = [];
         fieldsAndMethods.push(...refFields);
@@ -104,18 +146,24 @@ export class ClassType extends Type {
 
         this.defineTheInitializationProcessOfThisType({
             preconditionsForIdentifiable: {
-                referencesToBeIdentifiable: fieldsAndMethods,
+                referencesToBeIdentifiable: [...fieldsAndMethods, ...refGenerics],
             },
             preconditionsForCompleted: {
-                referencesToBeCompleted: this.superClasses as unknown as Array<TypeReference<Type>>,
+                referencesToBeCompleted: [...(this.superClasses as unknown as Array<TypeReference<Type>>), ...this.implementedInterfaces],
             },
-            referencesRelevantForInvalidation: [...fieldsAndMethods, ...(this.superClasses as unknown as Array<TypeReference<Type>>)],
+            referencesRelevantForInvalidation: [...fieldsAndMethods, ...refGenerics, ...(this.superClasses as unknown as Array<TypeReference<Type>>), ...this.implementedInterfaces],
             onIdentifiable: () => {
                 // the identifier is calculated now
                 this.identifier = this.kind.calculateIdentifier(typeDetails); // TODO it is still not nice, that the type resolving is done again, since the TypeReferences here are not reused
                 // the registration of the type in the type graph is done by the TypeInitializer
             },
             onCompleted: () => {
+                // type parameters need to be type variables
+                const typeParameters: Type[] = this.getTypeParameters();
+                const noTypeVariables = typeParameters.filter(parameter => isTypeVariableType(parameter) === false);
+                if (noTypeVariables.length >= 1) {
+                    throw new Error(`The type parameters of the class '${this.className}' need to be type variables: ${noTypeVariables.map(t => t.getName()).join(', ')}`);
+                }
                 // when all super classes are completely available, do the following checks:
                 // check number of allowed super classes
                 if (this.kind.options.maximumNumberOfSuperClasses >= 0) {
@@ -123,15 +171,22 @@ export class ClassType extends Type {
                         throw new Error(`Only ${this.kind.options.maximumNumberOfSuperClasses} super-classes are allowed.`);
                     }
                 }
+                // classes are sub-types of their implemented interfaces (whether they really conform to them, is checked by a dedicated validation)
+                for (const implementedInterface of this.getDeclaredInterfaces()) {
+                    this.kind.services.Subtype.markAsSubType(this, implementedInterface, { checkForCycles: false });
+                }
+                // structurally typed classes are sub-types of all classes with fitting fields (duplicated types are not registered in the type graph, i.e. they are not considered for sub-type relationships)
+                this.kind.derivedSubTypes.register(this);
             },
             onInvalidated: () => {
-                // nothing to do
+                this.kind.derivedSubTypes.unregister(this);
             },
         });
     }
 
     override getName(): string {
-        return `${this.className}`;
+        const generics = this.genericClass ? this.getTypeArguments() : this.getTypeParameters();
+        return generics.length <= 0 ? `${this.className}` : `${this.className}<${generics.map(t => t.getName()).join(', ')}>`;
     }
 
     override getUserRepresentation(): string {
@@ -139,15 +194,15 @@ export class ClassType extends Type {
         // fields
         const fields: string[] = [];
         for (const field of this.getFields(false).entries()) {
-            fields.push(`${field[0]}: ${field[1].getName()}`);
+            fields.push(`${this.kind.printModifiers(this.fields.get(field[0])!.modifiers)}${field[0]}: ${field[1].getName()}`);
         }
         if (fields.length >= 1) {
             slots.push(fields.join(', '));
         }
         // methods
         const methods: string[] = [];
-        for (const method of this.getMethods(false)) {
-            methods.push(`${method.getUserRepresentation()}`);
+        for (const method of this.getMethodMembers(false)) {
+            methods.push(`${this.kind.printModifiers(method.modifiers)}${method.type.getUserRepresentation()}`);
         }
         if (methods.length >= 1) {
             slots.push(methods.join(', '));
@@ -155,15 +210,18 @@ export class ClassType extends Type {
         // super classes
         const superClasses = this.getDeclaredSuperClasses();
         const extendedClasses = superClasses.length <= 0 ? '' : ` extends ${superClasses.map(c => c.getName()).join(', ')}`;
+        // implemented interfaces
+        const interfaces = this.getDeclaredInterfaces();
+        const implementedInterfaces = interfaces.length <= 0 ? '' : ` implements ${interfaces.map(i => i.getName()).join(', ')}`;
         // complete representation
-        return `${this.className}${extendedClasses} { ${slots.join(', ')} }`;
+        return `${this.isAbstract() ? 'abstract ' : ''}${this.getName()}${extendedClasses}${implementedInterfaces} { ${slots.join(', ')} }`;
     }
 
     override analyzeTypeEqualityProblems(otherType: Type): TypirProblem[] {
         if (isClassType(otherType)) {
             if (this.kind.options.typing === 'Structural') {
                 // for structural typing:
-                return checkNameTypesMap(this.getFields(true), otherType.getFields(true), // including fields of super-classes
+                return checkNameTypesMap(this.getFieldsForStructuralTyping(), otherType.getFieldsForStructuralTyping(), // including fields of super-classes
                     (t1, t2) => this.kind.services.Equality.getTypeEqualityProblem(t1, t2));
             } else if (this.kind.options.typing === 'Nominal') {
                 // for nominal typing:
@@ -181,17 +239,18 @@ export class ClassType extends Type {
         }
     }
 
-    protected analyzeSubTypeProblems(subType: ClassType, superType: ClassType): TypirProblem[] {
+    analyzeSubTypeProblems(subType: ClassType, superType: ClassType): TypirProblem[] {
         if (this.kind.options.typing === 'Structural') {
             // for structural typing, the sub type needs to have all fields of the super type with assignable types (including fields of all super classes):
             const conflicts: IndexedTypeConflict[] = [];
-            const subFields = subType.getFields(true);
-            for (const [superFieldName, superFieldType] of superType.getFields(true)) {
+            const subFields = subType.getFieldsForStructuralTyping();
+            const checkStrategy = createTypeCheckStrategy(this.kind.options.subtypeFieldChecking, this.kind.services);
+            for (const [superFieldName, superFieldType] of superType.getFieldsForStructuralTyping()) {
                 if (subFields.has(superFieldName)) {
                     // field is both in super and sub
                     const subFieldType = subFields.get(superFieldName)!;
-                    const checkStrategy = createTypeCheckStrategy(this.kind.options.subtypeFieldChecking, this.kind.services);
-                    const subTypeComparison = checkStrategy(subFieldType, superFieldType);
+                    // equal types are fine as well, since types are no sub-types of themselves
+                    const subTypeComparison = this.kind.services.Equality.areTypesEqual(subFieldType, superFieldType) ? undefined : checkStrategy(subFieldType, superFieldType);
                     if (subTypeComparison !== undefined) {
                         conflicts.push({
                             $problem: IndexedTypeConflict,
@@ -233,6 +292,56 @@ export class ClassType extends Type {
         }
     }
 
+    /**
+     * Returns the type parameters of generic classes, e.g. `T` for `class Box<T>`.
+     * @returns the type parameters, which is empty for classes which are not generic
+     */
+    getTypeParameters(): TypeVariableType[] {
+        return this.typeParameters.map(parameter => {
+            const type = parameter.getType();
+            if (type) {
+                return type;
+            } else {
+                throw new Error('Not all type parameters are resolved.');
+            }
+        });
+    }
+
+    isGeneric(): boolean {
+        return this.typeParameters.length >= 1;
+    }
+
+    /**
+     * Returns the generic class, if this class is an instance of it, e.g. `Box<T>` for `Box<number>`.
+     * @returns the generic class or undefined, if this class is no instance of a generic class
+     */
+    getGenericClass(): ClassType | undefined {
+        if (this.genericClass) {
+            const type = this.genericClass.getType();
+            if (type) {
+                return type;
+            } else {
+                throw new Error('The generic class is not resolved.');
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Returns the types which are used for the type parameters of the generic class, e.g. `number` for `Box<number>`.
+     * @returns the type arguments, which is empty for classes which are no instances of generic classes
+     */
+    getTypeArguments(): Type[] {
+        return this.typeArguments.map(argument => {
+            const type = argument.getType();
+            if (type) {
+                return type;
+            } else {
+                throw new Error('Not all type arguments are resolved.');
+            }
+        });
+    }
+
     getDeclaredSuperClasses(): ClassType[] {
         return this.superClasses.map(superr => {
             const superType = superr.getType();
@@ -294,6 +403,31 @@ export class ClassType extends Type {
         return result;
     }
 
+    getDeclaredInterfaces(): InterfaceType[] {
+        return this.implementedInterfaces.map(implemented => {
+            const interfaceType = implemented.getType();
+            if (interfaceType) {
+                return interfaceType;
+            } else {
+                throw new Error('Not all implemented interfaces are resolved.');
+            }
+        });
+    }
+
+    /**
+     * Collects the interfaces, which are implemented by this class or by its super classes, including their super interfaces.
+     * @returns all implemented interfaces
+     */
+    getAllImplementedInterfaces(): Set<InterfaceType> {
+        const result = new Set<InterfaceType>();
+        for (const clas of this.getAllSuperClasses(true)) {
+            for (const implemented of clas.getDeclaredInterfaces()) {
+                implemented.getAllSuperInterfaces(true).forEach(i => result.add(i));
+            }
+        }
+        return result;
+    }
+
     hasSubSuperClassCycles(): boolean {
         return this.getAllSuperClasses(false).has(this);
     }
@@ -304,7 +438,7 @@ export class ClassType extends Type {
     }
 
     getFields(withSuperClassesFields: boolean): Map<string, Type> {
-        // in case of conflicting field names, the type of the sub-class takes precedence! TODO check this
+        // in case of conflicting field names, the type of the sub-class takes precedence! (incompatible types are reported by the ClassOverrideValidation)
         const result = new Map();
         // fields of super classes
         if (withSuperClassesFields) {
@@ -327,6 +461,123 @@ export class ClassType extends Type {
         return result;
     }
 
+    /**
+     * Returns the field with the given name together with its modifiers and the class which declares it.
+     * In case of shadowed fields, the field of the sub-class takes precedence.
+     * @param fieldName the name of the field
+     * @param withSuperClassesFields if true, the fields of the super classes are searched as well
+     * @returns the field or undefined, if there is no field with this name
+     */
+    getField(fieldName: string, withSuperClassesFields: boolean): ClassMember | undefined {
+        const details = this.fields.get(fieldName);
+        if (details) {
+            const type = details.type.getType();
+            if (type) {
+                return { name: fieldName, type, modifiers: details.modifiers, declaringClass: this };
+            } else {
+                throw new Error('Not all fields are resolved.');
+            }
+        }
+        if (withSuperClassesFields) {
+            this.ensureNoCycles();
+            for (const superClass of this.getDeclaredSuperClasses()) {
+                const superField = superClass.getField(fieldName, true);
+                if (superField) {
+                    return superField;
+                }
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Returns the fields, which are relevant for structural typing:
+     * Static fields are ignored, private fields are considered depending on `ClassKindOptions.privateMembersInStructuralTyping`.
+     */
+    getFieldsForStructuralTyping(): Map<string, Type> {
+        const result = new Map<string, Type>();
+        for (const [name, type] of this.getFields(true)) {
+            const modifiers = this.getField(name, true)!.modifiers;
+            if (modifiers.static) {
+                continue;
+            }
+            if (modifiers.visibility === 'private' && this.kind.options.privateMembersInStructuralTyping === 'EXCLUDED') {
+                continue;
+            }
+            result.set(name, type);
+        }
+        return result;
+    }
+
+    /**
+     * Returns the methods together with their modifiers and the classes which declare them.
+     * @param withSuperClassMethods if true, the methods of the super classes are returned as well
+     * @returns the methods
+     */
+    getMethodMembers(withSuperClassMethods: boolean): Array<ClassMember<FunctionType>> {
+        // own methods
+        const result: Array<ClassMember<FunctionType>> = this.methods.map(m => {
+            const method = m.type.getType();
+            if (method) {
+                return { name: method.functionName, type: method, modifiers: m.modifiers, declaringClass: this };
+            } else {
+                throw new Error('Not all methods are resolved.');
+            }
+        });
+        // methods of super classes
+        if (withSuperClassMethods) {
+            this.ensureNoCycles();
+            for (const superClass of this.getDeclaredSuperClasses()) {
+                result.push(...superClass.getMethodMembers(true));
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Returns the modifiers of the given method, which is declared in this class or in one of its super classes.
+     * @param method the method
+     * @returns the modifiers or undefined, if the method is not part of this class hierarchy
+     */
+    getMethodModifiers(method: FunctionType): MemberModifiers | undefined {
+        return this.getMethodMembers(true).find(member => member.type === method)?.modifiers;
+    }
+
+    isAbstract(): boolean {
+        return this.abstractClass;
+    }
+
+    /**
+     * Returns the abstract methods of this class and its super classes, which are not overridden by this class or by one of the classes in between.
+     * Methods are overriding, if they have the same name and the same number of input parameters (whether their signatures are compatible, is checked by the `ClassOverrideValidation`).
+     * @returns the abstract methods which are not implemented, which is empty for classes which might be instantiated
+     */
+    getUnimplementedAbstractMethods(): Array<ClassMember<FunctionType>> {
+        const allMethods = this.getMethodMembers(true);
+        const result: Array<ClassMember<FunctionType>> = [];
+        for (const method of allMethods) {
+            if (method.modifiers.abstract !== true || result.some(other => other.type === method.type && other.declaringClass === method.declaringClass)) {
+                continue; // concrete methods or abstract methods which are inherited via multiple paths
+            }
+            const overridden = allMethods.some(other => other.declaringClass !== method.declaringClass
+                && other.name === method.name && other.type.getInputs().length === method.type.getInputs().length
+                && other.declaringClass.getAllSuperClasses(false).has(method.declaringClass));
+            if (overridden === false) {
+                result.push(method);
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Returns the explicitly declared constructors of this class. Constructors of super classes are not inherited.
+     * Note that the constructors might be resolved later than this class, since they depend on this class as their output.
+     * @returns the resolved constructors
+     */
+    getConstructors(): FunctionType[] {
+        return this.constructors.map(reference => reference.getType()).filter(constructorType => constructorType !== undefined);
+    }
+
     getMethods(withSuperClassMethods: boolean): FunctionType[] {
         // own methods
         const result = this.methods.map(m => {
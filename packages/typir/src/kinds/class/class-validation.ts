@@ -4,10 +4,14 @@
  * terms of the MIT License, which is available in the project root.
  ******************************************************************************/
 
+import { Type } from '../../graph/type-node.js';
 import { ValidationProblem, ValidationRule, ValidationRuleWithBeforeAfter } from '../../services/validation.js';
 import { TypirServices } from '../../typir.js';
+import { TypirProblem } from '../../utils/utils-definitions.js';
+import { checkTypeArrays, checkTypes, createTypeCheckStrategy, TypeCheckStrategy } from '../../utils/utils-type-comparison.js';
 import { FunctionType, isFunctionType } from '../function/function-type.js';
 import { isClassType, ClassType } from './class-type.js';
+import { isMetaClassType } from './meta-class-type.js';
 
 /**
  * Predefined validation to produce errors, if the same class is declared more than once.
@@ -178,6 +182,154 @@ export class UniqueMethodValidation<T> implements ValidationRuleWithBeforeAfter
 }
 
 
+export interface ClassOverrideValidationOptions {
+    /** Defines the required relationship between the types of parameters of overriding and overridden methods:
+     * The input parameters of the overridden method need to fit to the input parameters of the overriding method (contravariance),
+     * the output of the overriding method needs to fit to the output of the overridden method (covariance). */
+    methodChecking: TypeCheckStrategy;
+    /** Defines the required relationship between the type of a field of a sub-class and the type of the shadowed field of a super-class. */
+    fieldChecking: TypeCheckStrategy;
+}
+
+interface ClassOverrideValidationEntry {
+    languageNode: unknown;
+    classType: ClassType;
+}
+
+/**
+ * Predefined validation to produce errors, if methods of classes override methods of their super-classes with incompatible signatures
+ * or if fields of classes shadow fields of their super-classes with incompatible types.
+ * Methods with the same name and the same number of input parameters are treated as overriding methods.
+ * Since all classes are checked after the validation of all language nodes, errors for duplicated classes are skipped,
+ * if a UniqueClassValidation is given.
+ */
+export class ClassOverrideValidation implements ValidationRuleWithBeforeAfter {
+    protected readonly foundClasses: ClassOverrideValidationEntry[] = [];
+
+    protected readonly services: TypirServices;
+    /** Determines language nodes which represent declared classes, improves performance a lot. */
+    protected readonly isClassDeclaration: (languageNode: unknown) => boolean;
+    protected readonly uniqueClassValidator: UniqueClassValidation | undefined;
+    protected readonly options: ClassOverrideValidationOptions;
+
+    constructor(services: TypirServices,
+        isClassDeclaration: (languageNode: unknown) => boolean,
+        uniqueClassValidator?: UniqueClassValidation,
+        options?: Partial<ClassOverrideValidationOptions>,
+    ) {
+        this.services = services;
+        this.isClassDeclaration = isClassDeclaration;
+        this.uniqueClassValidator = uniqueClassValidator;
+        this.options = {
+            // the default values:
+            methodChecking: 'SUB_TYPE',
+            fieldChecking: 'EQUAL_TYPE',
+            // the actually overriden values:
+            ...options
+        };
+    }
+
+    beforeValidation(_languageRoot: unknown, _typir: TypirServices): ValidationProblem[] {
+        this.foundClasses.splice(0, this.foundClasses.length);
+        return [];
+    }
+
+    validation(languageNode: unknown, _typir: TypirServices): ValidationProblem[] {
+        if (this.isClassDeclaration(languageNode)) { // improves performance, since type inference need to be done only for relevant language nodes
+            const classType = this.services.Inference.inferType(languageNode);
+            if (isClassType(classType) && classType.isInStateOrLater('Completed')) {
+                this.foundClasses.push({ languageNode, classType });
+            }
+        }
+        return [];
+    }
+
+    afterValidation(_languageRoot: unknown, _typir: TypirServices): ValidationProblem[] {
+        const result: ValidationProblem[] = [];
+        for (const { languageNode, classType } of this.foundClasses) {
+            if (this.uniqueClassValidator?.isClassDuplicated(classType) || classType.hasSubSuperClassCycles()) {
+                // ignore duplicated classes and classes with cycles, since there are other errors for them
+            } else {
+                result.push(...this.validateMethods(languageNode, classType));
+                result.push(...this.validateFields(languageNode, classType));
+            }
+        }
+        this.foundClasses.splice(0, this.foundClasses.length);
+        return result;
+    }
+
+    protected validateMethods(languageNode: unknown, classType: ClassType): ValidationProblem[] {
+        const result: ValidationProblem[] = [];
+        const strategy = this.createStrategy(this.options.methodChecking);
+        for (const method of classType.getMethods(false)) {
+            for (const superClass of classType.getAllSuperClasses(false)) {
+                for (const superMethod of superClass.getMethods(false)) {
+                    if (this.isOverriding(method, superMethod) && method !== superMethod) {
+                        const conflicts: TypirProblem[] = [
+                            // input: the inputs of the overridden method need to fit to the inputs of the overriding method
+                            ...checkTypeArrays(superMethod.getInputs(), method.getInputs(), (superr, sub) => strategy(superr, sub), false),
+                            // output: the output of the overriding method needs to fit to the output of the overridden method
+                            ...checkTypes(method.getOutput(), superMethod.getOutput(), (sub, superr) => strategy(sub, superr), false),
+                        ];
+                        if (conflicts.length >= 1) {
+                            result.push({
+                                $problem: ValidationProblem,
+                                languageNode,
+                                severity: 'error',
+                                message: `The method '${method.getUserRepresentation()}' of class '${classType.getName()}' is not compatible with the overridden method '${superMethod.getUserRepresentation()}' of class '${superClass.getName()}'.`,
+                                subProblems: conflicts,
+                            });
+                        }
+                    }
+                }
+            }
+        }
+        return result;
+    }
+
+    protected validateFields(languageNode: unknown, classType: ClassType): ValidationProblem[] {
+        const result: ValidationProblem[] = [];
+        const strategy = this.createStrategy(this.options.fieldChecking);
+        for (const [fieldName, fieldType] of classType.getFields(false)) {
+            for (const superClass of classType.getAllSuperClasses(false)) {
+                const superFieldType = superClass.getFields(false).get(fieldName);
+                if (superFieldType) {
+                    const problem = strategy(fieldType, superFieldType);
+                    if (problem) {
+                        result.push({
+                            $problem: ValidationProblem,
+                            languageNode,
+                            severity: 'error',
+                            message: `The field '${fieldName}' of class '${classType.getName()}' with type '${fieldType.getName()}' shadows the field of class '${superClass.getName()}' with the incompatible type '${superFieldType.getName()}'.`,
+                            subProblems: [problem],
+                        });
+                    }
+                    break; // report only the first shadowed field
+                }
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Decides, whether the given method overrides the given method of a super-class.
+     * Override this method to change the identification of overriding methods.
+     * @param method a method of the current class
+     * @param superMethod a method of a super-class
+     * @returns true, if the method overrides the method of the super-class
+     */
+    protected isOverriding(method: FunctionType, superMethod: FunctionType): boolean {
+        return method.functionName === superMethod.functionName && method.getInputs().length === superMethod.getInputs().length;
+    }
+
+    protected createStrategy(strategy: TypeCheckStrategy): (t1: Type, t2: Type) => TypirProblem | undefined {
+        const check = createTypeCheckStrategy(strategy, this.services);
+        // identical types are fine as well, since types are no sub-types of themselves
+        return (t1, t2) => this.services.Equality.areTypesEqual(t1, t2) ? undefined : check(t1, t2);
+    }
+}
+
+
 /**
  * Predefined validation to produce errors for all those class declarations, whose class type have cycles in their super-classes.
  * @param isRelevant helps to filter out declarations of classes in the user AST,
@@ -204,3 +356,115 @@ export function createNoSuperClassCyclesValidation(isRelevant: (languageNode: un
         return result;
     };
 }
+
+export interface MemberAccessValidationDetails<T> {
+    /** Identifies the language nodes which access fields or methods of classes. */
+    filter: (languageNode: unknown) => languageNode is T;
+    /** Returns the language node whose type is the class with the accessed member, usually the receiver of the access.
+     * If the type of the receiver is a meta class (i.e. the receiver is a reference to the class itself), only static members might be accessed. */
+    receiver: (languageNode: T) => unknown;
+    /** Returns the name of the accessed field or method. */
+    memberName: (languageNode: T) => string;
+    /** Returns the language node of the class declaration, which contains the access, or undefined for accesses outside of classes. */
+    accessingClass: (languageNode: T) => unknown;
+    /** Returns true, if the value of the accessed field is written, e.g. on the left-hand side of an assignment.
+     * Initializations of readonly fields (e.g. in constructors) should not be reported as writes. */
+    isWriteAccess: (languageNode: T) => boolean;
+}
+
+/**
+ * Predefined validation to produce errors for accesses to fields and methods, which are not visible at the place of the access
+ * (private members outside of the declaring class, protected members outside of the class hierarchy),
+ * for accesses to non-static members via the class itself and for writes to readonly fields.
+ */
+export function createMemberAccessValidation<T>(details: MemberAccessValidationDetails<T>): ValidationRule {
+    return (languageNode: unknown, typir: TypirServices) => {
+        const result: ValidationProblem[] = [];
+        if (details.filter(languageNode)) {
+            const receiverType = typir.Inference.inferType(details.receiver(languageNode));
+            const staticAccess = isMetaClassType(receiverType);
+            const classType = staticAccess ? receiverType.classType : receiverType;
+            if (isClassType(classType) && classType.isInStateOrLater('Completed') && classType.hasSubSuperClassCycles() === false) {
+                const memberName = details.memberName(languageNode);
+                const accessingNode = details.accessingClass(languageNode);
+                const accessingType = accessingNode === undefined ? undefined : typir.Inference.inferType(accessingNode);
+                const accessingClass = isClassType(accessingType) ? accessingType : undefined;
+                const field = classType.getField(memberName, true);
+                // in case of overloaded methods, at least one of them needs to be accessible
+                const members = field ? [field] : classType.getMethodMembers(true).filter(method => method.name === memberName);
+                if (members.length >= 1 && members.every(member => classType.kind.isMemberAccessible(member.modifiers, member.declaringClass, accessingClass) === false)) {
+                    result.push({
+                        $problem: ValidationProblem,
+                        languageNode: languageNode,
+                        severity: 'error',
+                        message: `The ${field ? 'field' : 'method'} '${memberName}' of class '${members[0].declaringClass.getName()}' is ${members[0].modifiers.visibility} and cannot be accessed here.`,
+                    });
+                } else if (staticAccess && members.length >= 1 && members.every(member => member.modifiers.static !== true)) {
+                    result.push({
+                        $problem: ValidationProblem,
+                        languageNode: languageNode,
+                        severity: 'error',
+                        message: `The ${field ? 'field' : 'method'} '${memberName}' of class '${members[0].declaringClass.getName()}' is not static and cannot be accessed via the class.`,
+                    });
+                } else if (field && field.modifiers.readonly && details.isWriteAccess(languageNode)) {
+                    result.push({
+                        $problem: ValidationProblem,
+                        languageNode: languageNode,
+                        severity: 'error',
+                        message: `The field '${memberName}' of class '${field.declaringClass.getName()}' is readonly and cannot be written.`,
+                    });
+                }
+            }
+        }
+        return result;
+    };
+}
+
+/**
+ * Predefined validation to produce errors for instantiations of abstract classes.
+ * @param isInstantiation identifies the language nodes which instantiate classes, usually these are the language nodes which are covered by `inferenceRuleForConstructor`
+ * @returns a validation rule which reports instantiations of abstract classes
+ */
+export function createNoAbstractClassInstantiationValidation(isInstantiation: (languageNode: unknown) => boolean): ValidationRule {
+    return (languageNode: unknown, typir: TypirServices) => {
+        const result: ValidationProblem[] = [];
+        if (isInstantiation(languageNode)) {
+            const classType = typir.Inference.inferType(languageNode);
+            if (isClassType(classType) && classType.isAbstract()) {
+                result.push({
+                    $problem: ValidationProblem,
+                    languageNode: languageNode,
+                    severity: 'error',
+                    message: `The abstract class '${classType.getName()}' cannot be instantiated.`,
+                });
+            }
+        }
+        return result;
+    };
+}
+
+/**
+ * Predefined validation to produce errors for classes which are not abstract, but have abstract methods,
+ * which are neither implemented by the class itself nor by one of its super classes.
+ * @param isRelevant identifies the language nodes which declare classes
+ * @returns a validation rule which reports each unimplemented abstract method
+ */
+export function createAbstractMethodsImplementedValidation(isRelevant: (languageNode: unknown) => boolean): ValidationRule {
+    return (languageNode: unknown, typir: TypirServices) => {
+        const result: ValidationProblem[] = [];
+        if (isRelevant(languageNode)) {
+            const classType = typir.Inference.inferType(languageNode);
+            if (isClassType(classType) && classType.isInStateOrLater('Completed') && classType.isAbstract() === false && classType.hasSubSuperClassCycles() === false) {
+                for (const method of classType.getUnimplementedAbstractMethods()) {
+                    result.push({
+                        $problem: ValidationProblem,
+                        languageNode: languageNode,
+                        severity: 'error',
+                        message: `The class '${classType.getName()}' is not abstract and does not implement the abstract method '${method.type.getUserRepresentation()}' of class '${method.declaringClass.getName()}'.`,
+                    });
+                }
+            }
+        }
+        return result;
+    };
+}
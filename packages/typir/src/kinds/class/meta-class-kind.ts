@@ -0,0 +1,86 @@
+/******************************************************************************
+ * Copyright 2025 TypeFox GmbH
+ * This program and the accompanying materials are made available under the
+ * terms of the MIT License, which is available in the project root.
+ ******************************************************************************/
+
+import { TypeGraphListener } from '../../graph/type-graph.js';
+import { Type } from '../../graph/type-node.js';
+import { TypirServices } from '../../typir.js';
+import { assertTrue } from '../../utils/utils.js';
+import { isKind, Kind } from '../kind.js';
+import { ClassType, isClassType } from './class-type.js';
+import { isMetaClassType, MetaClassType } from './meta-class-type.js';
+
+export interface MetaClassKindOptions {
+    /** Will be used only internally as prefix for the unique identifiers for meta class types. */
+    identifierPrefix: string,
+}
+
+export const MetaClassKindName = 'MetaClassKind';
+
+/**
+ * Meta classes are the types of the classes themselves (in contrast to the instances of the classes),
+ * e.g. `Math` in `Math.max(...)` is a reference to the class `Math` and has the meta class type `typeof Math`.
+ * Meta class types provide the static fields and methods of their classes.
+ * They are created on demand, when references to classes in value positions are inferred (see `CreateClassTypeDetails.inferenceRuleForClassReference`),
+ * and they are removed together with their classes.
+ */
+export class MetaClassKind implements Kind, TypeGraphListener {
+    readonly $name: 'MetaClassKind';
+    readonly services: TypirServices;
+    readonly options: Readonly<MetaClassKindOptions>;
+
+    constructor(services: TypirServices, options?: Partial<MetaClassKindOptions>) {
+        this.$name = MetaClassKindName;
+        this.services = services;
+        this.services.infrastructure.Kinds.register(this);
+        this.options = this.collectOptions(options);
+        this.services.infrastructure.Graph.addListener(this); // get informed about removed classes
+    }
+
+    protected collectOptions(options?: Partial<MetaClassKindOptions>): MetaClassKindOptions {
+        return {
+            // the default values:
+            identifierPrefix: 'meta',
+            // the actually overriden values:
+            ...options
+        };
+    }
+
+    getMetaClassType(classType: ClassType): MetaClassType | undefined {
+        const key = this.calculateIdentifier(classType);
+        return this.services.infrastructure.Graph.getType(key) as MetaClassType | undefined;
+    }
+
+    getOrCreateMetaClassType(classType: ClassType): MetaClassType {
+        assertTrue(classType.isInStateOrLater('Identifiable'), `The meta class for the class '${classType.className}' can be created only for identifiable classes.`);
+        const existing = this.getMetaClassType(classType);
+        if (existing) {
+            return existing;
+        }
+        const metaClassType = new MetaClassType(this, this.calculateIdentifier(classType), classType);
+        this.services.infrastructure.Graph.addNode(metaClassType);
+        return metaClassType;
+    }
+
+    calculateIdentifier(classType: ClassType): string {
+        return `${this.options.identifierPrefix}-${classType.getIdentifier()}`;
+    }
+
+    onRemovedType(type: Type, _key: string): void {
+        if (isClassType(type) && type.isInStateOrLater('Identifiable')) {
+            // remove the meta class together with its class
+            const metaClassType = this.getMetaClassType(type);
+            if (metaClassType && metaClassType.classType === type) {
+                this.services.infrastructure.Graph.removeNode(metaClassType);
+            }
+        } else if (isMetaClassType(type)) {
+            // nothing to do
+        }
+    }
+}
+
+export function isMetaClassKind(kind: unknown): kind is MetaClassKind {
+    return isKind(kind) && kind.$name === MetaClassKindName;
+}
@@ -0,0 +1,83 @@
+/******************************************************************************
+ * Copyright 2025 TypeFox GmbH
+ * This program and the accompanying materials are made available under the
+ * terms of the MIT License, which is available in the project root.
+ ******************************************************************************/
+
+import { isType, Type } from '../../graph/type-node.js';
+import { TypeEqualityProblem } from '../../services/equality.js';
+import { TypirProblem } from '../../utils/utils-definitions.js';
+import { createKindConflict } from '../../utils/utils-type-comparison.js';
+import { FunctionType } from '../function/function-type.js';
+import { ClassType } from './class-type.js';
+import { isMetaClassKind, MetaClassKind } from './meta-class-kind.js';
+
+export class MetaClassType extends Type {
+    override readonly kind: MetaClassKind;
+    /** The class, whose static members are described by this meta class. */
+    readonly classType: ClassType;
+
+    constructor(kind: MetaClassKind, identifier: string, classType: ClassType) {
+        super(identifier, {});
+        this.kind = kind;
+        this.classType = classType;
+        this.defineTheInitializationProcessOfThisType({}); // no preconditions, since the class is already identifiable
+    }
+
+    override getName(): string {
+        return `typeof ${this.classType.getName()}`;
+    }
+
+    override getUserRepresentation(): string {
+        const slots: string[] = [];
+        for (const [name, type] of this.getStaticFields()) {
+            slots.push(`${name}: ${type.getName()}`);
+        }
+        for (const method of this.getStaticMethods()) {
+            slots.push(method.getUserRepresentation());
+        }
+        return `${this.getName()} { ${slots.join(', ')} }`;
+    }
+
+    override analyzeTypeEqualityProblems(otherType: Type): TypirProblem[] {
+        if (isMetaClassType(otherType)) {
+            const problem = this.kind.services.Equality.getTypeEqualityProblem(this.classType, otherType.classType);
+            return problem ? [problem] : [];
+        } else {
+            return [<TypeEqualityProblem>{
+                $problem: TypeEqualityProblem,
+                type1: this,
+                type2: otherType,
+                subProblems: [createKindConflict(otherType, this)],
+            }];
+        }
+    }
+
+    /**
+     * Returns the static fields of the class, including the static fields of its super classes.
+     * @returns the names and the types of the static fields
+     */
+    getStaticFields(): Map<string, Type> {
+        const result = new Map<string, Type>();
+        for (const [name, type] of this.classType.getFields(true)) {
+            if (this.classType.getField(name, true)?.modifiers.static) {
+                result.set(name, type);
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Returns the static methods of the class, including the static methods of its super classes.
+     * @returns the static methods
+     */
+    getStaticMethods(): FunctionType[] {
+        return this.classType.getMethodMembers(true)
+            .filter(method => method.modifiers.static)
+            .map(method => method.type);
+    }
+}
+
+export function isMetaClassType(type: unknown): type is MetaClassType {
+    return isType(type) && isMetaClassKind(type.kind);
+}
@@ -0,0 +1,96 @@
+/******************************************************************************
+ * Copyright 2025 TypeFox GmbH
+ * This program and the accompanying materials are made available under the
+ * terms of the MIT License, which is available in the project root.
+ ******************************************************************************/
+
+import { Type, TypeStateListener } from '../../graph/type-node.js';
+import { TypeInitializer } from '../../initialization/type-initializer.js';
+import { InferenceRuleNotApplicable, TypeInferenceRule } from '../../services/inference.js';
+import { TypirServices } from '../../typir.js';
+import { assertType, toArray } from '../../utils/utils.js';
+import { CompoundKind, CreateCompoundTypeDetails } from './compound-kind.js';
+import { CompoundType } from './compound-type.js';
+
+/**
+ * Initializer for compound types, i.e. union types and intersection types.
+ * Compound types with the same member types are created only once, independent from the order of their member types.
+ */
+export class CompoundTypeInitializer<T extends CompoundType> extends TypeInitializer<T> implements TypeStateListener {
+    protected readonly typeDetails: CreateCompoundTypeDetails;
+    protected readonly kind: CompoundKind<T>;
+    protected inferenceRule: TypeInferenceRule | undefined;
+    protected initialCompoundType: T;
+
+    /**
+     * @param services the Typir services
+     * @param kind the kind of the new compound type
+     * @param typeDetails the details of the new compound type
+     * @param initialCompoundType the newly created compound type, which might be replaced by an already existing compound type with the same member types
+     */
+    constructor(services: TypirServices, kind: CompoundKind<T>, typeDetails: CreateCompoundTypeDetails, initialCompoundType: T) {
+        super(services);
+        this.typeDetails = typeDetails;
+        this.kind = kind;
+        this.initialCompoundType = initialCompoundType;
+
+        this.inferenceRule = this.createInferenceRule(typeDetails, this.initialCompoundType);
+        if (this.inferenceRule) {
+            // register the inference rule already now to enable early type inference for this compound type
+            services.Inference.addInferenceRule(this.inferenceRule, undefined); // 'undefined', since the Identifier is still missing
+        }
+
+        this.initialCompoundType.addListener(this, true); // trigger directly, if some initialization states are already reached!
+    }
+
+    onSwitchedToIdentifiable(compoundType: Type): void {
+        assertType(compoundType, (type): type is T => this.kind.isCompoundTypeOfThisKind(type));
+        const readyCompoundType = this.producedType(compoundType);
+
+        if (readyCompoundType !== compoundType) {
+            // the same compound type was already created earlier (e.g. with another order of the member types) => reuse it and skip the new one
+            compoundType.removeListener(this);
+            if (this.inferenceRule) {
+                this.services.Inference.removeInferenceRule(this.inferenceRule, undefined);
+            }
+            this.inferenceRule = this.createInferenceRule(this.typeDetails, readyCompoundType);
+        } else {
+            if (this.inferenceRule) {
+                this.services.Inference.removeInferenceRule(this.inferenceRule, undefined);
+            }
+        }
+        if (this.inferenceRule) {
+            this.services.Inference.addInferenceRule(this.inferenceRule, readyCompoundType);
+        }
+    }
+
+    onSwitchedToCompleted(compoundType: Type): void {
+        // the work of this initializer is done now
+        compoundType.removeListener(this);
+    }
+
+    onSwitchedToInvalid(_compoundType: Type): void {
+        // nothing specific needs to be done for compound types here, since the base implementation takes already care about all relevant stuff
+    }
+
+    override getTypeInitial(): T {
+        return this.initialCompoundType;
+    }
+
+    /** Register all inference rules for this compound type within a single inference rule (in order to keep the number of "global" inference rules small). */
+    protected createInferenceRule(typeDetails: CreateCompoundTypeDetails, compoundType: T): TypeInferenceRule | undefined {
+        const rules = toArray(typeDetails.inferenceRules);
+        if (rules.length >= 1) {
+            return (languageNode, _typir) => {
+                for (const inferenceRule of rules) {
+                    if (inferenceRule(languageNode)) {
+                        return compoundType;
+                    }
+                }
+                return InferenceRuleNotApplicable;
+            };
+        }
+        return undefined;
+    }
+
+}
@@ -0,0 +1,118 @@
+/******************************************************************************
+ * Copyright 2025 TypeFox GmbH
+ * This program and the accompanying materials are made available under the
+ * terms of the MIT License, which is available in the project root.
+ ******************************************************************************/
+
+import { Type, TypeDetails } from '../../graph/type-node.js';
+import { TypeReference } from '../../initialization/type-reference.js';
+import { TypeSelector } from '../../initialization/type-selector.js';
+import { TypirServices } from '../../typir.js';
+import { TypirProblem } from '../../utils/utils-definitions.js';
+import { DerivedSubTypes } from '../derived-subtypes.js';
+import { Kind } from '../kind.js';
+import { CompoundType } from './compound-type.js';
+
+export interface CompoundKindOptions {
+    /** Will be used only internally as prefix for the unique identifiers for compound type names. */
+    identifierPrefix: string,
+    /** Will be used to separate the names of the member types, when printing compound types. */
+    memberSeparator: string,
+}
+
+export interface CompoundTypeDetails extends TypeDetails {
+    /** The order of the member types does not matter. Member types which are compound types of the same kind themselves are flattened. */
+    memberTypes: TypeSelector[],
+}
+
+export interface CreateCompoundTypeDetails extends CompoundTypeDetails {
+    /** In case of multiple inference rules, later rules are not evaluated anymore, if an earlier rule already matched. */
+    inferenceRules?: InferCompoundType | InferCompoundType[];
+}
+
+export type InferCompoundType = (languageNode: unknown) => boolean;
+
+/**
+ * Common base for kinds whose types are composed of an unordered set of member types, i.e. union types and intersection types:
+ * - The order of member types does not matter.
+ * - Member types which are compound types of the same kind themselves are flattened.
+ * - Duplicated member types are ignored.
+ * - The sub-type relationships are derived from the relationships of the member types
+ *   and are updated, when the relationships between the member types change.
+ */
+export abstract class CompoundKind<T extends CompoundType> implements Kind {
+    abstract readonly $name: string;
+    readonly services: TypirServices;
+    readonly options: Readonly<CompoundKindOptions>;
+    readonly derivedSubTypes: DerivedSubTypes<T>;
+
+    constructor(services: TypirServices, options?: Partial<CompoundKindOptions>) {
+        this.services = services;
+        this.options = this.collectOptions(options);
+        this.derivedSubTypes = new DerivedSubTypes(services, {
+            isDerivedType: (type): type is T => this.isCompoundTypeOfThisKind(type),
+            getDependencies: compound => compound.getMemberTypes(),
+            getAdditionalCandidates: compound => this.getAdditionalSubTypeCandidates(compound),
+            isSubType: (subType, superType) => this.analyzeSubTypeProblems(subType, superType).length <= 0,
+        });
+    }
+
+    protected abstract collectOptions(options?: Partial<CompoundKindOptions>): CompoundKindOptions;
+
+    /** Checks, whether the given type is a compound type of this kind, e.g. a union type. */
+    abstract isCompoundTypeOfThisKind(type: unknown): type is T;
+
+    /** The separator of the identifiers of the member types within the identifiers of the compound types, e.g. `|` for union types. */
+    protected abstract getMemberSeparatorForIdentifiers(): string;
+
+    /** Returns types of other kinds, which might be sub-types or super-types of the given compound type. */
+    protected abstract getAdditionalSubTypeCandidates(compoundType: T): Type[];
+
+    /**
+     * Analyzes, whether the given sub type is a sub-type of the given super type, while at least one of them is a compound type of this kind.
+     * @param subType the sub type
+     * @param superType the super type
+     * @returns an empty array, if the sub-type relationship exists, otherwise some problems
+     */
+    abstract analyzeSubTypeProblems(subType: Type, superType: Type): TypirProblem[];
+
+    get(typeDetails: CompoundTypeDetails): TypeReference<T> {
+        return new TypeReference(() => this.calculateIdentifier(typeDetails), this.services);
+    }
+
+    /**
+     * Calculates the identifier of a compound type, which is independent from the order of the member types.
+     * All given member types need to be resolvable, otherwise an exception will be thrown.
+     * @param typeDetails the details of the compound type
+     * @returns the order-independent identifier
+     */
+    calculateIdentifier(typeDetails: CompoundTypeDetails): string {
+        const prefix = this.options.identifierPrefix ? this.options.identifierPrefix + '-' : '';
+        const members = this.flattenMemberTypes(typeDetails.memberTypes.map(selector => this.services.infrastructure.TypeResolver.resolve(selector)));
+        return `${prefix}(${members.map(member => member.getIdentifier()).sort().join(this.getMemberSeparatorForIdentifiers())})`; // sorting makes the identifier independent from the order of members
+    }
+
+    /**
+     * Replaces compound types of this kind by their member types and removes duplicated types.
+     * @param types the types to flatten
+     * @returns the flattened types without duplicates, in the order of their first occurrence
+     */
+    flattenMemberTypes(types: Type[]): Type[] {
+        const result: Map<string, Type> = new Map(); // identifier => type, in order to remove duplicates
+        for (const type of types) {
+            const currentMembers = this.isCompoundTypeOfThisKind(type) ? type.getMemberTypes() : [type];
+            for (const member of currentMembers) {
+                const key = member.getIdentifier();
+                if (result.has(key) === false) {
+                    result.set(key, member);
+                }
+            }
+        }
+        return Array.from(result.values());
+    }
+
+    protected isEqualOrSubType(subType: Type, superType: Type): boolean {
+        return this.services.Equality.areTypesEqual(subType, superType) || this.services.Subtype.isSubType(subType, superType);
+    }
+
+}
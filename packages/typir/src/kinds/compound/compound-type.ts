@@ -0,0 +1,123 @@
+/******************************************************************************
+ * Copyright 2025 TypeFox GmbH
+ * This program and the accompanying materials are made available under the
+ * terms of the MIT License, which is available in the project root.
+ ******************************************************************************/
+
+import { Type } from '../../graph/type-node.js';
+import { TypeReference } from '../../initialization/type-reference.js';
+import { TypeEqualityProblem } from '../../services/equality.js';
+import { TypirProblem } from '../../utils/utils-definitions.js';
+import { createKindConflict, IndexedTypeConflict } from '../../utils/utils-type-comparison.js';
+import { assertTrue } from '../../utils/utils.js';
+import { CompoundKind, CompoundTypeDetails } from './compound-kind.js';
+
+/**
+ * Common base for types which are composed of an unordered set of member types, i.e. union types and intersection types.
+ */
+export abstract class CompoundType extends Type {
+    override readonly kind: CompoundKind<CompoundType>;
+    /** The member types as declared by the user, i.e. they are not flattened and might contain duplicates. */
+    protected readonly declaredMemberTypes: TypeReference[];
+
+    /**
+     * @param kind the kind of this compound type
+     * @param typeDetails the details of this compound type
+     * @param waitForCompletedMembers if true, this type is completed only after all its member types are completed, e.g. in order to merge their properties
+     */
+    constructor(kind: CompoundKind<CompoundType>, typeDetails: CompoundTypeDetails, waitForCompletedMembers: boolean) {
+        super(undefined, typeDetails);
+        this.kind = kind;
+        assertTrue(typeDetails.memberTypes.length >= 1, `The ${kind.options.identifierPrefix} type needs at least one member type.`);
+        this.declaredMemberTypes = typeDetails.memberTypes.map(member => new TypeReference(member, kind.services));
+
+        // define to wait for the member types
+        this.defineTheInitializationProcessOfThisType({
+            preconditionsForIdentifiable: {
+                referencesToBeIdentifiable: this.declaredMemberTypes,
+            },
+            preconditionsForCompleted: waitForCompletedMembers ? {
+                referencesToBeCompleted: this.declaredMemberTypes,
+            } : undefined,
+            referencesRelevantForInvalidation: this.declaredMemberTypes,
+            onIdentifiable: () => {
+                // the identifier is calculated now
+                this.identifier = this.kind.calculateIdentifier(typeDetails);
+                // the registration of the type in the type graph is done by the TypeInitializer
+            },
+            onCompleted: () => {
+                // duplicated compound types are not registered in the type graph, i.e. they are not considered for sub-type relationships
+                this.kind.derivedSubTypes.register(this);
+            },
+            onInvalidated: () => {
+                this.kind.derivedSubTypes.unregister(this);
+            },
+        });
+    }
+
+    override getName(): string {
+        return this.getMemberTypes().map(member => member.getName()).join(this.kind.options.memberSeparator);
+    }
+
+    override getUserRepresentation(): string {
+        return this.getMemberTypes().map(member => member.getUserRepresentation()).join(this.kind.options.memberSeparator);
+    }
+
+    /**
+     * Returns the member types as declared by the user. Compound types of the same kind as member types are not flattened here.
+     * @returns the declared member types
+     */
+    getDeclaredMemberTypes(): Type[] {
+        return this.declaredMemberTypes.map(member => {
+            const type = member.getType();
+            if (type) {
+                return type;
+            } else {
+                throw new Error('Member type is not resolved.');
+            }
+        });
+    }
+
+    /**
+     * Returns all member types of this compound type. Member types which are compound types of the same kind themselves are flattened and duplicates are removed.
+     * @returns the flattened member types
+     */
+    getMemberTypes(): Type[] {
+        return this.kind.flattenMemberTypes(this.getDeclaredMemberTypes());
+    }
+
+    override analyzeTypeEqualityProblems(otherType: Type): TypirProblem[] {
+        if (this.kind.isCompoundTypeOfThisKind(otherType)) {
+            // the order of members does not matter
+            const conflicts: TypirProblem[] = [];
+            conflicts.push(...this.analyzeMissingMemberTypes(this.getMemberTypes(), otherType.getMemberTypes(), false));
+            conflicts.push(...this.analyzeMissingMemberTypes(otherType.getMemberTypes(), this.getMemberTypes(), true));
+            return conflicts;
+        } else {
+            return [<TypeEqualityProblem>{
+                $problem: TypeEqualityProblem,
+                type1: this,
+                type2: otherType,
+                subProblems: [createKindConflict(otherType, this)],
+            }];
+        }
+    }
+
+    protected analyzeMissingMemberTypes(membersToFind: Type[], availableMembers: Type[], swapped: boolean): IndexedTypeConflict[] {
+        const equality = this.kind.services.Equality;
+        const conflicts: IndexedTypeConflict[] = [];
+        membersToFind.forEach((member, index) => {
+            if (availableMembers.some(available => equality.areTypesEqual(member, available)) === false) {
+                conflicts.push({
+                    $problem: IndexedTypeConflict,
+                    expected: swapped ? undefined : member,
+                    actual: swapped ? member : undefined,
+                    propertyIndex: index,
+                    subProblems: [],
+                });
+            }
+        });
+        return conflicts;
+    }
+
+}
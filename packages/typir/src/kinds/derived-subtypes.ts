@@ -0,0 +1,301 @@
+/******************************************************************************
+ * Copyright 2025 TypeFox GmbH
+ * This program and the accompanying materials are made available under the
+ * terms of the MIT License, which is available in the project root.
+ ******************************************************************************/
+
+import { TypeEdge } from '../graph/type-edge.js';
+import { TypeGraph, TypeGraphListener } from '../graph/type-graph.js';
+import { Type } from '../graph/type-node.js';
+import { ConversionEdge, isConversionEdge } from '../services/conversion.js';
+import { isSubTypeEdge, SubTypeEdge } from '../services/subtype.js';
+import { TypirServices } from '../typir.js';
+
+export interface DerivedSubTypesOptions<T extends Type> {
+    /** Identifies the types whose sub-type relationships are derived, e.g. all tuple types. */
+    isDerivedType(type: Type): type is T;
+    /** Returns the types which determine the sub-type relationships of the given type, e.g. the element types of a tuple type. */
+    getDependencies(type: T): Type[];
+    /**
+     * Returns types of other kinds, which might be sub-types or super-types of the given type, e.g. the member types of a union type.
+     * Other derived types are found via the relationships of their dependencies and don't need to be returned here.
+     */
+    getAdditionalCandidates?(type: T): Iterable<Type>;
+    /**
+     * Returns true, if the given type might be related to other derived types whose dependencies are not related to its own dependencies,
+     * e.g. records with optional properties only. Types without dependencies are always checked against all other derived types.
+     */
+    needsCheckAgainstAllTypes?(type: T): boolean;
+    /** Is called once, when the given type is completed and registered in the type graph, e.g. in order to store its conversions to other types. */
+    onRegistered?(type: T): void;
+    /** Checks, whether the sub-type relationship holds, while at least one of the two given types is a derived type. */
+    isSubType(subType: Type, superType: Type): boolean;
+}
+
+/**
+ * Since the SubType service works only with the relationships which are explicitly stored in the type graph,
+ * kinds whose sub-type relationships are derived from other types (e.g. from the element types of tuples or the members of unions)
+ * need to calculate these relationships and store them as edges in the type graph.
+ * This helper does that for all types of one kind:
+ * - New types are related to all existing types with related dependencies, independent from the order in which the types are created.
+ * - Added sub-type and conversion edges between dependencies (e.g. `integer` becomes a sub-type of `double` later) lead to new derived relationships.
+ * - Removed edges and removed types lead to the removal of the derived relationships which don't hold anymore.
+ *   Derived types with removed dependencies are not related to other types anymore.
+ * Only the types which depend on the changed types are checked again, instead of checking all types in the type graph.
+ */
+export class DerivedSubTypes<T extends Type> implements TypeGraphListener {
+    protected readonly services: TypirServices;
+    protected readonly graph: TypeGraph;
+    protected readonly options: DerivedSubTypesOptions<T>;
+
+    /** all derived types which are completed and registered in the type graph */
+    protected readonly derivedTypes: Set<T> = new Set();
+    protected readonly dependencies: Map<T, Type[]> = new Map();
+    protected readonly dependentTypes: Map<Type, Set<T>> = new Map(); // dependency => derived types
+    /** derived types without dependencies and other types which need to be checked against all derived types */
+    protected readonly typesToCheckAgainstAll: Set<T> = new Set();
+    /** the sub-type edges which were created by this helper */
+    protected readonly derivedEdges: Set<SubTypeEdge> = new Set();
+
+    protected readonly typesToExtend: Set<T> = new Set();
+    protected readonly typesToRevalidate: Set<T> = new Set();
+    protected updating: boolean = false;
+
+    constructor(services: TypirServices, options: DerivedSubTypesOptions<T>) {
+        this.services = services;
+        this.graph = services.infrastructure.Graph;
+        this.options = options;
+        this.graph.addListener(this); // all upcoming types and edges
+    }
+
+    /**
+     * Derives the sub-type relationships of the given type. Types which are not yet completed or not registered in the type graph (e.g. duplicates) are ignored,
+     * since they are registered again, when they are added to the type graph.
+     * Types which are not identified as derived types by the options are ignored as well.
+     * @param type the derived type
+     */
+    register(type: T): void {
+        if (this.derivedTypes.has(type) || this.options.isDerivedType(type) === false || type.isInState('Completed') === false || this.graph.getType(type.getIdentifier()) !== type) {
+            return;
+        }
+        this.update(() => {
+            const dependencies = this.options.getDependencies(type).map(dependency => dependency.getTypeForRelationships());
+            this.derivedTypes.add(type);
+            this.dependencies.set(type, dependencies);
+            if (dependencies.length <= 0 || this.options.needsCheckAgainstAllTypes?.(type)) {
+                this.typesToCheckAgainstAll.add(type);
+            }
+            for (const dependency of dependencies) {
+                let dependents = this.dependentTypes.get(dependency);
+                if (dependents === undefined) {
+                    dependents = new Set();
+                    this.dependentTypes.set(dependency, dependents);
+                }
+                dependents.add(type);
+            }
+            this.options.onRegistered?.(type);
+            this.typesToExtend.add(type);
+        });
+    }
+
+    /**
+     * Removes all derived sub-type relationships of the given type, e.g. since it became invalid.
+     * @param type the derived type
+     */
+    unregister(type: T): void {
+        if (this.derivedTypes.has(type) === false) {
+            return;
+        }
+        this.update(() => {
+            this.derivedTypes.delete(type);
+            this.typesToCheckAgainstAll.delete(type);
+            this.typesToExtend.delete(type);
+            this.typesToRevalidate.delete(type);
+            for (const dependency of this.dependencies.get(type)!) {
+                this.dependentTypes.get(dependency)?.delete(type);
+            }
+            this.dependencies.delete(type);
+            for (const edge of this.getDerivedEdges(type)) {
+                this.graph.removeEdge(edge);
+            }
+        });
+    }
+
+    onAddedType(type: Type, _key: string): void {
+        if (this.options.isDerivedType(type)) {
+            this.register(type);
+        }
+    }
+
+    onRemovedType(type: Type, _key: string): void {
+        if (this.options.isDerivedType(type) && this.graph.getType(type.getIdentifier()) !== type) {
+            this.unregister(type);
+        }
+        // derived types whose dependencies are removed, cannot be related to other types anymore
+        Array.from(this.dependentTypes.get(type) ?? []).forEach(dependent => this.unregister(dependent));
+    }
+
+    onAddedEdge(edge: TypeEdge): void {
+        if (this.isRelevantEdge(edge)) {
+            // new relationships between dependencies might lead to new relationships between the depending types
+            this.update(() => this.collectAffectedTypes(edge).forEach(type => this.typesToExtend.add(type)));
+        }
+    }
+
+    onRemovedEdge(edge: TypeEdge): void {
+        if (this.isRelevantEdge(edge)) {
+            this.derivedEdges.delete(edge as SubTypeEdge);
+            // removed relationships between dependencies might invalidate some relationships between the depending types
+            this.update(() => this.collectAffectedTypes(edge).forEach(type => this.typesToRevalidate.add(type)));
+        }
+    }
+
+    protected isRelevantEdge(edge: TypeEdge): boolean {
+        return this.derivedTypes.size >= 1 && (isSubTypeEdge(edge) || isConversionEdge(edge));
+    }
+
+    /**
+     * Executes the given action and processes all resulting changes afterwards.
+     * Changes of the type graph which are done while processing other changes (e.g. new derived edges) are queued, in order to process them afterwards.
+     * @param action the action which schedules some types for processing
+     */
+    protected update(action: () => void): void {
+        if (this.updating) {
+            action();
+            return;
+        }
+        this.updating = true;
+        try {
+            action();
+            while (this.typesToRevalidate.size >= 1 || this.typesToExtend.size >= 1) {
+                if (this.typesToRevalidate.size >= 1) {
+                    const types = Array.from(this.typesToRevalidate);
+                    this.typesToRevalidate.clear();
+                    this.revalidate(types);
+                } else {
+                    const type: T = this.typesToExtend.values().next().value!;
+                    this.typesToExtend.delete(type);
+                    this.extend(type);
+                }
+            }
+        } finally {
+            this.updating = false;
+        }
+    }
+
+    /** The derived types whose dependencies are related to the source or the target of the given edge. */
+    protected collectAffectedTypes(edge: TypeEdge): Set<T> {
+        const result: Set<T> = new Set();
+        const related = [...this.collectRelatedTypes(edge.from, 'Sub'), ...this.collectRelatedTypes(edge.to, 'Super')];
+        for (const type of related) {
+            this.dependentTypes.get(type)?.forEach(dependent => result.add(dependent));
+        }
+        return result;
+    }
+
+    /**
+     * Collects the given type and all its (transitive) sub-types or super-types, including implicit conversions.
+     * @param start the type to start with
+     * @param direction whether to collect the sub-types or the super-types
+     * @returns the given type and all related types
+     */
+    collectRelatedTypes(start: Type, direction: 'Sub' | 'Super'): Set<Type> {
+        const result: Set<Type> = new Set([start]);
+        const remainingToCheck: Type[] = [start];
+        while (remainingToCheck.length > 0) {
+            const current = remainingToCheck.pop()!;
+            const edges = direction === 'Sub'
+                ? [...current.getIncomingEdges(SubTypeEdge), ...current.getIncomingEdges(ConversionEdge)]
+                : [...current.getOutgoingEdges(SubTypeEdge), ...current.getOutgoingEdges(ConversionEdge)];
+            for (const edge of edges) {
+                const next = direction === 'Sub' ? edge.from : edge.to;
+                if (edge.cachingInformation === 'LINK_EXISTS' && result.has(next) === false) {
+                    result.add(next);
+                    remainingToCheck.push(next);
+                }
+            }
+        }
+        return result;
+    }
+
+    /** Other derived types with related dependencies and additional candidates of other kinds might be sub-types or super-types of the given type. */
+    protected collectCandidates(type: T): Set<Type> {
+        const result: Set<Type> = new Set();
+        if (this.typesToCheckAgainstAll.has(type)) {
+            this.derivedTypes.forEach(other => result.add(other));
+        } else {
+            for (const dependency of this.dependencies.get(type)!) {
+                for (const related of [...this.collectRelatedTypes(dependency, 'Sub'), ...this.collectRelatedTypes(dependency, 'Super')]) {
+                    this.dependentTypes.get(related)?.forEach(other => result.add(other));
+                }
+            }
+            this.typesToCheckAgainstAll.forEach(other => result.add(other));
+        }
+        for (const candidate of this.options.getAdditionalCandidates?.(type) ?? []) {
+            if (candidate.isInStateOrLater('Identifiable')) {
+                result.add(candidate.getTypeForRelationships());
+            }
+        }
+        result.delete(type);
+        return result;
+    }
+
+    protected extend(type: T): void {
+        if (this.derivedTypes.has(type) === false) {
+            return; // the type was unregistered in the meantime
+        }
+        for (const candidate of this.collectCandidates(type)) {
+            this.deriveEdge(type, candidate);
+            this.deriveEdge(candidate, type);
+        }
+    }
+
+    protected deriveEdge(subType: Type, superType: Type): void {
+        if (subType.getOutgoingEdges<SubTypeEdge>(SubTypeEdge).some(edge => edge.to === superType)) {
+            return; // this relationship is already stored in the type graph
+        }
+        if (this.options.isSubType(subType, superType)) {
+            this.services.Subtype.markAsSubType(subType, superType, { checkForCycles: false });
+            const edge = subType.getOutgoingEdges<SubTypeEdge>(SubTypeEdge).find(e => e.to === superType);
+            if (edge) {
+                this.derivedEdges.add(edge);
+            }
+        }
+    }
+
+    /**
+     * Checks, whether the derived sub-type relationships of the given types still hold, and removes the other ones.
+     * In order not to justify relationships by themselves (e.g. a member of a union is a sub-type of another type only via the union),
+     * all relationships to check are disabled at first and only those relationships are enabled again, which hold without the disabled ones.
+     * @param types the derived types to check
+     */
+    protected revalidate(types: T[]): void {
+        const edgesToCheck: Set<SubTypeEdge> = new Set();
+        types.filter(type => this.derivedTypes.has(type)).forEach(type => this.getDerivedEdges(type).forEach(edge => edgesToCheck.add(edge)));
+        edgesToCheck.forEach(edge => edge.cachingInformation = 'PENDING');
+        let changed = true;
+        while (changed) {
+            changed = false;
+            for (const edge of edgesToCheck) {
+                if (edge.cachingInformation === 'PENDING' && this.options.isSubType(edge.from, edge.to)) {
+                    edge.cachingInformation = 'LINK_EXISTS';
+                    changed = true;
+                }
+            }
+        }
+        for (const edge of edgesToCheck) {
+            if (edge.cachingInformation === 'PENDING') {
+                this.graph.removeEdge(edge);
+            }
+        }
+    }
+
+    /** Returns all derived types which are completed and registered in the type graph. */
+    getDerivedTypes(): T[] {
+        return Array.from(this.derivedTypes);
+    }
+
+    protected getDerivedEdges(type: Type): SubTypeEdge[] {
+        return type.getEdges<SubTypeEdge>(SubTypeEdge).filter(edge => this.derivedEdges.has(edge));
+    }
+}
@@ -0,0 +1,78 @@
+/******************************************************************************
+ * Copyright 2025 TypeFox GmbH
+ * This program and the accompanying materials are made available under the
+ * terms of the MIT License, which is available in the project root.
+ ******************************************************************************/
+
+import { Type, TypeStateListener } from '../../graph/type-node.js';
+import { TypeInitializer } from '../../initialization/type-initializer.js';
+import { InferenceRuleNotApplicable, TypeInferenceRule } from '../../services/inference.js';
+import { TypirServices } from '../../typir.js';
+import { assertType } from '../../utils/utils.js';
+import { DistinctKind, CreateDistinctTypeDetails } from './distinct-kind.js';
+import { DistinctType, isDistinctType } from './distinct-type.js';
+
+export class DistinctTypeInitializer extends TypeInitializer<DistinctType> implements TypeStateListener {
+    protected readonly typeDetails: CreateDistinctTypeDetails;
+    protected readonly kind: DistinctKind;
+    protected inferenceRules: TypeInferenceRule[];
+    protected initialDistinctType: DistinctType;
+
+    constructor(services: TypirServices, kind: DistinctKind, typeDetails: CreateDistinctTypeDetails) {
+        super(services);
+        this.typeDetails = typeDetails;
+        this.kind = kind;
+
+        // create the distinct type
+        this.initialDistinctType = new DistinctType(kind, typeDetails);
+
+        this.inferenceRules = this.createInferenceRules(this.typeDetails, this.initialDistinctType);
+        // register all the inference rules already now to enable early type inference for this type
+        this.inferenceRules.forEach(rule => services.Inference.addInferenceRule(rule, undefined)); // 'undefined', since the Identifier is still missing
+
+        this.initialDistinctType.addListener(this, true); // trigger directly, if some initialization states are already reached!
+    }
+
+    onSwitchedToIdentifiable(distinctType: Type): void {
+        assertType(distinctType, isDistinctType);
+        const readyDistinctType = this.producedType(distinctType);
+
+        // remove the inference rules for the not yet identifiable type
+        this.inferenceRules.forEach(rule => this.services.Inference.removeInferenceRule(rule, undefined));
+        if (readyDistinctType !== distinctType) {
+            // the same type was already created earlier => skip the new type
+            distinctType.removeListener(this);
+            // but re-create the inference rules for the existing type!
+            this.inferenceRules = this.createInferenceRules(this.typeDetails, readyDistinctType);
+        }
+        this.inferenceRules.forEach(rule => this.services.Inference.addInferenceRule(rule, readyDistinctType));
+    }
+
+    onSwitchedToCompleted(distinctType: Type): void {
+        // the work of this initializer is done now
+        distinctType.removeListener(this);
+    }
+
+    onSwitchedToInvalid(_distinctType: Type): void {
+        // nothing specific needs to be done here, since the base implementation takes already care about all relevant stuff
+    }
+
+    override getTypeInitial(): DistinctType {
+        return this.initialDistinctType;
+    }
+
+    protected createInferenceRules(typeDetails: CreateDistinctTypeDetails, distinctType: DistinctType): TypeInferenceRule[] {
+        const result: TypeInferenceRule[] = [];
+        if (typeDetails.inferenceRuleForDeclaration) {
+            result.push((languageNode, _typir) => {
+                if (typeDetails.inferenceRuleForDeclaration!(languageNode)) {
+                    return distinctType;
+                } else {
+                    return InferenceRuleNotApplicable;
+                }
+            });
+        }
+        return result;
+    }
+
+}
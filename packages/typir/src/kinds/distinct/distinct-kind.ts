@@ -0,0 +1,90 @@
+/******************************************************************************
+ * Copyright 2025 TypeFox GmbH
+ * This program and the accompanying materials are made available under the
+ * terms of the MIT License, which is available in the project root.
+ ******************************************************************************/
+
+import { TypeDetails } from '../../graph/type-node.js';
+import { TypeInitializer } from '../../initialization/type-initializer.js';
+import { TypeReference } from '../../initialization/type-reference.js';
+import { TypeSelector } from '../../initialization/type-selector.js';
+import { TypirServices } from '../../typir.js';
+import { isKind, Kind } from '../kind.js';
+import { DistinctTypeInitializer } from './distinct-initializer.js';
+import { DistinctType } from './distinct-type.js';
+
+export interface DistinctKindOptions {
+    /** Will be used only internally as prefix for the unique identifiers for distinct types. */
+    identifierPrefix: string,
+}
+
+export interface DistinctTypeDetails extends TypeDetails {
+    /** The name of the new distinct type, e.g. `UserId` */
+    name: string,
+    /** The underlying type, e.g. `string`, it is resolved lazily. */
+    underlyingType: TypeSelector,
+    /**
+     * The names of the operators of the underlying type, which are inherited by the distinct type, e.g. `['+', '==']`:
+     * For each signature of these operators which uses the underlying type, a new signature is created,
+     * in which the underlying type is replaced by the distinct type.
+     * Only those operators are inherited, which exist already, when the distinct type is completed.
+     * Validations for calls of the inherited operators are not inherited.
+     */
+    inheritedOperators?: string[],
+}
+
+export interface CreateDistinctTypeDetails extends DistinctTypeDetails {
+    inferenceRuleForDeclaration?: (languageNode: unknown) => boolean,
+}
+
+export const DistinctKindName = 'DistinctKind';
+
+export interface DistinctFactoryService {
+    create(typeDetails: CreateDistinctTypeDetails): TypeInitializer<DistinctType>;
+    get(typeDetails: DistinctTypeDetails): TypeReference<DistinctType>;
+    calculateIdentifier(typeDetails: DistinctTypeDetails): string;
+}
+
+/**
+ * Distinct types (also known as "newtypes") are nominally typed copies of an underlying type, e.g. `type UserId = distinct string`.
+ * In contrast to aliases, distinct types are neither equal to nor assignable to/from their underlying type,
+ * instead they are only explicitly convertible to/from their underlying type.
+ */
+export class DistinctKind implements Kind, DistinctFactoryService {
+    readonly $name: 'DistinctKind';
+    readonly services: TypirServices;
+    readonly options: Readonly<DistinctKindOptions>;
+
+    constructor(services: TypirServices, options?: Partial<DistinctKindOptions>) {
+        this.$name = DistinctKindName;
+        this.services = services;
+        this.services.infrastructure.Kinds.register(this);
+        this.options = this.collectOptions(options);
+    }
+
+    protected collectOptions(options?: Partial<DistinctKindOptions>): DistinctKindOptions {
+        return {
+            // the default values:
+            identifierPrefix: 'distinct',
+            // the actually overriden values:
+            ...options
+        };
+    }
+
+    get(typeDetails: DistinctTypeDetails): TypeReference<DistinctType> {
+        return new TypeReference(() => this.calculateIdentifier(typeDetails), this.services);
+    }
+
+    create(typeDetails: CreateDistinctTypeDetails): TypeInitializer<DistinctType> {
+        return new DistinctTypeInitializer(this.services, this, typeDetails);
+    }
+
+    calculateIdentifier(typeDetails: DistinctTypeDetails): string {
+        // distinct types are nominally typed
+        return `${this.options.identifierPrefix}-${typeDetails.name}`;
+    }
+}
+
+export function isDistinctKind(kind: unknown): kind is DistinctKind {
+    return isKind(kind) && kind.$name === DistinctKindName;
+}
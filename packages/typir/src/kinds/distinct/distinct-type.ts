@@ -0,0 +1,166 @@
+/******************************************************************************
+ * Copyright 2025 TypeFox GmbH
+ * This program and the accompanying materials are made available under the
+ * terms of the MIT License, which is available in the project root.
+ ******************************************************************************/
+
+import { TypeGraphListener } from '../../graph/type-graph.js';
+import { isType, Type } from '../../graph/type-node.js';
+import { TypeInitializer } from '../../initialization/type-initializer.js';
+import { TypeReference } from '../../initialization/type-reference.js';
+import { TypeEqualityProblem } from '../../services/equality.js';
+import { TypirProblem } from '../../utils/utils-definitions.js';
+import { checkValueForConflict, createKindConflict } from '../../utils/utils-type-comparison.js';
+import { toArray } from '../../utils/utils.js';
+import { FunctionKind, FunctionKindName, NO_PARAMETER_NAME } from '../function/function-kind.js';
+import { FunctionType } from '../function/function-type.js';
+import { DistinctKind, DistinctTypeDetails, isDistinctKind } from './distinct-kind.js';
+
+export class DistinctType extends Type implements TypeGraphListener {
+    override readonly kind: DistinctKind;
+    readonly distinctName: string;
+    readonly underlyingType: TypeReference;
+    protected readonly inheritedOperatorNames: string[];
+    protected readonly inheritedOperators: Array<TypeInitializer<FunctionType>> = [];
+
+    constructor(kind: DistinctKind, typeDetails: DistinctTypeDetails) {
+        super(undefined, typeDetails);
+        this.kind = kind;
+        this.distinctName = typeDetails.name;
+        this.underlyingType = new TypeReference(typeDetails.underlyingType, kind.services);
+        this.inheritedOperatorNames = toArray(typeDetails.inheritedOperators);
+
+        // the identifier does not depend on the underlying type, but the distinct type is completed only after the underlying type is known
+        this.defineTheInitializationProcessOfThisType({
+            preconditionsForCompleted: {
+                referencesToBeIdentifiable: [this.underlyingType],
+            },
+            referencesRelevantForInvalidation: [this.underlyingType],
+            onIdentifiable: () => {
+                // the identifier is calculated now
+                this.identifier = this.kind.calculateIdentifier(typeDetails);
+                // the registration of the type in the type graph is done by the TypeInitializer
+            },
+            onCompleted: () => {
+                this.kind.services.infrastructure.Graph.addListener(this); // this type itself and its removal
+                if (this.isRegisteredInGraph()) {
+                    this.establishRelationships();
+                } else {
+                    // this type will be added to the type graph by the TypeInitializer later, or it is a duplicate which will be disposed
+                }
+            },
+            onInvalidated: () => {
+                this.kind.services.infrastructure.Graph.removeListener(this);
+                // the operators will be inherited again, when this type is completed again
+                this.removeInheritedOperators();
+            },
+        });
+    }
+
+    override dispose(): void {
+        this.kind.services.infrastructure.Graph.removeListener(this);
+        super.dispose();
+    }
+
+    override getName(): string {
+        return this.distinctName;
+    }
+
+    override getUserRepresentation(): string {
+        const underlyingType = this.underlyingType.getType();
+        return `${this.distinctName} = distinct ${underlyingType ? underlyingType.getUserRepresentation() : '?'}`;
+    }
+
+    getUnderlyingType(): Type {
+        const type = this.underlyingType.getType();
+        if (type) {
+            return type;
+        } else {
+            throw new Error(`The underlying type of '${this.distinctName}' is not resolved.`);
+        }
+    }
+
+    override analyzeTypeEqualityProblems(otherType: Type): TypirProblem[] {
+        if (isDistinctType(otherType)) {
+            // nominal typing
+            return checkValueForConflict(this.getIdentifier(), otherType.getIdentifier(), 'name');
+        } else {
+            return [<TypeEqualityProblem>{
+                $problem: TypeEqualityProblem,
+                type1: this,
+                type2: otherType,
+                subProblems: [createKindConflict(otherType, this)],
+            }];
+        }
+    }
+
+    /**
+     * Distinct types are explicitly convertible to and from their underlying type.
+     * Since the conversion edges are stored in the type graph, they are removed automatically, when this type is removed from the type graph.
+     */
+    protected establishRelationships(): void {
+        const underlyingType = this.getUnderlyingType();
+        const conversion = this.kind.services.Conversion;
+        conversion.markAsConvertible(this, underlyingType, 'EXPLICIT');
+        conversion.markAsConvertible(underlyingType, this, 'EXPLICIT');
+
+        this.inheritOperators(underlyingType);
+    }
+
+    protected inheritOperators(underlyingType: Type): void {
+        const functionKind = this.kind.services.infrastructure.Kinds.get<FunctionKind>(FunctionKindName);
+        if (functionKind === undefined) {
+            return; // no functions/operators exist so far
+        }
+        const replaceType = (type: Type): Type => type === underlyingType ? this : type;
+        for (const operatorName of this.inheritedOperatorNames) {
+            const overloads = functionKind.mapNameTypes.get(operatorName)?.overloadedFunctions.slice() ?? []; // slice() is required, since new overloads are added
+            for (const overload of overloads) {
+                const operatorType = overload.functionType;
+                const inputs = operatorType.getInputs();
+                const output = operatorType.getOutput('RETURN_UNDEFINED');
+                if (inputs.some(input => input.type === underlyingType) || output?.type === underlyingType) {
+                    this.inheritedOperators.push(functionKind.create({
+                        functionName: operatorName,
+                        outputParameter: output ? { name: NO_PARAMETER_NAME, type: replaceType(output.type) } : undefined,
+                        inputParameters: inputs.map(input => ({ name: input.name, type: replaceType(input.type) })),
+                        inferenceRuleForDeclaration: undefined, // operators have no declaration in the code
+                        inferenceRuleForCalls: overload.inferenceRuleForCalls, // reuse the inference rule of the operator, since it is independent of the types of the operands
+                    }));
+                }
+            }
+        }
+    }
+
+    protected isRegisteredInGraph(): boolean {
+        return this.kind.services.infrastructure.Graph.getType(this.getIdentifier()) === this;
+    }
+
+    onAddedType(type: Type, _key: string): void {
+        if (type === this) {
+            this.establishRelationships();
+        }
+    }
+
+    onRemovedType(type: Type, _key: string): void {
+        if (type === this) {
+            // the inherited operators are useless without this type
+            this.removeInheritedOperators();
+        }
+    }
+
+    protected removeInheritedOperators(): void {
+        const graph = this.kind.services.infrastructure.Graph;
+        for (const operator of this.inheritedOperators) {
+            const operatorType = operator.getTypeFinal();
+            if (operatorType && graph.getType(operatorType.getIdentifier()) === operatorType) {
+                graph.removeNode(operatorType);
+            }
+        }
+        this.inheritedOperators.splice(0, this.inheritedOperators.length);
+    }
+}
+
+export function isDistinctType(type: unknown): type is DistinctType {
+    return isType(type) && isDistinctKind(type.kind);
+}
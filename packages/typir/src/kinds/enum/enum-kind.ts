@@ -0,0 +1,153 @@
+/******************************************************************************
+ * Copyright 2025 TypeFox GmbH
+ * This program and the accompanying materials are made available under the
+ * terms of the MIT License, which is available in the project root.
+ ******************************************************************************/
+
+import { TypeDetails } from '../../graph/type-node.js';
+import { ConversionModeForSpecification } from '../../services/conversion.js';
+import { InferenceProblem, InferenceRuleNotApplicable, TypeInferenceRule } from '../../services/inference.js';
+import { TypirServices } from '../../typir.js';
+import { assertTrue } from '../../utils/utils.js';
+import { isKind, Kind } from '../kind.js';
+import { LiteralValue } from '../literal/literal-kind.js';
+import { PrimitiveType } from '../primitive/primitive-type.js';
+import { EnumType } from './enum-type.js';
+
+export interface EnumKindOptions {
+    /** Will be used only internally as prefix for the unique identifiers for enum types. */
+    identifierPrefix: string,
+}
+
+export interface EnumMemberDetails {
+    name: string;
+    /** Optional value of the member, e.g. `RED = 1` */
+    value?: LiteralValue;
+}
+
+export interface EnumTypeDetails extends TypeDetails {
+    enumName: string;
+    /** The order of the members is relevant. */
+    members: Array<string | EnumMemberDetails>;
+    /** Optional primitive type, e.g. for enums whose members have values of this primitive type */
+    underlyingType?: PrimitiveType;
+    /** Specifies, how the enum type is convertible to its underlying type, by default it is implicitly convertible ('IMPLICIT_EXPLICIT'). */
+    conversionToUnderlyingType?: ConversionModeForSpecification;
+}
+
+export interface CreateEnumTypeDetails<T = unknown> extends EnumTypeDetails {
+    inferenceRuleForDeclaration?: (languageNode: unknown) => boolean,
+    inferenceRuleForMemberAccess?: InferEnumMemberAccess<T>,
+}
+
+export type InferEnumMemberAccess<T = unknown> = {
+    filter: (languageNode: unknown) => languageNode is T;
+    /** Checks, whether the given member access refers to the current enum type. */
+    matching: (languageNode: T) => boolean;
+    /** Returns the name of the accessed member, it is checked, that the enum type contains a member with this name. */
+    memberName: (languageNode: T) => string;
+};
+
+export const EnumKindName = 'EnumKind';
+
+export interface EnumFactoryService {
+    create<T>(typeDetails: CreateEnumTypeDetails<T>): EnumType;
+    get(typeDetails: EnumTypeDetails): EnumType | undefined;
+}
+
+/**
+ * Enum types have an ordered list of named members, which optionally have values.
+ * Enum types are nominally typed, i.e. enum types with the same name are equal.
+ */
+export class EnumKind implements Kind, EnumFactoryService {
+    readonly $name: 'EnumKind';
+    readonly services: TypirServices;
+    readonly options: Readonly<EnumKindOptions>;
+
+    constructor(services: TypirServices, options?: Partial<EnumKindOptions>) {
+        this.$name = EnumKindName;
+        this.services = services;
+        this.services.infrastructure.Kinds.register(this);
+        this.options = this.collectOptions(options);
+    }
+
+    protected collectOptions(options?: Partial<EnumKindOptions>): EnumKindOptions {
+        return {
+            // the default values:
+            identifierPrefix: 'enum',
+            // the actually overriden values:
+            ...options
+        };
+    }
+
+    get(typeDetails: EnumTypeDetails): EnumType | undefined {
+        const key = this.calculateIdentifier(typeDetails);
+        return this.services.infrastructure.Graph.getType(key) as EnumType;
+    }
+
+    create<T>(typeDetails: CreateEnumTypeDetails<T>): EnumType {
+        assertTrue(this.get(typeDetails) === undefined);
+
+        // create the enum type
+        const enumType = new EnumType(this, this.calculateIdentifier(typeDetails), typeDetails);
+        this.services.infrastructure.Graph.addNode(enumType);
+
+        // the enum type might be convertible to its underlying type
+        if (typeDetails.underlyingType) {
+            this.services.Conversion.markAsConvertible(enumType, typeDetails.underlyingType, typeDetails.conversionToUnderlyingType ?? 'IMPLICIT_EXPLICIT');
+        }
+
+        this.registerInferenceRules(typeDetails, enumType);
+
+        return enumType;
+    }
+
+    protected registerInferenceRules<T>(typeDetails: CreateEnumTypeDetails<T>, enumType: EnumType): void {
+        if (typeDetails.inferenceRuleForDeclaration) {
+            this.services.Inference.addInferenceRule((languageNode, _typir) => {
+                if (typeDetails.inferenceRuleForDeclaration!(languageNode)) {
+                    return enumType;
+                } else {
+                    return InferenceRuleNotApplicable;
+                }
+            }, enumType);
+        }
+        if (typeDetails.inferenceRuleForMemberAccess) {
+            this.services.Inference.addInferenceRule(this.createInferenceRuleForMemberAccess(typeDetails.inferenceRuleForMemberAccess, enumType), enumType);
+        }
+    }
+
+    protected createInferenceRuleForMemberAccess<T>(rule: InferEnumMemberAccess<T>, enumType: EnumType): TypeInferenceRule {
+        return (languageNode, _typir) => {
+            if (rule.filter(languageNode) && rule.matching(languageNode)) {
+                const memberName = rule.memberName(languageNode);
+                if (enumType.getMember(memberName)) {
+                    return enumType;
+                } else {
+                    return <InferenceProblem>{
+                        $problem: InferenceProblem,
+                        languageNode,
+                        inferenceCandidate: enumType,
+                        location: `member '${memberName}'`,
+                        subProblems: [],
+                    };
+                }
+            }
+            return InferenceRuleNotApplicable;
+        };
+    }
+
+    calculateIdentifier(typeDetails: EnumTypeDetails): string {
+        // enum types are nominally typed
+        return `${this.options.identifierPrefix}-${typeDetails.enumName}`;
+    }
+
+    /** Normalizes the given member details. */
+    collectMembers(typeDetails: EnumTypeDetails): EnumMemberDetails[] {
+        return typeDetails.members.map(member => typeof member === 'string' ? { name: member } : member);
+    }
+}
+
+export function isEnumKind(kind: unknown): kind is EnumKind {
+    return isKind(kind) && kind.$name === EnumKindName;
+}
@@ -0,0 +1,69 @@
+/******************************************************************************
+ * Copyright 2025 TypeFox GmbH
+ * This program and the accompanying materials are made available under the
+ * terms of the MIT License, which is available in the project root.
+ ******************************************************************************/
+
+import { isType, Type } from '../../graph/type-node.js';
+import { TypeEqualityProblem } from '../../services/equality.js';
+import { TypirProblem } from '../../utils/utils-definitions.js';
+import { checkValueForConflict, createKindConflict } from '../../utils/utils-type-comparison.js';
+import { PrimitiveType } from '../primitive/primitive-type.js';
+import { EnumKind, EnumMemberDetails, EnumTypeDetails, isEnumKind } from './enum-kind.js';
+
+export class EnumType extends Type {
+    override readonly kind: EnumKind;
+    readonly enumName: string;
+    protected readonly members: EnumMemberDetails[];
+    protected readonly underlyingType: PrimitiveType | undefined;
+
+    constructor(kind: EnumKind, identifier: string, typeDetails: EnumTypeDetails) {
+        super(identifier, typeDetails);
+        this.kind = kind;
+        this.enumName = typeDetails.enumName;
+        this.members = kind.collectMembers(typeDetails);
+        this.underlyingType = typeDetails.underlyingType;
+        this.defineTheInitializationProcessOfThisType({}); // no preconditions
+    }
+
+    override getName(): string {
+        return this.enumName;
+    }
+
+    override getUserRepresentation(): string {
+        const members = this.members.map(member => member.value === undefined ? member.name : `${member.name} = ${JSON.stringify(member.value)}`);
+        return `enum ${this.enumName} { ${members.join(', ')} }`;
+    }
+
+    /** Returns the members of this enum type (in the order of their declaration). */
+    getMembers(): EnumMemberDetails[] {
+        return this.members;
+    }
+
+    getMember(memberName: string): EnumMemberDetails | undefined {
+        return this.members.find(member => member.name === memberName);
+    }
+
+    getUnderlyingType(): PrimitiveType | undefined {
+        return this.underlyingType;
+    }
+
+    override analyzeTypeEqualityProblems(otherType: Type): TypirProblem[] {
+        if (isEnumType(otherType)) {
+            // nominal typing
+            return checkValueForConflict(this.getIdentifier(), otherType.getIdentifier(), 'name');
+        } else {
+            return [<TypeEqualityProblem>{
+                $problem: TypeEqualityProblem,
+                type1: this,
+                type2: otherType,
+                subProblems: [createKindConflict(otherType, this)],
+            }];
+        }
+    }
+
+}
+
+export function isEnumType(type: unknown): type is EnumType {
+    return isType(type) && isEnumKind(type.kind);
+}
@@ -0,0 +1,129 @@
+/******************************************************************************
+ * Copyright 2025 TypeFox GmbH
+ * This program and the accompanying materials are made available under the
+ * terms of the MIT License, which is available in the project root.
+ ******************************************************************************/
+
+import { ValidationProblem, ValidationRule, ValidationRuleWithBeforeAfter } from '../../services/validation.js';
+import { TypirServices } from '../../typir.js';
+import { EnumType, isEnumType } from './enum-type.js';
+
+interface UniqueEnumMemberValidationEntry {
+    languageNode: unknown;
+    enumType: EnumType;
+}
+
+/**
+ * Predefined validation to produce errors, if inside an enum the same member is declared more than once.
+ */
+export class UniqueEnumMemberValidation<T> implements ValidationRuleWithBeforeAfter {
+    protected readonly foundDeclarations: Map<string, UniqueEnumMemberValidationEntry[]> = new Map();
+
+    protected readonly services: TypirServices;
+    /** Determines language nodes which represent declared enum members, improves performance a lot. */
+    protected readonly isMemberDeclaration: (languageNode: unknown) => languageNode is T;
+    /** Determines the corresponding language node of the enum declaration, so that Typir can infer its EnumType */
+    protected readonly getEnumOfMember: (languageNode: T) => unknown;
+    /** Determines the name of the declared member */
+    protected readonly getMemberName: (languageNode: T) => string;
+
+    constructor(services: TypirServices,
+        isMemberDeclaration: (languageNode: unknown) => languageNode is T,
+        getEnumOfMember: (languageNode: T) => unknown,
+        getMemberName: (languageNode: T) => string,
+    ) {
+        this.services = services;
+        this.isMemberDeclaration = isMemberDeclaration;
+        this.getEnumOfMember = getEnumOfMember;
+        this.getMemberName = getMemberName;
+    }
+
+    beforeValidation(_languageRoot: unknown, _typir: TypirServices): ValidationProblem[] {
+        this.foundDeclarations.clear();
+        return [];
+    }
+
+    validation(languageNode: unknown, _typir: TypirServices): ValidationProblem[] {
+        if (this.isMemberDeclaration(languageNode)) { // improves performance, since type inference need to be done only for relevant language nodes
+            const enumType = this.services.Inference.inferType(this.getEnumOfMember(languageNode));
+            if (isEnumType(enumType)) {
+                const key = this.calculateMemberKey(enumType, this.getMemberName(languageNode));
+                let entries = this.foundDeclarations.get(key);
+                if (!entries) {
+                    entries = [];
+                    this.foundDeclarations.set(key, entries);
+                }
+                entries.push({
+                    languageNode: languageNode,
+                    enumType,
+                });
+            }
+        }
+        return [];
+    }
+
+    /**
+     * Calculates a key for a member which encodes its unique properties, i.e. duplicate members have the same key.
+     * Additionally, the enum of the member needs to be represented in the key as well.
+     * Override this method to change the properties which make a member unique.
+     * @param enumType the current enum type
+     * @param memberName the name of the current member
+     * @returns a string key
+     */
+    protected calculateMemberKey(enumType: EnumType, memberName: string): string {
+        return `${enumType.getIdentifier()}.${memberName}`;
+    }
+
+    afterValidation(_languageRoot: unknown, _typir: TypirServices): ValidationProblem[] {
+        const result: ValidationProblem[] = [];
+        for (const [key, members] of this.foundDeclarations.entries()) {
+            if (members.length >= 2) {
+                for (const member of members) {
+                    result.push({
+                        $problem: ValidationProblem,
+                        languageNode: member.languageNode,
+                        severity: 'error',
+                        message: `Declared members of enums need to be unique (${key}).`,
+                    });
+                }
+            }
+        }
+
+        this.foundDeclarations.clear();
+        return result;
+    }
+}
+
+
+/**
+ * Predefined validation to produce errors for switch-like constructs over enum values, which do not cover all members of the enum.
+ * @param isRelevant helps to filter out the switch-like constructs in the user AST
+ * @param getEnumValue determines the value which is switched, its type is inferred and needs to be an enum type
+ * @param getCoveredMemberNames determines the names of the members, which are covered by the switch-like construct
+ * @returns a validation rule which checks for switch-like constructs, whether they cover all members of the enum
+ */
+export function createExhaustiveEnumValidation<T>(
+    isRelevant: (languageNode: unknown) => languageNode is T,
+    getEnumValue: (languageNode: T) => unknown,
+    getCoveredMemberNames: (languageNode: T) => string[],
+): ValidationRule {
+    return (languageNode: unknown, typir: TypirServices) => {
+        const result: ValidationProblem[] = [];
+        if (isRelevant(languageNode)) { // improves performance, since type inference need to be done only for relevant language nodes
+            const enumType = typir.Inference.inferType(getEnumValue(languageNode));
+            if (isEnumType(enumType)) {
+                const coveredMemberNames = getCoveredMemberNames(languageNode);
+                const missingMembers = enumType.getMembers().filter(member => coveredMemberNames.includes(member.name) === false);
+                if (missingMembers.length >= 1) {
+                    result.push({
+                        $problem: ValidationProblem,
+                        languageNode: languageNode,
+                        severity: 'error',
+                        message: `Not all members of the enum '${enumType.getName()}' are covered, missing: ${missingMembers.map(member => member.name).join(', ')}`,
+                    });
+                }
+            }
+        }
+        return result;
+    };
+}
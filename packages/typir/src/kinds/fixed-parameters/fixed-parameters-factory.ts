@@ -0,0 +1,41 @@
+/******************************************************************************
+ * Copyright 2025 TypeFox GmbH
+ * This program and the accompanying materials are made available under the
+ * terms of the MIT License, which is available in the project root.
+ ******************************************************************************/
+
+import { TypirServices } from '../../typir.js';
+import { FixedParameterDetails, FixedParameterKind, FixedParameterKindName, FixedParameterKindOptions } from './fixed-parameters-kind.js';
+
+/**
+ * Since there is one FixedParameterKind for each base name (e.g. one kind for `List<T>` and another kind for `Map<K, V>`),
+ * this factory service manages these kinds, while types are created by the kinds themselves.
+ */
+export interface FixedParameterKindFactoryService {
+    /**
+     * Defines a new kind for types with the given base name and parameters, or returns the already existing kind with this base name.
+     * @param baseName the name of the kind, e.g. `List`
+     * @param options the options for the new kind, they are ignored, if the kind already exists
+     * @param parameters the parameters of the new kind (in the order of the parameters), they are ignored, if the kind already exists
+     * @returns the kind, which is used to create types
+     */
+    getOrCreateKind(baseName: string, options?: Partial<FixedParameterKindOptions>, ...parameters: Array<string | FixedParameterDetails>): FixedParameterKind;
+    getKind(baseName: string): FixedParameterKind | undefined;
+}
+
+export class DefaultFixedParameterKindFactory implements FixedParameterKindFactoryService {
+    protected readonly services: TypirServices;
+
+    constructor(services: TypirServices) {
+        this.services = services;
+    }
+
+    getOrCreateKind(baseName: string, options?: Partial<FixedParameterKindOptions>, ...parameters: Array<string | FixedParameterDetails>): FixedParameterKind {
+        return this.services.infrastructure.Kinds.getOrCreateKind<FixedParameterKind>(`${FixedParameterKindName}-${baseName}`,
+            services => new FixedParameterKind(services, baseName, options, ...parameters));
+    }
+
+    getKind(baseName: string): FixedParameterKind | undefined {
+        return this.services.infrastructure.Kinds.get<FixedParameterKind>(`${FixedParameterKindName}-${baseName}`);
+    }
+}
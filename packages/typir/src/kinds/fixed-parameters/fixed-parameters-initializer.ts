@@ -0,0 +1,114 @@
+/******************************************************************************
+ * Copyright 2025 TypeFox GmbH
+ * This program and the accompanying materials are made available under the
+ * terms of the MIT License, which is available in the project root.
+ ******************************************************************************/
+
+import { Type, TypeStateListener } from '../../graph/type-node.js';
+import { TypeInitializer } from '../../initialization/type-initializer.js';
+import { InferenceProblem, InferenceRuleNotApplicable, TypeInferenceRule } from '../../services/inference.js';
+import { TypirServices } from '../../typir.js';
+import { checkTypeArrays } from '../../utils/utils-type-comparison.js';
+import { assertType } from '../../utils/utils.js';
+import { CreateFixedParameterTypeDetails, FixedParameterKind, InferFixedParameterLiteral } from './fixed-parameters-kind.js';
+import { FixedParameterType, isFixedParameterType } from './fixed-parameters-type.js';
+
+export class FixedParameterTypeInitializer<T = unknown> extends TypeInitializer<FixedParameterType> implements TypeStateListener {
+    protected readonly typeDetails: CreateFixedParameterTypeDetails<T>;
+    protected readonly kind: FixedParameterKind;
+    protected inferenceRules: TypeInferenceRule[];
+    protected initialFixedParameterType: FixedParameterType;
+
+    constructor(services: TypirServices, kind: FixedParameterKind, typeDetails: CreateFixedParameterTypeDetails<T>) {
+        super(services);
+        this.typeDetails = typeDetails;
+        this.kind = kind;
+
+        // create the type with parameters
+        this.initialFixedParameterType = new FixedParameterType(kind, typeDetails);
+
+        this.inferenceRules = this.createInferenceRules(this.typeDetails, this.initialFixedParameterType);
+        // register all the inference rules already now to enable early type inference for this type
+        this.inferenceRules.forEach(rule => services.Inference.addInferenceRule(rule, undefined)); // 'undefined', since the Identifier is still missing
+
+        this.initialFixedParameterType.addListener(this, true); // trigger directly, if some initialization states are already reached!
+    }
+
+    onSwitchedToIdentifiable(fixedParameterType: Type): void {
+        assertType(fixedParameterType, isFixedParameterType);
+        const readyFixedParameterType = this.producedType(fixedParameterType);
+
+        // remove the inference rules for the not yet identifiable type
+        this.inferenceRules.forEach(rule => this.services.Inference.removeInferenceRule(rule, undefined));
+        if (readyFixedParameterType !== fixedParameterType) {
+            // the same type was already created earlier => skip the new type
+            fixedParameterType.removeListener(this);
+            // but re-create the inference rules for the existing type!
+            this.inferenceRules = this.createInferenceRules(this.typeDetails, readyFixedParameterType);
+        }
+        this.inferenceRules.forEach(rule => this.services.Inference.addInferenceRule(rule, readyFixedParameterType));
+    }
+
+    onSwitchedToCompleted(fixedParameterType: Type): void {
+        // the work of this initializer is done now
+        fixedParameterType.removeListener(this);
+    }
+
+    onSwitchedToInvalid(_fixedParameterType: Type): void {
+        // nothing specific needs to be done here, since the base implementation takes already care about all relevant stuff
+    }
+
+    override getTypeInitial(): FixedParameterType {
+        return this.initialFixedParameterType;
+    }
+
+    protected createInferenceRules(typeDetails: CreateFixedParameterTypeDetails<T>, fixedParameterType: FixedParameterType): TypeInferenceRule[] {
+        const result: TypeInferenceRule[] = [];
+        if (typeDetails.inferenceRuleForDeclaration) {
+            result.push((languageNode, _typir) => {
+                if (typeDetails.inferenceRuleForDeclaration!(languageNode)) {
+                    return fixedParameterType;
+                } else {
+                    return InferenceRuleNotApplicable;
+                }
+            });
+        }
+        if (typeDetails.inferenceRuleForLiteral) {
+            result.push(this.createInferenceRuleForLiteral(typeDetails.inferenceRuleForLiteral, fixedParameterType));
+        }
+        return result;
+    }
+
+    protected createInferenceRuleForLiteral(rule: InferFixedParameterLiteral<T>, fixedParameterType: FixedParameterType): TypeInferenceRule {
+        return {
+            inferTypeWithoutChildren(languageNode, _typir) {
+                if (rule.filter(languageNode) && rule.matching(languageNode)) {
+                    // the types of all values for all parameters need to be inferred
+                    return rule.inputValuesForParameters(languageNode).flat();
+                }
+                // does not match at all
+                return InferenceRuleNotApplicable;
+            },
+            inferTypeWithChildrensTypes(languageNode, childrenTypes, typir) {
+                // each value needs to be assignable to the type of its parameter
+                const parameterTypes = fixedParameterType.getParameterTypes();
+                const expectedTypes = rule.inputValuesForParameters(languageNode as T)
+                    .flatMap((values, parameterIndex) => values.map(() => parameterTypes[parameterIndex]));
+                const checkedValuesProblems = checkTypeArrays(childrenTypes, expectedTypes, (actual, expected) => typir.Assignability.getAssignabilityProblem(actual, expected), false);
+                if (checkedValuesProblems.length >= 1) {
+                    return <InferenceProblem>{
+                        $problem: InferenceProblem,
+                        languageNode: languageNode,
+                        inferenceCandidate: fixedParameterType,
+                        location: 'values for parameters',
+                        rule: this,
+                        subProblems: checkedValuesProblems,
+                    };
+                } else {
+                    return fixedParameterType;
+                }
+            },
+        };
+    }
+
+}
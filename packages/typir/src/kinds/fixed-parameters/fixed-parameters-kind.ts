@@ -5,24 +5,66 @@
  ******************************************************************************/
 
 import { Type, TypeDetails } from '../../graph/type-node.js';
+import { TypeInitializer } from '../../initialization/type-initializer.js';
+import { TypeReference } from '../../initialization/type-reference.js';
+import { TypeSelector } from '../../initialization/type-selector.js';
 import { TypirServices } from '../../typir.js';
-import { TypeCheckStrategy } from '../../utils/utils-type-comparison.js';
-import { assertTrue, toArray } from '../../utils/utils.js';
+import { TypirProblem } from '../../utils/utils-definitions.js';
+import { createTypeCheckStrategy, TypeCheckStrategy } from '../../utils/utils-type-comparison.js';
+import { assertTrue, assertUnreachable, toArray } from '../../utils/utils.js';
+import { DerivedSubTypes } from '../derived-subtypes.js';
 import { Kind, isKind } from '../kind.js';
-import { FixedParameterType } from './fixed-parameters-type.js';
+import { FixedParameterTypeInitializer } from './fixed-parameters-initializer.js';
+import { FixedParameterType, isFixedParameterType } from './fixed-parameters-type.js';
+
+/**
+ * Describes, how the sub-type relationship of the parameter types influences the sub-type relationship of the types with parameters:
+ * - COVARIANT: `List<Dog>` is a sub-type of `List<Animal>`, e.g. for read-only collections
+ * - CONTRAVARIANT: `Consumer<Animal>` is a sub-type of `Consumer<Dog>`, e.g. for sinks
+ * - INVARIANT: the parameter types need to be equal
+ * - BIVARIANT: covariant or contravariant
+ */
+export type ParameterVariance = 'COVARIANT' | 'CONTRAVARIANT' | 'INVARIANT' | 'BIVARIANT';
 
 export class Parameter {
     readonly name: string;
     readonly index: number;
+    /** If no variance is specified, the 'parameterSubtypeCheckingStrategy' of the kind is used. */
+    readonly variance: ParameterVariance | undefined;
 
-    constructor(name: string, index: number) {
+    constructor(name: string, index: number, variance?: ParameterVariance) {
         this.name = name;
         this.index = index;
+        this.variance = variance;
     }
 }
 
+export interface FixedParameterDetails {
+    name: string;
+    variance?: ParameterVariance;
+}
+
 export interface FixedParameterTypeDetails extends TypeDetails {
-    parameterTypes: Type | Type[]
+    /** The order of the parameter types needs to fit to the order of the parameters of the kind. */
+    parameterTypes: TypeSelector | TypeSelector[]
+}
+
+export interface CreateFixedParameterTypeDetails<T = unknown> extends FixedParameterTypeDetails {
+    inferenceRuleForDeclaration?: (languageNode: unknown) => boolean,
+    inferenceRuleForLiteral?: InferFixedParameterLiteral<T>,
+}
+
+export type InferFixedParameterLiteral<T = unknown> = {
+    filter: (languageNode: unknown) => languageNode is T;
+    matching: (languageNode: T) => boolean;
+    /** For each parameter (in the order of the parameters), the values whose types need to be assignable to the type of the parameter, e.g. the keys and the values of a map literal. */
+    inputValuesForParameters: (languageNode: T) => unknown[][];
+};
+
+export interface FixedParameterFactoryService {
+    create<T>(typeDetails: CreateFixedParameterTypeDetails<T>): TypeInitializer<FixedParameterType>;
+    get(typeDetails: FixedParameterTypeDetails): TypeReference<FixedParameterType>;
+    calculateIdentifier(typeDetails: FixedParameterTypeDetails): string;
 }
 
 export interface FixedParameterKindOptions {
@@ -34,23 +76,33 @@ export const FixedParameterKindName = 'FixedParameterKind';
 /**
  * Suitable for kinds like Collection<T>, List<T>, Array<T>, Map<K, V>, ..., i.e. types with a fixed number of arbitrary parameter types
  */
-export class FixedParameterKind implements Kind {
+export class FixedParameterKind implements Kind, FixedParameterFactoryService {
     readonly $name: `FixedParameterKind-${string}`;
     readonly services: TypirServices;
     readonly baseName: string;
     readonly options: Readonly<FixedParameterKindOptions>;
     readonly parameters: Parameter[]; // assumption: the parameters are in the correct order!
+    readonly derivedSubTypes: DerivedSubTypes<FixedParameterType>;
 
-    constructor(typir: TypirServices, baseName: string, options?: Partial<FixedParameterKindOptions>, ...parameterNames: string[]) {
+    constructor(typir: TypirServices, baseName: string, options?: Partial<FixedParameterKindOptions>, ...parameterDetails: Array<string | FixedParameterDetails>) {
         this.$name = `${FixedParameterKindName}-${baseName}`;
         this.services = typir;
         this.services.infrastructure.Kinds.register(this);
         this.baseName = baseName;
         this.options = this.collectOptions(options);
-        this.parameters = parameterNames.map((name, index) => <Parameter>{ name, index });
+        this.parameters = parameterDetails.map((details, index) => typeof details === 'string'
+            ? new Parameter(details, index)
+            : new Parameter(details.name, index, details.variance));
 
         // check input
         assertTrue(this.parameters.length >= 1);
+
+        // the sub-type relationships between types of this kind are derived from the relationships between their parameter types
+        this.derivedSubTypes = new DerivedSubTypes(typir, {
+            isDerivedType: (type): type is FixedParameterType => isFixedParameterType(type) && type.kind === this,
+            getDependencies: type => type.getParameterTypes(),
+            isSubType: (subType, superType) => isFixedParameterType(subType) && isFixedParameterType(superType) && subType.analyzeSubTypeProblems(subType, superType).length <= 0,
+        });
     }
 
     protected collectOptions(options?: Partial<FixedParameterKindOptions>): FixedParameterKindOptions {
@@ -62,30 +114,46 @@ export class FixedParameterKind implements Kind {
         };
     }
 
-    getFixedParameterType(typeDetails: FixedParameterTypeDetails): FixedParameterType | undefined {
-        const key = this.calculateIdentifier(typeDetails);
-        return this.services.infrastructure.Graph.getType(key) as FixedParameterType;
+    get(typeDetails: FixedParameterTypeDetails): TypeReference<FixedParameterType> {
+        return new TypeReference(() => this.calculateIdentifier(typeDetails), this.services);
     }
 
     // the order of parameters matters!
-    createFixedParameterType(typeDetails: FixedParameterTypeDetails): FixedParameterType {
-        assertTrue(this.getFixedParameterType(typeDetails) === undefined);
-
-        // create the class type
-        const typeWithParameters = new FixedParameterType(this, this.calculateIdentifier(typeDetails), typeDetails);
-        this.services.infrastructure.Graph.addNode(typeWithParameters);
-
-        this.registerInferenceRules(typeDetails, typeWithParameters);
+    create<T>(typeDetails: CreateFixedParameterTypeDetails<T>): TypeInitializer<FixedParameterType> {
+        if (toArray(typeDetails.parameterTypes).length !== this.parameters.length) {
+            throw new Error(`The type '${this.baseName}' requires ${this.parameters.length} parameter types, but ${toArray(typeDetails.parameterTypes).length} are given.`);
+        }
+        return new FixedParameterTypeInitializer(this.services, this, typeDetails);
+    }
 
-        return typeWithParameters;
+    /**
+     * Analyzes, whether the parameter type of a sub-type fits to the parameter type of a super-type, depending on the variance of the parameter.
+     * @param parameter the parameter whose types are compared
+     * @param subParameterType the parameter type of the sub-type
+     * @param superParameterType the parameter type of the super-type
+     * @returns an empty array, if the parameter types fit, otherwise the found problems
+     */
+    analyzeParameterProblems(parameter: Parameter, subParameterType: Type, superParameterType: Type): TypirProblem[] {
+        if (parameter.variance === undefined) {
+            return toArray(createTypeCheckStrategy(this.options.parameterSubtypeCheckingStrategy, this.services)(subParameterType, superParameterType));
+        } else {
+            return analyzeVarianceProblems(parameter.variance, subParameterType, superParameterType, this.services);
+        }
     }
 
-    protected registerInferenceRules(_typeDetails: FixedParameterTypeDetails, _typeWithParameters: FixedParameterType): void {
-        // TODO
+    /**
+     * Describes, how the types of the given parameter are compared, e.g. in order to report sub-type problems.
+     * @param parameter the parameter
+     * @returns the variance of the parameter or the check strategy of the kind, if the parameter has no variance
+     */
+    printVariance(parameter: Parameter): string {
+        return parameter.variance ?? this.options.parameterSubtypeCheckingStrategy;
     }
 
     calculateIdentifier(typeDetails: FixedParameterTypeDetails): string {
-        return this.printSignature(this.baseName, toArray(typeDetails.parameterTypes), ','); // use the signature for a unique name
+        const resolver = this.services.infrastructure.TypeResolver;
+        const parameterIdentifiers = toArray(typeDetails.parameterTypes).map(selector => resolver.resolve(selector).getIdentifier());
+        return `${this.baseName}<${parameterIdentifiers.join(',')}>`; // use the signature for a unique name
     }
 
     printSignature(baseName: string, parameterTypes: Type[], parameterSeparator: string): string {
@@ -94,6 +162,36 @@ export class FixedParameterKind implements Kind {
 
 }
 
+/**
+ * Analyzes, whether the type argument of a sub-type fits to the type argument of a super-type, depending on the given variance,
+ * e.g. for parameters of types with fixed parameters or for the element types of arrays.
+ * @param variance the variance to check
+ * @param subArgumentType the type argument of the sub-type
+ * @param superArgumentType the type argument of the super-type
+ * @param services the Typir services
+ * @returns an empty array, if the type arguments fit, otherwise the found problems
+ */
+export function analyzeVarianceProblems(variance: ParameterVariance, subArgumentType: Type, superArgumentType: Type, services: TypirServices): TypirProblem[] {
+    const equality = services.Equality;
+    const subtype = services.Subtype;
+    const equalOrSubType = (sub: Type, superr: Type) => equality.areTypesEqual(sub, superr) ? undefined : subtype.getSubTypeProblem(sub, superr);
+    switch (variance) {
+        case 'COVARIANT':
+            return toArray(equalOrSubType(subArgumentType, superArgumentType));
+        case 'CONTRAVARIANT':
+            return toArray(equalOrSubType(superArgumentType, subArgumentType));
+        case 'INVARIANT':
+            return toArray(equality.getTypeEqualityProblem(subArgumentType, superArgumentType));
+        case 'BIVARIANT': {
+            const covariant = equalOrSubType(subArgumentType, superArgumentType);
+            const contravariant = covariant ? equalOrSubType(superArgumentType, subArgumentType) : undefined;
+            return covariant && contravariant ? [covariant, contravariant] : [];
+        }
+        default:
+            assertUnreachable(variance);
+    }
+}
+
 export function isFixedParametersKind(kind: unknown): kind is FixedParameterKind {
     return isKind(kind) && kind.$name.startsWith('FixedParameterKind-');
 }
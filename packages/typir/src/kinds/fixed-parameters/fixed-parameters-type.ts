@@ -5,17 +5,18 @@
  ******************************************************************************/
 
 import { isType, Type } from '../../graph/type-node.js';
+import { TypeReference } from '../../initialization/type-reference.js';
 import { TypeEqualityProblem } from '../../services/equality.js';
 import { TypirProblem } from '../../utils/utils-definitions.js';
-import { checkTypeArrays, checkValueForConflict, createKindConflict, createTypeCheckStrategy } from '../../utils/utils-type-comparison.js';
+import { checkTypeArrays, checkValueForConflict, createKindConflict, IndexedTypeConflict } from '../../utils/utils-type-comparison.js';
 import { assertTrue, toArray } from '../../utils/utils.js';
 import { FixedParameterKind, FixedParameterTypeDetails, isFixedParametersKind, Parameter } from './fixed-parameters-kind.js';
 
 export class ParameterValue {
     readonly parameter: Parameter;
-    readonly type: Type;
+    readonly type: TypeReference;
 
-    constructor(parameter: Parameter, type: Type) {
+    constructor(parameter: Parameter, type: TypeReference) {
         this.parameter = parameter;
         this.type = type;
     }
@@ -25,24 +26,48 @@ export class FixedParameterType extends Type {
     override readonly kind: FixedParameterKind;
     readonly parameterValues: ParameterValue[] = [];
 
-    constructor(kind: FixedParameterKind, identifier: string, typeDetails: FixedParameterTypeDetails) {
-        super(identifier, typeDetails);
+    constructor(kind: FixedParameterKind, typeDetails: FixedParameterTypeDetails) {
+        super(undefined, typeDetails);
         this.kind = kind;
 
         // set the parameter values
         const typeValues = toArray(typeDetails.parameterTypes);
         assertTrue(kind.parameters.length === typeValues.length);
         for (let i = 0; i < typeValues.length; i++) {
-            this.parameterValues.push({
-                parameter: kind.parameters[i],
-                type: typeValues[i],
-            });
+            this.parameterValues.push(new ParameterValue(kind.parameters[i], new TypeReference(typeValues[i], kind.services)));
         }
-        this.defineTheInitializationProcessOfThisType({}); // TODO preconditions
+
+        // define to wait for the parameter types
+        const allParameterRefs = this.parameterValues.map(value => value.type);
+        this.defineTheInitializationProcessOfThisType({
+            preconditionsForIdentifiable: {
+                referencesToBeIdentifiable: allParameterRefs,
+            },
+            referencesRelevantForInvalidation: allParameterRefs,
+            onIdentifiable: () => {
+                // the identifier is calculated now
+                this.identifier = this.kind.calculateIdentifier(typeDetails);
+                // the registration of the type in the type graph is done by the TypeInitializer
+            },
+            onCompleted: () => {
+                // duplicated types are not registered in the type graph, i.e. they are not considered for sub-type relationships
+                this.kind.derivedSubTypes.register(this);
+            },
+            onInvalidated: () => {
+                this.kind.derivedSubTypes.unregister(this);
+            },
+        });
     }
 
     getParameterTypes(): Type[] {
-        return this.parameterValues.map(p => p.type);
+        return this.parameterValues.map(value => {
+            const type = value.type.getType();
+            if (type) {
+                return type;
+            } else {
+                throw new Error(`The type for the parameter '${value.parameter.name}' is not resolved.`);
+            }
+        });
     }
 
     override getName(): string {
@@ -76,18 +101,41 @@ export class FixedParameterType extends Type {
         }
     }
 
-    protected analyzeSubTypeProblems(subType: FixedParameterType, superType: FixedParameterType): TypirProblem[] {
+    /**
+     * Analyzes, whether the given sub-type is a sub-type of the given super-type:
+     * Both need to have the same base type, and their parameter types need to fit to each other according to the variance of the parameters.
+     * @param subType the sub-type
+     * @param superType the super-type
+     * @returns an empty array, if the sub-type relationship exists, otherwise the found conflicts, which name the parameter and its variance
+     */
+    analyzeSubTypeProblems(subType: FixedParameterType, superType: FixedParameterType): TypirProblem[] {
         // same name, e.g. both need to be Map, Set, Array, ...
         const baseTypeCheck = checkValueForConflict(subType.kind.baseName, superType.kind.baseName, 'base type');
         if (baseTypeCheck.length >= 1) {
             // e.g. List<String> !== Set<String>
             return baseTypeCheck;
         } else {
-            // all parameter types must match, e.g. Set<String> !== Set<Boolean>
-            const checkStrategy = createTypeCheckStrategy(this.kind.options.parameterSubtypeCheckingStrategy, this.kind.services);
-            return checkTypeArrays(subType.getParameterTypes(), superType.getParameterTypes(), checkStrategy, false);
+            // all parameter types must match according to their variance, e.g. Set<String> !== Set<Boolean>
+            const conflicts: TypirProblem[] = [];
+            const subTypes = subType.getParameterTypes();
+            const superTypes = superType.getParameterTypes();
+            for (const parameter of this.kind.parameters) {
+                const subProblems = this.kind.analyzeParameterProblems(parameter, subTypes[parameter.index], superTypes[parameter.index]);
+                if (subProblems.length >= 1) {
+                    conflicts.push(<IndexedTypeConflict>{
+                        $problem: IndexedTypeConflict,
+                        expected: superTypes[parameter.index],
+                        actual: subTypes[parameter.index],
+                        propertyIndex: parameter.index,
+                        propertyName: `${parameter.name} (${this.kind.printVariance(parameter)})`,
+                        subProblems,
+                    });
+                }
+            }
+            return conflicts;
         }
     }
+
 }
 
 export function isFixedParameterType(type: unknown): type is FixedParameterType {
@@ -4,11 +4,12 @@
  * terms of the MIT License, which is available in the project root.
  ******************************************************************************/
 
-import { Type } from '../../graph/type-node.js';
+import { isType, Type } from '../../graph/type-node.js';
 import { AssignabilitySuccess, isAssignabilityProblem } from '../../services/assignability.js';
 import { TypeInferenceRuleWithInferringChildren, InferenceRuleNotApplicable, InferenceProblem } from '../../services/inference.js';
 import { TypirServices } from '../../typir.js';
-import { checkTypeArrays } from '../../utils/utils-type-comparison.js';
+import { checkTypeArrays, ValueConflict } from '../../utils/utils-type-comparison.js';
+import { collectTypeVariables } from '../type-variable/type-variable-substitution.js';
 import { CreateFunctionTypeDetails, OverloadedFunctionDetails } from './function-kind.js';
 import { FunctionType } from './function-type.js';
 
@@ -50,11 +51,19 @@ export class FunctionCallInferenceRule<T> implements TypeInferenceRuleWithInferr
         }
         // 3. Check whether the current arguments fit to the expected parameter types
         const inputArguments = this.typeDetails.inferenceRuleForCalls!.inputArguments(languageNode);
-        if (inputArguments.length <= 0) {
+        if (inputArguments.length <= 0 && this.functionType.isGeneric() === false) {
             // there are no operands to check
-            return this.check(this.getOutputTypeForFunctionCalls());
+            return this.check(this.typeDetails.outputTypeForCalls ? this.typeDetails.outputTypeForCalls([]) : this.getOutputTypeForFunctionCalls());
         }
         // at least one operand => this function type might match, to be sure, resolve the types of the values for the parameters
+        if (this.functionType.isGeneric()) {
+            // generic functions need the types of the parameters in order to derive the type arguments for their type parameters (even without parameters, unbound type parameters need to be detected)
+            return inputArguments;
+        }
+        if (this.typeDetails.outputTypeForCalls) {
+            // the output type is computed from the types of the parameters
+            return inputArguments;
+        }
         const overloadInfos = this.mapNameTypes.get(this.typeDetails.functionName);
         if (overloadInfos === undefined || overloadInfos.overloadedFunctions.length <= 1) {
             // the current function is not overloaded, therefore, the types of their parameters are not required => save time, ignore inference errors
@@ -69,8 +78,31 @@ export class FunctionCallInferenceRule<T> implements TypeInferenceRuleWithInferr
         return inputArguments;
     }
 
-    inferTypeWithChildrensTypes(languageNode: unknown, actualInputTypes: Array<Type | undefined>, typir: TypirServices): Type | InferenceProblem {
-        const expectedInputTypes = this.typeDetails.inputParameters.map(p => typir.infrastructure.TypeResolver.resolve(p.type));
+    inferTypeWithChildrensTypes(languageNode: unknown, childrenTypes: Array<Type | undefined>, typir: TypirServices): Type | InferenceProblem {
+        // literal values are inferred as literal types, if the corresponding input parameters expect literal types (which is not done for the children in general)
+        const inputArguments = this.typeDetails.inferenceRuleForCalls!.inputArguments(languageNode as T); // the filter of the rule already accepted this language node
+        const actualInputTypes = childrenTypes.map((childType, index) => {
+            if (childType === undefined) {
+                return undefined;
+            }
+            const argumentType = this.functionType.kind.inferArgumentType(this.functionType, inputArguments[index], index);
+            return isType(argumentType) ? argumentType : childType;
+        });
+        // derive the type arguments for generic functions (non-generic functions have no type arguments)
+        const typeArguments = this.functionType.kind.inferTypeArguments(this.functionType, actualInputTypes);
+        if (typeArguments instanceof Map === false) {
+            // the types of the arguments bind some type parameters to different types
+            return {
+                $problem: InferenceProblem,
+                languageNode: languageNode,
+                inferenceCandidate: this.functionType,
+                location: 'type parameters',
+                rule: this,
+                subProblems: typeArguments,
+            };
+        }
+        const expectedInputTypes = this.typeDetails.inputParameters
+            .map(p => this.functionType.kind.getTypeForCall(typir.infrastructure.TypeResolver.resolve(p.type), typeArguments));
         // all operands need to be assignable(! not equal) to the required types
         const comparisonConflicts = checkTypeArrays(
             actualInputTypes,
@@ -100,7 +132,39 @@ export class FunctionCallInferenceRule<T> implements TypeInferenceRuleWithInferr
             // We have a dedicated validation for this case (see below), but a resulting error might be ignored by the user => return the problem during type-inference again
         } else {
             // matching => return the return type of the function for the case of a function call!
-            return this.check(this.getOutputTypeForFunctionCalls());
+            if (this.typeDetails.outputTypeForCalls) {
+                const argumentTypes: Type[] = actualInputTypes.filter(isType); // all types are known, since they are assignable to the input parameters
+                const computedOutputType = this.typeDetails.outputTypeForCalls(argumentTypes);
+                return computedOutputType ?? {
+                    $problem: InferenceProblem,
+                    languageNode: languageNode,
+                    inferenceCandidate: this.functionType,
+                    location: 'output type',
+                    rule: this,
+                    subProblems: [], // the types of the arguments fit to the input parameters, but not to each other
+                };
+            }
+            const outputType = this.getOutputTypeForFunctionCalls();
+            if (outputType) {
+                // type parameters which are used only in the output type or whose arguments have unknown types cannot be replaced by type arguments
+                const unboundTypeParameters = collectTypeVariables(outputType, this.functionType.getTypeParameters().filter(parameter => typeArguments.has(parameter) === false));
+                if (unboundTypeParameters.length >= 1) {
+                    return {
+                        $problem: InferenceProblem,
+                        languageNode: languageNode,
+                        inferenceCandidate: this.functionType,
+                        location: 'output type',
+                        rule: this,
+                        subProblems: unboundTypeParameters.map(parameter => <ValueConflict>{
+                            $problem: ValueConflict,
+                            firstValue: parameter.getName(),
+                            secondValue: undefined,
+                            location: `type variable '${parameter.getName()}'`, // no type argument is derived for this type parameter
+                        }),
+                    };
+                }
+            }
+            return this.check(outputType ? this.functionType.kind.getTypeForCall(outputType, typeArguments) : undefined);
         }
     }
 
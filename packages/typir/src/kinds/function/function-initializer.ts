@@ -88,10 +88,10 @@ export class FunctionTypeInitializer<T> extends TypeInitializer<FunctionType> im
         const outputTypeForFunctionCalls = this.kind.getOutputTypeForFunctionCalls(readyFunctionType); // output parameter for function calls
         const overloaded = this.kind.mapNameTypes.get(functionName)!;
         if (overloaded.overloadedFunctions.length <= 0) {
-            // remember the output type of the first function
-            overloaded.sameOutputType = outputTypeForFunctionCalls;
+            // remember the output type of the first function (the output type of generic functions depends on the type arguments of each call, computed output types depend on the types of the arguments of each call)
+            overloaded.sameOutputType = readyFunctionType.isGeneric() || this.typeDetails.outputTypeForCalls ? undefined : outputTypeForFunctionCalls;
         } else {
-            if (overloaded.sameOutputType && outputTypeForFunctionCalls && this.services.Equality.areTypesEqual(overloaded.sameOutputType, outputTypeForFunctionCalls) === true) {
+            if (overloaded.sameOutputType && outputTypeForFunctionCalls && this.typeDetails.outputTypeForCalls === undefined && this.services.Equality.areTypesEqual(overloaded.sameOutputType, outputTypeForFunctionCalls) === true) {
                 // the output types of all overloaded functions are the same for now
             } else {
                 // there is a difference
@@ -101,6 +101,7 @@ export class FunctionTypeInitializer<T> extends TypeInitializer<FunctionType> im
         overloaded.overloadedFunctions.push({
             functionType: readyFunctionType,
             inferenceRuleForCalls: this.typeDetails.inferenceRuleForCalls,
+            outputTypeForCalls: this.typeDetails.outputTypeForCalls,
         });
     }
 
@@ -123,6 +124,9 @@ export class FunctionTypeInitializer<T> extends TypeInitializer<FunctionType> im
         if (this.inferenceRules.inferenceForDeclaration) {
             this.kind.services.Inference.addInferenceRule(this.inferenceRules.inferenceForDeclaration, functionType);
         }
+        if (this.inferenceRules.inferenceForReference) {
+            this.kind.services.Inference.addInferenceRule(this.inferenceRules.inferenceForReference, functionType);
+        }
     }
 
     protected deregisterInferenceRules(functionName: string, functionType: FunctionType | undefined): void {
@@ -136,6 +140,9 @@ export class FunctionTypeInitializer<T> extends TypeInitializer<FunctionType> im
         if (this.inferenceRules.inferenceForDeclaration) {
             this.kind.services.Inference.removeInferenceRule(this.inferenceRules.inferenceForDeclaration, functionType);
         }
+        if (this.inferenceRules.inferenceForReference) {
+            this.kind.services.Inference.removeInferenceRule(this.inferenceRules.inferenceForReference, functionType);
+        }
     }
 
     protected createInferenceRules<T>(typeDetails: CreateFunctionTypeDetails<T>, functionType: FunctionType): FunctionInferenceRules {
@@ -160,10 +167,15 @@ export class FunctionTypeInitializer<T> extends TypeInitializer<FunctionType> im
                             // for overloaded functions: the types of the parameters need to be inferred in order to determine an exact match
                             // (Note that the short-cut for type inference for function calls, when all overloads return the same output type, does not work here, since the validation here is specific for this single variant!)
                             // This is also the reason, why the inference rule for call is not reused here.)
-                            const childTypes: Array<Type | InferenceProblem[]> = inputArguments.map(child => typir.Inference.inferType(child));
+                            const childTypes: Array<Type | InferenceProblem[]> = inputArguments.map((child, index) => this.kind.inferArgumentType(functionType, child, index));
                             const actualInputTypes = childTypes.filter(t => isType(t));
                             if (childTypes.length === actualInputTypes.length) {
-                                const expectedInputTypes = typeDetails.inputParameters.map(p => typir.infrastructure.TypeResolver.resolve(p.type));
+                                const typeArguments = this.kind.inferTypeArguments(functionType, actualInputTypes);
+                                if (typeArguments instanceof Map === false) {
+                                    // the type arguments of this generic function cannot be determined => this function is not called here
+                                    return [];
+                                }
+                                const expectedInputTypes = typeDetails.inputParameters.map(p => this.kind.getTypeForCall(typir.infrastructure.TypeResolver.resolve(p.type), typeArguments));
                                 // all operands need to be assignable(! not equal) to the required types
                                 const comparisonConflicts = checkTypeArrays(actualInputTypes, expectedInputTypes,
                                     (t1, t2) => typir.Assignability.getAssignabilityProblem(t1, t2), true);
@@ -199,6 +211,28 @@ export class FunctionTypeInitializer<T> extends TypeInitializer<FunctionType> im
             };
         }
 
+        // create inference rule for references to the new function and for lambda literals
+        if (typeDetails.inferenceRuleForReferences) {
+            result.inferenceForReference = (languageNode, _typir) => {
+                if (typeDetails.inferenceRuleForReferences!(languageNode)) {
+                    if (functionType.isInStateOrLater('Identifiable')) {
+                        // the signature is derived from the function type and therefore requires the types of all parameters
+                        return this.kind.getOrCreateSignature(functionType);
+                    } else {
+                        return <InferenceProblem>{
+                            $problem: InferenceProblem,
+                            languageNode,
+                            inferenceCandidate: functionType,
+                            location: 'signature of the referenced function',
+                            subProblems: [],
+                        };
+                    }
+                } else {
+                    return InferenceRuleNotApplicable;
+                }
+            };
+        }
+
         return result;
     }
 
@@ -208,4 +242,5 @@ interface FunctionInferenceRules {
     inferenceForCall?: TypeInferenceRule;
     validationForCall?: ValidationRule;
     inferenceForDeclaration?: TypeInferenceRule;
+    inferenceForReference?: TypeInferenceRule;
 }
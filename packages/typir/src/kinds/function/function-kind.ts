@@ -5,16 +5,19 @@
  ******************************************************************************/
 
 import { TypeGraphListener } from '../../graph/type-graph.js';
-import { Type, TypeDetails } from '../../graph/type-node.js';
+import { isType, Type, TypeDetails } from '../../graph/type-node.js';
 import { TypeInitializer } from '../../initialization/type-initializer.js';
 import { TypeReference } from '../../initialization/type-reference.js';
 import { TypeSelector } from '../../initialization/type-selector.js';
-import { CompositeTypeInferenceRule } from '../../services/inference.js';
+import { CompositeTypeInferenceRule, InferenceProblem } from '../../services/inference.js';
 import { ValidationProblem } from '../../services/validation.js';
 import { TypirServices } from '../../typir.js';
-import { NameTypePair } from '../../utils/utils-definitions.js';
+import { NameTypePair, TypirProblem } from '../../utils/utils-definitions.js';
 import { TypeCheckStrategy, checkTypes, checkValueForConflict, createTypeCheckStrategy } from '../../utils/utils-type-comparison.js';
+import { assertTrue, assertType, toArray } from '../../utils/utils.js';
+import { DerivedSubTypes } from '../derived-subtypes.js';
 import { Kind, isKind } from '../kind.js';
+import { bindTypeVariables, substituteTypeVariables, TypeVariableSubstitutions } from '../type-variable/type-variable-substitution.js';
 import { FunctionTypeInitializer } from './function-initializer.js';
 import { FunctionType, isFunctionType } from './function-type.js';
 
@@ -46,13 +49,20 @@ export interface FunctionTypeDetails extends TypeDetails {
     /** The order of parameters is important! */
     outputParameter: CreateParameterDetails | undefined,
     inputParameters: CreateParameterDetails[],
+    /** The type parameters of generic functions, e.g. `T` for `identity<T>(x: T): T`, need to be type variables. */
+    typeParameters?: TypeSelector[],
 }
 export interface CreateFunctionTypeDetails<T> extends FunctionTypeDetails {
     /** for function declarations => returns the funtion type (the whole signature including all names) */
     inferenceRuleForDeclaration?: (languageNode: unknown) => boolean,
     /** for function calls => returns the return type of the function */
     inferenceRuleForCalls?: InferFunctionCall<T>,
-    // TODO for function references (like the declaration, but without any names!) => returns signature (without any names)
+    /** for function calls, whose output type depends on the actual types of the arguments (e.g. operators for units of measure) => computes the output type of the call,
+     * 'undefined' indicates, that the function cannot be called with arguments of these types; if not specified, the type of the output parameter is returned */
+    outputTypeForCalls?: (actualInputTypes: Type[]) => Type | undefined,
+    /** for references to the function (e.g. when functions are passed as arguments to higher-order functions) and for lambda literals
+     * => returns the anonymous signature of the function, i.e. without the names which are not enforced by the options of the function kind */
+    inferenceRuleForReferences?: (languageNode: unknown) => boolean,
 
     /** This validation will be applied to all language nodes which represent calls of the functions. */
     validationForCall?: FunctionCallValidationRule<T>,
@@ -72,6 +82,7 @@ export interface OverloadedFunctionDetails {
 interface SingleFunctionDetails<T> {
     functionType: FunctionType;
     inferenceRuleForCalls?: InferFunctionCall<T>;
+    outputTypeForCalls?: (actualInputTypes: Type[]) => Type | undefined;
 }
 
 // (languageNode: unknown) => boolean | unknown[]
@@ -106,6 +117,7 @@ export type InferFunctionCall<T = unknown> = {
 export interface FunctionFactoryService {
     create<T>(typeDetails: CreateFunctionTypeDetails<T>): TypeInitializer<FunctionType>;
     get(typeDetails: FunctionTypeDetails): TypeReference<FunctionType>;
+    getOrCreateSignature(functionType: FunctionType): FunctionType;
     calculateIdentifier(typeDetails: FunctionTypeDetails): string;
 }
 
@@ -134,12 +146,28 @@ export class FunctionKind implements Kind, TypeGraphListener, FunctionFactorySer
      */
     readonly mapNameTypes: Map<string, OverloadedFunctionDetails> = new Map(); // function name => all overloaded functions with this name/key
     // TODO try to replace this map with calculating the required identifier for the function
+    /** function type => its signature, which was created on demand for references to this function */
+    protected readonly createdSignatures: Map<FunctionType, FunctionType> = new Map();
+    readonly derivedSubTypes: DerivedSubTypes<FunctionType>;
 
     constructor(services: TypirServices, options?: Partial<FunctionKindOptions>) {
         this.$name = FunctionKindName;
         this.services = services;
         this.services.infrastructure.Kinds.register(this);
         this.options = this.collectOptions(options);
+        this.services.infrastructure.Graph.addListener(this); // get informed about removed function types
+        // The sub-type relationships between anonymous function types (e.g. the types of function references and lambdas) are derived from the relationships between their parameter types:
+        // The input parameters are contravariant, the output parameter is covariant.
+        // Named functions (including all overloads of operators) and generic functions are not related to other functions.
+        this.derivedSubTypes = new DerivedSubTypes(services, {
+            isDerivedType: (type): type is FunctionType => isFunctionType(type) && this.hasFunctionName(type.functionName) === false && type.isGeneric() === false,
+            getDependencies: functionType => {
+                const output = functionType.getOutput('RETURN_UNDEFINED')?.type;
+                const inputs = functionType.getInputs().map(input => input.type);
+                return output ? [...inputs, output] : inputs;
+            },
+            isSubType: (subType, superType) => isFunctionType(subType) && isFunctionType(superType) && subType.analyzeSubTypeProblems(subType, superType).length <= 0,
+        });
 
         // register Validations for input arguments of function calls (must be done here to support overloaded functions)
         this.services.validation.Collector.addValidationRule(
@@ -173,24 +201,48 @@ export class FunctionKind implements Kind, TypeGraphListener, FunctionFactorySer
                                         });
                                     } else {
                                         // there are parameter values to check their types
-                                        const inferredParameterTypes = inputArguments.map(p => typir.Inference.inferType(p));
-                                        for (let i = 0; i < inputArguments.length; i++) {
-                                            const expectedType = expectedParameterTypes[i];
-                                            const inferredType = inferredParameterTypes[i];
-                                            const parameterProblems = checkTypes(inferredType, expectedType, createTypeCheckStrategy('ASSIGNABLE_TYPE', typir), true);
-                                            if (parameterProblems.length >= 1) {
-                                                // the value is not assignable to the type of the input parameter
-                                                // create one ValidationProblem for each problematic parameter!
+                                        const inferredParameterTypes = inputArguments.map((p, index) => this.inferArgumentType(singleFunction.functionType, p, index));
+                                        // for generic functions, the type parameters are replaced by the type arguments, which are derived from the given parameter values
+                                        const typeArguments = this.inferTypeArguments(singleFunction.functionType, inferredParameterTypes.map(t => isType(t) ? t : undefined));
+                                        if (typeArguments instanceof Map) {
+                                            expectedParameterTypes.forEach(p => p.type = this.getTypeForCall(p.type, typeArguments));
+                                            for (let i = 0; i < inputArguments.length; i++) {
+                                                const expectedType = expectedParameterTypes[i];
+                                                const inferredType = inferredParameterTypes[i];
+                                                const parameterProblems = checkTypes(inferredType, expectedType, createTypeCheckStrategy('ASSIGNABLE_TYPE', typir), true);
+                                                if (parameterProblems.length >= 1) {
+                                                    // the value is not assignable to the type of the input parameter
+                                                    // create one ValidationProblem for each problematic parameter!
+                                                    currentProblems.push({
+                                                        $problem: ValidationProblem,
+                                                        languageNode: inputArguments[i],
+                                                        severity: 'error',
+                                                        message: `The parameter '${expectedType.name}' at index ${i} got a value with a wrong type.`,
+                                                        subProblems: parameterProblems,
+                                                    });
+                                                } else {
+                                                    // this parameter value is fine
+                                                }
+                                            }
+                                            // all values fit to their parameters, but the output type might not be computable for their types:
+                                            // reuse the inferred type of the call (which is cached), instead of computing the output type again
+                                            if (currentProblems.length <= 0 && singleFunction.outputTypeForCalls && isType(typir.Inference.inferType(languageNode)) === false) {
+                                                const argumentTypes: Type[] = inferredParameterTypes.filter(isType); // all types are inferred, since they fit to their parameters
                                                 currentProblems.push({
                                                     $problem: ValidationProblem,
-                                                    languageNode: inputArguments[i],
+                                                    languageNode: languageNode,
                                                     severity: 'error',
-                                                    message: `The parameter '${expectedType.name}' at index ${i} got a value with a wrong type.`,
-                                                    subProblems: parameterProblems,
+                                                    message: `The output type of '${overloadedName}' cannot be determined for values of the types ${argumentTypes.map(t => `'${this.services.Printer.printTypeName(t)}'`).join(', ')}.`,
                                                 });
-                                            } else {
-                                                // this parameter value is fine
                                             }
+                                        } else {
+                                            currentProblems.push({
+                                                $problem: ValidationProblem,
+                                                languageNode: languageNode,
+                                                severity: 'error',
+                                                message: 'The type arguments for the type parameters of the generic function cannot be determined.',
+                                                subProblems: typeArguments,
+                                            });
                                         }
                                     }
                                     // summarize all parameters of the current function
@@ -259,6 +311,37 @@ export class FunctionKind implements Kind, TypeGraphListener, FunctionFactorySer
         return new FunctionTypeInitializer(this.services, this, typeDetails);
     }
 
+    /**
+     * Returns the anonymous signature of the given function type, which is the type of references to this function and of lambda literals.
+     * The names of the function and of its parameters are removed, as long as they are not enforced by the options of this kind.
+     * Since the parameter names are not part of the identifiers of function types, signatures which differ only in their parameter names are not distinguished.
+     * @param functionType the function type, whose types of its parameters need to be identifiable
+     * @returns the existing or newly created signature type
+     */
+    getOrCreateSignature(functionType: FunctionType): FunctionType {
+        const output = functionType.getOutput();
+        const signatureDetails: FunctionTypeDetails = {
+            functionName: this.options.enforceFunctionName ? functionType.functionName : NO_FUNCTION_NAME,
+            outputParameter: output
+                ? { name: this.options.enforceOutputParameterName ? output.name : NO_PARAMETER_NAME, type: output.type }
+                : undefined,
+            inputParameters: functionType.getInputs().map(input => ({ name: this.options.enforceInputParameterNames ? input.name : NO_PARAMETER_NAME, type: input.type })),
+            typeParameters: functionType.getTypeParameters(),
+        };
+        const existingType = this.services.infrastructure.Graph.getType(this.calculateIdentifier(signatureDetails));
+        if (existingType) {
+            assertType(existingType, isFunctionType);
+            if (existingType !== functionType && Array.from(this.createdSignatures.values()).includes(existingType)) {
+                this.createdSignatures.set(functionType, existingType); // the signature was created on demand and is used by the current function as well
+            }
+            return existingType;
+        }
+        const signature = this.create(signatureDetails).getTypeFinal();
+        assertTrue(signature !== undefined, `The signature of the function '${functionType.functionName}' could not be created.`);
+        this.createdSignatures.set(functionType, signature); // remember the signature in order to remove it together with the function type
+        return signature;
+    }
+
     getOutputTypeForFunctionCalls(functionType: FunctionType): Type | undefined {
         return functionType.getOutput('RETURN_UNDEFINED')?.type ?? // by default, use the return type of the function ...
             // ... if this type is missing, use the specified type for this case in the options:
@@ -269,6 +352,54 @@ export class FunctionKind implements Kind, TypeGraphListener, FunctionFactorySer
     }
 
 
+    /**
+     * Infers the type of an argument of a call of the given function with respect to the type of the corresponding input parameter:
+     * Literal values are inferred as literal types, if the input parameter expects literal types (see `typir.factory.Literals.inferType(...)`),
+     * e.g. `"GET"` for the parameter `method: "GET" | "POST"`, otherwise the type is inferred as usual.
+     * @param functionType the called function
+     * @param argument the language node of the argument
+     * @param index the index of the argument
+     * @returns the inferred type of the argument or the problems of the type inference
+     */
+    inferArgumentType(functionType: FunctionType, argument: unknown, index: number): Type | InferenceProblem[] {
+        return this.services.factory.Literals.inferType(argument, functionType.getInputs()[index]?.type);
+    }
+
+    /**
+     * Derives the type arguments for the type parameters of generic functions from the types of the actual arguments of a call,
+     * e.g. `integer` for `T`, when `identity<T>(x: T): T` is called with an integer value.
+     * @param functionType the called function
+     * @param actualInputTypes the types of the given arguments, 'undefined' indicates arguments whose type is unknown
+     * @returns the derived type arguments (which is empty for non-generic functions) or the conflicts, if type parameters are bound to different types
+     */
+    inferTypeArguments(functionType: FunctionType, actualInputTypes: Array<Type | undefined>): TypeVariableSubstitutions | TypirProblem[] {
+        const substitutions: TypeVariableSubstitutions = new Map();
+        if (functionType.isGeneric() === false) {
+            return substitutions;
+        }
+        const typeParameters = functionType.getTypeParameters();
+        const conflicts: TypirProblem[] = [];
+        const expectedInputs = functionType.getInputs();
+        for (let i = 0; i < Math.min(expectedInputs.length, actualInputTypes.length); i++) {
+            const actualType = actualInputTypes[i];
+            if (actualType) {
+                conflicts.push(...bindTypeVariables(expectedInputs[i].type, actualType, typeParameters, substitutions, this.services));
+            }
+        }
+        return conflicts.length >= 1 ? conflicts : substitutions;
+    }
+
+    /**
+     * Replaces the type parameters of generic functions in the given type by the given type arguments.
+     * @param type a type of the signature of a function, e.g. the type of an input or output parameter
+     * @param typeArguments the type arguments for a particular call of the function
+     * @returns the type to use for this call
+     */
+    getTypeForCall(type: Type, typeArguments: TypeVariableSubstitutions): Type {
+        return this.services.infrastructure.TypeResolver.resolve(substituteTypeVariables(type, typeArguments, this.services));
+    }
+
+
     /* Get informed about deleted types in order to remove inference rules which are bound to them. */
     onRemovedType(type: Type, _key: string): void {
         if (isFunctionType(type)) {
@@ -281,6 +412,16 @@ export class FunctionKind implements Kind, TypeGraphListener, FunctionFactorySer
                 }
                 // its inference rule is removed by the CompositeTypeInferenceRule => nothing to do here
             }
+            // remove the signature which was created for references to the current function, if it is not used by other functions anymore
+            const signature = this.createdSignatures.get(type);
+            this.createdSignatures.delete(type);
+            if (signature && Array.from(this.createdSignatures.values()).includes(signature) === false && this.services.infrastructure.Graph.getType(signature.getIdentifier()) === signature) {
+                this.services.infrastructure.Graph.removeNode(signature);
+            }
+            // forget all functions whose signature is the current function
+            Array.from(this.createdSignatures.entries())
+                .filter(entry => entry[1] === type)
+                .forEach(entry => this.createdSignatures.delete(entry[0]));
         }
     }
 
@@ -289,12 +430,17 @@ export class FunctionKind implements Kind, TypeGraphListener, FunctionFactorySer
         const prefix = this.options.identifierPrefix ? this.options.identifierPrefix + '-' : '';
         // function name, if wanted
         const functionName = this.hasFunctionName(typeDetails.functionName) ? typeDetails.functionName : '';
+        // type parameters of generic functions
+        const typeParameters = toArray(typeDetails.typeParameters);
+        const typeParametersString = typeParameters.length >= 1
+            ? `<${typeParameters.map(parameter => this.services.infrastructure.TypeResolver.resolve(parameter).getIdentifier()).join(',')}>`
+            : '';
         // inputs: type identifiers in defined order
         const inputsString = typeDetails.inputParameters.map(input => this.services.infrastructure.TypeResolver.resolve(input.type).getIdentifier()).join(',');
         // output: type identifier
         const outputString = typeDetails.outputParameter ? this.services.infrastructure.TypeResolver.resolve(typeDetails.outputParameter.type).getIdentifier() : '';
         // complete signature
-        return `${prefix}${functionName}(${inputsString}):${outputString}`;
+        return `${prefix}${functionName}${typeParametersString}(${inputsString}):${outputString}`;
     }
 
     getParameterRepresentation(parameter: NameTypePair): string {
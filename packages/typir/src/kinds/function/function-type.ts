@@ -9,7 +9,8 @@ import { TypeReference } from '../../initialization/type-reference.js';
 import { TypeEqualityProblem } from '../../services/equality.js';
 import { NameTypePair, TypirProblem } from '../../utils/utils-definitions.js';
 import { checkTypeArrays, checkTypes, checkValueForConflict, createKindConflict, createTypeCheckStrategy } from '../../utils/utils-type-comparison.js';
-import { assertTrue, assertUnreachable } from '../../utils/utils.js';
+import { assertTrue, assertUnreachable, toArray } from '../../utils/utils.js';
+import { isTypeVariableType, TypeVariableType } from '../type-variable/type-variable-type.js';
 import { FunctionKind, FunctionTypeDetails, isFunctionKind } from './function-kind.js';
 
 export interface ParameterDetails {
@@ -23,6 +24,7 @@ export class FunctionType extends Type {
     readonly functionName: string;
     readonly outputParameter: ParameterDetails | undefined;
     readonly inputParameters: ParameterDetails[];
+    protected readonly typeParameters: Array<TypeReference<TypeVariableType>>; // only for generic functions
 
     constructor(kind: FunctionKind, typeDetails: FunctionTypeDetails) {
         super(undefined, typeDetails);
@@ -52,11 +54,15 @@ export class FunctionType extends Type {
             };
         });
 
+        // type parameters of generic functions
+        this.typeParameters = toArray(typeDetails.typeParameters).map(parameter => new TypeReference<TypeVariableType>(parameter, this.kind.services));
+
         // define to wait for the parameter types
-        const allParameterRefs = this.inputParameters.map(p => p.type);
+        const allParameterRefs: TypeReference[] = this.inputParameters.map(p => p.type);
         if (outputType) {
             allParameterRefs.push(outputType);
         }
+        allParameterRefs.push(...this.typeParameters);
         this.defineTheInitializationProcessOfThisType({
             preconditionsForIdentifiable: {
                 referencesToBeIdentifiable: allParameterRefs,
@@ -68,21 +74,33 @@ export class FunctionType extends Type {
                 // the registration of the type in the type graph is done by the TypeInitializer
             },
             onCompleted: () => {
-                // no additional checks so far
+                // type parameters need to be type variables
+                const typeParameters: Type[] = this.getTypeParameters();
+                const noTypeVariables = typeParameters.filter(parameter => isTypeVariableType(parameter) === false);
+                if (noTypeVariables.length >= 1) {
+                    throw new Error(`The type parameters of the function '${this.functionName}' need to be type variables: ${noTypeVariables.map(t => t.getName()).join(', ')}`);
+                }
+                // sub-type relationships to other function types (duplicated types are not registered in the type graph, i.e. they are not considered for sub-type relationships)
+                this.kind.derivedSubTypes.register(this);
             },
             onInvalidated: () => {
-                // nothing to do
+                this.kind.derivedSubTypes.unregister(this);
             },
         });
     }
 
     override getName(): string {
-        return `${this.getSimpleFunctionName()}`;
+        const simpleFunctionName = this.getSimpleFunctionName();
+        // anonymous functions are named by their signature
+        return this.kind.hasFunctionName(simpleFunctionName) ? simpleFunctionName : this.getUserRepresentation();
     }
 
     override getUserRepresentation(): string {
         // function name
         const simpleFunctionName = this.getSimpleFunctionName();
+        // type parameters
+        const typeParameters = this.getTypeParameters();
+        const typeParametersString = typeParameters.length >= 1 ? `<${typeParameters.map(parameter => parameter.getName()).join(', ')}>` : '';
         // inputs
         const inputs = this.getInputs();
         const inputsString = inputs.map(input => this.kind.getParameterRepresentation(input)).join(', ');
@@ -94,9 +112,9 @@ export class FunctionType extends Type {
         // complete signature
         if (this.kind.hasFunctionName(simpleFunctionName)) {
             const outputValue = outputString ? `: ${outputString}` : '';
-            return `${simpleFunctionName}(${inputsString})${outputValue}`;
+            return `${simpleFunctionName}${typeParametersString}(${inputsString})${outputValue}`;
         } else {
-            return `(${inputsString}) => ${outputString ?? '()'}`;
+            return `${typeParametersString}(${inputsString}) => ${outputString ?? '()'}`;
         }
     }
 
@@ -124,9 +142,18 @@ export class FunctionType extends Type {
         }
     }
 
-    protected analyzeSubTypeProblems(subType: FunctionType, superType: FunctionType): TypirProblem[] {
+    /**
+     * Analyzes, whether the given sub-type is a sub-type of the given super-type:
+     * The input parameters are contravariant, the output parameter is covariant.
+     * @param subType the sub-type
+     * @param superType the super-type
+     * @returns an empty array, if the sub-type relationship exists, otherwise the found conflicts
+     */
+    analyzeSubTypeProblems(subType: FunctionType, superType: FunctionType): TypirProblem[] {
         const conflicts: TypirProblem[] = [];
-        const strategy = createTypeCheckStrategy(this.kind.options.subtypeParameterChecking, this.kind.services);
+        const checkStrategy = createTypeCheckStrategy(this.kind.options.subtypeParameterChecking, this.kind.services);
+        // equal types are fine as well, since types are no sub-types of themselves
+        const strategy = (sub: Type, superr: Type) => this.kind.services.Equality.areTypesEqual(sub, superr) ? undefined : checkStrategy(sub, superr);
         // output: sub type output must be assignable (which can be configured) to super type output
         conflicts.push(...checkTypes(subType.getOutput(), superType.getOutput(),
             (sub, superr) => strategy(sub, superr), this.kind.options.enforceOutputParameterName));
@@ -176,6 +203,25 @@ export class FunctionType extends Type {
             }
         });
     }
+
+    /**
+     * Returns the type parameters of generic functions, e.g. `T` for `identity<T>(x: T): T`.
+     * @returns the type parameters, which is empty for functions which are not generic
+     */
+    getTypeParameters(): TypeVariableType[] {
+        return this.typeParameters.map(parameter => {
+            const type = parameter.getType();
+            if (type) {
+                return type;
+            } else {
+                throw new Error('Not all type parameters are resolved.');
+            }
+        });
+    }
+
+    isGeneric(): boolean {
+        return this.typeParameters.length >= 1;
+    }
 }
 
 export function isFunctionType(type: unknown): type is FunctionType {
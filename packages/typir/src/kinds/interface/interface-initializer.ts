@@ -0,0 +1,101 @@
+/******************************************************************************
+ * Copyright 2025 TypeFox GmbH
+ * This program and the accompanying materials are made available under the
+ * terms of the MIT License, which is available in the project root.
+ ******************************************************************************/
+
+import { Type, TypeStateListener } from '../../graph/type-node.js';
+import { TypeInitializer } from '../../initialization/type-initializer.js';
+import { InferenceProblem, InferenceRuleNotApplicable, TypeInferenceRule } from '../../services/inference.js';
+import { TypirServices } from '../../typir.js';
+import { assertType } from '../../utils/utils.js';
+import { CreateInterfaceTypeDetails, InterfaceKind } from './interface-kind.js';
+import { InterfaceType, isInterfaceType } from './interface-type.js';
+
+export class InterfaceTypeInitializer<T = unknown> extends TypeInitializer<InterfaceType> implements TypeStateListener {
+    protected readonly typeDetails: CreateInterfaceTypeDetails<T>;
+    protected readonly kind: InterfaceKind;
+    protected inferenceRules: TypeInferenceRule[];
+    protected initialInterfaceType: InterfaceType;
+
+    constructor(services: TypirServices, kind: InterfaceKind, typeDetails: CreateInterfaceTypeDetails<T>) {
+        super(services);
+        this.typeDetails = typeDetails;
+        this.kind = kind;
+
+        // create the interface type
+        this.initialInterfaceType = new InterfaceType(kind, typeDetails as CreateInterfaceTypeDetails);
+
+        this.inferenceRules = this.createInferenceRules(this.typeDetails, this.initialInterfaceType);
+        // register all the inference rules already now to enable early type inference for this type
+        this.inferenceRules.forEach(rule => services.Inference.addInferenceRule(rule, undefined)); // 'undefined', since the Identifier is still missing
+
+        this.initialInterfaceType.addListener(this, true); // trigger directly, if some initialization states are already reached!
+    }
+
+    onSwitchedToIdentifiable(interfaceType: Type): void {
+        assertType(interfaceType, isInterfaceType);
+        const readyInterfaceType = this.producedType(interfaceType);
+
+        // remove the inference rules for the not yet identifiable type
+        this.inferenceRules.forEach(rule => this.services.Inference.removeInferenceRule(rule, undefined));
+        if (readyInterfaceType !== interfaceType) {
+            // the same type was already created earlier => skip the new type
+            interfaceType.removeListener(this);
+            // but re-create the inference rules for the existing type!
+            this.inferenceRules = this.createInferenceRules(this.typeDetails, readyInterfaceType);
+        }
+        this.inferenceRules.forEach(rule => this.services.Inference.addInferenceRule(rule, readyInterfaceType));
+    }
+
+    onSwitchedToCompleted(interfaceType: Type): void {
+        // the work of this initializer is done now
+        interfaceType.removeListener(this);
+    }
+
+    onSwitchedToInvalid(_interfaceType: Type): void {
+        // nothing specific needs to be done here, since the base implementation takes already care about all relevant stuff
+    }
+
+    override getTypeInitial(): InterfaceType {
+        return this.initialInterfaceType;
+    }
+
+    protected createInferenceRules(typeDetails: CreateInterfaceTypeDetails<T>, interfaceType: InterfaceType): TypeInferenceRule[] {
+        const result: TypeInferenceRule[] = [];
+        if (typeDetails.inferenceRuleForDeclaration) {
+            result.push((languageNode, _typir) => {
+                if (typeDetails.inferenceRuleForDeclaration!(languageNode)) {
+                    return interfaceType;
+                } else {
+                    return InferenceRuleNotApplicable;
+                }
+            });
+        }
+        if (typeDetails.inferenceRuleForFieldAccess) {
+            result.push((languageNode, _typir) => {
+                const field = typeDetails.inferenceRuleForFieldAccess!(languageNode);
+                if (field === InferenceRuleNotApplicable) {
+                    return InferenceRuleNotApplicable;
+                } else if (typeof field === 'string') {
+                    // get the type of the given field name (including the fields of the super interfaces)
+                    const fieldType = interfaceType.getFields(true).get(field);
+                    if (fieldType) {
+                        return fieldType;
+                    }
+                    return <InferenceProblem>{
+                        $problem: InferenceProblem,
+                        languageNode: languageNode,
+                        inferenceCandidate: interfaceType,
+                        location: `unknown field '${field}'`,
+                        subProblems: [],
+                    };
+                } else {
+                    return field; // do the type inference for this language node instead
+                }
+            });
+        }
+        return result;
+    }
+
+}
@@ -0,0 +1,104 @@
+/******************************************************************************
+ * Copyright 2025 TypeFox GmbH
+ * This program and the accompanying materials are made available under the
+ * terms of the MIT License, which is available in the project root.
+ ******************************************************************************/
+
+import { TypeDetails } from '../../graph/type-node.js';
+import { TypeInitializer } from '../../initialization/type-initializer.js';
+import { TypeReference } from '../../initialization/type-reference.js';
+import { TypeSelector } from '../../initialization/type-selector.js';
+import { InferenceRuleNotApplicable } from '../../services/inference.js';
+import { TypirServices } from '../../typir.js';
+import { TypeCheckStrategy } from '../../utils/utils-type-comparison.js';
+import { CreateFieldDetails } from '../class/class-kind.js';
+import { CreateFunctionTypeDetails, FunctionFactoryService } from '../function/function-kind.js';
+import { isKind, Kind } from '../kind.js';
+import { InterfaceTypeInitializer } from './interface-initializer.js';
+import { InterfaceType } from './interface-type.js';
+
+export interface InterfaceKindOptions {
+    /** Defines, how the types of fields of implementing classes are compared with the types of the fields of the interfaces. */
+    implementationFieldChecking: TypeCheckStrategy,
+    /** Will be used only internally as prefix for the unique identifiers for interface types. */
+    identifierPrefix: string,
+}
+
+export interface InterfaceTypeDetails<T = unknown> extends TypeDetails {
+    interfaceName: string,
+    /** Interfaces might extend an arbitrary number of other interfaces. */
+    superInterfaces?: TypeSelector | TypeSelector[],
+    /** Fields of interfaces are abstract, i.e. implementing classes need to declare (or inherit) them. */
+    fields: CreateFieldDetails[],
+    /** The signatures of the methods, which need to be provided by implementing classes. */
+    methods: Array<CreateFunctionTypeDetails<T>>,
+}
+
+export interface CreateInterfaceTypeDetails<T = unknown> extends InterfaceTypeDetails<T> {
+    inferenceRuleForDeclaration?: (languageNode: unknown) => boolean,
+    inferenceRuleForFieldAccess?: (languageNode: unknown) => string | unknown | InferenceRuleNotApplicable, // name of the field | language node to infer the type of the field (e.g. the type) | rule not applicable
+    // inference rules for method calls are part of "methods: CreateFunctionTypeDetails[]" above!
+}
+
+export const InterfaceKindName = 'InterfaceKind';
+
+export interface InterfaceFactoryService {
+    create<T>(typeDetails: CreateInterfaceTypeDetails<T>): TypeInitializer<InterfaceType>;
+    get<T>(typeDetails: InterfaceTypeDetails<T> | string): TypeReference<InterfaceType>;
+    calculateIdentifier<T>(typeDetails: InterfaceTypeDetails<T>): string;
+}
+
+/**
+ * Interfaces (or traits) describe fields and signatures of methods without any state or implementation.
+ * Classes declare the interfaces they implement (see `ClassTypeDetails.implementedInterfaces`),
+ * which makes them sub-types of these interfaces, as soon as the classes are completed.
+ * Whether classes really provide all members of their interfaces is checked by the validation `createImplementedInterfacesValidation`.
+ * Interfaces are nominally typed, i.e. they are identified by their name.
+ */
+export class InterfaceKind implements Kind, InterfaceFactoryService {
+    readonly $name: 'InterfaceKind';
+    readonly services: TypirServices;
+    readonly options: Readonly<InterfaceKindOptions>;
+
+    constructor(services: TypirServices, options?: Partial<InterfaceKindOptions>) {
+        this.$name = InterfaceKindName;
+        this.services = services;
+        this.services.infrastructure.Kinds.register(this);
+        this.options = this.collectOptions(options);
+    }
+
+    protected collectOptions(options?: Partial<InterfaceKindOptions>): InterfaceKindOptions {
+        return {
+            // the default values:
+            implementationFieldChecking: 'EQUAL_TYPE',
+            identifierPrefix: 'interface',
+            // the actually overriden values:
+            ...options
+        };
+    }
+
+    get<T>(typeDetails: InterfaceTypeDetails<T> | string): TypeReference<InterfaceType> {
+        if (typeof typeDetails === 'string') {
+            return new TypeReference(() => this.calculateIdentifier({ interfaceName: typeDetails, fields: [], methods: [] }), this.services);
+        } else {
+            return new TypeReference(() => this.calculateIdentifier(typeDetails), this.services);
+        }
+    }
+
+    create<T>(typeDetails: CreateInterfaceTypeDetails<T>): TypeInitializer<InterfaceType> {
+        return new InterfaceTypeInitializer(this.services, this, typeDetails);
+    }
+
+    calculateIdentifier<T>(typeDetails: InterfaceTypeDetails<T>): string {
+        // only the name of the interface matters, since interfaces are nominally typed
+        return `${this.options.identifierPrefix}-${typeDetails.interfaceName}`;
+    }
+
+    getMethodFactory(): FunctionFactoryService {
+        return this.services.factory.Functions;
+    }
+}
+
+export function isInterfaceKind(kind: unknown): kind is InterfaceKind {
+    return isKind(kind) && kind.$name === InterfaceKindName;
+}
@@ -0,0 +1,242 @@
+/******************************************************************************
+ * Copyright 2025 TypeFox GmbH
+ * This program and the accompanying materials are made available under the
+ * terms of the MIT License, which is available in the project root.
+ ******************************************************************************/
+
+import { isType, Type } from '../../graph/type-node.js';
+import { TypeReference } from '../../initialization/type-reference.js';
+import { TypeEqualityProblem } from '../../services/equality.js';
+import { TypirProblem } from '../../utils/utils-definitions.js';
+import { checkValueForConflict, createKindConflict, createTypeCheckStrategy, IndexedTypeConflict } from '../../utils/utils-type-comparison.js';
+import { toArray } from '../../utils/utils.js';
+import { ClassType } from '../class/class-type.js';
+import { FunctionType } from '../function/function-type.js';
+import { InterfaceKind, InterfaceTypeDetails, isInterfaceKind } from './interface-kind.js';
+
+export class InterfaceType extends Type {
+    override readonly kind: InterfaceKind;
+    readonly interfaceName: string;
+    protected readonly superInterfaces: Array<TypeReference<InterfaceType>>;
+    protected readonly fields: Map<string, TypeReference> = new Map(); // unordered
+    protected readonly methods: Array<TypeReference<FunctionType>>; // unordered
+
+    constructor(kind: InterfaceKind, typeDetails: InterfaceTypeDetails) {
+        super(kind.calculateIdentifier(typeDetails), typeDetails); // use the name of the interface as identifier already now
+        this.kind = kind;
+        this.interfaceName = typeDetails.interfaceName;
+
+        // eslint-disable-next-line @typescript-eslint/no-this-alias
+        const thisType = this;
+
+        // resolve the super interfaces
+        this.superInterfaces = toArray(typeDetails.superInterfaces).map(superr => {
+            const superRef = new TypeReference<InterfaceType>(superr, kind.services);
+            superRef.addListener({
+                onTypeReferenceResolved(_reference, superType) {
+                    kind.services.Subtype.markAsSubType(thisType, superType, { checkForCycles: false });
+                },
+                onTypeReferenceInvalidated(_reference, _superType) {
+                    // the sub-type relationship is removed together with the super interface
+                },
+            }, true);
+            return superRef;
+        });
+
+        // resolve fields
+        for (const field of typeDetails.fields) {
+            if (this.fields.has(field.name)) {
+                throw new Error(`The field name '${field.name}' is not unique for interface '${this.interfaceName}'.`);
+            }
+            this.fields.set(field.name, new TypeReference(field.type, kind.services));
+        }
+
+        // resolve methods
+        this.methods = typeDetails.methods.map(method => new TypeReference(kind.getMethodFactory().create(method), kind.services));
+
+        const fieldsAndMethods: TypeReference[] = [...this.fields.values(), ...this.methods];
+        this.defineTheInitializationProcessOfThisType({
+            preconditionsForIdentifiable: {
+                referencesToBeIdentifiable: fieldsAndMethods,
+            },
+            preconditionsForCompleted: {
+                referencesToBeCompleted: this.superInterfaces,
+            },
+            referencesRelevantForInvalidation: [...fieldsAndMethods, ...this.superInterfaces],
+            onIdentifiable: () => {
+                // the identifier is already known
+            },
+            onCompleted: () => {
+                // nothing to do
+            },
+            onInvalidated: () => {
+                // nothing to do
+            },
+        });
+    }
+
+    override getName(): string {
+        return this.interfaceName;
+    }
+
+    override getUserRepresentation(): string {
+        const slots: string[] = [];
+        for (const [name, type] of this.getFields(false)) {
+            slots.push(`${name}: ${type.getName()}`);
+        }
+        for (const method of this.getMethods(false)) {
+            slots.push(method.getUserRepresentation());
+        }
+        const superInterfaces = this.getDeclaredSuperInterfaces();
+        const extendedInterfaces = superInterfaces.length <= 0 ? '' : ` extends ${superInterfaces.map(i => i.getName()).join(', ')}`;
+        return `interface ${this.getName()}${extendedInterfaces} { ${slots.join(', ')} }`;
+    }
+
+    override analyzeTypeEqualityProblems(otherType: Type): TypirProblem[] {
+        if (isInterfaceType(otherType)) {
+            return checkValueForConflict(this.getIdentifier(), otherType.getIdentifier(), 'name');
+        } else {
+            return [<TypeEqualityProblem>{
+                $problem: TypeEqualityProblem,
+                type1: this,
+                type2: otherType,
+                subProblems: [createKindConflict(otherType, this)],
+            }];
+        }
+    }
+
+    /**
+     * Checks, whether the given class provides all fields and methods of this interface (including the members of its super interfaces).
+     * Fields of the class need to have types which fit to the types of the fields of the interface (see `InterfaceKindOptions.implementationFieldChecking`),
+     * methods of the class need to have the same name and a signature, which is equal to or a sub-type of the signature of the interface.
+     * @param classType the class, which claims to implement this interface
+     * @returns the missing or incompatible members, which is empty, if the class conforms to this interface
+     */
+    analyzeImplementationProblems(classType: ClassType): IndexedTypeConflict[] {
+        const conflicts: IndexedTypeConflict[] = [];
+        // fields
+        const classFields = classType.getFields(true);
+        const checkStrategy = createTypeCheckStrategy(this.kind.options.implementationFieldChecking, this.kind.services);
+        for (const [fieldName, fieldType] of this.getFields(true)) {
+            const classFieldType = classFields.get(fieldName);
+            if (classFieldType === undefined) {
+                conflicts.push({
+                    $problem: IndexedTypeConflict,
+                    expected: fieldType,
+                    actual: undefined,
+                    propertyName: fieldName,
+                    subProblems: [],
+                });
+            } else {
+                const fieldProblem = checkStrategy(classFieldType, fieldType);
+                if (fieldProblem) {
+                    conflicts.push({
+                        $problem: IndexedTypeConflict,
+                        expected: fieldType,
+                        actual: classFieldType,
+                        propertyName: fieldName,
+                        subProblems: [fieldProblem],
+                    });
+                }
+            }
+        }
+        // methods
+        const classMethods = classType.getMethods(true);
+        for (const method of this.getMethods(true)) {
+            const candidates = classMethods.filter(classMethod => classMethod.functionName === method.functionName);
+            if (candidates.length <= 0) {
+                conflicts.push({
+                    $problem: IndexedTypeConflict,
+                    expected: method,
+                    actual: undefined,
+                    propertyName: method.functionName,
+                    subProblems: [],
+                });
+            } else if (candidates.some(candidate => this.kind.services.Equality.areTypesEqual(candidate, method) || this.kind.services.Subtype.isSubType(candidate, method))) {
+                // at least one (overloaded) method of the class fits to the method of the interface
+            } else {
+                const subTypeProblem = this.kind.services.Subtype.getSubTypeProblem(candidates[0], method);
+                conflicts.push({
+                    $problem: IndexedTypeConflict,
+                    expected: method,
+                    actual: candidates[0],
+                    propertyName: method.functionName,
+                    subProblems: subTypeProblem ? [subTypeProblem] : [],
+                });
+            }
+        }
+        return conflicts;
+    }
+
+    getDeclaredSuperInterfaces(): InterfaceType[] {
+        return this.superInterfaces.map(superr => {
+            const superType = superr.getType();
+            if (superType) {
+                return superType;
+            } else {
+                throw new Error('Not all super interfaces are resolved.');
+            }
+        });
+    }
+
+    getAllSuperInterfaces(includingGivenInterface: boolean = false): Set<InterfaceType> {
+        const result = new Set<InterfaceType>();
+        if (includingGivenInterface) {
+            result.add(this);
+        }
+        const toadd = [...this.getDeclaredSuperInterfaces()];
+        while (toadd.length >= 1) {
+            const current = toadd.pop()!;
+            if (result.has(current) === false) {
+                result.add(current);
+                toadd.push(...current.getDeclaredSuperInterfaces());
+            }
+        }
+        return result;
+    }
+
+    getFields(withSuperInterfacesFields: boolean): Map<string, Type> {
+        const result = new Map<string, Type>();
+        // fields of super interfaces
+        if (withSuperInterfacesFields) {
+            for (const superInterface of this.getAllSuperInterfaces(false)) {
+                for (const [superName, superType] of superInterface.getFields(false)) {
+                    result.set(superName, superType);
+                }
+            }
+        }
+        // own fields
+        for (const [name, reference] of this.fields) {
+            const type = reference.getType();
+            if (type) {
+                result.set(name, type);
+            } else {
+                throw new Error('Not all fields are resolved.');
+            }
+        }
+        return result;
+    }
+
+    getMethods(withSuperInterfacesMethods: boolean): FunctionType[] {
+        // own methods
+        const result = this.methods.map(reference => {
+            const method = reference.getType();
+            if (method) {
+                return method;
+            } else {
+                throw new Error('Not all methods are resolved.');
+            }
+        });
+        // methods of super interfaces
+        if (withSuperInterfacesMethods) {
+            for (const superInterface of this.getAllSuperInterfaces(false)) {
+                result.push(...superInterface.getMethods(false));
+            }
+        }
+        return result;
+    }
+}
+
+export function isInterfaceType(type: unknown): type is InterfaceType {
+    return isType(type) && isInterfaceKind(type.kind);
+}
@@ -0,0 +1,40 @@
+/******************************************************************************
+ * Copyright 2025 TypeFox GmbH
+ * This program and the accompanying materials are made available under the
+ * terms of the MIT License, which is available in the project root.
+ ******************************************************************************/
+
+import { ValidationProblem, ValidationRule } from '../../services/validation.js';
+import { TypirServices } from '../../typir.js';
+import { isClassType } from '../class/class-type.js';
+
+/**
+ * Predefined validation to produce errors for all those class declarations, whose class types don't provide all fields and methods of their implemented interfaces.
+ * Missing and incompatible fields and methods are reported as `IndexedTypeConflict`s in the sub-problems of the validation problems.
+ * @param isRelevant helps to filter out declarations of classes in the user AST,
+ * this parameter is the reason, why this validation cannot be registered by default by Typir for classes, since this parameter is DSL-specific
+ * @returns a validation rule which checks for any class declaration/type, whether it conforms to all of its implemented interfaces
+ */
+export function createImplementedInterfacesValidation(isRelevant: (languageNode: unknown) => boolean): ValidationRule {
+    return (languageNode: unknown, typir: TypirServices) => {
+        const result: ValidationProblem[] = [];
+        if (isRelevant(languageNode)) { // improves performance, since type inference need to be done only for relevant language nodes
+            const classType = typir.Inference.inferType(languageNode);
+            if (isClassType(classType) && classType.isInStateOrLater('Completed') && classType.hasSubSuperClassCycles() === false) {
+                for (const interfaceType of classType.getDeclaredInterfaces()) { // the members of super interfaces are checked as well, the interfaces of super classes are checked for the super classes
+                    const conflicts = interfaceType.analyzeImplementationProblems(classType);
+                    if (conflicts.length >= 1) {
+                        result.push({
+                            $problem: ValidationProblem,
+                            languageNode: languageNode,
+                            severity: 'error',
+                            message: `The class '${classType.getName()}' does not correctly implement the interface '${interfaceType.getName()}'.`,
+                            subProblems: conflicts,
+                        });
+                    }
+                }
+            }
+        }
+        return result;
+    };
+}
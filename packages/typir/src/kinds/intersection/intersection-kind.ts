@@ -0,0 +1,114 @@
+/******************************************************************************
+ * Copyright 2025 TypeFox GmbH
+ * This program and the accompanying materials are made available under the
+ * terms of the MIT License, which is available in the project root.
+ ******************************************************************************/
+
+import { Type } from '../../graph/type-node.js';
+import { TypeInitializer } from '../../initialization/type-initializer.js';
+import { TypeReference } from '../../initialization/type-reference.js';
+import { TypirServices } from '../../typir.js';
+import { TypirProblem } from '../../utils/utils-definitions.js';
+import { IndexedTypeConflict } from '../../utils/utils-type-comparison.js';
+import { CompoundTypeInitializer } from '../compound/compound-initializer.js';
+import { CompoundKind, CompoundKindOptions, CompoundTypeDetails, CreateCompoundTypeDetails, InferCompoundType } from '../compound/compound-kind.js';
+import { isKind } from '../kind.js';
+import { IntersectionType, isIntersectionType } from './intersection-type.js';
+
+export type IntersectionKindOptions = CompoundKindOptions;
+
+export type IntersectionTypeDetails = CompoundTypeDetails;
+
+export type CreateIntersectionTypeDetails = CreateCompoundTypeDetails;
+
+export type InferIntersectionType = InferCompoundType;
+
+export const IntersectionKindName = 'IntersectionKind';
+
+export interface IntersectionFactoryService {
+    create(typeDetails: CreateIntersectionTypeDetails): TypeInitializer<IntersectionType>;
+    get(typeDetails: IntersectionTypeDetails): TypeReference<IntersectionType>;
+    calculateIdentifier(typeDetails: IntersectionTypeDetails): string;
+}
+
+/**
+ * Intersection types represent values, which have the types of all member types at the same time, e.g. `A & B`.
+ * They can be used to model mixins or traits for classes.
+ *
+ * Design decisions:
+ * - The order of member types does not matter, i.e. `A & B` and `B & A` are the same type.
+ * - Member types which are intersection types themselves are flattened, i.e. `(A & B) & C` and `A & B & C` are the same type.
+ * - Duplicated member types are ignored, i.e. `A & A & B` and `A & B` are the same type.
+ * - The intersection type is a sub-type of each of its member types.
+ *   Another type is a sub-type of an intersection type, if this other type is a sub-type of each of its member types.
+ *   These relationships are explicitly stored in the type graph and are updated, when the relationships between the member types change.
+ * - The fields and methods of member types which are classes are merged.
+ */
+export class IntersectionKind extends CompoundKind<IntersectionType> implements IntersectionFactoryService {
+    readonly $name: 'IntersectionKind';
+
+    constructor(services: TypirServices, options?: Partial<IntersectionKindOptions>) {
+        super(services, options);
+        this.$name = IntersectionKindName;
+        this.services.infrastructure.Kinds.register(this);
+    }
+
+    protected collectOptions(options?: Partial<IntersectionKindOptions>): IntersectionKindOptions {
+        return {
+            // the default values:
+            identifierPrefix: 'intersection',
+            memberSeparator: ' & ',
+            // the actually overriden values:
+            ...options
+        };
+    }
+
+    create(typeDetails: CreateIntersectionTypeDetails): TypeInitializer<IntersectionType> {
+        return new CompoundTypeInitializer(this.services, this, typeDetails, new IntersectionType(this, typeDetails));
+    }
+
+    isCompoundTypeOfThisKind(type: unknown): type is IntersectionType {
+        return isIntersectionType(type);
+    }
+
+    protected getMemberSeparatorForIdentifiers(): string {
+        return '&';
+    }
+
+    /** The intersection is a sub-type of each member, the common sub-types of all its members are sub-types of the intersection. */
+    protected getAdditionalSubTypeCandidates(intersectionType: IntersectionType): Type[] {
+        const members = intersectionType.getMemberTypes();
+        return [...members, ...this.derivedSubTypes.collectRelatedTypes(members[0], 'Sub')];
+    }
+
+    /**
+     * Analyzes, whether the given sub type is a sub-type of the given super type, while at least one of them is an intersection type:
+     * Each member of the super type needs to be (equal to or) a super-type of at least one member of the sub type.
+     * Types which are no intersection types are treated as intersection types with a single member.
+     * @param subType the sub type
+     * @param superType the super type
+     * @returns an empty array, if the sub-type relationship exists, otherwise one problem for each member of the super type which has no corresponding sub member type
+     */
+    analyzeSubTypeProblems(subType: Type, superType: Type): TypirProblem[] {
+        const subMembers = isIntersectionType(subType) ? subType.getMemberTypes() : [subType];
+        const superMembers = isIntersectionType(superType) ? superType.getMemberTypes() : [superType];
+        const conflicts: TypirProblem[] = [];
+        superMembers.forEach((superMember, index) => {
+            if (subMembers.some(subMember => this.isEqualOrSubType(subMember, superMember)) === false) {
+                conflicts.push(<IndexedTypeConflict>{
+                    $problem: IndexedTypeConflict,
+                    expected: superMember,
+                    actual: subType,
+                    propertyIndex: index,
+                    subProblems: [],
+                });
+            }
+        });
+        return conflicts;
+    }
+
+}
+
+export function isIntersectionKind(kind: unknown): kind is IntersectionKind {
+    return isKind(kind) && kind.$name === IntersectionKindName;
+}
@@ -0,0 +1,94 @@
+/******************************************************************************
+ * Copyright 2025 TypeFox GmbH
+ * This program and the accompanying materials are made available under the
+ * terms of the MIT License, which is available in the project root.
+ ******************************************************************************/
+
+import { isType, Type } from '../../graph/type-node.js';
+import { IndexedTypeConflict } from '../../utils/utils-type-comparison.js';
+import { isClassType } from '../class/class-type.js';
+import { CompoundType } from '../compound/compound-type.js';
+import { FunctionType } from '../function/function-type.js';
+import { IntersectionKind, IntersectionTypeDetails, isIntersectionKind } from './intersection-kind.js';
+
+export class IntersectionType extends CompoundType {
+    override readonly kind: IntersectionKind;
+
+    constructor(kind: IntersectionKind, typeDetails: IntersectionTypeDetails) {
+        super(kind, typeDetails, true); // the member types need to be completed in order to merge the fields and methods of classes
+        this.kind = kind;
+    }
+
+    /**
+     * Merges the fields of all member types which are classes.
+     * In case of conflicting field names, the field of the first member type takes precedence,
+     * conflicts are reported by 'analyzeFieldConflicts()'.
+     * @param withSuperClassesFields if true, the fields of the super classes of the member types are considered as well
+     * @returns the merged fields
+     */
+    getFields(withSuperClassesFields: boolean): Map<string, Type> {
+        const result: Map<string, Type> = new Map();
+        for (const member of this.getMemberTypes()) {
+            if (isClassType(member)) {
+                for (const [name, fieldType] of member.getFields(withSuperClassesFields)) {
+                    if (result.has(name) === false) {
+                        result.set(name, fieldType);
+                    }
+                }
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Merges the methods of all member types which are classes.
+     * Methods which are provided by multiple member types (e.g. by a common super class) are contained only once.
+     * @param withSuperClassMethods if true, the methods of the super classes of the member types are considered as well
+     * @returns the merged methods
+     */
+    getMethods(withSuperClassMethods: boolean): FunctionType[] {
+        const result: Set<FunctionType> = new Set();
+        for (const member of this.getMemberTypes()) {
+            if (isClassType(member)) {
+                member.getMethods(withSuperClassMethods).forEach(method => result.add(method));
+            }
+        }
+        return Array.from(result);
+    }
+
+    /**
+     * Analyzes, whether the member types which are classes have fields with the same name, but with different types.
+     * @returns one problem for each field of a member type which conflicts with the field with the same name of a previous member type
+     */
+    analyzeFieldConflicts(): IndexedTypeConflict[] {
+        const conflicts: IndexedTypeConflict[] = [];
+        const collectedFields: Map<string, Type> = new Map();
+        for (const member of this.getMemberTypes()) {
+            if (isClassType(member)) {
+                for (const [name, fieldType] of member.getFields(true)) {
+                    const existingType = collectedFields.get(name);
+                    if (existingType) {
+                        const equalityProblem = this.kind.services.Equality.getTypeEqualityProblem(existingType, fieldType);
+                        if (equalityProblem) {
+                            conflicts.push({
+                                $problem: IndexedTypeConflict,
+                                expected: existingType,
+                                actual: fieldType,
+                                propertyName: name,
+                                subProblems: [equalityProblem],
+                            });
+                        }
+                    } else {
+                        collectedFields.set(name, fieldType);
+                    }
+                }
+            }
+        }
+        return conflicts;
+    }
+
+}
+
+export function isIntersectionType(type: unknown): type is IntersectionType {
+    return isType(type) && isIntersectionKind(type.kind);
+}
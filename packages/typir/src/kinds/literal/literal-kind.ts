@@ -0,0 +1,141 @@
+/******************************************************************************
+ * Copyright 2025 TypeFox GmbH
+ * This program and the accompanying materials are made available under the
+ * terms of the MIT License, which is available in the project root.
+ ******************************************************************************/
+
+import { Type, TypeDetails } from '../../graph/type-node.js';
+import { InferenceProblem } from '../../services/inference.js';
+import { TypirServices } from '../../typir.js';
+import { assertTrue, toArray } from '../../utils/utils.js';
+import { isKind, Kind } from '../kind.js';
+import { PrimitiveType } from '../primitive/primitive-type.js';
+import { isUnionType } from '../union/union-type.js';
+import { isLiteralType, LiteralType } from './literal-type.js';
+
+export interface LiteralKindOptions {
+    /** Will be used only internally as prefix for the unique identifiers for literal types. */
+    identifierPrefix: string,
+}
+
+export type LiteralValue = string | number | boolean;
+
+export interface LiteralTypeDetails extends TypeDetails {
+    /** the primitive type, which is the super type of the new literal type, e.g. 'string' for the literal "GET" */
+    baseType: PrimitiveType;
+    value: LiteralValue;
+    /** These rules check, whether a language node is a literal with the value of the literal type. They are used only, if the literal type is expected. */
+    inferenceRules?: InferLiteralType | InferLiteralType[];
+}
+
+export type InferLiteralType = (languageNode: unknown) => boolean;
+
+export const LiteralKindName = 'LiteralKind';
+
+export interface LiteralFactoryService {
+    create(typeDetails: LiteralTypeDetails): LiteralType;
+    get(typeDetails: LiteralTypeDetails): LiteralType | undefined;
+    /**
+     * Infers the type of the given language node with respect to the expected type:
+     * If the expected type is (or contains) a literal type whose inference rules match the language node, this literal type is returned.
+     * Otherwise, the type is inferred as usual, e.g. the primitive type is inferred for literal language nodes.
+     * Since the result depends on the expected type, inferred literal types are not cached by the type inference.
+     * @param languageNode the language node whose type is inferred
+     * @param expectedType the type, which is expected in the current context, e.g. the declared type of the variable which gets the language node as value
+     * @returns the inferred type or the problems of the type inference
+     */
+    inferType(languageNode: unknown, expectedType: Type | undefined): Type | InferenceProblem[];
+    /**
+     * Widens literal types to their primitive base types, e.g. to get the type of a variable which is initialized with a literal.
+     * @param type the type to widen
+     * @returns the base type for literal types, the given type otherwise
+     */
+    widen(type: Type): Type;
+}
+
+/**
+ * Literal types represent single values of primitive types, e.g. "GET", 42 or true,
+ * and are sub-types of their primitive base types.
+ * Since literal types are relevant only in the context of expected literal types, their inference rules are not registered globally,
+ * i.e. literal language nodes are widened to their primitive type by default.
+ * Literal types are inferred only in contexts with expected types, i.e. for the values which are checked by the validation constraints
+ * (e.g. `typir.validation.Constraints.ensureNodeIsAssignable(...)`) and for the arguments of calls of functions and operators,
+ * whose input parameters expect literal types.
+ */
+export class LiteralKind implements Kind, LiteralFactoryService {
+    readonly $name: 'LiteralKind';
+    readonly services: TypirServices;
+    readonly options: Readonly<LiteralKindOptions>;
+
+    constructor(services: TypirServices, options?: Partial<LiteralKindOptions>) {
+        this.$name = LiteralKindName;
+        this.services = services;
+        this.services.infrastructure.Kinds.register(this);
+        this.options = this.collectOptions(options);
+    }
+
+    protected collectOptions(options?: Partial<LiteralKindOptions>): LiteralKindOptions {
+        return {
+            // the default values:
+            identifierPrefix: 'literal',
+            // the actually overriden values:
+            ...options
+        };
+    }
+
+    get(typeDetails: LiteralTypeDetails): LiteralType | undefined {
+        const key = this.calculateIdentifier(typeDetails);
+        return this.services.infrastructure.Graph.getType(key) as LiteralType;
+    }
+
+    create(typeDetails: LiteralTypeDetails): LiteralType {
+        assertTrue(this.get(typeDetails) === undefined);
+
+        // create the literal type
+        const literalType = new LiteralType(this, this.calculateIdentifier(typeDetails), typeDetails, toArray(typeDetails.inferenceRules));
+        this.services.infrastructure.Graph.addNode(literalType);
+
+        // the literal type is a sub-type of its base type
+        this.services.Subtype.markAsSubType(literalType, typeDetails.baseType);
+
+        return literalType;
+    }
+
+    calculateIdentifier(typeDetails: LiteralTypeDetails): string {
+        return `${this.options.identifierPrefix}-${typeDetails.baseType.getIdentifier()}-${this.printValue(typeDetails.value)}`;
+    }
+
+    printValue(value: LiteralValue): string {
+        return JSON.stringify(value);
+    }
+
+    inferType(languageNode: unknown, expectedType: Type | undefined): Type | InferenceProblem[] {
+        if (expectedType) {
+            for (const literalType of this.collectLiteralTypes(expectedType)) {
+                if (literalType.isLiteralOfThisType(languageNode)) {
+                    return literalType;
+                }
+            }
+        }
+        return this.services.Inference.inferType(languageNode);
+    }
+
+    /** Collects the literal types, which are relevant, if the given type is expected, including the literal types in unions like "GET" | "POST". */
+    protected collectLiteralTypes(expectedType: Type): LiteralType[] {
+        if (isLiteralType(expectedType)) {
+            return [expectedType];
+        } else if (isUnionType(expectedType)) {
+            return expectedType.getMemberTypes().flatMap(member => this.collectLiteralTypes(member));
+        } else {
+            return [];
+        }
+    }
+
+    widen(type: Type): Type {
+        return isLiteralType(type) ? type.getBaseType() : type;
+    }
+}
+
+export function isLiteralKind(kind: unknown): kind is LiteralKind {
+    return isKind(kind) && kind.$name === LiteralKindName;
+}
@@ -0,0 +1,73 @@
+/******************************************************************************
+ * Copyright 2025 TypeFox GmbH
+ * This program and the accompanying materials are made available under the
+ * terms of the MIT License, which is available in the project root.
+ ******************************************************************************/
+
+import { isType, Type } from '../../graph/type-node.js';
+import { TypeEqualityProblem } from '../../services/equality.js';
+import { TypirProblem } from '../../utils/utils-definitions.js';
+import { checkValueForConflict, createKindConflict } from '../../utils/utils-type-comparison.js';
+import { PrimitiveType } from '../primitive/primitive-type.js';
+import { InferLiteralType, isLiteralKind, LiteralKind, LiteralTypeDetails, LiteralValue } from './literal-kind.js';
+
+export class LiteralType extends Type {
+    override readonly kind: LiteralKind;
+    protected readonly baseType: PrimitiveType;
+    protected readonly value: LiteralValue;
+    protected readonly inferenceRules: InferLiteralType[];
+
+    constructor(kind: LiteralKind, identifier: string, typeDetails: LiteralTypeDetails, inferenceRules: InferLiteralType[]) {
+        super(identifier, typeDetails);
+        this.kind = kind;
+        this.baseType = typeDetails.baseType;
+        this.value = typeDetails.value;
+        this.inferenceRules = inferenceRules;
+        this.defineTheInitializationProcessOfThisType({}); // no preconditions
+    }
+
+    override getName(): string {
+        return this.kind.printValue(this.value);
+    }
+
+    override getUserRepresentation(): string {
+        return this.getName();
+    }
+
+    getBaseType(): PrimitiveType {
+        return this.baseType;
+    }
+
+    getValue(): LiteralValue {
+        return this.value;
+    }
+
+    /**
+     * Checks, whether the given language node is a literal with the value of this literal type.
+     * In case of multiple inference rules, later rules are not evaluated anymore, if an earlier rule already matched.
+     */
+    isLiteralOfThisType(languageNode: unknown): boolean {
+        return this.inferenceRules.some(rule => rule(languageNode));
+    }
+
+    override analyzeTypeEqualityProblems(otherType: Type): TypirProblem[] {
+        if (isLiteralType(otherType)) {
+            return [
+                ...checkValueForConflict(this.getBaseType().getIdentifier(), otherType.getBaseType().getIdentifier(), 'base type'),
+                ...checkValueForConflict(this.getValue(), otherType.getValue(), 'value'),
+            ];
+        } else {
+            return [<TypeEqualityProblem>{
+                $problem: TypeEqualityProblem,
+                type1: this,
+                type2: otherType,
+                subProblems: [createKindConflict(otherType, this)],
+            }];
+        }
+    }
+
+}
+
+export function isLiteralType(type: unknown): type is LiteralType {
+    return isType(type) && isLiteralKind(type.kind);
+}
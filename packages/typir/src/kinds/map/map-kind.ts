@@ -0,0 +1,167 @@
+/******************************************************************************
+ * Copyright 2025 TypeFox GmbH
+ * This program and the accompanying materials are made available under the
+ * terms of the MIT License, which is available in the project root.
+ ******************************************************************************/
+
+import { Type } from '../../graph/type-node.js';
+import { TypeSelector } from '../../initialization/type-selector.js';
+import { InferenceProblem, InferenceRuleNotApplicable } from '../../services/inference.js';
+import { TypirServices } from '../../typir.js';
+import { TypirProblem } from '../../utils/utils-definitions.js';
+import { calculateCommonSuperType, getOrCreateType, resolveFallbackType } from '../../utils/utils-type-comparison.js';
+import { analyzeVarianceProblems, FixedParameterFactoryService, FixedParameterKind, FixedParameterKindName, FixedParameterKindOptions, Parameter, ParameterVariance } from '../fixed-parameters/fixed-parameters-kind.js';
+import { FixedParameterType, isFixedParameterType } from '../fixed-parameters/fixed-parameters-type.js';
+import { isKind } from '../kind.js';
+
+export interface MapKindOptions extends FixedParameterKindOptions {
+    /** Describes, how the sub-type relationship of the key types influences the sub-type relationship of the map types. */
+    keyVariance: ParameterVariance,
+    /** Describes, how the sub-type relationship of the value types influences the sub-type relationship of the map types. */
+    valueVariance: ParameterVariance,
+    /** The key type for empty map literals and for map literals whose keys have no common super type. If undefined, the top type is used. */
+    fallbackKeyType: TypeSelector | undefined,
+    /** The value type for empty map literals and for map literals whose values have no common super type. If undefined, the top type is used. */
+    fallbackValueType: TypeSelector | undefined,
+}
+
+export type InferMapLiteral<T = unknown> = {
+    filter: (languageNode: unknown) => languageNode is T;
+    matching: (languageNode: T) => boolean;
+    inputEntries: (languageNode: T) => Array<[unknown, unknown]>; // the keys and values of the entries of the map, might be empty
+};
+
+export type InferMapLookup<T = unknown> = {
+    filter: (languageNode: unknown) => languageNode is T;
+    matching: (languageNode: T) => boolean;
+    map: (languageNode: T) => unknown; // the language node whose type is the accessed map type
+    key: (languageNode: T) => unknown; // the language node whose type needs to be assignable to the key type of the accessed map type
+    /** If true (which is the default), a validation rule checks, that the types of the keys of lookups are assignable to the key types of the accessed maps. */
+    validateKey?: boolean;
+};
+
+export const MapKindBaseName = 'Map';
+export const MapKindName = `${FixedParameterKindName}-${MapKindBaseName}`;
+
+export interface MapFactoryService extends FixedParameterFactoryService {
+    /** The inference rule for map literals creates the map types on demand, since their key and value types depend on the actual entries. */
+    addInferenceRuleForLiterals<T>(rule: InferMapLiteral<T>): void;
+    /** The inference rule for lookups infers the value type of the accessed map type and validates the types of the keys. */
+    addInferenceRuleForLookups<T>(rule: InferMapLookup<T>): void;
+}
+
+/**
+ * Maps (or dictionaries) have a key type and a value type, e.g. `Map<string, integer>`.
+ * Map types are types with the two fixed parameters 'key' and 'value' (see `FixedParameterKind`),
+ * i.e. this kind is registered as the kind for types with fixed parameters with the base name 'Map'.
+ * By default, keys are invariant, since they are used to store and to find the values,
+ * and values are covariant, which is sound for read-only maps.
+ * The key and value types of map literals are the common super types of the types of their keys and values.
+ */
+export class MapKind extends FixedParameterKind implements MapFactoryService {
+    declare readonly options: Readonly<MapKindOptions>;
+
+    constructor(services: TypirServices, options?: Partial<MapKindOptions>) {
+        super(services, MapKindBaseName, options, 'key', 'value');
+    }
+
+    protected override collectOptions(options?: Partial<MapKindOptions>): MapKindOptions {
+        return {
+            // the default values:
+            keyVariance: 'INVARIANT',
+            valueVariance: 'COVARIANT',
+            fallbackKeyType: undefined,
+            fallbackValueType: undefined,
+            // the actually overriden values (including the default values of the super kind):
+            ...super.collectOptions(options),
+        };
+    }
+
+    override analyzeParameterProblems(parameter: Parameter, subParameterType: Type, superParameterType: Type): TypirProblem[] {
+        return analyzeVarianceProblems(this.getVariance(parameter), subParameterType, superParameterType, this.services);
+    }
+
+    override printVariance(parameter: Parameter): string {
+        return this.getVariance(parameter);
+    }
+
+    protected getVariance(parameter: Parameter): ParameterVariance {
+        return parameter.index === 0 ? this.options.keyVariance : this.options.valueVariance;
+    }
+
+    getKeyType(mapType: FixedParameterType): Type {
+        return mapType.getParameterTypes()[0];
+    }
+
+    getValueType(mapType: FixedParameterType): Type {
+        return mapType.getParameterTypes()[1];
+    }
+
+    getOrCreateMapType(keyType: Type, valueType: Type): FixedParameterType {
+        // since the key and value types are already known, the new map type is directly completed
+        return getOrCreateType(this.calculateIdentifier({ parameterTypes: [keyType, valueType] }), isMapType, () => this.create({ parameterTypes: [keyType, valueType] }), this.services);
+    }
+
+    addInferenceRuleForLiterals<T>(rule: InferMapLiteral<T>): void {
+        this.services.Inference.addInferenceRule({
+            inferTypeWithoutChildren: (languageNode, _typir) => {
+                if (rule.filter(languageNode) && rule.matching(languageNode)) {
+                    return rule.inputEntries(languageNode).flat(); // key1, value1, key2, value2, ...
+                }
+                return InferenceRuleNotApplicable;
+            },
+            inferTypeWithChildrensTypes: (_languageNode, childrenTypes, _typir) => {
+                // the types of all keys and values are successfully inferred at this point
+                const keyTypes = (childrenTypes as Type[]).filter((_type, index) => index % 2 === 0);
+                const valueTypes = (childrenTypes as Type[]).filter((_type, index) => index % 2 === 1);
+                const keyType = calculateCommonSuperType(keyTypes, this.services) ?? resolveFallbackType(this.options.fallbackKeyType, this.services);
+                const valueType = calculateCommonSuperType(valueTypes, this.services) ?? resolveFallbackType(this.options.fallbackValueType, this.services);
+                return this.getOrCreateMapType(keyType, valueType);
+            },
+        });
+    }
+
+    addInferenceRuleForLookups<T>(rule: InferMapLookup<T>): void {
+        this.services.Inference.addInferenceRule({
+            inferTypeWithoutChildren: (languageNode, _typir) => {
+                if (rule.filter(languageNode) && rule.matching(languageNode)) {
+                    return [rule.map(languageNode)];
+                }
+                return InferenceRuleNotApplicable;
+            },
+            inferTypeWithChildrensTypes: (languageNode, childrenTypes, _typir) => {
+                const mapType = childrenTypes[0];
+                if (isMapType(mapType)) {
+                    return this.getValueType(mapType);
+                }
+                return <InferenceProblem>{
+                    $problem: InferenceProblem,
+                    languageNode: languageNode,
+                    location: 'accessed map',
+                    subProblems: [],
+                };
+            },
+        });
+        if (rule.validateKey ?? true) {
+            this.services.validation.Collector.addValidationRule((languageNode, typir) => {
+                if (rule.filter(languageNode) && rule.matching(languageNode)) {
+                    const mapType = typir.Inference.inferType(rule.map(languageNode));
+                    if (isMapType(mapType)) {
+                        return typir.validation.Constraints.ensureNodeIsAssignable(rule.key(languageNode), this.getKeyType(mapType),
+                            (actual, expected) => ({ message: `The key of type '${actual.name}' does not fit to the key type '${expected.name}' of the map '${mapType.getName()}'.` }));
+                    }
+                }
+                return [];
+            });
+        }
+    }
+
+}
+
+export function isMapKind(kind: unknown): kind is MapKind {
+    return isKind(kind) && kind.$name === MapKindName;
+}
+
+export function isMapType(type: unknown): type is FixedParameterType {
+    return isFixedParameterType(type) && isMapKind(type.kind);
+}
@@ -0,0 +1,124 @@
+/******************************************************************************
+ * Copyright 2025 TypeFox GmbH
+ * This program and the accompanying materials are made available under the
+ * terms of the MIT License, which is available in the project root.
+ ******************************************************************************/
+
+import { Type, TypeStateListener } from '../../graph/type-node.js';
+import { TypeInitializer } from '../../initialization/type-initializer.js';
+import { InferenceProblem, InferenceRuleNotApplicable, TypeInferenceRule } from '../../services/inference.js';
+import { TypirServices } from '../../typir.js';
+import { checkTypeArrays } from '../../utils/utils-type-comparison.js';
+import { assertType } from '../../utils/utils.js';
+import { CreateMultiplicityTypeDetails, InferMultiplicityLiteral, MultiplicityKind } from './multiplicity-kind.js';
+import { isMultiplicityType, MultiplicityType } from './multiplicity-type.js';
+
+export class MultiplicityTypeInitializer<T = unknown> extends TypeInitializer<MultiplicityType> implements TypeStateListener {
+    protected readonly typeDetails: CreateMultiplicityTypeDetails<T>;
+    protected readonly kind: MultiplicityKind;
+    protected inferenceRules: TypeInferenceRule[];
+    protected initialMultiplicityType: MultiplicityType;
+
+    constructor(services: TypirServices, kind: MultiplicityKind, typeDetails: CreateMultiplicityTypeDetails<T>) {
+        super(services);
+        this.typeDetails = typeDetails;
+        this.kind = kind;
+
+        // create the type with multiplicities
+        this.initialMultiplicityType = new MultiplicityType(kind, typeDetails);
+
+        this.inferenceRules = this.createInferenceRules(this.typeDetails, this.initialMultiplicityType);
+        // register all the inference rules already now to enable early type inference for this type
+        this.inferenceRules.forEach(rule => services.Inference.addInferenceRule(rule, undefined)); // 'undefined', since the Identifier is still missing
+
+        this.initialMultiplicityType.addListener(this, true); // trigger directly, if some initialization states are already reached!
+    }
+
+    onSwitchedToIdentifiable(multiplicityType: Type): void {
+        assertType(multiplicityType, isMultiplicityType);
+        const readyMultiplicityType = this.producedType(multiplicityType);
+
+        // remove the inference rules for the not yet identifiable type
+        this.inferenceRules.forEach(rule => this.services.Inference.removeInferenceRule(rule, undefined));
+        if (readyMultiplicityType !== multiplicityType) {
+            // the same type was already created earlier => skip the new type
+            multiplicityType.removeListener(this);
+            // but re-create the inference rules for the existing type!
+            this.inferenceRules = this.createInferenceRules(this.typeDetails, readyMultiplicityType);
+        }
+        this.inferenceRules.forEach(rule => this.services.Inference.addInferenceRule(rule, readyMultiplicityType));
+    }
+
+    onSwitchedToCompleted(multiplicityType: Type): void {
+        // the work of this initializer is done now
+        multiplicityType.removeListener(this);
+    }
+
+    onSwitchedToInvalid(_multiplicityType: Type): void {
+        // nothing specific needs to be done here, since the base implementation takes already care about all relevant stuff
+    }
+
+    override getTypeInitial(): MultiplicityType {
+        return this.initialMultiplicityType;
+    }
+
+    protected createInferenceRules(typeDetails: CreateMultiplicityTypeDetails<T>, multiplicityType: MultiplicityType): TypeInferenceRule[] {
+        const result: TypeInferenceRule[] = [];
+        if (typeDetails.inferenceRuleForDeclaration) {
+            result.push((languageNode, _typir) => {
+                if (typeDetails.inferenceRuleForDeclaration!(languageNode)) {
+                    return multiplicityType;
+                } else {
+                    return InferenceRuleNotApplicable;
+                }
+            });
+        }
+        if (typeDetails.inferenceRuleForLiteral) {
+            result.push(this.createInferenceRuleForLiteral(typeDetails.inferenceRuleForLiteral, multiplicityType));
+        }
+        return result;
+    }
+
+    protected createInferenceRuleForLiteral(rule: InferMultiplicityLiteral<T>, multiplicityType: MultiplicityType): TypeInferenceRule {
+        const kind = this.kind;
+        return {
+            inferTypeWithoutChildren(languageNode, _typir) {
+                if (rule.filter(languageNode) && rule.matching(languageNode)) {
+                    const values = rule.inputValues(languageNode);
+                    if (kind.isCountWithinBounds(values.length, multiplicityType.getLowerBound(), multiplicityType.getUpperBound())) {
+                        // the types of the given values need to be inferred
+                        return values;
+                    }
+                    return <InferenceProblem>{
+                        $problem: InferenceProblem,
+                        languageNode: languageNode,
+                        inferenceCandidate: multiplicityType,
+                        location: `${values.length} values do not fit to the bounds ${kind.printRange(multiplicityType.getLowerBound(), multiplicityType.getUpperBound())}`,
+                        rule: this,
+                        subProblems: [],
+                    };
+                }
+                // does not match at all
+                return InferenceRuleNotApplicable;
+            },
+            inferTypeWithChildrensTypes(languageNode, childrenTypes, typir) {
+                // each value needs to be assignable to the constrained type
+                const constrainedType = multiplicityType.getConstrainedType();
+                const checkedValuesProblems = checkTypeArrays(childrenTypes, childrenTypes.map(() => constrainedType), (actual, expected) => typir.Assignability.getAssignabilityProblem(actual, expected), false);
+                if (checkedValuesProblems.length >= 1) {
+                    return <InferenceProblem>{
+                        $problem: InferenceProblem,
+                        languageNode: languageNode,
+                        inferenceCandidate: multiplicityType,
+                        location: 'values',
+                        rule: this,
+                        subProblems: checkedValuesProblems,
+                    };
+                } else {
+                    return multiplicityType;
+                }
+            },
+        };
+    }
+
+}
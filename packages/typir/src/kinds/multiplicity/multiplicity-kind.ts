@@ -4,18 +4,34 @@
  * terms of the MIT License, which is available in the project root.
  ******************************************************************************/
 
-import { Type, TypeDetails } from '../../graph/type-node.js';
+import { TypeDetails } from '../../graph/type-node.js';
+import { TypeInitializer } from '../../initialization/type-initializer.js';
+import { TypeReference } from '../../initialization/type-reference.js';
+import { TypeSelector } from '../../initialization/type-selector.js';
 import { TypirServices } from '../../typir.js';
-import { assertTrue } from '../../utils/utils.js';
+import { DerivedSubTypes } from '../derived-subtypes.js';
 import { Kind, isKind } from '../kind.js';
-import { MultiplicityType } from './multiplicity-type.js';
+import { MultiplicityTypeInitializer } from './multiplicity-initializer.js';
+import { isMultiplicityType, MultiplicityType } from './multiplicity-type.js';
 
 export interface MultiplicityTypeDetails extends TypeDetails {
-    constrainedType: Type,
+    constrainedType: TypeSelector,
     lowerBound: number,
     upperBound: number
 }
 
+export interface CreateMultiplicityTypeDetails<T = unknown> extends MultiplicityTypeDetails {
+    inferenceRuleForDeclaration?: (languageNode: unknown) => boolean,
+    inferenceRuleForLiteral?: InferMultiplicityLiteral<T>,
+}
+
+export type InferMultiplicityLiteral<T = unknown> = {
+    filter: (languageNode: unknown) => languageNode is T;
+    matching: (languageNode: T) => boolean;
+    /** The number of values needs to fit to the bounds, the types of all values need to be assignable to the constrained type. */
+    inputValues: (languageNode: T) => unknown[];
+};
+
 export interface MultiplicityKindOptions {
     symbolForUnlimited: string;
 }
@@ -23,20 +39,34 @@ export interface MultiplicityKindOptions {
 export const MULTIPLICITY_UNLIMITED = -1;
 export const MultiplicityKindName = 'MultiplicityTypeKind';
 
+export interface MultiplicityFactoryService {
+    create<T>(typeDetails: CreateMultiplicityTypeDetails<T>): TypeInitializer<MultiplicityType>;
+    get(typeDetails: MultiplicityTypeDetails): TypeReference<MultiplicityType>;
+    calculateIdentifier(typeDetails: MultiplicityTypeDetails): string;
+}
+
 /**
  * Types of this kind constrain a type with lower bound and upper bound,
  * e.g. ConstrainedType[1..*] or ConstrainedType[2..4].
  */
-export class MultiplicityKind implements Kind {
+export class MultiplicityKind implements Kind, MultiplicityFactoryService {
     readonly $name: 'MultiplicityTypeKind';
     readonly services: TypirServices;
     readonly options: Readonly<MultiplicityKindOptions>;
+    readonly derivedSubTypes: DerivedSubTypes<MultiplicityType>;
 
     constructor(services: TypirServices, options?: Partial<MultiplicityKindOptions>) {
         this.$name = MultiplicityKindName;
         this.services = services;
         this.services.infrastructure.Kinds.register(this);
         this.options = this.collectOptions(options);
+        // the sub-type relationships between multiplicity types are derived from their bounds and the relationships between their constrained types
+        this.derivedSubTypes = new DerivedSubTypes(services, {
+            isDerivedType: isMultiplicityType,
+            getDependencies: multiplicity => [multiplicity.getConstrainedType()],
+            onRegistered: multiplicity => multiplicity.markConversions(),
+            isSubType: (subType, superType) => isMultiplicityType(subType) && isMultiplicityType(superType) && subType.analyzeSubTypeProblems(subType, superType).length <= 0,
+        });
     }
 
     protected collectOptions(options?: Partial<MultiplicityKindOptions>): MultiplicityKindOptions {
@@ -48,33 +78,32 @@ export class MultiplicityKind implements Kind {
         };
     }
 
-    getMultiplicityType(typeDetails: MultiplicityTypeDetails): MultiplicityType | undefined {
-        const key = this.calculateIdentifier(typeDetails);
-        return this.services.infrastructure.Graph.getType(key) as MultiplicityType;
+    get(typeDetails: MultiplicityTypeDetails): TypeReference<MultiplicityType> {
+        return new TypeReference(() => this.calculateIdentifier(typeDetails), this.services);
     }
 
-    createMultiplicityType(typeDetails: MultiplicityTypeDetails): MultiplicityType {
+    create<T>(typeDetails: CreateMultiplicityTypeDetails<T>): TypeInitializer<MultiplicityType> {
         // check input
-        assertTrue(this.getMultiplicityType(typeDetails) === undefined);
         if (!this.checkBounds(typeDetails.lowerBound, typeDetails.upperBound)) {
-            throw new Error();
+            throw new Error(`The bounds ${this.printRange(typeDetails.lowerBound, typeDetails.upperBound)} are invalid.`);
         }
-
-        // create the type with multiplicities
-        const typeWithMultiplicity = new MultiplicityType(this, this.calculateIdentifier(typeDetails), typeDetails);
-        this.services.infrastructure.Graph.addNode(typeWithMultiplicity);
-
-        this.registerInferenceRules(typeDetails, typeWithMultiplicity);
-
-        return typeWithMultiplicity;
+        return new MultiplicityTypeInitializer(this.services, this, typeDetails);
     }
 
-    protected registerInferenceRules(_typeDetails: MultiplicityTypeDetails, _typeWithMultiplicity: MultiplicityType): void {
-        // TODO
+    /**
+     * Checks, whether the given number of values fits to the given bounds.
+     * @param count the number of values
+     * @param lowerBound the lower bound
+     * @param upperBound the upper bound
+     * @returns true, if the number of values is within the bounds, false otherwise
+     */
+    isCountWithinBounds(count: number, lowerBound: number, upperBound: number): boolean {
+        return this.isBoundGreaterEquals(count, lowerBound) && this.isBoundGreaterEquals(upperBound, count);
     }
 
     calculateIdentifier(typeDetails: MultiplicityTypeDetails): string {
-        return `${typeDetails.constrainedType.getIdentifier()}${this.printRange(typeDetails.lowerBound, typeDetails.upperBound)}`;
+        const constrainedType = this.services.infrastructure.TypeResolver.resolve(typeDetails.constrainedType);
+        return `${constrainedType.getIdentifier()}${this.printRange(typeDetails.lowerBound, typeDetails.upperBound)}`;
     }
 
     protected checkBounds(lowerBound: number, upperBound: number): boolean {
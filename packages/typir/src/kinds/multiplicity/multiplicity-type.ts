@@ -5,6 +5,7 @@
 ******************************************************************************/
 
 import { isType, Type } from '../../graph/type-node.js';
+import { TypeReference } from '../../initialization/type-reference.js';
 import { TypeEqualityProblem } from '../../services/equality.js';
 import { isSubTypeProblem } from '../../services/subtype.js';
 import { TypirProblem } from '../../utils/utils-definitions.js';
@@ -13,21 +14,40 @@ import { isMultiplicityKind, MultiplicityKind, MultiplicityTypeDetails } from '.
 
 export class MultiplicityType extends Type {
     override readonly kind: MultiplicityKind;
-    readonly constrainedType: Type;
+    readonly constrainedType: TypeReference;
     readonly lowerBound: number;
     readonly upperBound: number;
 
-    constructor(kind: MultiplicityKind, identifier: string, typeDetails: MultiplicityTypeDetails) {
-        super(identifier, typeDetails);
+    constructor(kind: MultiplicityKind, typeDetails: MultiplicityTypeDetails) {
+        super(undefined, typeDetails);
         this.kind = kind;
-        this.constrainedType = typeDetails.constrainedType;
+        this.constrainedType = new TypeReference(typeDetails.constrainedType, kind.services);
         this.lowerBound = typeDetails.lowerBound;
         this.upperBound = typeDetails.upperBound;
-        this.defineTheInitializationProcessOfThisType({}); // TODO preconditions
+
+        // define to wait for the constrained type
+        this.defineTheInitializationProcessOfThisType({
+            preconditionsForIdentifiable: {
+                referencesToBeIdentifiable: [this.constrainedType],
+            },
+            referencesRelevantForInvalidation: [this.constrainedType],
+            onIdentifiable: () => {
+                // the identifier is calculated now
+                this.identifier = this.kind.calculateIdentifier(typeDetails);
+                // the registration of the type in the type graph is done by the TypeInitializer
+            },
+            onCompleted: () => {
+                // duplicated types are not registered in the type graph, i.e. they are not considered for conversions and sub-type relationships
+                this.kind.derivedSubTypes.register(this);
+            },
+            onInvalidated: () => {
+                this.kind.derivedSubTypes.unregister(this);
+            },
+        });
     }
 
     override getName(): string {
-        return `${this.constrainedType.getName()}${this.kind.printRange(this.getLowerBound(), this.getUpperBound())}`;
+        return `${this.getConstrainedType().getName()}${this.kind.printRange(this.getLowerBound(), this.getUpperBound())}`;
     }
 
     override getUserRepresentation(): string {
@@ -35,13 +55,13 @@ export class MultiplicityType extends Type {
     }
 
     override analyzeTypeEqualityProblems(otherType: Type): TypirProblem[] {
-        if (isMultiplicityKind(otherType)) {
+        if (isMultiplicityType(otherType)) {
             const conflicts: TypirProblem[] = [];
             // check the multiplicities
-            conflicts.push(...checkValueForConflict(this.getLowerBound(), this.getLowerBound(), 'lower bound'));
-            conflicts.push(...checkValueForConflict(this.getUpperBound(), this.getUpperBound(), 'upper bound'));
+            conflicts.push(...checkValueForConflict(this.getLowerBound(), otherType.getLowerBound(), 'lower bound'));
+            conflicts.push(...checkValueForConflict(this.getUpperBound(), otherType.getUpperBound(), 'upper bound'));
             // check the constrained type
-            const constrainedTypeConflict = this.kind.services.Equality.getTypeEqualityProblem(this.getConstrainedType(), this.getConstrainedType());
+            const constrainedTypeConflict = this.kind.services.Equality.getTypeEqualityProblem(this.getConstrainedType(), otherType.getConstrainedType());
             if (constrainedTypeConflict !== undefined) {
                 conflicts.push(constrainedTypeConflict);
             }
@@ -56,21 +76,58 @@ export class MultiplicityType extends Type {
         }
     }
 
-    protected analyzeSubTypeProblems(subType: MultiplicityType, superType: MultiplicityType): TypirProblem[] {
+    /**
+     * Analyzes, whether the given sub-type is a sub-type of the given super-type:
+     * The bounds of the sub-type need to be within the bounds of the super-type,
+     * and the constrained type of the sub-type needs to be equal to or a sub-type of the constrained type of the super-type,
+     * e.g. Integer[1] is a sub-type of Number[0..*].
+     * @param subType the sub-type
+     * @param superType the super-type
+     * @returns an empty array, if the sub-type relationship exists, otherwise the found conflicts
+     */
+    analyzeSubTypeProblems(subType: MultiplicityType, superType: MultiplicityType): TypirProblem[] {
         const conflicts: TypirProblem[] = [];
         // check the multiplicities
         conflicts.push(...checkValueForConflict(subType.getLowerBound(), superType.getLowerBound(), 'lower bound', this.kind.isBoundGreaterEquals));
-        conflicts.push(...checkValueForConflict(subType.getUpperBound(), superType.getUpperBound(), 'upper bound', this.kind.isBoundGreaterEquals));
+        conflicts.push(...checkValueForConflict(superType.getUpperBound(), subType.getUpperBound(), 'upper bound', this.kind.isBoundGreaterEquals));
         // check the constrained type
-        const constrainedTypeConflict = this.kind.services.Subtype.getSubTypeResult(subType.getConstrainedType(), superType.getConstrainedType());
-        if (isSubTypeProblem(constrainedTypeConflict)) {
-            conflicts.push(constrainedTypeConflict);
+        const subConstrainedType = subType.getConstrainedType();
+        const superConstrainedType = superType.getConstrainedType();
+        if (this.kind.services.Equality.areTypesEqual(subConstrainedType, superConstrainedType) === false) {
+            const constrainedTypeConflict = this.kind.services.Subtype.getSubTypeResult(subConstrainedType, superConstrainedType);
+            if (isSubTypeProblem(constrainedTypeConflict)) {
+                conflicts.push(constrainedTypeConflict);
+            }
         }
         return conflicts;
     }
 
+    /**
+     * Since assignability works only with the relationships which are explicitly stored in the type graph,
+     * the conversions of this multiplicity type are stored as edges in the type graph:
+     * - T[1] is implicitly convertible to T, i.e. T[1] can be used, where T is expected.
+     * - T is implicitly convertible to all multiplicity types whose bounds include exactly one value, e.g. T[0..1] for optional values.
+     *   Since cycles of implicit conversions are forbidden, T is not convertible to T[1], but T[1] is assignable to T[0..1] etc. via T.
+     * This method is called by the kind, when this type is registered in the type graph.
+     * Sub-type relationships to the other multiplicity types according to their bounds and constrained types are derived by the kind.
+     */
+    markConversions(): void {
+        const constrainedType = this.getConstrainedType();
+        const conversion = this.kind.services.Conversion;
+        if (this.getLowerBound() === 1 && this.getUpperBound() === 1) {
+            conversion.markAsConvertible(this, constrainedType, 'IMPLICIT_EXPLICIT');
+        } else if (this.kind.isCountWithinBounds(1, this.getLowerBound(), this.getUpperBound())) {
+            conversion.markAsConvertible(constrainedType, this, 'IMPLICIT_EXPLICIT');
+        }
+    }
+
     getConstrainedType(): Type {
-        return this.constrainedType;
+        const type = this.constrainedType.getType();
+        if (type) {
+            return type;
+        } else {
+            throw new Error('The constrained type is not resolved.');
+        }
     }
 
     getLowerBound(): number {
@@ -0,0 +1,78 @@
+/******************************************************************************
+ * Copyright 2025 TypeFox GmbH
+ * This program and the accompanying materials are made available under the
+ * terms of the MIT License, which is available in the project root.
+ ******************************************************************************/
+
+import { Type, TypeStateListener } from '../../graph/type-node.js';
+import { TypeInitializer } from '../../initialization/type-initializer.js';
+import { InferenceRuleNotApplicable, TypeInferenceRule } from '../../services/inference.js';
+import { TypirServices } from '../../typir.js';
+import { assertType } from '../../utils/utils.js';
+import { OptionalKind, CreateOptionalTypeDetails } from './optional-kind.js';
+import { OptionalType, isOptionalType } from './optional-type.js';
+
+export class OptionalTypeInitializer extends TypeInitializer<OptionalType> implements TypeStateListener {
+    protected readonly typeDetails: CreateOptionalTypeDetails;
+    protected readonly kind: OptionalKind;
+    protected inferenceRules: TypeInferenceRule[];
+    protected initialOptionalType: OptionalType;
+
+    constructor(services: TypirServices, kind: OptionalKind, typeDetails: CreateOptionalTypeDetails) {
+        super(services);
+        this.typeDetails = typeDetails;
+        this.kind = kind;
+
+        // create the optional type
+        this.initialOptionalType = new OptionalType(kind, typeDetails);
+
+        this.inferenceRules = this.createInferenceRules(this.typeDetails, this.initialOptionalType);
+        // register all the inference rules already now to enable early type inference for this type
+        this.inferenceRules.forEach(rule => services.Inference.addInferenceRule(rule, undefined)); // 'undefined', since the Identifier is still missing
+
+        this.initialOptionalType.addListener(this, true); // trigger directly, if some initialization states are already reached!
+    }
+
+    onSwitchedToIdentifiable(optionalType: Type): void {
+        assertType(optionalType, isOptionalType);
+        const readyOptionalType = this.producedType(optionalType);
+
+        // remove the inference rules for the not yet identifiable type
+        this.inferenceRules.forEach(rule => this.services.Inference.removeInferenceRule(rule, undefined));
+        if (readyOptionalType !== optionalType) {
+            // the same type was already created earlier => skip the new type
+            optionalType.removeListener(this);
+            // but re-create the inference rules for the existing type!
+            this.inferenceRules = this.createInferenceRules(this.typeDetails, readyOptionalType);
+        }
+        this.inferenceRules.forEach(rule => this.services.Inference.addInferenceRule(rule, readyOptionalType));
+    }
+
+    onSwitchedToCompleted(optionalType: Type): void {
+        // the work of this initializer is done now
+        optionalType.removeListener(this);
+    }
+
+    onSwitchedToInvalid(_optionalType: Type): void {
+        // nothing specific needs to be done here, since the base implementation takes already care about all relevant stuff
+    }
+
+    override getTypeInitial(): OptionalType {
+        return this.initialOptionalType;
+    }
+
+    protected createInferenceRules(typeDetails: CreateOptionalTypeDetails, optionalType: OptionalType): TypeInferenceRule[] {
+        const result: TypeInferenceRule[] = [];
+        if (typeDetails.inferenceRuleForDeclaration) {
+            result.push((languageNode, _typir) => {
+                if (typeDetails.inferenceRuleForDeclaration!(languageNode)) {
+                    return optionalType;
+                } else {
+                    return InferenceRuleNotApplicable;
+                }
+            });
+        }
+        return result;
+    }
+
+}
@@ -0,0 +1,130 @@
+/******************************************************************************
+ * Copyright 2025 TypeFox GmbH
+ * This program and the accompanying materials are made available under the
+ * terms of the MIT License, which is available in the project root.
+ ******************************************************************************/
+
+import { Type, TypeDetails } from '../../graph/type-node.js';
+import { TypeInitializer } from '../../initialization/type-initializer.js';
+import { TypeReference } from '../../initialization/type-reference.js';
+import { TypeSelector } from '../../initialization/type-selector.js';
+import { TypirServices } from '../../typir.js';
+import { DerivedSubTypes } from '../derived-subtypes.js';
+import { isKind, Kind } from '../kind.js';
+import { PrimitiveTypeDetails } from '../primitive/primitive-kind.js';
+import { PrimitiveType } from '../primitive/primitive-type.js';
+import { OptionalTypeInitializer } from './optional-initializer.js';
+import { isOptionalType, OptionalType } from './optional-type.js';
+
+export interface OptionalKindOptions {
+    /** Will be used only internally as suffix for the unique identifiers for optional types. */
+    identifierSuffix: string,
+    /** The symbol to print optional types, e.g. `string?` */
+    symbolForOptional: string,
+}
+
+export interface OptionalTypeDetails extends TypeDetails {
+    /** The type which is made optional/nullable, e.g. `string` for `string?` */
+    wrappedType: TypeSelector,
+}
+
+export interface CreateOptionalTypeDetails extends OptionalTypeDetails {
+    inferenceRuleForDeclaration?: (languageNode: unknown) => boolean,
+}
+
+export const OptionalKindName = 'OptionalKind';
+
+export interface OptionalFactoryService {
+    create(typeDetails: CreateOptionalTypeDetails): TypeInitializer<OptionalType>;
+    get(typeDetails: OptionalTypeDetails): TypeReference<OptionalType>;
+    calculateIdentifier(typeDetails: OptionalTypeDetails): string;
+
+    /**
+     * Creates the primitive type which represents the "null" value, e.g. `null` or `nil`.
+     * The null type is assignable only to optional types.
+     * @param typeDetails the details for the new primitive type, including its inference rules
+     * @returns the new null type
+     */
+    createNullType(typeDetails: PrimitiveTypeDetails): PrimitiveType;
+    getNullType(): PrimitiveType | undefined;
+    /**
+     * Checks, whether values of the given type might be null, i.e. the given type is an optional type or the null type.
+     * @param type the type to check
+     * @returns true, if values of the given type might be null
+     */
+    isNullable(type: Type): boolean;
+}
+
+/**
+ * Optional types make other types nullable, e.g. `string?`.
+ * Each type is a sub-type of its optional type, e.g. `string` is a sub-type of `string?`.
+ * The null type, which needs to be created explicitly, is assignable only to optional types.
+ */
+export class OptionalKind implements Kind, OptionalFactoryService {
+    readonly $name: 'OptionalKind';
+    readonly services: TypirServices;
+    readonly options: Readonly<OptionalKindOptions>;
+    readonly derivedSubTypes: DerivedSubTypes<OptionalType>;
+    protected nullType: PrimitiveType | undefined = undefined;
+
+    constructor(services: TypirServices, options?: Partial<OptionalKindOptions>) {
+        this.$name = OptionalKindName;
+        this.services = services;
+        this.services.infrastructure.Kinds.register(this);
+        this.options = this.collectOptions(options);
+        // the sub-type relationships between optional types are derived from the relationships between their wrapped types
+        this.derivedSubTypes = new DerivedSubTypes(services, {
+            isDerivedType: isOptionalType,
+            getDependencies: optional => [optional.getWrappedType()],
+            onRegistered: optional => optional.markWrappedTypeAndNullTypeAsSubTypes(),
+            isSubType: (subType, superType) => isOptionalType(subType) && isOptionalType(superType) && services.Subtype.isSubType(subType.getWrappedType(), superType.getWrappedType()),
+        });
+    }
+
+    protected collectOptions(options?: Partial<OptionalKindOptions>): OptionalKindOptions {
+        return {
+            // the default values:
+            identifierSuffix: '?',
+            symbolForOptional: '?',
+            // the actually overriden values:
+            ...options
+        };
+    }
+
+    get(typeDetails: OptionalTypeDetails): TypeReference<OptionalType> {
+        return new TypeReference(() => this.calculateIdentifier(typeDetails), this.services);
+    }
+
+    create(typeDetails: CreateOptionalTypeDetails): TypeInitializer<OptionalType> {
+        return new OptionalTypeInitializer(this.services, this, typeDetails);
+    }
+
+    calculateIdentifier(typeDetails: OptionalTypeDetails): string {
+        const wrappedType = this.services.infrastructure.TypeResolver.resolve(typeDetails.wrappedType);
+        return `${wrappedType.getIdentifier()}${this.options.identifierSuffix}`;
+    }
+
+    createNullType(typeDetails: PrimitiveTypeDetails): PrimitiveType {
+        if (this.nullType) {
+            throw new Error(`The null type '${this.nullType.getName()}' is already created.`);
+        }
+        this.nullType = this.services.factory.Primitives.create(typeDetails);
+        // the null type is assignable to all already existing optional types
+        for (const type of this.derivedSubTypes.getDerivedTypes()) {
+            this.services.Subtype.markAsSubType(this.nullType, type, { checkForCycles: false });
+        }
+        return this.nullType;
+    }
+
+    getNullType(): PrimitiveType | undefined {
+        return this.nullType;
+    }
+
+    isNullable(type: Type): boolean {
+        return isOptionalType(type) || (this.nullType !== undefined && type === this.nullType);
+    }
+}
+
+export function isOptionalKind(kind: unknown): kind is OptionalKind {
+    return isKind(kind) && kind.$name === OptionalKindName;
+}
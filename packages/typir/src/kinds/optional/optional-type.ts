@@ -0,0 +1,95 @@
+/******************************************************************************
+ * Copyright 2025 TypeFox GmbH
+ * This program and the accompanying materials are made available under the
+ * terms of the MIT License, which is available in the project root.
+ ******************************************************************************/
+
+import { isType, Type } from '../../graph/type-node.js';
+import { TypeReference } from '../../initialization/type-reference.js';
+import { TypeEqualityProblem } from '../../services/equality.js';
+import { TypirProblem } from '../../utils/utils-definitions.js';
+import { createKindConflict } from '../../utils/utils-type-comparison.js';
+import { isOptionalKind, OptionalKind, OptionalTypeDetails } from './optional-kind.js';
+
+export class OptionalType extends Type {
+    override readonly kind: OptionalKind;
+    readonly wrappedType: TypeReference;
+
+    constructor(kind: OptionalKind, typeDetails: OptionalTypeDetails) {
+        super(undefined, typeDetails);
+        this.kind = kind;
+        this.wrappedType = new TypeReference(typeDetails.wrappedType, kind.services);
+
+        // define to wait for the wrapped type
+        this.defineTheInitializationProcessOfThisType({
+            preconditionsForIdentifiable: {
+                referencesToBeIdentifiable: [this.wrappedType],
+            },
+            referencesRelevantForInvalidation: [this.wrappedType],
+            onIdentifiable: () => {
+                // the identifier is calculated now
+                this.identifier = this.kind.calculateIdentifier(typeDetails);
+                // the registration of the type in the type graph is done by the TypeInitializer
+            },
+            onCompleted: () => {
+                // duplicated types are not registered in the type graph, i.e. they are not considered for sub-type relationships
+                this.kind.derivedSubTypes.register(this);
+            },
+            onInvalidated: () => {
+                this.kind.derivedSubTypes.unregister(this);
+            },
+        });
+    }
+
+    override getName(): string {
+        return `${this.getWrappedType().getName()}${this.kind.options.symbolForOptional}`;
+    }
+
+    override getUserRepresentation(): string {
+        return `${this.getWrappedType().getUserRepresentation()}${this.kind.options.symbolForOptional}`;
+    }
+
+    getWrappedType(): Type {
+        const type = this.wrappedType.getType();
+        if (type) {
+            return type;
+        } else {
+            throw new Error('The wrapped type is not resolved.');
+        }
+    }
+
+    override analyzeTypeEqualityProblems(otherType: Type): TypirProblem[] {
+        if (isOptionalType(otherType)) {
+            const problem = this.kind.services.Equality.getTypeEqualityProblem(this.getWrappedType(), otherType.getWrappedType());
+            return problem ? [problem] : [];
+        } else {
+            return [<TypeEqualityProblem>{
+                $problem: TypeEqualityProblem,
+                type1: this,
+                type2: otherType,
+                subProblems: [createKindConflict(otherType, this)],
+            }];
+        }
+    }
+
+    /**
+     * Since the SubType service works only with the relationships which are explicitly stored in the type graph,
+     * the sub-type relationships of this optional type to its wrapped type and to the null type are stored as edges in the type graph:
+     * - The wrapped type T is a sub-type of T?.
+     * - The null type is a sub-type of T?.
+     * This method is called by the kind, when this type is registered in the type graph.
+     * Sub-type relationships to the other optional types (S? is a sub-type of T?, if S is a sub-type of T) are derived by the kind.
+     */
+    markWrappedTypeAndNullTypeAsSubTypes(): void {
+        const subtype = this.kind.services.Subtype;
+        subtype.markAsSubType(this.getWrappedType(), this, { checkForCycles: false });
+        const nullType = this.kind.getNullType();
+        if (nullType) {
+            subtype.markAsSubType(nullType, this, { checkForCycles: false });
+        }
+    }
+}
+
+export function isOptionalType(type: unknown): type is OptionalType {
+    return isType(type) && isOptionalKind(type.kind);
+}
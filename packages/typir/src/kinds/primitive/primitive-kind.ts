@@ -9,14 +9,24 @@ import { InferenceRuleNotApplicable } from '../../services/inference.js';
 import { TypirServices } from '../../typir.js';
 import { assertTrue, toArray } from '../../utils/utils.js';
 import { isKind, Kind } from '../kind.js';
-import { PrimitiveType } from './primitive-type.js';
+import { isPrimitiveType, PrimitiveType } from './primitive-type.js';
 
 export interface PrimitiveKindOptions {
     // empty for now
 }
 
+/** The bounds are inclusive, missing bounds are unbounded. */
+export interface PrimitiveRange {
+    min?: number;
+    max?: number;
+}
+
 export interface PrimitiveTypeDetails extends TypeDetails {
     primitiveName: string;
+    /** the primitive type, which is refined by the new primitive type, e.g. 'integer' for 'int[0..255]'. Refined primitive types are implicitly convertible to their base type. */
+    baseType?: PrimitiveType;
+    /** the range of the values of the new primitive type, e.g. `{ min: 0, max: 255 }`, requires a base type */
+    range?: PrimitiveRange;
     /** In case of multiple inference rules, later rules are not evaluated anymore, if an earlier rule already matched. */
     inferenceRules?: InferPrimitiveType | InferPrimitiveType[];
 }
@@ -55,16 +65,67 @@ export class PrimitiveKind implements Kind, PrimitiveFactoryService {
 
     create(typeDetails: PrimitiveTypeDetails): PrimitiveType {
         assertTrue(this.get(typeDetails) === undefined);
+        if (typeDetails.range) {
+            if (typeDetails.baseType === undefined) {
+                throw new Error(`The primitive type '${typeDetails.primitiveName}' with a range requires a base type.`);
+            }
+            if (typeDetails.range.min !== undefined && typeDetails.range.max !== undefined && typeDetails.range.min > typeDetails.range.max) {
+                throw new Error(`The range ${this.printRange(typeDetails.range)} of the primitive type '${typeDetails.primitiveName}' is invalid.`);
+            }
+        }
+        if (typeDetails.baseType) {
+            const range = typeDetails.range ?? {};
+            // the range needs to be within the range of the base type, if the base type is a refined primitive type itself
+            const baseRange = typeDetails.baseType.getRange();
+            if (baseRange && this.isRangeIncluded(range, baseRange) === false) {
+                throw new Error(`The range ${this.printRange(range)} of the primitive type '${typeDetails.primitiveName}' is not within the range ${this.printRange(baseRange)} of its base type '${typeDetails.baseType.getName()}'.`);
+            }
+            // refined primitive types with equal ranges and the same base type would be sub-types of each other
+            const duplicate = this.getRefinements(typeDetails.baseType).find(other => this.isRangeIncluded(range, other.getRange()) && this.isRangeIncluded(other.getRange(), range));
+            if (duplicate) {
+                throw new Error(`The primitive type '${typeDetails.primitiveName}' has the same range ${this.printRange(range)} and base type as the primitive type '${duplicate.getName()}'.`);
+            }
+        }
 
         // create the primitive type
         const primitiveType = new PrimitiveType(this, this.calculateIdentifier(typeDetails), typeDetails);
         this.services.infrastructure.Graph.addNode(primitiveType);
 
         this.registerInferenceRules(typeDetails, primitiveType);
+        if (typeDetails.baseType) {
+            this.registerRefinement(primitiveType, typeDetails.baseType);
+        }
 
         return primitiveType;
     }
 
+    /**
+     * Establishes the relationships of a refined primitive type:
+     * It is implicitly convertible to its base type, and narrower ranges are sub-types of wider ranges of the same base type, e.g. 'int[0..100]' is a sub-type of 'int[0..255]'.
+     * Since refined primitive types with equal ranges and the same base type are rejected, there are no cycles of sub-type relationships.
+     * @param refinedType the new refined primitive type
+     * @param baseType the base type of the refined primitive type
+     */
+    protected registerRefinement(refinedType: PrimitiveType, baseType: PrimitiveType): void {
+        this.services.Conversion.markAsConvertible(refinedType, baseType, 'IMPLICIT_EXPLICIT');
+        for (const other of this.getRefinements(baseType)) {
+            if (other === refinedType) {
+                continue;
+            }
+            if (this.isRangeIncluded(refinedType.getRange(), other.getRange())) {
+                this.services.Subtype.markAsSubType(refinedType, other);
+            } else if (this.isRangeIncluded(other.getRange(), refinedType.getRange())) {
+                this.services.Subtype.markAsSubType(other, refinedType);
+            }
+        }
+    }
+
+    /** Returns all existing primitive types, which directly refine the given base type. */
+    protected getRefinements(baseType: PrimitiveType): PrimitiveType[] {
+        return this.services.infrastructure.Graph.getAllRegisteredTypes()
+            .filter((type): type is PrimitiveType => isPrimitiveType(type) && type.getBaseType() === baseType);
+    }
+
     /** Register all inference rules for primitives within a single generic inference rule (in order to keep the number of "global" inference rules small). */
     protected registerInferenceRules(typeDetails: PrimitiveTypeDetails, primitiveType: PrimitiveType) {
         const rules = toArray(typeDetails.inferenceRules);
@@ -83,6 +144,24 @@ export class PrimitiveKind implements Kind, PrimitiveFactoryService {
     calculateIdentifier(typeDetails: PrimitiveTypeDetails): string {
         return typeDetails.primitiveName;
     }
+
+    /**
+     * Checks, whether the inner range is completely included in the outer range.
+     * @param inner the inner range, undefined means unbounded
+     * @param outer the outer range, undefined means unbounded
+     * @returns true, if all values of the inner range are values of the outer range
+     */
+    isRangeIncluded(inner: PrimitiveRange | undefined, outer: PrimitiveRange | undefined): boolean {
+        return (inner?.min ?? -Infinity) >= (outer?.min ?? -Infinity) && (inner?.max ?? Infinity) <= (outer?.max ?? Infinity);
+    }
+
+    isValueInRange(value: number, range: PrimitiveRange | undefined): boolean {
+        return value >= (range?.min ?? -Infinity) && value <= (range?.max ?? Infinity);
+    }
+
+    printRange(range: PrimitiveRange): string {
+        return `[${range.min ?? '*'}..${range.max ?? '*'}]`;
+    }
 }
 
 export function isPrimitiveKind(kind: unknown): kind is PrimitiveKind {
@@ -8,17 +8,31 @@ import { isType, Type } from '../../graph/type-node.js';
 import { TypeEqualityProblem } from '../../services/equality.js';
 import { TypirProblem } from '../../utils/utils-definitions.js';
 import { checkValueForConflict, createKindConflict } from '../../utils/utils-type-comparison.js';
-import { isPrimitiveKind, PrimitiveKind, PrimitiveTypeDetails } from './primitive-kind.js';
+import { isPrimitiveKind, PrimitiveKind, PrimitiveRange, PrimitiveTypeDetails } from './primitive-kind.js';
 
 export class PrimitiveType extends Type {
     override readonly kind: PrimitiveKind;
+    protected readonly baseType: PrimitiveType | undefined;
+    protected readonly range: PrimitiveRange | undefined;
 
     constructor(kind: PrimitiveKind, identifier: string, typeDetails: PrimitiveTypeDetails) {
         super(identifier, typeDetails);
         this.kind = kind;
+        this.baseType = typeDetails.baseType;
+        this.range = typeDetails.range;
         this.defineTheInitializationProcessOfThisType({}); // no preconditions
     }
 
+    /** Returns the refined primitive type or undefined, if this primitive type refines no other primitive type. */
+    getBaseType(): PrimitiveType | undefined {
+        return this.baseType;
+    }
+
+    /** Returns the range of the values of this primitive type or undefined, if the values are not restricted. */
+    getRange(): PrimitiveRange | undefined {
+        return this.range;
+    }
+
     override getName(): string {
         return this.getIdentifier();
     }
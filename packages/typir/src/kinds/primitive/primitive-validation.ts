@@ -0,0 +1,45 @@
+/******************************************************************************
+ * Copyright 2025 TypeFox GmbH
+ * This program and the accompanying materials are made available under the
+ * terms of the MIT License, which is available in the project root.
+ ******************************************************************************/
+
+import { isType } from '../../graph/type-node.js';
+import { ValidationProblem, ValidationRule } from '../../services/validation.js';
+import { TypirServices } from '../../typir.js';
+import { isPrimitiveType } from './primitive-type.js';
+
+/**
+ * Predefined validation to produce errors for constant values, which are out of the range of the expected primitive type,
+ * e.g. `300` is out of the range of `int[0..255]`.
+ * @param isRelevant helps to filter out the language nodes, which provide a constant value for an expected type, e.g. assignments of literals to variables
+ * @param getValue determines the constant value, e.g. the value of a literal, undefined indicates, that the value is not constant
+ * @param getExpectedType determines the expected type (or the language node to infer the expected type), e.g. the declared type of the variable
+ * @returns a validation rule which checks, whether constant values are within the range of the expected primitive type
+ */
+export function createPrimitiveRangeValidation<T>(
+    isRelevant: (languageNode: unknown) => languageNode is T,
+    getValue: (languageNode: T) => number | undefined,
+    getExpectedType: (languageNode: T) => unknown,
+): ValidationRule {
+    return (languageNode: unknown, typir: TypirServices) => {
+        const result: ValidationProblem[] = [];
+        if (isRelevant(languageNode)) { // improves performance, since type inference need to be done only for relevant language nodes
+            const value = getValue(languageNode);
+            const expected = getExpectedType(languageNode);
+            const expectedType = isType(expected) ? expected : typir.Inference.inferType(expected);
+            if (value !== undefined && isPrimitiveType(expectedType)) {
+                const range = expectedType.getRange();
+                if (range && expectedType.kind.isValueInRange(value, range) === false) {
+                    result.push({
+                        $problem: ValidationProblem,
+                        languageNode: languageNode,
+                        severity: 'error',
+                        message: `The value ${value} is out of the range ${expectedType.kind.printRange(range)} of the type '${expectedType.getName()}'.`,
+                    });
+                }
+            }
+        }
+        return result;
+    };
+}
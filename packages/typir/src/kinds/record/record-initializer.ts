@@ -0,0 +1,135 @@
+/******************************************************************************
+ * Copyright 2025 TypeFox GmbH
+ * This program and the accompanying materials are made available under the
+ * terms of the MIT License, which is available in the project root.
+ ******************************************************************************/
+
+import { Type, TypeStateListener } from '../../graph/type-node.js';
+import { TypeInitializer } from '../../initialization/type-initializer.js';
+import { InferenceProblem, InferenceRuleNotApplicable, TypeInferenceRule } from '../../services/inference.js';
+import { TypirServices } from '../../typir.js';
+import { assertType } from '../../utils/utils.js';
+import { CreateRecordTypeDetails, InferRecordLiteral, RecordKind } from './record-kind.js';
+import { isRecordType, RecordType } from './record-type.js';
+
+export class RecordTypeInitializer<T = unknown> extends TypeInitializer<RecordType> implements TypeStateListener {
+    protected readonly typeDetails: CreateRecordTypeDetails<T>;
+    protected readonly kind: RecordKind;
+    protected inferenceRules: TypeInferenceRule[];
+    protected initialRecordType: RecordType;
+
+    constructor(services: TypirServices, kind: RecordKind, typeDetails: CreateRecordTypeDetails<T>) {
+        super(services);
+        this.typeDetails = typeDetails;
+        this.kind = kind;
+
+        // create the record type
+        this.initialRecordType = new RecordType(kind, typeDetails);
+
+        this.inferenceRules = this.createInferenceRules(this.typeDetails, this.initialRecordType);
+        // register all the inference rules already now to enable early type inference for this Record type
+        this.inferenceRules.forEach(rule => services.Inference.addInferenceRule(rule, undefined)); // 'undefined', since the Identifier is still missing
+
+        this.initialRecordType.addListener(this, true); // trigger directly, if some initialization states are already reached!
+    }
+
+    onSwitchedToIdentifiable(recordType: Type): void {
+        assertType(recordType, isRecordType);
+        const readyRecordType = this.producedType(recordType);
+
+        // remove the inference rules for the not yet identifiable type
+        this.inferenceRules.forEach(rule => this.services.Inference.removeInferenceRule(rule, undefined));
+        if (readyRecordType !== recordType) {
+            // the same record type was already created earlier => skip the new record type
+            recordType.removeListener(this);
+            // but re-create the inference rules for the existing type!
+            this.inferenceRules = this.createInferenceRules(this.typeDetails, readyRecordType);
+        }
+        this.inferenceRules.forEach(rule => this.services.Inference.addInferenceRule(rule, readyRecordType));
+    }
+
+    onSwitchedToCompleted(recordType: Type): void {
+        // the work of this initializer is done now
+        recordType.removeListener(this);
+    }
+
+    onSwitchedToInvalid(_recordType: Type): void {
+        // nothing specific needs to be done for Records here, since the base implementation takes already care about all relevant stuff
+    }
+
+    override getTypeInitial(): RecordType {
+        return this.initialRecordType;
+    }
+
+    protected createInferenceRules(typeDetails: CreateRecordTypeDetails<T>, recordType: RecordType): TypeInferenceRule[] {
+        const result: TypeInferenceRule[] = [];
+        if (typeDetails.inferenceRuleForDeclaration) {
+            result.push((languageNode, _typir) => {
+                if (typeDetails.inferenceRuleForDeclaration!(languageNode)) {
+                    return recordType;
+                } else {
+                    return InferenceRuleNotApplicable;
+                }
+            });
+        }
+        if (typeDetails.inferenceRuleForLiteral) {
+            result.push(this.createInferenceRuleForLiteral(typeDetails.inferenceRuleForLiteral, recordType));
+        }
+        if (typeDetails.inferenceRuleForPropertyAccess) {
+            result.push((languageNode, _typir) => {
+                const result = typeDetails.inferenceRuleForPropertyAccess!(languageNode);
+                if (result === InferenceRuleNotApplicable) {
+                    return InferenceRuleNotApplicable;
+                } else if (typeof result === 'string') {
+                    // get the type of the property with the given name
+                    const propertyType = recordType.getPropertyType(result);
+                    if (propertyType) {
+                        return propertyType;
+                    }
+                    return <InferenceProblem>{
+                        $problem: InferenceProblem,
+                        languageNode: languageNode,
+                        inferenceCandidate: recordType,
+                        location: `unknown property '${result}'`,
+                        subProblems: [],
+                    };
+                } else {
+                    return result; // do the type inference for this language node instead
+                }
+            });
+        }
+        return result;
+    }
+
+    protected createInferenceRuleForLiteral(rule: InferRecordLiteral<T>, recordType: RecordType): TypeInferenceRule {
+        return {
+            inferTypeWithoutChildren(languageNode, _typir) {
+                if (rule.filter(languageNode) && rule.matching(languageNode)) {
+                    // the types of the given values need to be inferred, even if there are no values, since the required properties need values
+                    return [...rule.inputValuesForProperties(languageNode).values()];
+                }
+                // does not match at all
+                return InferenceRuleNotApplicable;
+            },
+            inferTypeWithChildrensTypes(languageNode, childrenTypes, _typir) {
+                // the names of the properties are in the same order as the values for the properties
+                const names = [...rule.inputValuesForProperties(languageNode as T).keys()];
+                const valueTypes = new Map<string, Type>(names.map((name, index) => [name, childrenTypes[index]!]));
+                const checkedPropertiesProblems = recordType.analyzePropertyValuesProblems(valueTypes);
+                if (checkedPropertiesProblems.length >= 1) {
+                    return <InferenceProblem>{
+                        $problem: InferenceProblem,
+                        languageNode: languageNode,
+                        inferenceCandidate: recordType,
+                        location: 'values for properties',
+                        rule: this,
+                        subProblems: checkedPropertiesProblems,
+                    };
+                } else {
+                    return recordType;
+                }
+            },
+        };
+    }
+
+}
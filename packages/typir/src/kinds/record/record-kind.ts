@@ -0,0 +1,133 @@
+/******************************************************************************
+ * Copyright 2025 TypeFox GmbH
+ * This program and the accompanying materials are made available under the
+ * terms of the MIT License, which is available in the project root.
+ ******************************************************************************/
+
+import { Type, TypeDetails } from '../../graph/type-node.js';
+import { TypeInitializer } from '../../initialization/type-initializer.js';
+import { TypeReference } from '../../initialization/type-reference.js';
+import { TypeSelector } from '../../initialization/type-selector.js';
+import { InferenceRuleNotApplicable } from '../../services/inference.js';
+import { TypirServices } from '../../typir.js';
+import { TypirProblem } from '../../utils/utils-definitions.js';
+import { createTypeCheckStrategy, TypeCheckStrategy } from '../../utils/utils-type-comparison.js';
+import { DerivedSubTypes } from '../derived-subtypes.js';
+import { isKind, Kind } from '../kind.js';
+import { RecordTypeInitializer } from './record-initializer.js';
+import { isRecordType, RecordType } from './record-type.js';
+
+export interface RecordKindOptions {
+    /** Used to compare the types of properties for sub-type relationships (depth sub-typing) and for literals (properties whose types are equal are always fine). */
+    subtypePropertyChecking: TypeCheckStrategy,
+    /** Will be used only internally as prefix for the unique identifiers for record type names. */
+    identifierPrefix: string,
+}
+
+export interface CreateRecordPropertyDetails {
+    name: string;
+    type: TypeSelector;
+    /** Optional properties might be missing in values and in sub-types, e.g. `{ x: number, y?: number }` */
+    optional?: boolean;
+}
+
+export interface RecordTypeDetails extends TypeDetails {
+    /** The properties of the record, their order does not matter. */
+    properties: CreateRecordPropertyDetails[],
+}
+
+export interface CreateRecordTypeDetails<T = unknown> extends RecordTypeDetails {
+    inferenceRuleForDeclaration?: (languageNode: unknown) => boolean,
+    inferenceRuleForLiteral?: InferRecordLiteral<T>,
+    inferenceRuleForPropertyAccess?: (languageNode: unknown) => string | unknown | InferenceRuleNotApplicable, // name of the property | language node to infer the type of the property (e.g. the type) | rule not applicable
+}
+
+export type InferRecordLiteral<T = unknown> = {
+    filter: (languageNode: unknown) => languageNode is T;
+    matching: (languageNode: T) => boolean;
+    inputValuesForProperties: (languageNode: T) => Map<string, unknown>; // name of the property => value for this property
+};
+
+export const RecordKindName = 'RecordKind';
+
+export interface RecordFactoryService {
+    create<T>(typeDetails: CreateRecordTypeDetails<T>): TypeInitializer<RecordType>;
+    get(typeDetails: RecordTypeDetails): TypeReference<RecordType>;
+    calculateIdentifier(typeDetails: RecordTypeDetails): string;
+}
+
+/**
+ * Records are anonymous structural object types with named properties, e.g. `{ x: number, y?: string }`.
+ * In contrast to structurally typed classes, records have no name, no methods and no super types,
+ * i.e. records with the same properties are the same type, independent from the order of their properties.
+ * Records support width sub-typing (sub records might have additional properties)
+ * and depth sub-typing (the types of the properties of sub records might be sub-types of the types of the properties of the super record).
+ */
+export class RecordKind implements Kind, RecordFactoryService {
+    readonly $name: 'RecordKind';
+    readonly services: TypirServices;
+    readonly options: Readonly<RecordKindOptions>;
+    readonly derivedSubTypes: DerivedSubTypes<RecordType>;
+
+    constructor(services: TypirServices, options?: Partial<RecordKindOptions>) {
+        this.$name = RecordKindName;
+        this.services = services;
+        this.services.infrastructure.Kinds.register(this);
+        this.options = this.collectOptions(options);
+        // the sub-type relationships between record types are derived from the relationships between the types of their properties
+        this.derivedSubTypes = new DerivedSubTypes(services, {
+            isDerivedType: isRecordType,
+            getDependencies: record => record.getPropertyNames().map(name => record.getPropertyType(name)!),
+            // records with optional properties only are super types of records with other properties as well
+            needsCheckAgainstAllTypes: record => record.getPropertyNames().every(name => record.isOptionalProperty(name)),
+            isSubType: (subType, superType) => isRecordType(subType) && isRecordType(superType) && subType.analyzeSubTypeProblems(subType, superType).length <= 0,
+        });
+    }
+
+    protected collectOptions(options?: Partial<RecordKindOptions>): RecordKindOptions {
+        return {
+            // the default values:
+            subtypePropertyChecking: 'SUB_TYPE',
+            identifierPrefix: 'record',
+            // the actually overriden values:
+            ...options
+        };
+    }
+
+    get(typeDetails: RecordTypeDetails): TypeReference<RecordType> {
+        return new TypeReference(() => this.calculateIdentifier(typeDetails), this.services);
+    }
+
+    create<T>(typeDetails: CreateRecordTypeDetails<T>): TypeInitializer<RecordType> {
+        return new RecordTypeInitializer(this.services, this, typeDetails);
+    }
+
+    /**
+     * Compares the type of a property with the expected type of a property, e.g. for sub-type relationships and for literals.
+     * Equal types are always fine, otherwise the configured strategy is used.
+     * @param actual the actual type of the property, e.g. in the sub record
+     * @param expected the expected type of the property, e.g. in the super record
+     * @returns undefined, if the actual type fits to the expected type, otherwise the found problem
+     */
+    analyzePropertyTypeProblem(actual: Type, expected: Type): TypirProblem | undefined {
+        if (this.services.Equality.areTypesEqual(actual, expected)) {
+            return undefined;
+        }
+        return createTypeCheckStrategy(this.options.subtypePropertyChecking, this.services)(actual, expected);
+    }
+
+    calculateIdentifier(typeDetails: RecordTypeDetails): string {
+        const prefix = this.options.identifierPrefix ? this.options.identifierPrefix + '-' : '';
+        const resolver = this.services.infrastructure.TypeResolver;
+        // the properties are sorted by their names, since their order does not matter
+        const properties = [...typeDetails.properties]
+            .sort((p1, p2) => p1.name < p2.name ? -1 : p1.name > p2.name ? 1 : 0)
+            .map(property => `${property.name}${property.optional ? '?' : ''}:${resolver.resolve(property.type).getIdentifier()}`);
+        return `${prefix}{${properties.join(',')}}`;
+    }
+
+}
+
+export function isRecordKind(kind: unknown): kind is RecordKind {
+    return isKind(kind) && kind.$name === RecordKindName;
+}
@@ -0,0 +1,246 @@
+/******************************************************************************
+ * Copyright 2025 TypeFox GmbH
+ * This program and the accompanying materials are made available under the
+ * terms of the MIT License, which is available in the project root.
+ ******************************************************************************/
+
+import { isType, Type } from '../../graph/type-node.js';
+import { TypeReference } from '../../initialization/type-reference.js';
+import { TypeEqualityProblem } from '../../services/equality.js';
+import { TypirProblem } from '../../utils/utils-definitions.js';
+import { checkValueForConflict, createKindConflict, IndexedTypeConflict } from '../../utils/utils-type-comparison.js';
+import { isRecordKind, RecordKind, RecordTypeDetails } from './record-kind.js';
+
+export interface RecordPropertyDetails {
+    name: string;
+    type: TypeReference;
+    optional: boolean;
+}
+
+export class RecordType extends Type {
+    override readonly kind: RecordKind;
+    protected readonly properties: Map<string, RecordPropertyDetails> = new Map(); // sorted by the names of the properties
+
+    constructor(kind: RecordKind, typeDetails: RecordTypeDetails) {
+        super(undefined, typeDetails);
+        this.kind = kind;
+
+        // resolve the properties
+        [...typeDetails.properties]
+            .sort((p1, p2) => p1.name < p2.name ? -1 : p1.name > p2.name ? 1 : 0)
+            .forEach(property => {
+                if (this.properties.has(property.name)) {
+                    throw new Error(`The property name '${property.name}' is not unique for the record.`);
+                }
+                this.properties.set(property.name, {
+                    name: property.name,
+                    type: new TypeReference(property.type, kind.services),
+                    optional: property.optional ?? false,
+                });
+            });
+
+        // define to wait for the types of the properties
+        const allPropertyRefs = [...this.properties.values()].map(property => property.type);
+        this.defineTheInitializationProcessOfThisType({
+            preconditionsForIdentifiable: {
+                referencesToBeIdentifiable: allPropertyRefs,
+            },
+            referencesRelevantForInvalidation: allPropertyRefs,
+            onIdentifiable: () => {
+                // the identifier is calculated now
+                this.identifier = this.kind.calculateIdentifier(typeDetails);
+                // the registration of the type in the type graph is done by the TypeInitializer
+            },
+            onCompleted: () => {
+                // duplicated types are not registered in the type graph, i.e. they are not considered for sub-type relationships
+                this.kind.derivedSubTypes.register(this);
+            },
+            onInvalidated: () => {
+                this.kind.derivedSubTypes.unregister(this);
+            },
+        });
+    }
+
+    override getName(): string {
+        const properties = [...this.properties.keys()].map(name => `${name}${this.isOptionalProperty(name) ? '?' : ''}: ${this.getPropertyType(name)!.getName()}`);
+        return properties.length <= 0 ? '{}' : `{ ${properties.join(', ')} }`;
+    }
+
+    override getUserRepresentation(): string {
+        const properties = [...this.properties.keys()].map(name => `${name}${this.isOptionalProperty(name) ? '?' : ''}: ${this.getPropertyType(name)!.getUserRepresentation()}`);
+        return properties.length <= 0 ? '{}' : `{ ${properties.join(', ')} }`;
+    }
+
+    override analyzeTypeEqualityProblems(otherType: Type): TypirProblem[] {
+        if (isRecordType(otherType)) {
+            const conflicts: TypirProblem[] = [];
+            const names = new Set([...this.getPropertyNames(), ...otherType.getPropertyNames()]);
+            for (const name of names) {
+                const thisType = this.getPropertyType(name);
+                const otherPropertyType = otherType.getPropertyType(name);
+                if (thisType === undefined || otherPropertyType === undefined) {
+                    conflicts.push(<IndexedTypeConflict>{
+                        $problem: IndexedTypeConflict,
+                        expected: thisType,
+                        actual: otherPropertyType,
+                        propertyName: name,
+                        subProblems: [],
+                    });
+                } else {
+                    const subProblems: TypirProblem[] = checkValueForConflict(this.isOptionalProperty(name), otherType.isOptionalProperty(name), 'optional');
+                    const typeProblem = this.kind.services.Equality.getTypeEqualityProblem(thisType, otherPropertyType);
+                    if (typeProblem) {
+                        subProblems.push(typeProblem);
+                    }
+                    if (subProblems.length >= 1) {
+                        conflicts.push(<IndexedTypeConflict>{
+                            $problem: IndexedTypeConflict,
+                            expected: thisType,
+                            actual: otherPropertyType,
+                            propertyName: name,
+                            subProblems,
+                        });
+                    }
+                }
+            }
+            return conflicts;
+        } else {
+            return [<TypeEqualityProblem>{
+                $problem: TypeEqualityProblem,
+                type1: this,
+                type2: otherType,
+                subProblems: [createKindConflict(otherType, this)],
+            }];
+        }
+    }
+
+    /**
+     * Analyzes, whether the given sub record is a sub-type of the given super record:
+     * The sub record needs to have all required properties of the super record as required properties (width sub-typing),
+     * optional properties of the super record might be missing, optional or required in the sub record.
+     * The types of the properties of the sub record need to be sub-types (which can be configured) of the types of the properties of the super record (depth sub-typing).
+     * @param subType the sub record
+     * @param superType the super record
+     * @returns an empty array, if the sub-type relationship exists, otherwise the found conflicts
+     */
+    analyzeSubTypeProblems(subType: RecordType, superType: RecordType): TypirProblem[] {
+        const conflicts: TypirProblem[] = [];
+        for (const name of superType.getPropertyNames()) {
+            const superPropertyType = superType.getPropertyType(name)!;
+            const subPropertyType = subType.getPropertyType(name);
+            if (subPropertyType === undefined) {
+                if (superType.isOptionalProperty(name) === false) {
+                    // missing required property
+                    conflicts.push(<IndexedTypeConflict>{
+                        $problem: IndexedTypeConflict,
+                        expected: superPropertyType,
+                        actual: undefined,
+                        propertyName: name,
+                        subProblems: [],
+                    });
+                }
+            } else {
+                const subProblems: TypirProblem[] = superType.isOptionalProperty(name) === false && subType.isOptionalProperty(name)
+                    ? checkValueForConflict(false, true, 'optional') // required properties cannot be optional in the sub record
+                    : [];
+                const typeProblem = this.kind.analyzePropertyTypeProblem(subPropertyType, superPropertyType);
+                if (typeProblem) {
+                    subProblems.push(typeProblem);
+                }
+                if (subProblems.length >= 1) {
+                    conflicts.push(<IndexedTypeConflict>{
+                        $problem: IndexedTypeConflict,
+                        expected: superPropertyType,
+                        actual: subPropertyType,
+                        propertyName: name,
+                        subProblems,
+                    });
+                }
+            }
+        }
+        // Note that it is not necessary to check, whether the sub record has more properties than the super record!
+        return conflicts;
+    }
+
+    /**
+     * Analyzes, whether the given values fit to the properties of this record, e.g. for record literals:
+     * All required properties need values, optional properties might have values, additional properties are not allowed.
+     * @param valueTypes the names of the properties with the types of their values
+     * @returns an empty array, if the values fit, otherwise the found conflicts
+     */
+    analyzePropertyValuesProblems(valueTypes: Map<string, Type>): IndexedTypeConflict[] {
+        const conflicts: IndexedTypeConflict[] = [];
+        for (const name of this.getPropertyNames()) {
+            const expectedType = this.getPropertyType(name)!;
+            const actualType = valueTypes.get(name);
+            if (actualType === undefined) {
+                if (this.isOptionalProperty(name) === false) {
+                    conflicts.push({
+                        $problem: IndexedTypeConflict,
+                        expected: expectedType,
+                        actual: undefined,
+                        propertyName: name,
+                        subProblems: [],
+                    });
+                }
+            } else {
+                const typeProblem = this.kind.analyzePropertyTypeProblem(actualType, expectedType);
+                if (typeProblem) {
+                    conflicts.push({
+                        $problem: IndexedTypeConflict,
+                        expected: expectedType,
+                        actual: actualType,
+                        propertyName: name,
+                        subProblems: [typeProblem],
+                    });
+                }
+            }
+        }
+        for (const [name, actualType] of valueTypes) {
+            if (this.properties.has(name) === false) {
+                // unknown property
+                conflicts.push({
+                    $problem: IndexedTypeConflict,
+                    expected: undefined,
+                    actual: actualType,
+                    propertyName: name,
+                    subProblems: [],
+                });
+            }
+        }
+        return conflicts;
+    }
+
+    /** Returns the names of all properties, sorted by their names. */
+    getPropertyNames(): string[] {
+        return [...this.properties.keys()];
+    }
+
+    /**
+     * Returns the type of the property with the given name.
+     * @param name the name of the property
+     * @returns the type of the property or undefined, if there is no property with this name
+     */
+    getPropertyType(name: string): Type | undefined {
+        const property = this.properties.get(name);
+        if (property) {
+            const type = property.type.getType();
+            if (type) {
+                return type;
+            } else {
+                throw new Error(`The type of the property '${name}' is not resolved.`);
+            }
+        } else {
+            return undefined;
+        }
+    }
+
+    isOptionalProperty(name: string): boolean {
+        return this.properties.get(name)?.optional ?? false;
+    }
+
+}
+
+export function isRecordType(type: unknown): type is RecordType {
+    return isType(type) && isRecordKind(type.kind);
+}
@@ -0,0 +1,138 @@
+/******************************************************************************
+ * Copyright 2025 TypeFox GmbH
+ * This program and the accompanying materials are made available under the
+ * terms of the MIT License, which is available in the project root.
+ ******************************************************************************/
+
+import { Type, TypeStateListener } from '../../graph/type-node.js';
+import { TypeInitializer } from '../../initialization/type-initializer.js';
+import { InferenceProblem, InferenceRuleNotApplicable, TypeInferenceRule } from '../../services/inference.js';
+import { TypirServices } from '../../typir.js';
+import { checkTypeArrays } from '../../utils/utils-type-comparison.js';
+import { assertType } from '../../utils/utils.js';
+import { CreateTupleTypeDetails, InferTupleLiteral, TupleKind } from './tuple-kind.js';
+import { isTupleType, TupleType } from './tuple-type.js';
+
+export class TupleTypeInitializer<T = unknown> extends TypeInitializer<TupleType> implements TypeStateListener {
+    protected readonly typeDetails: CreateTupleTypeDetails<T>;
+    protected readonly kind: TupleKind;
+    protected inferenceRules: TypeInferenceRule[];
+    protected initialTupleType: TupleType;
+
+    constructor(services: TypirServices, kind: TupleKind, typeDetails: CreateTupleTypeDetails<T>) {
+        super(services);
+        this.typeDetails = typeDetails;
+        this.kind = kind;
+
+        // create the tuple type
+        this.initialTupleType = new TupleType(kind, typeDetails);
+
+        this.inferenceRules = this.createInferenceRules(this.typeDetails, this.initialTupleType);
+        // register all the inference rules already now to enable early type inference for this Tuple type
+        this.inferenceRules.forEach(rule => services.Inference.addInferenceRule(rule, undefined)); // 'undefined', since the Identifier is still missing
+
+        this.initialTupleType.addListener(this, true); // trigger directly, if some initialization states are already reached!
+    }
+
+    onSwitchedToIdentifiable(tupleType: Type): void {
+        assertType(tupleType, isTupleType);
+        const readyTupleType = this.producedType(tupleType);
+
+        // remove the inference rules for the not yet identifiable type
+        this.inferenceRules.forEach(rule => this.services.Inference.removeInferenceRule(rule, undefined));
+        if (readyTupleType !== tupleType) {
+            // the same tuple type was already created earlier => skip the new tuple type
+            tupleType.removeListener(this);
+            // but re-create the inference rules for the existing type!
+            this.inferenceRules = this.createInferenceRules(this.typeDetails, readyTupleType);
+        }
+        this.inferenceRules.forEach(rule => this.services.Inference.addInferenceRule(rule, readyTupleType));
+    }
+
+    onSwitchedToCompleted(tupleType: Type): void {
+        // the work of this initializer is done now
+        tupleType.removeListener(this);
+    }
+
+    onSwitchedToInvalid(_tupleType: Type): void {
+        // nothing specific needs to be done for Tuples here, since the base implementation takes already care about all relevant stuff
+    }
+
+    override getTypeInitial(): TupleType {
+        return this.initialTupleType;
+    }
+
+    protected createInferenceRules(typeDetails: CreateTupleTypeDetails<T>, tupleType: TupleType): TypeInferenceRule[] {
+        const result: TypeInferenceRule[] = [];
+        if (typeDetails.inferenceRuleForDeclaration) {
+            result.push((languageNode, _typir) => {
+                if (typeDetails.inferenceRuleForDeclaration!(languageNode)) {
+                    return tupleType;
+                } else {
+                    return InferenceRuleNotApplicable;
+                }
+            });
+        }
+        if (typeDetails.inferenceRuleForLiteral) {
+            result.push(this.createInferenceRuleForLiteral(typeDetails.inferenceRuleForLiteral, tupleType));
+        }
+        if (typeDetails.inferenceRuleForIndexedAccess) {
+            result.push((languageNode, _typir) => {
+                const result = typeDetails.inferenceRuleForIndexedAccess!(languageNode);
+                if (result === InferenceRuleNotApplicable) {
+                    return InferenceRuleNotApplicable;
+                } else if (typeof result === 'number') {
+                    // get the type of the element with the given index
+                    const elementType = tupleType.getElementType(result);
+                    if (elementType) {
+                        return elementType;
+                    }
+                    return <InferenceProblem>{
+                        $problem: InferenceProblem,
+                        languageNode: languageNode,
+                        inferenceCandidate: tupleType,
+                        location: `index ${result} is out of bounds`,
+                        subProblems: [],
+                    };
+                } else {
+                    return result; // do the type inference for this language node instead
+                }
+            });
+        }
+        return result;
+    }
+
+    protected createInferenceRuleForLiteral(rule: InferTupleLiteral<T>, tupleType: TupleType): TypeInferenceRule {
+        const kind = this.kind;
+        return {
+            inferTypeWithoutChildren(languageNode, _typir) {
+                if (rule.filter(languageNode) && rule.matching(languageNode)) {
+                    // the types of the given values need to be inferred, even if there are no values, since the number of values needs to fit to the elements
+                    return rule.inputValuesForElements(languageNode);
+                }
+                // does not match at all
+                return InferenceRuleNotApplicable;
+            },
+            inferTypeWithChildrensTypes(languageNode, childrenTypes, _typir) {
+                // the number of values needs to fit to the elements of the tuple
+                const expectedTypes = tupleType.getExpectedElementTypes(childrenTypes.length);
+                const checkedElementsProblems = Array.isArray(expectedTypes)
+                    ? checkTypeArrays(childrenTypes, expectedTypes, (actual, expected) => kind.analyzeElementTypeProblem(actual, expected), false)
+                    : [expectedTypes];
+                if (checkedElementsProblems.length >= 1) {
+                    return <InferenceProblem>{
+                        $problem: InferenceProblem,
+                        languageNode: languageNode,
+                        inferenceCandidate: tupleType,
+                        location: 'values for elements',
+                        rule: this,
+                        subProblems: checkedElementsProblems,
+                    };
+                } else {
+                    return tupleType;
+                }
+            },
+        };
+    }
+
+}
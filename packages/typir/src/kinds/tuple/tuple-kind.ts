@@ -0,0 +1,127 @@
+/******************************************************************************
+ * Copyright 2025 TypeFox GmbH
+ * This program and the accompanying materials are made available under the
+ * terms of the MIT License, which is available in the project root.
+ ******************************************************************************/
+
+import { Type, TypeDetails } from '../../graph/type-node.js';
+import { TypeInitializer } from '../../initialization/type-initializer.js';
+import { TypeReference } from '../../initialization/type-reference.js';
+import { TypeSelector } from '../../initialization/type-selector.js';
+import { InferenceRuleNotApplicable } from '../../services/inference.js';
+import { TypirServices } from '../../typir.js';
+import { TypirProblem } from '../../utils/utils-definitions.js';
+import { createTypeCheckStrategy, TypeCheckStrategy } from '../../utils/utils-type-comparison.js';
+import { DerivedSubTypes } from '../derived-subtypes.js';
+import { isKind, Kind } from '../kind.js';
+import { TupleTypeInitializer } from './tuple-initializer.js';
+import { isTupleType, TupleType } from './tuple-type.js';
+
+export interface TupleKindOptions {
+    /** Used to compare the element types of tuples for sub-type relationships (element types which are equal are always fine). */
+    subtypeElementChecking: TypeCheckStrategy,
+    /** Will be used only internally as prefix for the unique identifiers for tuple type names. */
+    identifierPrefix: string,
+}
+
+export interface TupleTypeDetails extends TypeDetails {
+    /** The types of the elements, the order of the elements matters. */
+    elementTypes: TypeSelector[],
+    /** The optional type of an arbitrary number of additional elements after the fixed elements, e.g. `[string, ...number[]]` */
+    restElementType?: TypeSelector,
+}
+
+export interface CreateTupleTypeDetails<T = unknown> extends TupleTypeDetails {
+    inferenceRuleForDeclaration?: (languageNode: unknown) => boolean,
+    inferenceRuleForLiteral?: InferTupleLiteral<T>,
+    inferenceRuleForIndexedAccess?: (languageNode: unknown) => number | unknown | InferenceRuleNotApplicable, // index of the element | language node to infer the type of the element (e.g. the type) | rule not applicable
+}
+
+export type InferTupleLiteral<T = unknown> = {
+    filter: (languageNode: unknown) => languageNode is T;
+    matching: (languageNode: T) => boolean;
+    inputValuesForElements: (languageNode: T) => unknown[]; // the values for the elements in the order of the elements, including the values for the rest element
+};
+
+export const TupleKindName = 'TupleKind';
+
+export interface TupleFactoryService {
+    create<T>(typeDetails: CreateTupleTypeDetails<T>): TypeInitializer<TupleType>;
+    get(typeDetails: TupleTypeDetails): TypeReference<TupleType>;
+    calculateIdentifier(typeDetails: TupleTypeDetails): string;
+}
+
+/**
+ * Tuples have an ordered list of elements, each element has its own type, e.g. `[string, number]`.
+ * Elements have no names, they are identified by their index.
+ * Optionally, the fixed elements might be followed by an arbitrary number of elements with the same (rest) type, e.g. `[string, ...number[]]`.
+ */
+export class TupleKind implements Kind, TupleFactoryService {
+    readonly $name: 'TupleKind';
+    readonly services: TypirServices;
+    readonly options: Readonly<TupleKindOptions>;
+    readonly derivedSubTypes: DerivedSubTypes<TupleType>;
+
+    constructor(services: TypirServices, options?: Partial<TupleKindOptions>) {
+        this.$name = TupleKindName;
+        this.services = services;
+        this.services.infrastructure.Kinds.register(this);
+        this.options = this.collectOptions(options);
+        // the sub-type relationships between tuples are derived from the relationships between their element types
+        this.derivedSubTypes = new DerivedSubTypes(services, {
+            isDerivedType: isTupleType,
+            getDependencies: tuple => {
+                const rest = tuple.getRestElementType();
+                return rest ? [...tuple.getElementTypes(), rest] : tuple.getElementTypes();
+            },
+            isSubType: (subType, superType) => isTupleType(subType) && isTupleType(superType) && subType.analyzeSubTypeProblems(subType, superType).length <= 0,
+        });
+    }
+
+    protected collectOptions(options?: Partial<TupleKindOptions>): TupleKindOptions {
+        return {
+            // the default values:
+            subtypeElementChecking: 'SUB_TYPE',
+            identifierPrefix: 'tuple',
+            // the actually overriden values:
+            ...options
+        };
+    }
+
+    get(typeDetails: TupleTypeDetails): TypeReference<TupleType> {
+        return new TypeReference(() => this.calculateIdentifier(typeDetails), this.services);
+    }
+
+    create<T>(typeDetails: CreateTupleTypeDetails<T>): TypeInitializer<TupleType> {
+        return new TupleTypeInitializer(this.services, this, typeDetails);
+    }
+
+    /**
+     * Compares the type of an element with the expected type of an element, e.g. for sub-type relationships and for literals.
+     * Equal types are always fine, otherwise the configured strategy is used.
+     * @param actual the actual type of the element, e.g. in the sub tuple
+     * @param expected the expected type of the element, e.g. in the super tuple
+     * @returns undefined, if the actual type fits to the expected type, otherwise the found problem
+     */
+    analyzeElementTypeProblem(actual: Type, expected: Type): TypirProblem | undefined {
+        if (this.services.Equality.areTypesEqual(actual, expected)) {
+            return undefined;
+        }
+        return createTypeCheckStrategy(this.options.subtypeElementChecking, this.services)(actual, expected);
+    }
+
+    calculateIdentifier(typeDetails: TupleTypeDetails): string {
+        const prefix = this.options.identifierPrefix ? this.options.identifierPrefix + '-' : '';
+        const resolver = this.services.infrastructure.TypeResolver;
+        const elements = typeDetails.elementTypes.map(selector => resolver.resolve(selector).getIdentifier());
+        if (typeDetails.restElementType !== undefined) {
+            elements.push(`...${resolver.resolve(typeDetails.restElementType).getIdentifier()}`);
+        }
+        return `${prefix}[${elements.join(',')}]`;
+    }
+
+}
+
+export function isTupleKind(kind: unknown): kind is TupleKind {
+    return isKind(kind) && kind.$name === TupleKindName;
+}
@@ -0,0 +1,194 @@
+/******************************************************************************
+ * Copyright 2025 TypeFox GmbH
+ * This program and the accompanying materials are made available under the
+ * terms of the MIT License, which is available in the project root.
+ ******************************************************************************/
+
+import { isType, Type } from '../../graph/type-node.js';
+import { TypeReference } from '../../initialization/type-reference.js';
+import { TypeEqualityProblem } from '../../services/equality.js';
+import { TypirProblem } from '../../utils/utils-definitions.js';
+import { checkTypeArrays, checkTypes, createKindConflict, IndexedTypeConflict } from '../../utils/utils-type-comparison.js';
+import { isTupleKind, TupleKind, TupleTypeDetails } from './tuple-kind.js';
+
+export class TupleType extends Type {
+    override readonly kind: TupleKind;
+    protected readonly elementTypes: TypeReference[];
+    protected readonly restElementType: TypeReference | undefined;
+
+    constructor(kind: TupleKind, typeDetails: TupleTypeDetails) {
+        super(undefined, typeDetails);
+        this.kind = kind;
+        this.elementTypes = typeDetails.elementTypes.map(element => new TypeReference(element, kind.services));
+        this.restElementType = typeDetails.restElementType !== undefined ? new TypeReference(typeDetails.restElementType, kind.services) : undefined;
+
+        // define to wait for the element types
+        const allElementRefs = [...this.elementTypes];
+        if (this.restElementType) {
+            allElementRefs.push(this.restElementType);
+        }
+        this.defineTheInitializationProcessOfThisType({
+            preconditionsForIdentifiable: {
+                referencesToBeIdentifiable: allElementRefs,
+            },
+            referencesRelevantForInvalidation: allElementRefs,
+            onIdentifiable: () => {
+                // the identifier is calculated now
+                this.identifier = this.kind.calculateIdentifier(typeDetails);
+                // the registration of the type in the type graph is done by the TypeInitializer
+            },
+            onCompleted: () => {
+                // duplicated types are not registered in the type graph, i.e. they are not considered for sub-type relationships
+                this.kind.derivedSubTypes.register(this);
+            },
+            onInvalidated: () => {
+                this.kind.derivedSubTypes.unregister(this);
+            },
+        });
+    }
+
+    override getName(): string {
+        const elements = this.getElementTypes().map(element => element.getName());
+        const rest = this.getRestElementType();
+        if (rest) {
+            elements.push(`...${rest.getName()}[]`);
+        }
+        return `[${elements.join(', ')}]`;
+    }
+
+    override getUserRepresentation(): string {
+        const elements = this.getElementTypes().map(element => element.getUserRepresentation());
+        const rest = this.getRestElementType();
+        if (rest) {
+            elements.push(`...${rest.getUserRepresentation()}[]`);
+        }
+        return `[${elements.join(', ')}]`;
+    }
+
+    override analyzeTypeEqualityProblems(otherType: Type): TypirProblem[] {
+        if (isTupleType(otherType)) {
+            const conflicts: TypirProblem[] = [];
+            const equality = (t1: Type, t2: Type) => this.kind.services.Equality.getTypeEqualityProblem(t1, t2);
+            // same fixed elements?
+            conflicts.push(...checkTypeArrays(this.getElementTypes(), otherType.getElementTypes(), equality, false));
+            // same rest element?
+            conflicts.push(...checkTypes(this.getRestElementType(), otherType.getRestElementType(), equality, false)
+                .map(conflict => ({ ...conflict, propertyName: 'rest' })));
+            return conflicts;
+        } else {
+            return [<TypeEqualityProblem>{
+                $problem: TypeEqualityProblem,
+                type1: this,
+                type2: otherType,
+                subProblems: [createKindConflict(otherType, this)],
+            }];
+        }
+    }
+
+    /**
+     * Analyzes, whether the given sub tuple is a sub-type of the given super tuple:
+     * Each element of the sub tuple needs to be a sub-type (which can be configured) of the element of the super tuple at the same index.
+     * Additional elements of the sub tuple are compared with the rest element of the super tuple.
+     * If the sub tuple has a rest element, the super tuple needs a rest element as well, but not more fixed elements than the sub tuple.
+     * @param subType the sub tuple
+     * @param superType the super tuple
+     * @returns an empty array, if the sub-type relationship exists, otherwise the found conflicts
+     */
+    analyzeSubTypeProblems(subType: TupleType, superType: TupleType): TypirProblem[] {
+        const relation = (sub: Type, superr: Type) => this.kind.analyzeElementTypeProblem(sub, superr);
+        const subElements = subType.getElementTypes();
+        const superElements = superType.getElementTypes();
+        const superRest = superType.getRestElementType();
+        // additional elements of the sub tuple are compared with the rest element of the super tuple
+        const expectedElements = [...superElements];
+        while (superRest && expectedElements.length < subElements.length) {
+            expectedElements.push(superRest);
+        }
+        const conflicts: TypirProblem[] = [];
+        conflicts.push(...checkTypeArrays(subElements, expectedElements, relation, false));
+        // rest elements
+        const subRest = subType.getRestElementType();
+        if (subRest) {
+            conflicts.push(...checkTypes(subRest, superRest, relation, false)
+                .map(conflict => ({ ...conflict, propertyName: 'rest' })));
+        }
+        return conflicts;
+    }
+
+    getElementTypes(): Type[] {
+        return this.elementTypes.map(element => {
+            const type = element.getType();
+            if (type) {
+                return type;
+            } else {
+                throw new Error('Not all element types are resolved.');
+            }
+        });
+    }
+
+    getRestElementType(): Type | undefined {
+        if (this.restElementType) {
+            const type = this.restElementType.getType();
+            if (type) {
+                return type;
+            } else {
+                throw new Error('The rest element type is not resolved.');
+            }
+        } else {
+            return undefined;
+        }
+    }
+
+    /**
+     * Returns the type of the element at the given index, the rest element type is taken into account.
+     * @param index the index of the element (starting at 0)
+     * @returns the type of the element or undefined, if there is no element at the given index
+     */
+    getElementType(index: number): Type | undefined {
+        if (index < 0 || Number.isInteger(index) === false) {
+            return undefined;
+        }
+        const elements = this.getElementTypes();
+        if (index < elements.length) {
+            return elements[index];
+        }
+        return this.getRestElementType();
+    }
+
+    /**
+     * Calculates the expected types for the given number of values for elements, the rest element type is taken into account.
+     * @param numberOfValues the number of given values for elements
+     * @returns the expected types or an conflict, if the number of values does not fit to this tuple type
+     */
+    getExpectedElementTypes(numberOfValues: number): Type[] | IndexedTypeConflict {
+        const expected = this.getElementTypes();
+        const rest = this.getRestElementType();
+        if (numberOfValues < expected.length) {
+            return {
+                $problem: IndexedTypeConflict,
+                expected: expected[numberOfValues],
+                actual: undefined,
+                propertyIndex: numberOfValues,
+                subProblems: [],
+            };
+        }
+        if (numberOfValues > expected.length && rest === undefined) {
+            return {
+                $problem: IndexedTypeConflict,
+                expected: undefined,
+                actual: undefined,
+                propertyIndex: expected.length,
+                subProblems: [],
+            };
+        }
+        while (rest && expected.length < numberOfValues) {
+            expected.push(rest);
+        }
+        return expected;
+    }
+
+}
+
+export function isTupleType(type: unknown): type is TupleType {
+    return isType(type) && isTupleKind(type.kind);
+}
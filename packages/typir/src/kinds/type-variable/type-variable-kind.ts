@@ -0,0 +1,104 @@
+/******************************************************************************
+ * Copyright 2025 TypeFox GmbH
+ * This program and the accompanying materials are made available under the
+ * terms of the MIT License, which is available in the project root.
+ ******************************************************************************/
+
+import { TypeDetails } from '../../graph/type-node.js';
+import { InferenceRuleNotApplicable } from '../../services/inference.js';
+import { TypirServices } from '../../typir.js';
+import { assertTrue, toArray } from '../../utils/utils.js';
+import { isKind, Kind } from '../kind.js';
+import { TypeVariableType } from './type-variable-type.js';
+
+export interface TypeVariableKindOptions {
+    /** Will be used only internally as prefix for the unique identifiers for type variables. */
+    identifierPrefix: string,
+}
+
+export interface TypeVariableTypeDetails extends TypeDetails {
+    variableName: string;
+    /** The name of the generic class or function which declares this type variable, e.g. `Box` for `T` in `class Box<T>`.
+     * Type variables with the same name, but different owners are different type variables. */
+    owner: string;
+    /** In case of multiple inference rules, later rules are not evaluated anymore, if an earlier rule already matched. */
+    inferenceRules?: InferTypeVariable | InferTypeVariable[];
+}
+
+export type InferTypeVariable = (languageNode: unknown) => boolean;
+
+export const TypeVariableKindName = 'TypeVariableKind';
+
+export interface TypeVariableFactoryService {
+    create(typeDetails: TypeVariableTypeDetails): TypeVariableType;
+    get(typeDetails: TypeVariableTypeDetails): TypeVariableType | undefined;
+}
+
+/**
+ * Type variables are placeholders for types, e.g. `T` in `class Box<T> { value: T }`,
+ * which are replaced by concrete types, when generic types are instantiated (e.g. `Box<number>`).
+ * Type variables are identified by their name and their owner, i.e. the generic class or function which declares them,
+ * e.g. `T` in `class Box<T>` and `T` in `class Pair<T>` are different type variables.
+ */
+export class TypeVariableKind implements Kind, TypeVariableFactoryService {
+    readonly $name: 'TypeVariableKind';
+    readonly services: TypirServices;
+    readonly options: Readonly<TypeVariableKindOptions>;
+
+    constructor(services: TypirServices, options?: Partial<TypeVariableKindOptions>) {
+        this.$name = TypeVariableKindName;
+        this.services = services;
+        this.services.infrastructure.Kinds.register(this);
+        this.options = this.collectOptions(options);
+    }
+
+    protected collectOptions(options?: Partial<TypeVariableKindOptions>): TypeVariableKindOptions {
+        return {
+            // the default values:
+            identifierPrefix: 'typevar',
+            // the actually overriden values:
+            ...options
+        };
+    }
+
+    get(typeDetails: TypeVariableTypeDetails): TypeVariableType | undefined {
+        const key = this.calculateIdentifier(typeDetails);
+        return this.services.infrastructure.Graph.getType(key) as TypeVariableType;
+    }
+
+    create(typeDetails: TypeVariableTypeDetails): TypeVariableType {
+        assertTrue(this.get(typeDetails) === undefined, `The type variable '${typeDetails.variableName}' is already declared by '${typeDetails.owner}'.`);
+
+        // create the type variable
+        const variableType = new TypeVariableType(this, this.calculateIdentifier(typeDetails), typeDetails);
+        this.services.infrastructure.Graph.addNode(variableType);
+
+        this.registerInferenceRules(typeDetails, variableType);
+
+        return variableType;
+    }
+
+    /** Register all inference rules for type variables within a single generic inference rule (in order to keep the number of "global" inference rules small). */
+    protected registerInferenceRules(typeDetails: TypeVariableTypeDetails, variableType: TypeVariableType) {
+        const rules = toArray(typeDetails.inferenceRules);
+        if (rules.length >= 1) {
+            this.services.Inference.addInferenceRule((languageNode, _typir) => {
+                for (const inferenceRule of rules) {
+                    if (inferenceRule(languageNode)) {
+                        return variableType;
+                    }
+                }
+                return InferenceRuleNotApplicable;
+            }, variableType);
+        }
+    }
+
+    calculateIdentifier(typeDetails: TypeVariableTypeDetails): string {
+        const prefix = this.options.identifierPrefix ? this.options.identifierPrefix + '-' : '';
+        return `${prefix}${typeDetails.owner}.${typeDetails.variableName}`;
+    }
+}
+
+export function isTypeVariableKind(kind: unknown): kind is TypeVariableKind {
+    return isKind(kind) && kind.$name === TypeVariableKindName;
+}
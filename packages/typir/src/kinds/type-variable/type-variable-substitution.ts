@@ -0,0 +1,187 @@
+/******************************************************************************
+ * Copyright 2025 TypeFox GmbH
+ * This program and the accompanying materials are made available under the
+ * terms of the MIT License, which is available in the project root.
+ ******************************************************************************/
+
+import { Type } from '../../graph/type-node.js';
+import { TypeSelector } from '../../initialization/type-selector.js';
+import { TypirServices } from '../../typir.js';
+import { TypirProblem } from '../../utils/utils-definitions.js';
+import { ValueConflict } from '../../utils/utils-type-comparison.js';
+import { isClassType } from '../class/class-type.js';
+import { CreateFunctionTypeDetails } from '../function/function-kind.js';
+import { FunctionType, isFunctionType } from '../function/function-type.js';
+import { isIntersectionType } from '../intersection/intersection-type.js';
+import { isTupleType } from '../tuple/tuple-type.js';
+import { isUnionType } from '../union/union-type.js';
+import { isTypeVariableType, TypeVariableType } from './type-variable-type.js';
+
+/** Maps type variables to the types which should be used instead of them. */
+export type TypeVariableSubstitutions = Map<TypeVariableType, Type>;
+
+/**
+ * Replaces all type variables in the given type by the types which are specified for them.
+ * Type variables are replaced, if they are used directly or inside of instances of generic classes, functions, unions, intersections and tuples,
+ * which are created (or reused, if they already exist) with the replaced types.
+ * Types which don't contain any of the given type variables are returned unchanged.
+ * @param type the type which might contain type variables
+ * @param substitutions the types to use instead of the type variables
+ * @param typir the current Typir instance
+ * @returns the given type, if nothing was replaced, otherwise a type selector for the type with replaced type variables
+ */
+export function substituteTypeVariables(type: Type, substitutions: TypeVariableSubstitutions, typir: TypirServices): TypeSelector {
+    if (substitutions.size <= 0) {
+        return type;
+    }
+    if (isTypeVariableType(type)) {
+        return substitutions.get(type) ?? type;
+    }
+    if (isClassType(type)) {
+        const genericClass = type.getGenericClass();
+        if (genericClass) {
+            const typeArguments = type.getTypeArguments();
+            const newTypeArguments = typeArguments.map(arg => substituteTypeVariables(arg, substitutions, typir));
+            if (isChanged(typeArguments, newTypeArguments)) {
+                return typir.factory.Classes.instantiate({ genericClass, typeArguments: newTypeArguments });
+            }
+        }
+        return type;
+    }
+    if (isFunctionType(type)) {
+        const functionDetails = substituteFunctionDetails(type, substitutions, typir);
+        const oldTypes = [type.getOutput()?.type, ...type.getInputs().map(input => input.type)];
+        const newTypes = [functionDetails.outputParameter?.type, ...functionDetails.inputParameters.map(input => input.type)];
+        return isChanged(oldTypes, newTypes) ? typir.factory.Functions.create(functionDetails) : type;
+    }
+    if (isUnionType(type)) {
+        const members = type.getMemberTypes();
+        const newMembers = members.map(member => substituteTypeVariables(member, substitutions, typir));
+        return isChanged(members, newMembers) ? typir.factory.Unions.create({ memberTypes: newMembers }) : type;
+    }
+    if (isIntersectionType(type)) {
+        const members = type.getMemberTypes();
+        const newMembers = members.map(member => substituteTypeVariables(member, substitutions, typir));
+        return isChanged(members, newMembers) ? typir.factory.Intersections.create({ memberTypes: newMembers }) : type;
+    }
+    if (isTupleType(type)) {
+        const elements = type.getElementTypes();
+        const newElements = elements.map(element => substituteTypeVariables(element, substitutions, typir));
+        const rest = type.getRestElementType();
+        const newRest = rest ? substituteTypeVariables(rest, substitutions, typir) : undefined;
+        return isChanged([...elements, rest], [...newElements, newRest]) ? typir.factory.Tuples.create({ elementTypes: newElements, restElementType: newRest }) : type;
+    }
+    // all other types don't contain type variables
+    return type;
+}
+
+/**
+ * Collects the given type variables, which are used in the given type,
+ * i.e. directly or inside of instances of generic classes, functions, unions, intersections and tuples (in the same way as `substituteTypeVariables(...)`).
+ * @param type the type which might contain type variables
+ * @param typeVariables only these type variables are collected
+ * @returns the used type variables without duplicates
+ */
+export function collectTypeVariables(type: Type, typeVariables: TypeVariableType[]): TypeVariableType[] {
+    const result: Set<TypeVariableType> = new Set();
+    const collect = (current: Type | undefined): void => {
+        if (current === undefined) {
+            // nothing to collect
+        } else if (isTypeVariableType(current)) {
+            if (typeVariables.includes(current)) {
+                result.add(current);
+            }
+        } else if (isClassType(current)) {
+            current.getTypeArguments().forEach(collect);
+        } else if (isFunctionType(current)) {
+            collect(current.getOutput()?.type);
+            current.getInputs().forEach(input => collect(input.type));
+        } else if (isUnionType(current) || isIntersectionType(current)) {
+            current.getMemberTypes().forEach(collect);
+        } else if (isTupleType(current)) {
+            current.getElementTypes().forEach(collect);
+            collect(current.getRestElementType());
+        } else {
+            // all other types don't contain type variables
+        }
+    };
+    collect(type);
+    return Array.from(result);
+}
+
+/**
+ * Calculates the details to create a function type, whose parameter types are the types of the given function type with replaced type variables.
+ * Note that inference rules are not part of the calculated details.
+ * @param functionType the function type which might contain type variables
+ * @param substitutions the types to use instead of the type variables
+ * @param typir the current Typir instance
+ * @returns the details for the function type with replaced type variables
+ */
+export function substituteFunctionDetails(functionType: FunctionType, substitutions: TypeVariableSubstitutions, typir: TypirServices): CreateFunctionTypeDetails<unknown> {
+    const output = functionType.getOutput();
+    return {
+        functionName: functionType.functionName,
+        outputParameter: output ? { name: output.name, type: substituteTypeVariables(output.type, substitutions, typir) } : undefined,
+        inputParameters: functionType.getInputs().map(input => ({ name: input.name, type: substituteTypeVariables(input.type, substitutions, typir) })),
+    };
+}
+
+/**
+ * Binds type variables to types by matching the expected type, which might contain type variables, with the actual type.
+ * This is a simple first-order matching, not a complete constraint solver:
+ * Type variables are bound to the actual types, instances of the same generic class, functions and tuples are matched element-wise,
+ * while all other types are not matched at all.
+ * @param expectedType the type which might contain type variables, e.g. the type of an input parameter of a generic function
+ * @param actualType the type which is used instead, e.g. the type of the argument of a function call
+ * @param typeVariables only these type variables are bound, all other type variables are handled like other types
+ * @param substitutions the already bound type variables, new bindings are added to this map
+ * @param typir the current Typir instance
+ * @returns the conflicts, when an already bound type variable needs to be bound to another type
+ */
+export function bindTypeVariables(expectedType: Type, actualType: Type, typeVariables: TypeVariableType[], substitutions: TypeVariableSubstitutions, typir: TypirServices): TypirProblem[] {
+    if (isTypeVariableType(expectedType) && typeVariables.includes(expectedType)) {
+        const boundType = substitutions.get(expectedType);
+        if (boundType === undefined) {
+            substitutions.set(expectedType, actualType);
+            return [];
+        } else if (typir.Equality.areTypesEqual(boundType, actualType)) {
+            return [];
+        } else {
+            return [<ValueConflict>{
+                $problem: ValueConflict,
+                firstValue: typir.Printer.printTypeName(boundType),
+                secondValue: typir.Printer.printTypeName(actualType),
+                location: `type variable '${expectedType.getName()}'`,
+            }];
+        }
+    }
+    const bindAll = (expectedTypes: Array<Type | undefined>, actualTypes: Array<Type | undefined>) => expectedTypes
+        .flatMap((expected, index) => {
+            const actual = actualTypes[index];
+            return expected && actual ? bindTypeVariables(expected, actual, typeVariables, substitutions, typir) : [];
+        });
+    if (isClassType(expectedType) && isClassType(actualType)) {
+        const genericClass = expectedType.getGenericClass();
+        if (genericClass && genericClass === actualType.getGenericClass()) {
+            return bindAll(expectedType.getTypeArguments(), actualType.getTypeArguments());
+        }
+    } else if (isFunctionType(expectedType) && isFunctionType(actualType)) {
+        const expectedInputs = expectedType.getInputs();
+        const actualInputs = actualType.getInputs();
+        if (expectedInputs.length === actualInputs.length) {
+            return bindAll([...expectedInputs.map(input => input.type), expectedType.getOutput()?.type],
+                [...actualInputs.map(input => input.type), actualType.getOutput()?.type]);
+        }
+    } else if (isTupleType(expectedType) && isTupleType(actualType)) {
+        const expectedElements = expectedType.getElementTypes();
+        const actualElements = actualType.getElementTypes();
+        if (expectedElements.length === actualElements.length) {
+            return bindAll([...expectedElements, expectedType.getRestElementType()], [...actualElements, actualType.getRestElementType()]);
+        }
+    }
+    return [];
+}
+
+function isChanged(oldTypes: Array<Type | undefined>, newTypes: Array<TypeSelector | undefined>): boolean {
+    return oldTypes.some((oldType, index) => oldType !== newTypes[index]);
+}
@@ -0,0 +1,51 @@
+/******************************************************************************
+ * Copyright 2025 TypeFox GmbH
+ * This program and the accompanying materials are made available under the
+ * terms of the MIT License, which is available in the project root.
+ ******************************************************************************/
+
+import { isType, Type } from '../../graph/type-node.js';
+import { TypeEqualityProblem } from '../../services/equality.js';
+import { TypirProblem } from '../../utils/utils-definitions.js';
+import { checkValueForConflict, createKindConflict } from '../../utils/utils-type-comparison.js';
+import { isTypeVariableKind, TypeVariableKind, TypeVariableTypeDetails } from './type-variable-kind.js';
+
+export class TypeVariableType extends Type {
+    override readonly kind: TypeVariableKind;
+    readonly variableName: string;
+    readonly owner: string;
+
+    constructor(kind: TypeVariableKind, identifier: string, typeDetails: TypeVariableTypeDetails) {
+        super(identifier, typeDetails);
+        this.kind = kind;
+        this.variableName = typeDetails.variableName;
+        this.owner = typeDetails.owner;
+        this.defineTheInitializationProcessOfThisType({}); // no preconditions
+    }
+
+    override getName(): string {
+        return this.variableName;
+    }
+
+    override getUserRepresentation(): string {
+        return this.variableName;
+    }
+
+    override analyzeTypeEqualityProblems(otherType: Type): TypirProblem[] {
+        if (isTypeVariableType(otherType)) {
+            return checkValueForConflict(this.getIdentifier(), otherType.getIdentifier(), 'name');
+        } else {
+            return [<TypeEqualityProblem>{
+                $problem: TypeEqualityProblem,
+                type1: this,
+                type2: otherType,
+                subProblems: [createKindConflict(otherType, this)],
+            }];
+        }
+    }
+
+}
+
+export function isTypeVariableType(type: unknown): type is TypeVariableType {
+    return isType(type) && isTypeVariableKind(type.kind);
+}
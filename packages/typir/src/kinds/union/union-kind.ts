@@ -0,0 +1,115 @@
+/******************************************************************************
+ * Copyright 2025 TypeFox GmbH
+ * This program and the accompanying materials are made available under the
+ * terms of the MIT License, which is available in the project root.
+ ******************************************************************************/
+
+import { Type } from '../../graph/type-node.js';
+import { TypeInitializer } from '../../initialization/type-initializer.js';
+import { TypeReference } from '../../initialization/type-reference.js';
+import { TypirServices } from '../../typir.js';
+import { TypirProblem } from '../../utils/utils-definitions.js';
+import { IndexedTypeConflict } from '../../utils/utils-type-comparison.js';
+import { CompoundTypeInitializer } from '../compound/compound-initializer.js';
+import { CompoundKind, CompoundKindOptions, CompoundTypeDetails, CreateCompoundTypeDetails, InferCompoundType } from '../compound/compound-kind.js';
+import { isKind } from '../kind.js';
+import { isUnionType, UnionType } from './union-type.js';
+
+export type UnionKindOptions = CompoundKindOptions;
+
+export type UnionTypeDetails = CompoundTypeDetails;
+
+export type CreateUnionTypeDetails = CreateCompoundTypeDetails;
+
+export type InferUnionType = InferCompoundType;
+
+export const UnionKindName = 'UnionKind';
+
+export interface UnionFactoryService {
+    create(typeDetails: CreateUnionTypeDetails): TypeInitializer<UnionType>;
+    get(typeDetails: UnionTypeDetails): TypeReference<UnionType>;
+    calculateIdentifier(typeDetails: UnionTypeDetails): string;
+}
+
+/**
+ * Union types represent values, which have the type of (at least) one of the member types, e.g. `number | string`.
+ *
+ * Design decisions:
+ * - The order of member types does not matter, i.e. `number | string` and `string | number` are the same type.
+ * - Member types which are union types themselves are flattened, i.e. `(A | B) | C` and `A | B | C` are the same type.
+ * - Duplicated member types are ignored, i.e. `A | A | B` and `A | B` are the same type.
+ * - Each member type is a sub-type of the union type.
+ *   A union type is a sub-type of another type, if each of its member types is a sub-type of this other type.
+ *   These relationships are explicitly stored in the type graph and are updated, when the relationships between the member types change.
+ * - Union types need at least one member type.
+ *   Union types with a single member type are not normalized to their member type, i.e. the union type with the single member `A` and `A` are different types,
+ *   but they are sub-types of each other and therefore assignable in both directions.
+ */
+export class UnionKind extends CompoundKind<UnionType> implements UnionFactoryService {
+    readonly $name: 'UnionKind';
+
+    constructor(services: TypirServices, options?: Partial<UnionKindOptions>) {
+        super(services, options);
+        this.$name = UnionKindName;
+        this.services.infrastructure.Kinds.register(this);
+    }
+
+    protected collectOptions(options?: Partial<UnionKindOptions>): UnionKindOptions {
+        return {
+            // the default values:
+            identifierPrefix: 'union',
+            memberSeparator: ' | ',
+            // the actually overriden values:
+            ...options
+        };
+    }
+
+    create(typeDetails: CreateUnionTypeDetails): TypeInitializer<UnionType> {
+        return new CompoundTypeInitializer(this.services, this, typeDetails, new UnionType(this, typeDetails));
+    }
+
+    isCompoundTypeOfThisKind(type: unknown): type is UnionType {
+        return isUnionType(type);
+    }
+
+    protected getMemberSeparatorForIdentifiers(): string {
+        return '|';
+    }
+
+    /** Each member is a sub-type of the union, the union is a sub-type of the common super-types of all its members. */
+    protected getAdditionalSubTypeCandidates(unionType: UnionType): Type[] {
+        const members = unionType.getMemberTypes();
+        return [...members, ...this.derivedSubTypes.collectRelatedTypes(members[0], 'Super')];
+    }
+
+    /**
+     * Analyzes, whether the given sub type is a sub-type of the given super type, while at least one of them is a union type:
+     * Each member of the sub type needs to be (equal to or) a sub-type of at least one member of the super type.
+     * Types which are no union types are treated as union types with a single member.
+     * @param subType the sub type
+     * @param superType the super type
+     * @returns an empty array, if the sub-type relationship exists, otherwise one problem for each member of the sub type which has no corresponding super member type
+     */
+    analyzeSubTypeProblems(subType: Type, superType: Type): TypirProblem[] {
+        const subMembers = isUnionType(subType) ? subType.getMemberTypes() : [subType];
+        const superMembers = isUnionType(superType) ? superType.getMemberTypes() : [superType];
+        const conflicts: TypirProblem[] = [];
+        subMembers.forEach((subMember, index) => {
+            if (superMembers.some(superMember => this.isEqualOrSubType(subMember, superMember)) === false) {
+                conflicts.push(<IndexedTypeConflict>{
+                    $problem: IndexedTypeConflict,
+                    expected: superType,
+                    actual: subMember,
+                    propertyIndex: index,
+                    subProblems: [],
+                });
+            }
+        });
+        return conflicts;
+    }
+
+}
+
+export function isUnionKind(kind: unknown): kind is UnionKind {
+    return isKind(kind) && kind.$name === UnionKindName;
+}
@@ -0,0 +1,23 @@
+/******************************************************************************
+ * Copyright 2025 TypeFox GmbH
+ * This program and the accompanying materials are made available under the
+ * terms of the MIT License, which is available in the project root.
+ ******************************************************************************/
+
+import { isType } from '../../graph/type-node.js';
+import { CompoundType } from '../compound/compound-type.js';
+import { isUnionKind, UnionKind, UnionTypeDetails } from './union-kind.js';
+
+export class UnionType extends CompoundType {
+    override readonly kind: UnionKind;
+
+    constructor(kind: UnionKind, typeDetails: UnionTypeDetails) {
+        super(kind, typeDetails, false); // union types don't need to wait for completed member types
+        this.kind = kind;
+    }
+
+}
+
+export function isUnionType(type: unknown): type is UnionType {
+    return isType(type) && isUnionKind(type.kind);
+}
@@ -0,0 +1,222 @@
+/******************************************************************************
+ * Copyright 2025 TypeFox GmbH
+ * This program and the accompanying materials are made available under the
+ * terms of the MIT License, which is available in the project root.
+ ******************************************************************************/
+
+import { Type, TypeDetails } from '../../graph/type-node.js';
+import { BinaryOperatorSignature } from '../../services/operator.js';
+import { TypirServices } from '../../typir.js';
+import { assertTrue } from '../../utils/utils.js';
+import { isKind, Kind } from '../kind.js';
+import { PrimitiveType } from '../primitive/primitive-type.js';
+import { isUnitType, UnitType } from './unit-type.js';
+
+export interface UnitKindOptions {
+    /** Will be used only internally as prefix for the unique identifiers for unit types. */
+    identifierPrefix: string,
+}
+
+/** Maps the base units to their exponents, e.g. `{ m: 1, s: -2 }` for `m/s^2`. Dimensionless values have no base units. */
+export type UnitDimension = Record<string, number>;
+
+export interface UnitTypeDetails extends TypeDetails {
+    /** the numeric primitive type, whose values are measured in the unit, e.g. 'double' */
+    baseType: PrimitiveType;
+    /** the unit, either as text like `m/s^2`, `kg*m/s^2` and `1/s` or as dimension like `{ m: 1, s: -2 }` */
+    unit: string | UnitDimension;
+}
+
+export const UnitKindName = 'UnitKind';
+
+export interface UnitFactoryService {
+    create(typeDetails: UnitTypeDetails): UnitType;
+    get(typeDetails: UnitTypeDetails): UnitType | undefined;
+    /**
+     * Returns the type for values of the base type measured in the given unit, which is the base type itself for dimensionless units.
+     * Missing unit types are created and added to the type graph, even if this method is called during the type inference.
+     */
+    getOrCreate(baseType: PrimitiveType, unit: string | UnitDimension): PrimitiveType | UnitType;
+    /** The signature for multiplications of two values of the given numeric type, the unit of the result is the product of the units of the operands, e.g. `m*s`. */
+    getMultiplicationSignature(numericType: PrimitiveType): BinaryOperatorSignature;
+    /** The signature for divisions of two values of the given numeric type, the unit of the result is the quotient of the units of the operands, e.g. `m/s`. */
+    getDivisionSignature(numericType: PrimitiveType): BinaryOperatorSignature;
+    /** The signature for additions and subtractions of two values of the given numeric type, which require operands with equal units. */
+    getAdditionSignature(numericType: PrimitiveType): BinaryOperatorSignature;
+}
+
+/**
+ * Units of measure annotate numeric primitive types with a physical dimension, e.g. `double<m/s^2>`.
+ * Unit types are implicitly convertible to their base type, which enables to use them as operands of the operators for their base type.
+ * Since the unit of the result of an operator depends on the units of its operands,
+ * the signatures for the arithmetic operators compute their return types from the actual types of the operands,
+ * e.g. `m` divided by `s` is `m/s`, while adding `m` and `s` is not allowed.
+ * Values of the base type itself are dimensionless.
+ * Note that the type inference for these operators creates the unit types of their results on demand, i.e. the type inference might add new unit types to the type graph,
+ * e.g. `double<m/s>` for dividing `double<m>` by `double<s>`. Each unit type is created only once and reused afterwards.
+ * These unit types are not removed automatically, when the language nodes whose type inference created them are removed.
+ */
+export class UnitKind implements Kind, UnitFactoryService {
+    readonly $name: 'UnitKind';
+    readonly services: TypirServices;
+    readonly options: Readonly<UnitKindOptions>;
+
+    constructor(services: TypirServices, options?: Partial<UnitKindOptions>) {
+        this.$name = UnitKindName;
+        this.services = services;
+        this.services.infrastructure.Kinds.register(this);
+        this.options = this.collectOptions(options);
+    }
+
+    protected collectOptions(options?: Partial<UnitKindOptions>): UnitKindOptions {
+        return {
+            // the default values:
+            identifierPrefix: 'unit',
+            // the actually overriden values:
+            ...options
+        };
+    }
+
+    get(typeDetails: UnitTypeDetails): UnitType | undefined {
+        const key = this.calculateIdentifier(typeDetails);
+        return this.services.infrastructure.Graph.getType(key) as UnitType | undefined;
+    }
+
+    create(typeDetails: UnitTypeDetails): UnitType {
+        assertTrue(this.get(typeDetails) === undefined);
+        const dimension = this.normalizeUnit(typeDetails.unit);
+        if (Object.keys(dimension).length <= 0) {
+            throw new Error(`The unit of the type for values of '${typeDetails.baseType.getName()}' has no base units.`);
+        }
+
+        // create the unit type
+        const unitType = new UnitType(this, this.calculateIdentifier(typeDetails), typeDetails, dimension);
+        this.services.infrastructure.Graph.addNode(unitType);
+
+        // values with a unit are values of their base type as well, e.g. they can be used as operands of the operators for the base type
+        this.services.Conversion.markAsConvertible(unitType, typeDetails.baseType, 'IMPLICIT_EXPLICIT');
+
+        return unitType;
+    }
+
+    getOrCreate(baseType: PrimitiveType, unit: string | UnitDimension): PrimitiveType | UnitType {
+        const dimension = this.normalizeUnit(unit);
+        if (Object.keys(dimension).length <= 0) {
+            return baseType; // dimensionless
+        }
+        return this.get({ baseType, unit: dimension }) ?? this.create({ baseType, unit: dimension });
+    }
+
+    getMultiplicationSignature(numericType: PrimitiveType): BinaryOperatorSignature {
+        return { left: numericType, right: numericType, return: numericType, computeReturn: (left, right) => this.multiply(left, right, numericType) };
+    }
+
+    getDivisionSignature(numericType: PrimitiveType): BinaryOperatorSignature {
+        return { left: numericType, right: numericType, return: numericType, computeReturn: (left, right) => this.divide(left, right, numericType) };
+    }
+
+    getAdditionSignature(numericType: PrimitiveType): BinaryOperatorSignature {
+        return { left: numericType, right: numericType, return: numericType, computeReturn: (left, right) => this.addOrSubtract(left, right, numericType) };
+    }
+
+    multiply(left: Type, right: Type, numericType: PrimitiveType): Type | undefined {
+        return this.combineUnits(left, right, numericType, +1);
+    }
+
+    divide(left: Type, right: Type, numericType: PrimitiveType): Type | undefined {
+        return this.combineUnits(left, right, numericType, -1);
+    }
+
+    addOrSubtract(left: Type, right: Type, numericType: PrimitiveType): Type | undefined {
+        const leftDimension = this.getDimension(left, numericType);
+        const rightDimension = this.getDimension(right, numericType);
+        if (leftDimension && rightDimension && this.printUnit(leftDimension) === this.printUnit(rightDimension)) {
+            return this.getOrCreate(numericType, leftDimension);
+        }
+        return undefined; // different units
+    }
+
+    protected combineUnits(left: Type, right: Type, numericType: PrimitiveType, exponentFactor: 1 | -1): Type | undefined {
+        const leftDimension = this.getDimension(left, numericType);
+        const rightDimension = this.getDimension(right, numericType);
+        if (leftDimension === undefined || rightDimension === undefined) {
+            return undefined;
+        }
+        const result: UnitDimension = { ...leftDimension };
+        for (const [baseUnit, exponent] of Object.entries(rightDimension)) {
+            result[baseUnit] = (result[baseUnit] ?? 0) + exponentFactor * exponent;
+        }
+        return this.getOrCreate(numericType, result);
+    }
+
+    /**
+     * Determines the dimension of an operand for an operator of the given numeric type.
+     * @param type the type of the operand
+     * @param numericType the numeric type of the operator
+     * @returns the dimension of unit types with the numeric type as base type, an empty dimension for all other types (since they are dimensionless),
+     * undefined for unit types of other base types
+     */
+    protected getDimension(type: Type, numericType: PrimitiveType): UnitDimension | undefined {
+        if (isUnitType(type)) {
+            return type.getBaseType() === numericType ? type.getDimension() : undefined;
+        }
+        return {};
+    }
+
+    calculateIdentifier(typeDetails: UnitTypeDetails): string {
+        return `${this.options.identifierPrefix}-${typeDetails.baseType.getIdentifier()}-${this.printUnit(this.normalizeUnit(typeDetails.unit))}`;
+    }
+
+    /** Removes base units with the exponent zero and sorts the base units by their names. */
+    normalizeUnit(unit: string | UnitDimension): UnitDimension {
+        const dimension = typeof unit === 'string' ? this.parseUnit(unit) : unit;
+        const result: UnitDimension = {};
+        for (const baseUnit of Object.keys(dimension).sort()) {
+            if (dimension[baseUnit] !== 0) {
+                result[baseUnit] = dimension[baseUnit];
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Parses units which are products of base units with optional exponents, optionally divided by another product,
+     * e.g. `m`, `m^2`, `m/s^2`, `kg*m/s^2` and `1/s`.
+     * @param unit the unit to parse
+     * @returns the dimension of the unit
+     */
+    parseUnit(unit: string): UnitDimension {
+        const parts = unit.split('/');
+        if (parts.length > 2) {
+            throw new Error(`The unit '${unit}' contains more than one '/'.`);
+        }
+        const result: UnitDimension = {};
+        parts.forEach((part, partIndex) => {
+            for (const factor of part.split('*').map(f => f.trim())) {
+                if (factor === '1') {
+                    continue; // e.g. in '1/s'
+                }
+                const match = /^([a-zA-Z_]\w*)(?:\^(-?\d+))?$/.exec(factor);
+                if (match === null) {
+                    throw new Error(`The unit '${unit}' contains the invalid factor '${factor}'.`);
+                }
+                const exponent = (match[2] === undefined ? 1 : Number(match[2])) * (partIndex === 0 ? 1 : -1);
+                result[match[1]] = (result[match[1]] ?? 0) + exponent;
+            }
+        });
+        return result;
+    }
+
+    /** Prints the base units with positive exponents before the '/' and the base units with negative exponents after the '/', e.g. `kg*m/s^2`. */
+    printUnit(dimension: UnitDimension): string {
+        const entries = Object.entries(this.normalizeUnit(dimension));
+        const printProduct = (factors: Array<[string, number]>) => factors.map(([baseUnit, exponent]) => exponent === 1 ? baseUnit : `${baseUnit}^${exponent}`).join('*');
+        const numerator = printProduct(entries.filter(([_baseUnit, exponent]) => exponent > 0));
+        const denominator = printProduct(entries.filter(([_baseUnit, exponent]) => exponent < 0).map(([baseUnit, exponent]) => [baseUnit, -exponent]));
+        return denominator.length >= 1 ? `${numerator.length >= 1 ? numerator : '1'}/${denominator}` : numerator;
+    }
+}
+
+export function isUnitKind(kind: unknown): kind is UnitKind {
+    return isKind(kind) && kind.$name === UnitKindName;
+}
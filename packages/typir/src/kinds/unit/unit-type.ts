@@ -0,0 +1,68 @@
+/******************************************************************************
+ * Copyright 2025 TypeFox GmbH
+ * This program and the accompanying materials are made available under the
+ * terms of the MIT License, which is available in the project root.
+ ******************************************************************************/
+
+import { isType, Type } from '../../graph/type-node.js';
+import { TypeEqualityProblem } from '../../services/equality.js';
+import { TypirProblem } from '../../utils/utils-definitions.js';
+import { checkValueForConflict, createKindConflict } from '../../utils/utils-type-comparison.js';
+import { PrimitiveType } from '../primitive/primitive-type.js';
+import { isUnitKind, UnitDimension, UnitKind, UnitTypeDetails } from './unit-kind.js';
+
+export class UnitType extends Type {
+    override readonly kind: UnitKind;
+    protected readonly baseType: PrimitiveType;
+    protected readonly dimension: UnitDimension;
+
+    constructor(kind: UnitKind, identifier: string, typeDetails: UnitTypeDetails, dimension: UnitDimension) {
+        super(identifier, typeDetails);
+        this.kind = kind;
+        this.baseType = typeDetails.baseType;
+        this.dimension = dimension;
+        this.defineTheInitializationProcessOfThisType({}); // no preconditions
+    }
+
+    /** Returns the numeric primitive type, whose values are measured in the unit of this type. */
+    getBaseType(): PrimitiveType {
+        return this.baseType;
+    }
+
+    getDimension(): UnitDimension {
+        return this.dimension;
+    }
+
+    getUnit(): string {
+        return this.kind.printUnit(this.dimension);
+    }
+
+    override getName(): string {
+        return `${this.baseType.getName()}<${this.getUnit()}>`;
+    }
+
+    override getUserRepresentation(): string {
+        return this.getName();
+    }
+
+    override analyzeTypeEqualityProblems(otherType: Type): TypirProblem[] {
+        if (isUnitType(otherType)) {
+            return [
+                ...checkValueForConflict(this.baseType.getIdentifier(), otherType.getBaseType().getIdentifier(), 'base type'),
+                ...checkValueForConflict(this.getUnit(), otherType.getUnit(), 'unit'),
+            ];
+        } else {
+            return [<TypeEqualityProblem>{
+                $problem: TypeEqualityProblem,
+                type1: this,
+                type2: otherType,
+                subProblems: [createKindConflict(otherType, this)],
+            }];
+        }
+    }
+
+}
+
+export function isUnitType(type: unknown): type is UnitType {
+    return isType(type) && isUnitKind(type.kind);
+}
@@ -88,8 +88,8 @@ export class DefaultTypeAssignability implements TypeAssignability {
             };
         }
 
-        // 2. any path of implicit conversion and sub-type relationships
-        const path = this.algorithms.getEdgePath(source, target, [ConversionEdge, SubTypeEdge],
+        // 2. any path of implicit conversion and sub-type relationships (aliases are transparent)
+        const path = this.algorithms.getEdgePath(source.getTypeForRelationships(), target.getTypeForRelationships(), [ConversionEdge, SubTypeEdge],
             edge => isConversionEdge(edge) ? edge.mode === 'IMPLICIT_EXPLICIT' : true); // no explicit conversion
         if (path.length >= 1) {
             return <AssignabilitySuccess>{
@@ -121,6 +121,9 @@ export class DefaultTypeConversion implements TypeConversion {
     }
 
     markAsConvertible(from: Type, to: Type, mode: ConversionModeForSpecification): void {
+        // relationships are stored at the aliased types
+        from = from.getTypeForRelationships();
+        to = to.getTypeForRelationships();
         let edge = this.getConversionEdge(from, to);
         if (!edge) {
             // create a missing edge (with the desired mode)
@@ -154,6 +157,10 @@ export class DefaultTypeConversion implements TypeConversion {
     }
 
     getConversion(from: Type, to: Type): ConversionMode {
+        // aliases are transparent
+        from = from.getTypeForRelationships();
+        to = to.getTypeForRelationships();
+
         // check whether the direct conversion is stored in the type graph (this is quite fast)
         const edge = this.getConversionEdge(from, to);
         if (edge) {
@@ -216,7 +223,7 @@ export class DefaultTypeConversion implements TypeConversion {
     }
 
     getConvertibleTo(from: Type, mode: ConversionModeForSpecification): Set<Type> {
-        return this.collectReachableTypes(from, mode);
+        return this.collectReachableTypes(from.getTypeForRelationships(), mode);
     }
 }
 
@@ -42,6 +42,8 @@ export interface UnaryOperatorDetails<T> extends AnyOperatorDetails<T> {
 export interface UnaryOperatorSignature {
     operand: Type;
     return: Type;
+    /** Computes the return type of calls from the actual type of the operand, 'undefined' indicates that the operator is not applicable to this type. */
+    computeReturn?: (operand: Type) => Type | undefined;
 }
 
 export interface BinaryOperatorDetails<T> extends AnyOperatorDetails<T> {
@@ -53,6 +55,8 @@ export interface BinaryOperatorSignature {
     left: Type;
     right: Type;
     return: Type;
+    /** Computes the return type of calls from the actual types of the operands, e.g. `m/s` for `m` divided by `s`, 'undefined' indicates that the operator is not applicable to these types. */
+    computeReturn?: (left: Type, right: Type) => Type | undefined;
 }
 
 export interface TernaryOperatorDetails<T> extends AnyOperatorDetails<T> {
@@ -65,10 +69,14 @@ export interface TernaryOperatorSignature {
     second: Type;
     third: Type;
     return: Type;
+    /** Computes the return type of calls from the actual types of the operands, 'undefined' indicates that the operator is not applicable to these types. */
+    computeReturn?: (first: Type, second: Type, third: Type) => Type | undefined;
 }
 
 export interface GenericOperatorDetails<T> extends AnyOperatorDetails<T> {
     outputType: Type;
+    /** If specified, the type of calls is computed from the actual types of the operands, otherwise the 'outputType' is used. */
+    outputTypeForCalls?: (actualOperandTypes: Type[]) => Type | undefined;
     inputParameter: NameTypePair[];
     inferenceRule?: InferOperatorWithSingleOperand<T> | InferOperatorWithMultipleOperands<T>;
 }
@@ -114,6 +122,7 @@ export class DefaultOperatorFactory implements OperatorFactoryService {
             result.push(this.createGeneric({
                 name: typeDetails.name,
                 outputType: signature.return,
+                outputTypeForCalls: signature.computeReturn ? types => signature.computeReturn!(types[0]) : undefined,
                 inferenceRule: typeDetails.inferenceRule, // the same inference rule is used (and required) for all overloads, since multiple FunctionTypes are created!
                 inputParameter: [
                     { name: 'operand', type: signature.operand },
@@ -131,6 +140,7 @@ export class DefaultOperatorFactory implements OperatorFactoryService {
             result.push(this.createGeneric({
                 name: typeDetails.name,
                 outputType: signature.return,
+                outputTypeForCalls: signature.computeReturn ? types => signature.computeReturn!(types[0], types[1]) : undefined,
                 inferenceRule: typeDetails.inferenceRule, // the same inference rule is used (and required) for all overloads, since multiple FunctionTypes are created!
                 inputParameter: [
                     { name: 'left', type: signature.left},
@@ -149,6 +159,7 @@ export class DefaultOperatorFactory implements OperatorFactoryService {
             result.push(this.createGeneric({
                 name: typeDetails.name,
                 outputType: signature.return,
+                outputTypeForCalls: signature.computeReturn ? types => signature.computeReturn!(types[0], types[1], types[2]) : undefined,
                 inferenceRule: typeDetails.inferenceRule, // the same inference rule is used (and required) for all overloads, since multiple FunctionTypes are created!
                 inputParameter: [
                     { name: 'first', type: signature.first },
@@ -179,6 +190,7 @@ export class DefaultOperatorFactory implements OperatorFactoryService {
                     inputArguments: (languageNode: T) => this.getInputArguments(typeDetails, languageNode),
                 }
                 : undefined,
+            outputTypeForCalls: typeDetails.outputTypeForCalls,
             validationForCall: typeDetails.validationRule
                 ? (functionCall: T, functionType: FunctionType, typir: TypirServices) => typeDetails.validationRule!(functionCall, operatorName, functionType, typir)
                 : undefined,
@@ -91,8 +91,8 @@ export class DefaultSubType implements SubType {
     }
 
     getSubTypeResult(subType: Type, superType: Type): SubTypeResult {
-        // search for a transitive sub-type relationship
-        const path = this.algorithms.getEdgePath(subType, superType, [SubTypeEdge]);
+        // search for a transitive sub-type relationship (aliases are transparent)
+        const path = this.algorithms.getEdgePath(subType.getTypeForRelationships(), superType.getTypeForRelationships(), [SubTypeEdge]);
         if (path.length >= 1) {
             return <SubTypeSuccess>{
                 $result: SubTypeResult,
@@ -128,6 +128,9 @@ export class DefaultSubType implements SubType {
 
     markAsSubType(subType: Type, superType: Type, options: MarkSubTypeOptions): void {
         const actualOptions = this.collectMarkSubTypeOptions(options);
+        // relationships are stored at the aliased types
+        subType = subType.getTypeForRelationships();
+        superType = superType.getTypeForRelationships();
         let edge = this.getSubTypeEdge(subType, superType);
         if (!edge) {
             edge = {
@@ -6,6 +6,7 @@
 
 import { TypeGraphListener } from '../graph/type-graph.js';
 import { Type, isType } from '../graph/type-node.js';
+import { MultiplicityType } from '../kinds/multiplicity/multiplicity-type.js';
 import { TypirServices } from '../typir.js';
 import { TypirProblem, isSpecificTypirProblem } from '../utils/utils-definitions.js';
 import { TypeCheckStrategy, createTypeCheckStrategy } from '../utils/utils-type-comparison.js';
@@ -46,6 +47,8 @@ export interface AnnotatedTypeAfterValidation {
     name: string;
 }
 export type ValidationMessageProvider = (actual: AnnotatedTypeAfterValidation, expected: AnnotatedTypeAfterValidation) => Partial<ValidationMessageDetails>;
+export type MultiplicityMessageProvider = (actualNumberOfValues: number, expected: AnnotatedTypeAfterValidation) => Partial<ValidationMessageDetails>;
+export type NullableMessageProvider = (actual: AnnotatedTypeAfterValidation) => Partial<ValidationMessageDetails>;
 
 export interface ValidationConstraints {
     ensureNodeIsAssignable(sourceNode: unknown | undefined, expected: Type | undefined | unknown,
@@ -57,6 +60,35 @@ export interface ValidationConstraints {
 
     ensureNodeRelatedWithType(languageNode: unknown | undefined, expected: Type | undefined | unknown, strategy: TypeCheckStrategy, negated: boolean,
         message: ValidationMessageProvider): ValidationProblem[];
+
+    /**
+     * Checks, whether the given number of values fits to the bounds of the given multiplicity type.
+     * @param languageNode the language node which contains the values, used to report the problem
+     * @param numberOfValues the number of values
+     * @param expected the multiplicity type which specifies the bounds
+     * @param message creates the details of the reported problem
+     */
+    ensureNumberOfValuesFitsToMultiplicity(languageNode: unknown | undefined, numberOfValues: number, expected: MultiplicityType | undefined,
+        message: MultiplicityMessageProvider): ValidationProblem[];
+    /**
+     * Checks, whether the number of given values fits to the bounds of the given multiplicity type
+     * and whether the types of all values are assignable to the constrained type of the multiplicity type.
+     * @param languageNode the language node which contains the values, used to report the problem regarding the number of values
+     * @param values the values, problems regarding their types are reported at them
+     * @param expected the multiplicity type which specifies the bounds and the constrained type
+     * @param messageForNumber creates the details of the problem regarding the number of values
+     * @param messageForValues creates the details of the problems regarding the types of the values
+     */
+    ensureValuesFitToMultiplicity(languageNode: unknown | undefined, values: unknown[], expected: MultiplicityType | undefined,
+        messageForNumber: MultiplicityMessageProvider, messageForValues: ValidationMessageProvider): ValidationProblem[];
+
+    /**
+     * Checks, that the value of the given language node is never null, i.e. its type is neither an optional type nor the null type,
+     * e.g. in order to ensure null-safety for the receivers of member accesses.
+     * @param languageNode the language node to check
+     * @param message creates the details of the reported problem
+     */
+    ensureNodeIsNotNullable(languageNode: unknown | undefined, message: NullableMessageProvider): ValidationProblem[];
 }
 
 export class DefaultValidationConstraints implements ValidationConstraints {
@@ -88,8 +120,9 @@ export class DefaultValidationConstraints implements ValidationConstraints {
     ensureNodeRelatedWithType(languageNode: unknown | undefined, expected: Type | undefined | unknown, strategy: TypeCheckStrategy, negated: boolean,
         message: ValidationMessageProvider): ValidationProblem[] {
         if (languageNode !== undefined && expected !== undefined) {
-            const actualType = isType(languageNode) ? languageNode : this.inference.inferType(languageNode);
             const expectedType = isType(expected) ? expected : this.inference.inferType(expected);
+            // literal types are inferred only, if they are expected (see the LiteralKind for all places, where literal types are inferred)
+            const actualType = isType(languageNode) ? languageNode : this.services.factory.Literals.inferType(languageNode, isType(expectedType) ? expectedType : undefined);
             if (isType(actualType) && isType(expectedType)) {
                 const strategyLogic = createTypeCheckStrategy(strategy, this.services);
                 const comparisonResult = strategyLogic(actualType, expectedType);
@@ -131,6 +164,55 @@ export class DefaultValidationConstraints implements ValidationConstraints {
         return [];
     }
 
+    ensureNumberOfValuesFitsToMultiplicity(languageNode: unknown | undefined, numberOfValues: number, expected: MultiplicityType | undefined,
+        message: MultiplicityMessageProvider): ValidationProblem[] {
+        if (languageNode !== undefined && expected !== undefined) {
+            const kind = expected.kind;
+            if (kind.isCountWithinBounds(numberOfValues, expected.getLowerBound(), expected.getUpperBound()) === false) {
+                const details = message(numberOfValues, this.annotateType(expected));
+                return [{
+                    $problem: ValidationProblem,
+                    languageNode: details.languageNode ?? languageNode,
+                    languageProperty: details.languageProperty,
+                    languageIndex: details.languageIndex,
+                    severity: details.severity ?? 'error',
+                    message: details.message ?? `${numberOfValues} values do not fit to the bounds ${kind.printRange(expected.getLowerBound(), expected.getUpperBound())} of '${expected.getIdentifier()}'.`,
+                }];
+            }
+        }
+        return [];
+    }
+
+    ensureValuesFitToMultiplicity(languageNode: unknown | undefined, values: unknown[], expected: MultiplicityType | undefined,
+        messageForNumber: MultiplicityMessageProvider, messageForValues: ValidationMessageProvider): ValidationProblem[] {
+        if (languageNode !== undefined && expected !== undefined) {
+            const constrainedType = expected.getConstrainedType();
+            return [
+                ...this.ensureNumberOfValuesFitsToMultiplicity(languageNode, values.length, expected, messageForNumber),
+                ...values.flatMap(value => this.ensureNodeIsAssignable(value, constrainedType, messageForValues)),
+            ];
+        }
+        return [];
+    }
+
+    ensureNodeIsNotNullable(languageNode: unknown | undefined, message: NullableMessageProvider): ValidationProblem[] {
+        if (languageNode !== undefined) {
+            const actualType = isType(languageNode) ? languageNode : this.inference.inferType(languageNode);
+            if (isType(actualType) && this.services.factory.Optionals.isNullable(actualType)) {
+                const details = message(this.annotateType(actualType));
+                return [{
+                    $problem: ValidationProblem,
+                    languageNode: details.languageNode ?? languageNode,
+                    languageProperty: details.languageProperty,
+                    languageIndex: details.languageIndex,
+                    severity: details.severity ?? 'error',
+                    message: details.message ?? `The value of type '${this.printer.printTypeName(actualType)}' might be null.`,
+                }];
+            }
+        }
+        return [];
+    }
+
     protected annotateType(type: Type): AnnotatedTypeAfterValidation {
         return {
             type,
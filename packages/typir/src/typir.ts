@@ -7,11 +7,27 @@
 import { DefaultGraphAlgorithms, GraphAlgorithms } from './graph/graph-algorithms.js';
 import { TypeGraph } from './graph/type-graph.js';
 import { DefaultTypeResolver, TypeResolvingService } from './initialization/type-selector.js';
+import { AliasFactoryService, AliasKind, AliasKindName } from './kinds/alias/alias-kind.js';
+import { ArrayFactoryService, ArrayKind, ArrayKindName } from './kinds/array/array-kind.js';
 import { BottomFactoryService, BottomKind, BottomKindName } from './kinds/bottom/bottom-kind.js';
 import { ClassFactoryService, ClassKind, ClassKindName } from './kinds/class/class-kind.js';
+import { DistinctFactoryService, DistinctKind, DistinctKindName } from './kinds/distinct/distinct-kind.js';
+import { EnumFactoryService, EnumKind, EnumKindName } from './kinds/enum/enum-kind.js';
+import { DefaultFixedParameterKindFactory, FixedParameterKindFactoryService } from './kinds/fixed-parameters/fixed-parameters-factory.js';
 import { FunctionFactoryService, FunctionKind, FunctionKindName } from './kinds/function/function-kind.js';
+import { InterfaceFactoryService, InterfaceKind, InterfaceKindName } from './kinds/interface/interface-kind.js';
+import { IntersectionFactoryService, IntersectionKind, IntersectionKindName } from './kinds/intersection/intersection-kind.js';
+import { LiteralFactoryService, LiteralKind, LiteralKindName } from './kinds/literal/literal-kind.js';
+import { MapFactoryService, MapKind, MapKindName } from './kinds/map/map-kind.js';
+import { MultiplicityFactoryService, MultiplicityKind, MultiplicityKindName } from './kinds/multiplicity/multiplicity-kind.js';
+import { OptionalFactoryService, OptionalKind, OptionalKindName } from './kinds/optional/optional-kind.js';
 import { PrimitiveFactoryService, PrimitiveKind, PrimitiveKindName } from './kinds/primitive/primitive-kind.js';
+import { RecordFactoryService, RecordKind, RecordKindName } from './kinds/record/record-kind.js';
 import { TopFactoryService, TopKind, TopKindName } from './kinds/top/top-kind.js';
+import { TupleFactoryService, TupleKind, TupleKindName } from './kinds/tuple/tuple-kind.js';
+import { TypeVariableFactoryService, TypeVariableKind, TypeVariableKindName } from './kinds/type-variable/type-variable-kind.js';
+import { UnionFactoryService, UnionKind, UnionKindName } from './kinds/union/union-kind.js';
+import { UnitFactoryService, UnitKind, UnitKindName } from './kinds/unit/unit-kind.js';
 import { DefaultTypeAssignability, TypeAssignability } from './services/assignability.js';
 import { DefaultLanguageNodeInferenceCaching, DefaultTypeRelationshipCaching, LanguageNodeInferenceCaching, TypeRelationshipCaching } from './services/caching.js';
 import { DefaultTypeConversion, TypeConversion } from './services/conversion.js';
@@ -62,6 +78,22 @@ export type TypirServices = {
         readonly Classes: ClassFactoryService;
         readonly Top: TopFactoryService;
         readonly Bottom: BottomFactoryService;
+        readonly Unions: UnionFactoryService;
+        readonly Intersections: IntersectionFactoryService;
+        readonly Tuples: TupleFactoryService;
+        readonly TypeVariables: TypeVariableFactoryService;
+        readonly FixedParameters: FixedParameterKindFactoryService;
+        readonly Multiplicities: MultiplicityFactoryService;
+        readonly Literals: LiteralFactoryService;
+        readonly Enums: EnumFactoryService;
+        readonly Aliases: AliasFactoryService;
+        readonly DistinctTypes: DistinctFactoryService;
+        readonly Optionals: OptionalFactoryService;
+        readonly Interfaces: InterfaceFactoryService;
+        readonly Records: RecordFactoryService;
+        readonly Arrays: ArrayFactoryService;
+        readonly Maps: MapFactoryService;
+        readonly Units: UnitFactoryService;
         readonly Operators: OperatorFactoryService;
     };
     readonly infrastructure: {
@@ -93,6 +125,22 @@ export const DefaultTypirServiceModule: Module<TypirServices> = {
         Classes: (services) => services.infrastructure.Kinds.getOrCreateKind(ClassKindName, services => new ClassKind(services, { typing: 'Nominal' })),
         Top: (services) => services.infrastructure.Kinds.getOrCreateKind(TopKindName, services => new TopKind(services)),
         Bottom: (services) => services.infrastructure.Kinds.getOrCreateKind(BottomKindName, services => new BottomKind(services)),
+        Unions: (services) => services.infrastructure.Kinds.getOrCreateKind(UnionKindName, services => new UnionKind(services)),
+        Intersections: (services) => services.infrastructure.Kinds.getOrCreateKind(IntersectionKindName, services => new IntersectionKind(services)),
+        Tuples: (services) => services.infrastructure.Kinds.getOrCreateKind(TupleKindName, services => new TupleKind(services)),
+        TypeVariables: (services) => services.infrastructure.Kinds.getOrCreateKind(TypeVariableKindName, services => new TypeVariableKind(services)),
+        FixedParameters: (services) => new DefaultFixedParameterKindFactory(services),
+        Multiplicities: (services) => services.infrastructure.Kinds.getOrCreateKind(MultiplicityKindName, services => new MultiplicityKind(services)),
+        Literals: (services) => services.infrastructure.Kinds.getOrCreateKind(LiteralKindName, services => new LiteralKind(services)),
+        Enums: (services) => services.infrastructure.Kinds.getOrCreateKind(EnumKindName, services => new EnumKind(services)),
+        Aliases: (services) => services.infrastructure.Kinds.getOrCreateKind(AliasKindName, services => new AliasKind(services)),
+        DistinctTypes: (services) => services.infrastructure.Kinds.getOrCreateKind(DistinctKindName, services => new DistinctKind(services)),
+        Optionals: (services) => services.infrastructure.Kinds.getOrCreateKind(OptionalKindName, services => new OptionalKind(services)),
+        Interfaces: (services) => services.infrastructure.Kinds.getOrCreateKind(InterfaceKindName, services => new InterfaceKind(services)),
+        Records: (services) => services.infrastructure.Kinds.getOrCreateKind(RecordKindName, services => new RecordKind(services)),
+        Arrays: (services) => services.infrastructure.Kinds.getOrCreateKind(ArrayKindName, services => new ArrayKind(services)),
+        Maps: (services) => services.infrastructure.Kinds.getOrCreateKind(MapKindName, services => new MapKind(services)),
+        Units: (services) => services.infrastructure.Kinds.getOrCreateKind(UnitKindName, services => new UnitKind(services)),
         Operators: (services) => new DefaultOperatorFactory(services),
     },
     infrastructure: {
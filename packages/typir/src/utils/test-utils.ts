@@ -6,6 +6,7 @@
 
 import { expect } from 'vitest';
 import { Type } from '../graph/type-node.js';
+import { SubTypeEdge } from '../services/subtype.js';
 import { TestProblemPrinter } from '../test/predefined-language-nodes.js';
 import { createTypirServices, DefaultTypirServiceModule, PartialTypirServices, TypirServices } from '../typir.js';
 import { Module } from './dependency-injection.js';
@@ -45,6 +46,48 @@ export function expectToBeType<T extends Type>(type: unknown, checkType: (t: unk
     }
 }
 
+/**
+ * Testing utility to check, that the sub-type relationship between two types, which is derived from the relationship between two other types
+ * (e.g. between two array types, which is derived from the relationship between their element types),
+ * follows later changes of the relationship between these other types:
+ * The derived relationship is added, when the relationship between the other types is added, and removed, when it is removed.
+ * Finally, the derived relationship is removed, when a type of the super-type side is removed.
+ * @param services the Typir services
+ * @param details the types to check, the derived sub type and the derived super type are not related at the beginning
+ */
+export function expectDerivedSubTypeToFollowChanges(services: TypirServices, details: {
+    /** the derived sub type */
+    subType: Type,
+    /** the derived super type */
+    superType: Type,
+    /** the type the sub type depends on, which will be marked as sub-type of the 'superDependency' */
+    subDependency: Type,
+    /** the type the super type depends on */
+    superDependency: Type,
+    /** the type to remove at the end in order to remove the derived super type, by default the derived super type itself */
+    typeToRemove?: Type,
+    /** additional kind-specific checks, which are executed whenever the derived relationship exists or not */
+    checkRelated?: (related: boolean) => void,
+}): void {
+    const checkRelated = (related: boolean) => {
+        expect(services.Subtype.isSubType(details.subType, details.superType)).toBe(related);
+        details.checkRelated?.(related);
+    };
+    checkRelated(false);
+    // added relationship between the dependencies
+    services.Subtype.markAsSubType(details.subDependency, details.superDependency);
+    checkRelated(true);
+    expect(services.Subtype.isSubType(details.superType, details.subType)).toBe(false);
+    // removed relationship between the dependencies
+    services.infrastructure.Graph.removeEdge(details.subDependency.getOutgoingEdges<SubTypeEdge>(SubTypeEdge).find(edge => edge.to === details.superDependency)!);
+    checkRelated(false);
+    // removed types
+    services.Subtype.markAsSubType(details.subDependency, details.superDependency);
+    checkRelated(true);
+    services.infrastructure.Graph.removeNode(details.typeToRemove ?? details.superType);
+    expect(details.subType.getOutgoingEdges<SubTypeEdge>(SubTypeEdge).some(edge => edge.to === details.superType)).toBe(false);
+}
+
 /**
  * Creates TypirServices dedicated for testing purposes,
  * with the default module containing the default implements for Typir, which might be exchanged by the given optional customized module.
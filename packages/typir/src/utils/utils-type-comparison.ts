@@ -6,8 +6,11 @@
 
 import { assertUnreachable } from 'langium';
 import { isType, Type } from '../graph/type-node.js';
+import { TypeInitializer } from '../initialization/type-initializer.js';
+import { TypeSelector } from '../initialization/type-selector.js';
 import { Kind } from '../kinds/kind.js';
 import { InferenceProblem } from '../services/inference.js';
+import { SubTypeEdge } from '../services/subtype.js';
 import { TypirServices } from '../typir.js';
 import { assertTrue } from '../utils/utils.js';
 import { isNameTypePair, isSpecificTypirProblem, NameTypePair, TypirProblem } from './utils-definitions.js';
@@ -35,6 +38,57 @@ export function createTypeCheckStrategy(strategy: TypeCheckStrategy, typir: Typi
     }
 }
 
+/**
+ * Calculates the most specific type, to which all the given types are equal or of which they are sub-types,
+ * e.g. the type of the elements of an array literal.
+ * @param types the types
+ * @param typir the Typir services
+ * @returns the common super type or undefined, if there are no types, no common super type or no unique most specific common super type
+ */
+export function calculateCommonSuperType(types: Type[], typir: TypirServices): Type | undefined {
+    if (types.length <= 0) {
+        return undefined;
+    }
+    const isEqualOrSubType = (sub: Type, superr: Type) => typir.Equality.areTypesEqual(sub, superr) || typir.Subtype.isSubType(sub, superr);
+    // the candidates are the first type and all its (transitive) super types
+    const candidates = [types[0], ...typir.infrastructure.GraphAlgorithms.collectReachableTypes(types[0], [SubTypeEdge])]
+        .filter(candidate => types.every(type => isEqualOrSubType(type, candidate)));
+    // the common super type needs to be more specific than all other candidates
+    const result = candidates.filter(candidate => candidates.every(other => isEqualOrSubType(candidate, other)));
+    return result.length >= 1 ? result[0] : undefined;
+}
+
+/**
+ * Returns the already existing type with the given identifier or creates a new type, e.g. for the types of literals, whose element types are inferred.
+ * @param identifier the identifier of the requested type
+ * @param isExpectedType checks, whether an existing type with this identifier is the requested type
+ * @param create creates the requested type, all types it depends on need to be completed already, since the new type is expected to be directly completed
+ * @param typir the Typir services
+ * @returns the existing or the new type
+ */
+export function getOrCreateType<T extends Type>(identifier: string, isExpectedType: (type: unknown) => type is T, create: () => TypeInitializer<T>, typir: TypirServices): T {
+    const existing = typir.infrastructure.Graph.getType(identifier);
+    if (isExpectedType(existing)) {
+        return existing;
+    }
+    return create().getTypeFinal()!;
+}
+
+/**
+ * Resolves the type to use, if no more specific type can be calculated, e.g. for the element types of empty literals.
+ * @param fallbackType the configured fallback type
+ * @param typir the Typir services
+ * @returns the configured fallback type or the top type, if no fallback type is configured
+ */
+export function resolveFallbackType(fallbackType: TypeSelector | undefined, typir: TypirServices): Type {
+    if (fallbackType) {
+        return typir.infrastructure.TypeResolver.resolve(fallbackType);
+    } else {
+        const top = typir.factory.Top;
+        return top.get({}) ?? top.create({});
+    }
+}
+
 export interface ValueConflict extends TypirProblem {
     readonly $problem: 'ValueConflict';
     // 'undefined' means value is missing, 'string' is the string representation of the value
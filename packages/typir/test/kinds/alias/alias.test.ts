@@ -0,0 +1,67 @@
+/******************************************************************************
+ * Copyright 2025 TypeFox GmbH
+ * This program and the accompanying materials are made available under the
+ * terms of the MIT License, which is available in the project root.
+ ******************************************************************************/
+
+import { beforeEach, describe, expect, test } from 'vitest';
+import { isAliasType, PrimitiveType } from '../../../src/index.js';
+import { DoubleLiteral, IntegerLiteral, StringLiteral } from '../../../src/test/predefined-language-nodes.js';
+import { TypirServices } from '../../../src/typir.js';
+import { createTypirServicesForTesting, expectToBeType } from '../../../src/utils/test-utils.js';
+
+describe('Tests for alias types', () => {
+    let typir: TypirServices;
+    let integerType: PrimitiveType;
+    let doubleType: PrimitiveType;
+    let stringType: PrimitiveType;
+
+    beforeEach(() => {
+        typir = createTypirServicesForTesting();
+        integerType = typir.factory.Primitives.create({ primitiveName: 'integer', inferenceRules: node => node instanceof IntegerLiteral });
+        doubleType = typir.factory.Primitives.create({ primitiveName: 'double', inferenceRules: node => node instanceof DoubleLiteral });
+        stringType = typir.factory.Primitives.create({ primitiveName: 'string', inferenceRules: node => node instanceof StringLiteral });
+        typir.Subtype.markAsSubType(integerType, doubleType);
+        typir.Conversion.markAsConvertible(integerType, stringType, 'EXPLICIT');
+    });
+
+    test('Aliases are transparent', () => {
+        const meters = typir.factory.Aliases.create({ name: 'Meters', aliasOf: integerType }).getTypeFinal()!;
+        expectToBeType(meters, isAliasType, result => result.getAliasedType() === integerType);
+        expect(typir.factory.Aliases.get({ name: 'Meters', aliasOf: integerType }).getType()).toBe(meters);
+
+        expect(typir.Equality.areTypesEqual(meters, integerType)).toBe(true);
+        expect(typir.Equality.areTypesEqual(integerType, meters)).toBe(true);
+        expect(typir.Equality.areTypesEqual(meters, doubleType)).toBe(false);
+        expect(typir.Subtype.isSubType(meters, doubleType)).toBe(true);
+        expect(typir.Assignability.isAssignable(meters, doubleType)).toBe(true);
+        expect(typir.Assignability.isAssignable(integerType, meters)).toBe(true);
+        expect(typir.Assignability.isAssignable(doubleType, meters)).toBe(false);
+        expect(typir.Conversion.getConversion(meters, stringType)).toBe('EXPLICIT');
+
+        // aliases of aliases
+        const distance = typir.factory.Aliases.create({ name: 'Distance', aliasOf: meters }).getTypeFinal()!;
+        expect(typir.Equality.areTypesEqual(distance, integerType)).toBe(true);
+        expect(typir.Assignability.isAssignable(distance, doubleType)).toBe(true);
+    });
+
+    test('The printer uses the name of the alias', () => {
+        const meters = typir.factory.Aliases.create({ name: 'Meters', aliasOf: integerType }).getTypeFinal()!;
+        expect(typir.Printer.printTypeName(meters)).toBe('Meters');
+        expect(typir.Printer.printTypeUserRepresentation(meters)).toBe('Meters = integer');
+        const problem = typir.Assignability.getAssignabilityProblem(meters, stringType)!;
+        expect(typir.Printer.printAssignabilityProblem(problem)).toBe("The type 'Meters' is not assignable to the type 'string'.");
+    });
+
+    test('Aliases might be declared before the aliased type', () => {
+        const alias = typir.factory.Aliases.create({ name: 'Person', aliasOf: 'class-PersonClass' });
+        const aliasType = alias.getTypeFinal()!;
+        expect(aliasType.isInState('Identifiable')).toBe(true);
+
+        const personClass = typir.factory.Classes.create({ className: 'PersonClass', fields: [], methods: [] }).getTypeFinal()!;
+        expect(aliasType.isInState('Completed')).toBe(true);
+        expect(aliasType.getAliasedType()).toBe(personClass);
+        expect(typir.Equality.areTypesEqual(aliasType, personClass)).toBe(true);
+    });
+
+});
@@ -0,0 +1,136 @@
+/******************************************************************************
+ * Copyright 2025 TypeFox GmbH
+ * This program and the accompanying materials are made available under the
+ * terms of the MIT License, which is available in the project root.
+ ******************************************************************************/
+
+/* eslint-disable @typescript-eslint/parameter-properties */
+
+import { beforeEach, describe, expect, test } from 'vitest';
+import { ArrayKind, ArrayType, isArrayType, isTopType, PrimitiveType, TypeSelector } from '../../../src/index.js';
+import { DoubleLiteral, IntegerLiteral, StringLiteral, TestExpressionNode } from '../../../src/test/predefined-language-nodes.js';
+import { TypirServices } from '../../../src/typir.js';
+import { createTypirServicesForTesting, expectDerivedSubTypeToFollowChanges, expectToBeType } from '../../../src/utils/test-utils.js';
+
+class ArrayLiteral extends TestExpressionNode {
+    constructor(
+        public elements: TestExpressionNode[],
+    ) { super(); }
+}
+
+class IndexAccess extends TestExpressionNode {
+    constructor(
+        public array: TestExpressionNode,
+        public index: TestExpressionNode,
+    ) { super(); }
+}
+
+describe('Tests for array types', () => {
+    let typir: TypirServices;
+    let integerType: PrimitiveType;
+    let doubleType: PrimitiveType;
+    let stringType: PrimitiveType;
+
+    beforeEach(() => {
+        typir = createTypirServicesForTesting();
+        createPrimitives();
+    });
+
+    function createPrimitives(): void {
+        integerType = typir.factory.Primitives.create({ primitiveName: 'integer', inferenceRules: node => node instanceof IntegerLiteral });
+        doubleType = typir.factory.Primitives.create({ primitiveName: 'double', inferenceRules: node => node instanceof DoubleLiteral });
+        stringType = typir.factory.Primitives.create({ primitiveName: 'string', inferenceRules: node => node instanceof StringLiteral });
+        typir.Subtype.markAsSubType(integerType, doubleType);
+    }
+
+    function createArray(elementType: TypeSelector): ArrayType {
+        return typir.factory.Arrays.create({ elementType }).getTypeFinal()!;
+    }
+
+    function addInferenceRules(): void {
+        typir.factory.Arrays.addInferenceRuleForLiterals({
+            filter: node => node instanceof ArrayLiteral,
+            matching: _node => true,
+            inputValuesForElements: node => node.elements,
+        });
+        typir.factory.Arrays.addInferenceRuleForIndexAccess({
+            filter: node => node instanceof IndexAccess,
+            matching: _node => true,
+            array: node => node.array,
+        });
+    }
+
+    test('Array types are identified by their element type', () => {
+        const integerArray = createArray(integerType);
+        expect(integerArray.getName()).toBe('integer[]');
+        expect(integerArray.getElementType()).toBe(integerType);
+        expect(createArray(integerType)).toBe(integerArray);
+        expect(createArray(stringType)).not.toBe(integerArray);
+        expect(typir.Equality.areTypesEqual(createArray(createArray(integerType)), createArray(integerArray))).toBe(true);
+        expect(createArray(integerArray).getName()).toBe('integer[][]');
+    });
+
+    test('Array types are covariant by default', () => {
+        const integerArray = createArray(integerType);
+        const doubleArray = createArray(doubleType);
+        const stringArray = createArray(stringType);
+        expect(typir.Subtype.isSubType(integerArray, doubleArray)).toBe(true);
+        expect(typir.Subtype.isSubType(doubleArray, integerArray)).toBe(false);
+        expect(typir.Subtype.isSubType(integerArray, stringArray)).toBe(false);
+        // nested arrays
+        expect(typir.Subtype.isSubType(createArray(integerArray), createArray(doubleArray))).toBe(true);
+    });
+
+    test('Sub-type relationships of (nested) arrays follow later changes of the relationships of their element types', () => {
+        const numberType = typir.factory.Primitives.create({ primitiveName: 'number' });
+        const numberArray = createArray(createArray(numberType));
+        const stringArray = createArray(createArray(stringType)); // created after the super type
+        expectDerivedSubTypeToFollowChanges(typir, { subType: stringArray, superType: numberArray, subDependency: stringType, superDependency: numberType,
+            typeToRemove: numberArray.getElementType(),
+            checkRelated: related => expect(typir.factory.Arrays.calculateCommonSuperType([stringArray, numberArray])).toBe(related ? numberArray : undefined),
+        });
+    });
+
+    test('The element types of array literals are the common super types of their elements', () => {
+        addInferenceRules();
+        expectToBeType(typir.Inference.inferType(new ArrayLiteral([new IntegerLiteral(1), new IntegerLiteral(2)])), isArrayType, result => result.getElementType() === integerType);
+        expectToBeType(typir.Inference.inferType(new ArrayLiteral([new IntegerLiteral(1), new DoubleLiteral(2.0)])), isArrayType, result => result.getElementType() === doubleType);
+        expectToBeType(typir.Inference.inferType(new ArrayLiteral([new DoubleLiteral(1.0), new IntegerLiteral(2)])), isArrayType, result => result.getElementType() === doubleType);
+        // nested array literals
+        const nested = typir.Inference.inferType(new ArrayLiteral([new ArrayLiteral([new IntegerLiteral(1)]), new ArrayLiteral([new DoubleLiteral(2.0)])]));
+        expectToBeType(nested, isArrayType, result => result.getName() === 'double[][]');
+        // the same array type is reused
+        expect(typir.Inference.inferType(new ArrayLiteral([new IntegerLiteral(3)]))).toBe(createArray(integerType));
+    });
+
+    test('Empty array literals and array literals without common super type use the top type as element type', () => {
+        addInferenceRules();
+        expectToBeType(typir.Inference.inferType(new ArrayLiteral([])), isArrayType, result => isTopType(result.getElementType()));
+        expectToBeType(typir.Inference.inferType(new ArrayLiteral([new IntegerLiteral(1), new StringLiteral('a')])), isArrayType, result => result.getName() === 'any[]');
+    });
+
+    test('Index accesses are inferred to the element type', () => {
+        addInferenceRules();
+        const literal = new ArrayLiteral([new IntegerLiteral(1), new DoubleLiteral(2.0)]);
+        expect(typir.Inference.inferType(new IndexAccess(literal, new IntegerLiteral(0)))).toBe(doubleType);
+        const nested = new ArrayLiteral([literal]);
+        expect(typir.Inference.inferType(new IndexAccess(new IndexAccess(nested, new IntegerLiteral(0)), new IntegerLiteral(1)))).toBe(doubleType);
+        // no array
+        expect(Array.isArray(typir.Inference.inferType(new IndexAccess(new StringLiteral('a'), new IntegerLiteral(0))))).toBe(true);
+    });
+
+    test('Array types are invariant, if configured', () => {
+        typir = createTypirServicesForTesting({ factory: { Arrays: services => new ArrayKind(services, { elementVariance: 'INVARIANT' }) } });
+        createPrimitives();
+        expect(typir.Subtype.isSubType(createArray(integerType), createArray(doubleType))).toBe(false);
+        expect(typir.Subtype.isSubType(createArray(doubleType), createArray(integerType))).toBe(false);
+    });
+
+    test('The fallback element type is configurable', () => {
+        typir = createTypirServicesForTesting({ factory: { Arrays: services => new ArrayKind(services, { fallbackElementType: 'string' }) } });
+        createPrimitives();
+        addInferenceRules();
+        expectToBeType(typir.Inference.inferType(new ArrayLiteral([])), isArrayType, result => result.getElementType() === stringType);
+    });
+
+});
@@ -0,0 +1,105 @@
+/******************************************************************************
+ * Copyright 2025 TypeFox GmbH
+ * This program and the accompanying materials are made available under the
+ * terms of the MIT License, which is available in the project root.
+ ******************************************************************************/
+
+/* eslint-disable @typescript-eslint/parameter-properties */
+
+import { beforeEach, describe, expect, test } from 'vitest';
+import { ClassType, createAbstractMethodsImplementedValidation, createNoAbstractClassInstantiationValidation, CreateMethodDetails, NO_PARAMETER_NAME, PrimitiveType } from '../../../src/index.js';
+import { TestExpressionNode, TestLanguageNode } from '../../../src/test/predefined-language-nodes.js';
+import { TypirServices } from '../../../src/typir.js';
+import { createTypirServicesForTesting } from '../../../src/utils/test-utils.js';
+
+class ClassDeclaration extends TestLanguageNode {
+    constructor(
+        public className: string,
+    ) { super(); }
+}
+
+class NewExpression extends TestExpressionNode {
+    constructor(
+        public className: string,
+    ) { super(); }
+}
+
+describe('Tests for abstract classes and abstract methods', () => {
+    let typir: TypirServices;
+    let integerType: PrimitiveType;
+    let doubleType: PrimitiveType;
+    let classShape: ClassType;
+
+    beforeEach(() => {
+        typir = createTypirServicesForTesting();
+        integerType = typir.factory.Primitives.create({ primitiveName: 'integer' });
+        doubleType = typir.factory.Primitives.create({ primitiveName: 'double' });
+        typir.validation.Collector.addValidationRule(createNoAbstractClassInstantiationValidation(node => node instanceof NewExpression));
+        typir.validation.Collector.addValidationRule(createAbstractMethodsImplementedValidation(node => node instanceof ClassDeclaration));
+
+        // abstract class Shape { abstract area(): double; abstract scale(factor: integer): double }
+        classShape = createClass('Shape', true, undefined, [method('area', false, true), method('scale', true, true)]);
+    });
+
+    function method(functionName: string, withInput: boolean, abstract: boolean): CreateMethodDetails {
+        return {
+            functionName,
+            outputParameter: { name: NO_PARAMETER_NAME, type: doubleType },
+            inputParameters: withInput ? [{ name: 'factor', type: integerType }] : [],
+            modifiers: { abstract },
+        };
+    }
+
+    function createClass(className: string, abstract: boolean, superClass: ClassType | undefined, methods: CreateMethodDetails[]): ClassType {
+        return typir.factory.Classes.create({
+            className,
+            abstract,
+            superClasses: superClass,
+            fields: [],
+            methods,
+            inferenceRuleForDeclaration: node => node instanceof ClassDeclaration && node.className === className,
+            inferenceRuleForConstructor: {
+                filter: node => node instanceof NewExpression,
+                matching: node => node.className === className,
+                inputValuesForFields: _node => new Map(),
+            },
+        }).getTypeFinal()!;
+    }
+
+    test('Abstract classes cannot be instantiated', () => {
+        const classCircle = createClass('Circle', false, classShape, [method('area', false, false), method('scale', true, false)]);
+        expect(classShape.isAbstract()).toBe(true);
+        expect(classCircle.isAbstract()).toBe(false);
+        expect(classShape.getUserRepresentation()).toBe('abstract Shape { abstract area(): double, abstract scale(factor: integer): double }');
+
+        // the type is still inferred, but the instantiation is reported
+        expect(typir.Inference.inferType(new NewExpression('Shape'))).toBe(classShape);
+        expect(typir.validation.Collector.validate(new NewExpression('Shape')).map(problem => problem.message))
+            .toEqual(["The abstract class 'Shape' cannot be instantiated."]);
+        expect(typir.validation.Collector.validate(new NewExpression('Circle'))).toHaveLength(0);
+    });
+
+    test('Concrete classes need to implement all inherited abstract methods', () => {
+        createClass('Square', false, classShape, [method('area', false, false)]);
+        expect(typir.validation.Collector.validate(new ClassDeclaration('Square')).map(problem => problem.message)).toEqual([
+            "The class 'Square' is not abstract and does not implement the abstract method 'scale(factor: integer): double' of class 'Shape'.",
+        ]);
+        // abstract sub-classes don't need to implement them
+        expect(typir.validation.Collector.validate(new ClassDeclaration('Shape'))).toHaveLength(0);
+    });
+
+    test('Abstract methods might be implemented by classes in between', () => {
+        const classPolygon = createClass('Polygon', true, classShape, [method('scale', true, false)]);
+        const classTriangle = createClass('Triangle', false, classPolygon, [method('area', false, false)]);
+        expect(classPolygon.getUnimplementedAbstractMethods().map(m => m.name)).toEqual(['area']);
+        expect(classTriangle.getUnimplementedAbstractMethods()).toHaveLength(0);
+        expect(typir.validation.Collector.validate(new ClassDeclaration('Triangle'))).toHaveLength(0);
+
+        // methods which are re-declared as abstract need to be implemented again
+        const classRectangle = createClass('Rectangle', true, classPolygon, [method('scale', true, true)]);
+        createClass('Box', false, classRectangle, [method('area', false, false)]);
+        expect(classRectangle.getUnimplementedAbstractMethods().map(m => `${m.name} of ${m.declaringClass.getName()}`)).toEqual(['scale of Rectangle', 'area of Shape']);
+        expect(typir.validation.Collector.validate(new ClassDeclaration('Box'))).toHaveLength(1);
+    });
+
+});
@@ -0,0 +1,91 @@
+/******************************************************************************
+ * Copyright 2025 TypeFox GmbH
+ * This program and the accompanying materials are made available under the
+ * terms of the MIT License, which is available in the project root.
+ ******************************************************************************/
+
+/* eslint-disable @typescript-eslint/parameter-properties */
+
+import { beforeEach, describe, expect, test } from 'vitest';
+import { ClassType, CreateConstructorDetails, PrimitiveType } from '../../../src/index.js';
+import { IntegerLiteral, StringLiteral, TestExpressionNode } from '../../../src/test/predefined-language-nodes.js';
+import { TypirServices } from '../../../src/typir.js';
+import { createTypirServicesForTesting } from '../../../src/utils/test-utils.js';
+
+class NewExpression extends TestExpressionNode {
+    constructor(
+        public className: string,
+        public args: TestExpressionNode[],
+    ) { super(); }
+}
+
+describe('Tests for explicit and overloaded constructors of classes', () => {
+    let typir: TypirServices;
+    let integerType: PrimitiveType;
+    let stringType: PrimitiveType;
+    let classPerson: ClassType;
+
+    beforeEach(() => {
+        typir = createTypirServicesForTesting();
+        integerType = typir.factory.Primitives.create({ primitiveName: 'integer', inferenceRules: node => node instanceof IntegerLiteral });
+        stringType = typir.factory.Primitives.create({ primitiveName: 'string', inferenceRules: node => node instanceof StringLiteral });
+
+        // class Person { name: string; age: integer; constructor(name: string); constructor(name: string, age: integer) }
+        classPerson = typir.factory.Classes.create({
+            className: 'Person',
+            fields: [{ name: 'name', type: stringType }, { name: 'age', type: integerType }],
+            methods: [],
+            constructors: [
+                createConstructor('Person', [['name', stringType]]),
+                createConstructor('Person', [['name', stringType], ['age', integerType]]),
+            ],
+        }).getTypeFinal()!;
+    });
+
+    function createConstructor(className: string, parameters: Array<[string, PrimitiveType]>): CreateConstructorDetails<NewExpression> {
+        return {
+            inputParameters: parameters.map(([name, type]) => ({ name, type })),
+            inferenceRuleForCalls: {
+                filter: node => node instanceof NewExpression,
+                matching: node => node.className === className,
+                inputArguments: node => node.args,
+            },
+        };
+    }
+
+    test('Constructors are functions which return their class', () => {
+        const constructors = classPerson.getConstructors();
+        expect(constructors.map(constructor => constructor.getUserRepresentation())).toEqual([
+            'Person(name: string): Person',
+            'Person(name: string, age: integer): Person',
+        ]);
+        expect(constructors.every(constructor => constructor.getOutput()?.type === classPerson)).toBe(true);
+    });
+
+    test('Calls of overloaded constructors are inferred to the class', () => {
+        expect(typir.Inference.inferType(new NewExpression('Person', [new StringLiteral('Alice')]))).toBe(classPerson);
+        expect(typir.Inference.inferType(new NewExpression('Person', [new StringLiteral('Bob'), new IntegerLiteral(42)]))).toBe(classPerson);
+        expect(typir.validation.Collector.validate(new NewExpression('Person', [new StringLiteral('Bob'), new IntegerLiteral(42)]))).toHaveLength(0);
+    });
+
+    test('Wrong arguments for constructors are reported like for function calls', () => {
+        const problems = typir.validation.Collector.validate(new NewExpression('Person', [new IntegerLiteral(42)]));
+        expect(problems).toHaveLength(1);
+        expect(problems[0].message).toBe("The given operands for the overloaded function 'Person' match the expected types only partially.");
+        expect(problems[0].subProblems).toHaveLength(2); // one problem for each overloaded constructor
+    });
+
+    test('Constructors of super classes are not inherited', () => {
+        const classStudent = typir.factory.Classes.create({
+            className: 'Student',
+            superClasses: classPerson,
+            fields: [],
+            methods: [],
+            constructors: [createConstructor('Student', [['id', integerType]])],
+        }).getTypeFinal()!;
+        expect(classStudent.getConstructors()).toHaveLength(1);
+        expect(typir.Inference.inferType(new NewExpression('Student', [new IntegerLiteral(1)]))).toBe(classStudent);
+        expect(typir.validation.Collector.validate(new NewExpression('Student', [new StringLiteral('Alice')]))).toHaveLength(1);
+    });
+
+});
@@ -0,0 +1,157 @@
+/******************************************************************************
+ * Copyright 2025 TypeFox GmbH
+ * This program and the accompanying materials are made available under the
+ * terms of the MIT License, which is available in the project root.
+ ******************************************************************************/
+
+/* eslint-disable @typescript-eslint/parameter-properties */
+
+import { beforeEach, describe, expect, test } from 'vitest';
+import { ClassKind, ClassKindOptions, ClassType, createMemberAccessValidation, CreateFieldDetails, InferenceRuleNotApplicable, NO_PARAMETER_NAME, PrimitiveType } from '../../../src/index.js';
+import { TestExpressionNode, TestLanguageNode } from '../../../src/test/predefined-language-nodes.js';
+import { TypirServices } from '../../../src/typir.js';
+import { createTypirServicesForTesting, expectDerivedSubTypeToFollowChanges } from '../../../src/utils/test-utils.js';
+
+class ClassDeclaration extends TestLanguageNode {
+    constructor(
+        public className: string,
+    ) { super(); }
+}
+
+class MemberAccess extends TestExpressionNode {
+    constructor(
+        public receiverClassName: string,
+        public memberName: string,
+        public accessingClass: ClassDeclaration | undefined,
+        public isWrite: boolean = false,
+    ) { super(); }
+}
+
+describe('Tests for visibility and other modifiers of fields and methods of classes', () => {
+    let typir: TypirServices;
+    let integerType: PrimitiveType;
+    let stringType: PrimitiveType;
+
+    beforeEach(() => {
+        typir = createTypirServicesForTesting();
+        integerType = typir.factory.Primitives.create({ primitiveName: 'integer' });
+        stringType = typir.factory.Primitives.create({ primitiveName: 'string' });
+    });
+
+    function createClass(className: string, superClass: ClassType | undefined, fields: CreateFieldDetails[]): ClassType {
+        return typir.factory.Classes.create({
+            className,
+            superClasses: superClass,
+            fields,
+            methods: [{
+                functionName: 'secret', outputParameter: { name: NO_PARAMETER_NAME, type: integerType }, inputParameters: [],
+                modifiers: { visibility: 'private' },
+            }],
+            inferenceRuleForDeclaration: node => node instanceof ClassDeclaration && node.className === className,
+            inferenceRuleForFieldAccess: node => node instanceof MemberAccess && node.receiverClassName === className ? node.memberName : InferenceRuleNotApplicable,
+            accessingClassForFieldAccess: node => (node as MemberAccess).accessingClass,
+        }).getTypeFinal()!;
+    }
+
+    function createPersonAndStudent(): [ClassType, ClassType] {
+        // class Person { private id: integer; protected readonly name: string; static count: integer; private secret(): integer }
+        const person = createClass('Person', undefined, [
+            { name: 'id', type: integerType, modifiers: { visibility: 'private' } },
+            { name: 'name', type: stringType, modifiers: { visibility: 'protected', readonly: true } },
+            { name: 'count', type: integerType, modifiers: { static: true } },
+        ]);
+        // class Student extends Person { matriculation: integer }
+        const student = createClass('Student', person, [{ name: 'matriculation', type: integerType }]);
+        return [person, student];
+    }
+
+    test('Modifiers are part of the user representation', () => {
+        const [person] = createPersonAndStudent();
+        expect(person.getUserRepresentation()).toBe('Person { private id: integer, protected readonly name: string, static count: integer, private secret(): integer }');
+        expect(person.getField('name', false)?.modifiers).toEqual({ visibility: 'protected', readonly: true });
+        expect(person.getMethodModifiers(person.getMethods(false)[0])).toEqual({ visibility: 'private' });
+    });
+
+    test('Field accesses respect the visibility of the fields', () => {
+        createPersonAndStudent();
+        const inPerson = new ClassDeclaration('Person');
+        const inStudent = new ClassDeclaration('Student');
+        // private: only inside the declaring class
+        expect(typir.Inference.inferType(new MemberAccess('Person', 'id', inPerson))).toBe(integerType);
+        expect(typir.Inference.inferType(new MemberAccess('Student', 'id', inStudent))).not.toBe(integerType);
+        expect(typir.Inference.inferType(new MemberAccess('Person', 'id', undefined))).not.toBe(integerType);
+        // protected: inside the class hierarchy
+        expect(typir.Inference.inferType(new MemberAccess('Student', 'name', inStudent))).toBe(stringType);
+        expect(typir.Inference.inferType(new MemberAccess('Person', 'name', undefined))).not.toBe(stringType);
+        // public: everywhere
+        expect(typir.Inference.inferType(new MemberAccess('Student', 'matriculation', undefined))).toBe(integerType);
+        expect(typir.Inference.inferType(new MemberAccess('Person', 'count', undefined))).toBe(integerType);
+    });
+
+    test('Illegal accesses and writes to readonly fields are reported by the validation', () => {
+        createPersonAndStudent();
+        typir.validation.Collector.addValidationRule(createMemberAccessValidation({
+            filter: node => node instanceof MemberAccess,
+            receiver: node => new ClassDeclaration(node.receiverClassName),
+            memberName: node => node.memberName,
+            accessingClass: node => node.accessingClass,
+            isWriteAccess: node => node.isWrite,
+        }));
+        const inStudent = new ClassDeclaration('Student');
+        const messages = (node: MemberAccess) => typir.validation.Collector.validate(node).map(problem => problem.message);
+
+        expect(messages(new MemberAccess('Student', 'matriculation', undefined, true))).toHaveLength(0);
+        expect(messages(new MemberAccess('Student', 'name', inStudent))).toHaveLength(0);
+        expect(messages(new MemberAccess('Student', 'name', inStudent, true))).toEqual(["The field 'name' of class 'Person' is readonly and cannot be written."]);
+        expect(messages(new MemberAccess('Person', 'name', undefined))).toEqual(["The field 'name' of class 'Person' is protected and cannot be accessed here."]);
+        expect(messages(new MemberAccess('Student', 'id', inStudent))).toEqual(["The field 'id' of class 'Person' is private and cannot be accessed here."]);
+        expect(messages(new MemberAccess('Student', 'secret', undefined))).toEqual(["The method 'secret' of class 'Student' is private and cannot be accessed here."]);
+        expect(messages(new MemberAccess('Student', 'secret', inStudent))).toHaveLength(0); // Student declares its own private method 'secret'
+        expect(messages(new MemberAccess('Person', 'secret', new ClassDeclaration('Person')))).toHaveLength(0);
+    });
+
+    describe('Structural typing', () => {
+        function createStructuralClasses(options: Partial<ClassKindOptions>): [ClassType, ClassType] {
+            typir = createTypirServicesForTesting({
+                factory: {
+                    Classes: services => new ClassKind(services, { typing: 'Structural', subtypeFieldChecking: 'SUB_TYPE', ...options }),
+                },
+            });
+            integerType = typir.factory.Primitives.create({ primitiveName: 'integer' });
+            stringType = typir.factory.Primitives.create({ primitiveName: 'string' });
+            // class Point { x: integer; private cache: string; static origin: string }
+            const point = typir.factory.Classes.create({ className: 'Point', fields: [
+                { name: 'x', type: integerType },
+                { name: 'cache', type: stringType, modifiers: { visibility: 'private' } },
+                { name: 'origin', type: stringType, modifiers: { static: true } },
+            ], methods: [] }).getTypeFinal()!;
+            // class Coordinate { x: integer; y: integer }
+            const coordinate = typir.factory.Classes.create({ className: 'Coordinate', fields: [
+                { name: 'x', type: integerType },
+                { name: 'y', type: integerType },
+            ], methods: [] }).getTypeFinal()!;
+            return [point, coordinate];
+        }
+
+        test('Private and static fields are excluded by default', () => {
+            const [point, coordinate] = createStructuralClasses({});
+            expect(typir.Subtype.isSubType(coordinate, point)).toBe(true);
+            expect(typir.Subtype.isSubType(point, coordinate)).toBe(false); // 'y' is missing
+        });
+
+        test('Private fields might be required', () => {
+            const [point, coordinate] = createStructuralClasses({ privateMembersInStructuralTyping: 'REQUIRED' });
+            expect(typir.Subtype.isSubType(coordinate, point)).toBe(false); // 'cache' is missing
+            expect(typir.Subtype.isSubType(point, coordinate)).toBe(false);
+        });
+
+        test('Sub-type relationships follow later changes of the relationships of the field types', () => {
+            const coordinate = createStructuralClasses({})[1];
+            const numberType = typir.factory.Primitives.create({ primitiveName: 'number' });
+            // class Line { x: number }, which is created after its sub-class
+            const line = typir.factory.Classes.create({ className: 'Line', fields: [{ name: 'x', type: numberType }], methods: [] }).getTypeFinal()!;
+            expectDerivedSubTypeToFollowChanges(typir, { subType: coordinate, superType: line, subDependency: integerType, superDependency: numberType });
+        });
+    });
+
+});
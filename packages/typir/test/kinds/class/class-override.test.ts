@@ -0,0 +1,91 @@
+/******************************************************************************
+ * Copyright 2025 TypeFox GmbH
+ * This program and the accompanying materials are made available under the
+ * terms of the MIT License, which is available in the project root.
+ ******************************************************************************/
+
+/* eslint-disable @typescript-eslint/parameter-properties */
+
+import { beforeEach, describe, expect, test } from 'vitest';
+import { ClassOverrideValidation, ClassOverrideValidationOptions, ClassType, CreateFieldDetails, NO_PARAMETER_NAME, PrimitiveType, ValidationProblem } from '../../../src/index.js';
+import { TestLanguageNode } from '../../../src/test/predefined-language-nodes.js';
+import { TypirServices } from '../../../src/typir.js';
+import { createTypirServicesForTesting } from '../../../src/utils/test-utils.js';
+
+class ClassDeclaration extends TestLanguageNode {
+    constructor(
+        public className: string,
+    ) { super(); }
+}
+
+describe('Tests for overriding methods and shadowing fields in class hierarchies', () => {
+    let typir: TypirServices;
+    let integerType: PrimitiveType;
+    let doubleType: PrimitiveType;
+    let stringType: PrimitiveType;
+    let classAnimal: ClassType;
+
+    beforeEach(() => {
+        typir = createTypirServicesForTesting();
+        integerType = typir.factory.Primitives.create({ primitiveName: 'integer' });
+        doubleType = typir.factory.Primitives.create({ primitiveName: 'double' });
+        stringType = typir.factory.Primitives.create({ primitiveName: 'string' });
+        typir.Subtype.markAsSubType(integerType, doubleType);
+
+        // class Animal { name: string; weight(factor: integer): double }
+        classAnimal = createClass('Animal', undefined, [{ name: 'name', type: stringType }], integerType, doubleType);
+    });
+
+    function createClass(className: string, superClass: ClassType | undefined, fields: CreateFieldDetails[], input: PrimitiveType, output: PrimitiveType): ClassType {
+        return typir.factory.Classes.create({
+            className,
+            superClasses: superClass,
+            fields,
+            methods: [{ functionName: 'weight', outputParameter: { name: NO_PARAMETER_NAME, type: output }, inputParameters: [{ name: 'factor', type: input }] }],
+            inferenceRuleForDeclaration: node => node instanceof ClassDeclaration && node.className === className,
+        }).getTypeFinal()!;
+    }
+
+    function validate(classNames: string[], options?: Partial<ClassOverrideValidationOptions>): ValidationProblem[] {
+        const validation = new ClassOverrideValidation(typir, node => node instanceof ClassDeclaration, undefined, options);
+        const root = new ClassDeclaration('root');
+        return [
+            ...validation.beforeValidation(root, typir),
+            ...classNames.flatMap(name => validation.validation(new ClassDeclaration(name), typir)),
+            ...validation.afterValidation(root, typir),
+        ];
+    }
+
+    test('Overriding methods with contravariant inputs and covariant outputs are fine', () => {
+        createClass('Dog', classAnimal, [], doubleType, integerType); // weight(factor: double): integer
+        createClass('Cat', classAnimal, [], integerType, doubleType); // the same signature
+        expect(validate(['Animal', 'Dog', 'Cat'])).toHaveLength(0);
+    });
+
+    test('Overriding methods with incompatible signatures are reported', () => {
+        createClass('Fish', classAnimal, [], stringType, doubleType); // weight(factor: string): double
+        createClass('Bird', classAnimal, [], integerType, stringType); // weight(factor: integer): string
+        const problems = validate(['Animal', 'Fish', 'Bird']);
+        expect(problems.map(problem => problem.message)).toEqual([
+            "The method 'weight(factor: string): double' of class 'Fish' is not compatible with the overridden method 'weight(factor: integer): double' of class 'Animal'.",
+            "The method 'weight(factor: integer): string' of class 'Bird' is not compatible with the overridden method 'weight(factor: integer): double' of class 'Animal'.",
+        ]);
+        expect(problems[0].subProblems).toHaveLength(1);
+    });
+
+    test('The strictness of the checks is configurable', () => {
+        createClass('Dog', classAnimal, [], doubleType, integerType);
+        expect(validate(['Dog'], { methodChecking: 'EQUAL_TYPE' })).toHaveLength(1);
+        expect(validate(['Dog'], { methodChecking: 'ASSIGNABLE_TYPE' })).toHaveLength(0);
+    });
+
+    test('Shadowed fields with incompatible types are reported', () => {
+        createClass('Dog', classAnimal, [{ name: 'name', type: stringType }], integerType, doubleType);
+        createClass('Cat', classAnimal, [{ name: 'name', type: integerType }], integerType, doubleType);
+        expect(validate(['Dog'])).toHaveLength(0);
+        const problems = validate(['Cat']);
+        expect(problems).toHaveLength(1);
+        expect(problems[0].message).toBe("The field 'name' of class 'Cat' with type 'integer' shadows the field of class 'Animal' with the incompatible type 'string'.");
+    });
+
+});
@@ -0,0 +1,88 @@
+/******************************************************************************
+ * Copyright 2025 TypeFox GmbH
+ * This program and the accompanying materials are made available under the
+ * terms of the MIT License, which is available in the project root.
+ ******************************************************************************/
+
+import { beforeEach, describe, expect, test } from 'vitest';
+import { ClassType, isClassType, isFunctionType, isTupleType, NO_PARAMETER_NAME, PrimitiveType, TypeVariableType } from '../../../src/index.js';
+import { TypirServices } from '../../../src/typir.js';
+import { createTypirServicesForTesting, expectToBeType } from '../../../src/utils/test-utils.js';
+
+describe('Tests for generic classes', () => {
+    let typir: TypirServices;
+    let integerType: PrimitiveType;
+    let stringType: PrimitiveType;
+    let typeT: TypeVariableType;
+    let classBox: ClassType;
+
+    beforeEach(() => {
+        typir = createTypirServicesForTesting();
+        integerType = typir.factory.Primitives.create({ primitiveName: 'integer' });
+        stringType = typir.factory.Primitives.create({ primitiveName: 'string' });
+        typeT = typir.factory.TypeVariables.create({ variableName: 'T', owner: 'Box' });
+
+        // class Box<T> { value: T; pair: [T, string]; get(): T }
+        classBox = typir.factory.Classes.create({
+            className: 'Box',
+            typeParameters: [typeT],
+            fields: [
+                { name: 'value', type: typeT },
+                { name: 'pair', type: typir.factory.Tuples.create({ elementTypes: [typeT, stringType] }) },
+            ],
+            methods: [{ functionName: 'get', outputParameter: { name: NO_PARAMETER_NAME, type: typeT }, inputParameters: [] }],
+        }).getTypeFinal()!;
+    });
+
+    test('Generic class with type parameters', () => {
+        expect(classBox.isGeneric()).toBe(true);
+        expect(classBox.getTypeParameters()).toEqual([typeT]);
+        expect(classBox.getGenericClass()).toBeUndefined();
+        expect(classBox.getName()).toBe('Box<T>');
+    });
+
+    test('Instantiation replaces type variables in fields and methods', () => {
+        const boxInteger = typir.factory.Classes.instantiate({ genericClass: classBox, typeArguments: [integerType] }).getType()!;
+        expectToBeType(boxInteger, isClassType, result => result.getName() === 'Box<integer>');
+        expect(boxInteger.isGeneric()).toBe(false);
+        expect(boxInteger.getGenericClass()).toBe(classBox);
+        expect(boxInteger.getTypeArguments()).toEqual([integerType]);
+        expect(boxInteger.getFields(false).get('value')).toBe(integerType);
+        expectToBeType(boxInteger.getFields(false).get('pair'), isTupleType, result => result.getElementTypes()[0] === integerType);
+        expectToBeType(boxInteger.getMethods(false)[0], isFunctionType, result => result.getOutput()?.type === integerType);
+        // the generic class is unchanged
+        expect(classBox.getFields(false).get('value')).toBe(typeT);
+    });
+
+    test('Identical instantiations are the same type', () => {
+        const boxInteger1 = typir.factory.Classes.instantiate({ genericClass: classBox, typeArguments: [integerType] }).getType();
+        const boxInteger2 = typir.factory.Classes.instantiate({ genericClass: 'class-Box', typeArguments: ['integer'] }).getType();
+        const boxString = typir.factory.Classes.instantiate({ genericClass: classBox, typeArguments: [stringType] }).getType();
+        expect(boxInteger1).toBeDefined();
+        expect(boxInteger1).toBe(boxInteger2);
+        expect(boxInteger1).not.toBe(boxString);
+        expect(typir.Equality.areTypesEqual(boxInteger1!, boxString!)).toBe(false);
+    });
+
+    test('Instances of generic classes inside of generic classes are instantiated as well', () => {
+        // class Wrapper<T> { box: Box<T> }
+        const typeWrapperT = typir.factory.TypeVariables.create({ variableName: 'T', owner: 'Wrapper' });
+        expect(typeWrapperT).not.toBe(typeT); // the type parameters of different classes are different, even if they have the same name
+        const boxT = typir.factory.Classes.instantiate({ genericClass: classBox, typeArguments: [typeWrapperT] });
+        expect(boxT.getType()?.getName()).toBe('Box<T>');
+        const classWrapper = typir.factory.Classes.create({
+            className: 'Wrapper',
+            typeParameters: [typeWrapperT],
+            fields: [{ name: 'box', type: boxT }],
+            methods: [],
+        }).getTypeFinal()!;
+        const wrapperString = typir.factory.Classes.instantiate({ genericClass: classWrapper, typeArguments: [stringType] }).getType()!;
+        expectToBeType(wrapperString.getFields(false).get('box'), isClassType, result => result.getName() === 'Box<string>');
+    });
+
+    test('Wrong number of type arguments', () => {
+        expect(() => typir.factory.Classes.instantiate({ genericClass: classBox, typeArguments: [integerType, stringType] }))
+            .toThrowError("The generic class 'Box<T>' has 1 type parameters, but 2 type arguments are given.");
+    });
+
+});
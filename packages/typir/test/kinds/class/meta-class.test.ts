@@ -0,0 +1,87 @@
+/******************************************************************************
+ * Copyright 2025 TypeFox GmbH
+ * This program and the accompanying materials are made available under the
+ * terms of the MIT License, which is available in the project root.
+ ******************************************************************************/
+
+/* eslint-disable @typescript-eslint/parameter-properties */
+
+import { beforeEach, describe, expect, test } from 'vitest';
+import { ClassType, createMemberAccessValidation, InferenceRuleNotApplicable, isMetaClassType, MetaClassType, NO_PARAMETER_NAME, PrimitiveType } from '../../../src/index.js';
+import { TestExpressionNode } from '../../../src/test/predefined-language-nodes.js';
+import { TypirServices } from '../../../src/typir.js';
+import { createTypirServicesForTesting, expectToBeType } from '../../../src/utils/test-utils.js';
+
+class ClassReference extends TestExpressionNode {
+    constructor(
+        public className: string,
+    ) { super(); }
+}
+
+class StaticFieldAccess extends TestExpressionNode {
+    constructor(
+        public receiver: ClassReference,
+        public fieldName: string,
+    ) { super(); }
+}
+
+describe('Tests for meta classes with static fields and methods', () => {
+    let typir: TypirServices;
+    let doubleType: PrimitiveType;
+    let classMath: ClassType;
+
+    beforeEach(() => {
+        typir = createTypirServicesForTesting();
+        doubleType = typir.factory.Primitives.create({ primitiveName: 'double' });
+
+        // class Math { static PI: double; precision: double; static max(a: double, b: double): double }
+        classMath = typir.factory.Classes.create({
+            className: 'Math',
+            fields: [
+                { name: 'PI', type: doubleType, modifiers: { static: true, readonly: true } },
+                { name: 'precision', type: doubleType },
+            ],
+            methods: [{
+                functionName: 'max',
+                outputParameter: { name: NO_PARAMETER_NAME, type: doubleType },
+                inputParameters: [{ name: 'a', type: doubleType }, { name: 'b', type: doubleType }],
+                modifiers: { static: true },
+            }],
+            inferenceRuleForClassReference: node => node instanceof ClassReference && node.className === 'Math',
+            inferenceRuleForStaticFieldAccess: node => node instanceof StaticFieldAccess && node.receiver.className === 'Math' ? node.fieldName : InferenceRuleNotApplicable,
+        }).getTypeFinal()!;
+    });
+
+    test('References to classes in value positions are inferred to their meta class', () => {
+        const metaClass = typir.Inference.inferType(new ClassReference('Math'));
+        expectToBeType(metaClass, isMetaClassType, result => result.classType === classMath);
+        expect((metaClass as MetaClassType).getUserRepresentation()).toBe('typeof Math { PI: double, max(a: double, b: double): double }');
+        expect(typir.Inference.inferType(new ClassReference('Math'))).toBe(metaClass); // the meta class is created only once
+        expect(typir.Assignability.isAssignable(metaClass as MetaClassType, classMath)).toBe(false);
+    });
+
+    test('Only static fields can be accessed via the class', () => {
+        expect(typir.Inference.inferType(new StaticFieldAccess(new ClassReference('Math'), 'PI'))).toBe(doubleType);
+        expect(typir.Inference.inferType(new StaticFieldAccess(new ClassReference('Math'), 'precision'))).not.toBe(doubleType);
+
+        typir.validation.Collector.addValidationRule(createMemberAccessValidation({
+            filter: node => node instanceof StaticFieldAccess,
+            receiver: node => node.receiver,
+            memberName: node => node.fieldName,
+            accessingClass: _node => undefined,
+            isWriteAccess: _node => false,
+        }));
+        expect(typir.validation.Collector.validate(new StaticFieldAccess(new ClassReference('Math'), 'PI'))).toHaveLength(0);
+        expect(typir.validation.Collector.validate(new StaticFieldAccess(new ClassReference('Math'), 'max'))).toHaveLength(0);
+        expect(typir.validation.Collector.validate(new StaticFieldAccess(new ClassReference('Math'), 'precision')).map(problem => problem.message))
+            .toEqual(["The field 'precision' of class 'Math' is not static and cannot be accessed via the class."]);
+    });
+
+    test('Meta classes are removed together with their classes', () => {
+        const metaClass = typir.Inference.inferType(new ClassReference('Math')) as MetaClassType;
+        expect(typir.infrastructure.Graph.getType(metaClass.getIdentifier())).toBe(metaClass);
+        typir.infrastructure.Graph.removeNode(classMath);
+        expect(typir.infrastructure.Graph.getType(metaClass.getIdentifier())).toBeUndefined();
+    });
+
+});
@@ -0,0 +1,100 @@
+/******************************************************************************
+ * Copyright 2025 TypeFox GmbH
+ * This program and the accompanying materials are made available under the
+ * terms of the MIT License, which is available in the project root.
+ ******************************************************************************/
+
+/* eslint-disable @typescript-eslint/parameter-properties */
+
+import { beforeEach, describe, expect, test } from 'vitest';
+import { isDistinctType, isFunctionType, PrimitiveType } from '../../../src/index.js';
+import { BinaryExpression, InferenceRuleBinaryExpression, IntegerLiteral, string2, StringLiteral, TestExpressionNode } from '../../../src/test/predefined-language-nodes.js';
+import { TypirServices } from '../../../src/typir.js';
+import { createTypirServicesForTesting, expectToBeType } from '../../../src/utils/test-utils.js';
+
+class UserIdLiteral extends TestExpressionNode {
+    constructor(
+        public value: string,
+    ) { super(); }
+}
+
+describe('Tests for distinct types', () => {
+    let typir: TypirServices;
+    let stringType: PrimitiveType;
+
+    beforeEach(() => {
+        typir = createTypirServicesForTesting();
+        typir.factory.Primitives.create({ primitiveName: 'integer', inferenceRules: node => node instanceof IntegerLiteral });
+        stringType = typir.factory.Primitives.create({ primitiveName: 'string', inferenceRules: node => node instanceof StringLiteral });
+        typir.factory.Operators.createBinary({ name: '+', signature: { left: stringType, right: stringType, return: stringType }, inferenceRule: InferenceRuleBinaryExpression });
+    });
+
+    test('Distinct types are only explicitly convertible to and from their underlying types', () => {
+        const userId = typir.factory.DistinctTypes.create({ name: 'UserId', underlyingType: stringType }).getTypeFinal()!;
+        expectToBeType(userId, isDistinctType, result => result.getUnderlyingType() === stringType);
+        expect(userId.getUserRepresentation()).toBe('UserId = distinct string');
+        expect(typir.factory.DistinctTypes.get({ name: 'UserId', underlyingType: stringType }).getType()).toBe(userId);
+
+        expect(typir.Equality.areTypesEqual(userId, stringType)).toBe(false);
+        expect(typir.Assignability.isAssignable(userId, stringType)).toBe(false);
+        expect(typir.Assignability.isAssignable(stringType, userId)).toBe(false);
+        expect(typir.Conversion.getConversion(userId, stringType)).toBe('EXPLICIT');
+        expect(typir.Conversion.getConversion(stringType, userId)).toBe('EXPLICIT');
+
+        const orderId = typir.factory.DistinctTypes.create({ name: 'OrderId', underlyingType: stringType }).getTypeFinal()!;
+        expect(typir.Equality.areTypesEqual(userId, orderId)).toBe(false);
+        expect(typir.Assignability.isAssignable(userId, orderId)).toBe(false);
+    });
+
+    test('Operators of the underlying type are inherited optionally', () => {
+        const userId = typir.factory.DistinctTypes.create({
+            name: 'UserId', underlyingType: stringType, inheritedOperators: ['+'],
+            inferenceRuleForDeclaration: node => node instanceof UserIdLiteral,
+        }).getTypeFinal()!;
+        const orderId = typir.factory.DistinctTypes.create({ name: 'OrderId', underlyingType: stringType }).getTypeFinal()!;
+
+        expectToBeType(typir.Inference.inferType(new BinaryExpression(new UserIdLiteral('a'), '+', new UserIdLiteral('b'))), isDistinctType, result => result === userId);
+        expect(typir.Inference.inferType(new BinaryExpression(new UserIdLiteral('a'), '+', string2))).toBeInstanceOf(Array);
+        expect(typir.Assignability.isAssignable(userId, orderId)).toBe(false);
+        expect(typir.infrastructure.Graph.getAllRegisteredTypes().filter(isFunctionType)).toHaveLength(2); // the operator was not inherited by 'OrderId'
+    });
+
+    test('Conversions and inherited operators are removed together with the distinct type', () => {
+        const userId = typir.factory.DistinctTypes.create({ name: 'UserId', underlyingType: stringType, inheritedOperators: ['+'] }).getTypeFinal()!;
+        expect(typir.Conversion.getConvertibleTo(stringType, 'EXPLICIT').has(userId)).toBe(true);
+        expect(typir.infrastructure.Graph.getAllRegisteredTypes().filter(isFunctionType)).toHaveLength(2);
+
+        typir.infrastructure.Graph.removeNode(userId);
+        expect(typir.Conversion.getConvertibleTo(stringType, 'EXPLICIT').size).toBe(0);
+        expect(typir.infrastructure.Graph.getAllRegisteredTypes().filter(isFunctionType)).toHaveLength(1);
+    });
+
+    test('Operators are inherited only once, when the underlying type is removed and added again', () => {
+        const userId = typir.factory.DistinctTypes.create({
+            name: 'UserId', underlyingType: 'string', inheritedOperators: ['+'],
+            inferenceRuleForDeclaration: node => node instanceof UserIdLiteral,
+        }).getTypeFinal()!;
+        const inheritedOperators = () => typir.infrastructure.Graph.getAllRegisteredTypes().filter(isFunctionType).filter(operator => operator.getOutput()?.type === userId);
+        expect(inheritedOperators()).toHaveLength(1);
+
+        // the underlying type is invalidated and resolved again (references are informed explicitly, since they don't observe the removal of already resolved types)
+        userId.underlyingType.onRemovedType(stringType, stringType.getIdentifier());
+        expect(userId.isInState('Completed')).toBe(true);
+        expect(inheritedOperators()).toHaveLength(1);
+        expectToBeType(typir.Inference.inferType(new BinaryExpression(new UserIdLiteral('a'), '+', new UserIdLiteral('b'))), isDistinctType, result => result === userId);
+
+        // the underlying type is removed
+        typir.infrastructure.Graph.removeNode(stringType);
+        userId.underlyingType.onRemovedType(stringType, stringType.getIdentifier());
+        expect(userId.isInState('Invalid')).toBe(true);
+        expect(inheritedOperators()).toHaveLength(0);
+
+        // the underlying type is added again
+        const newStringType = typir.factory.Primitives.create({ primitiveName: 'string' });
+        expect(userId.isInState('Completed')).toBe(true);
+        expect(userId.getUnderlyingType()).toBe(newStringType);
+        expect(typir.Conversion.getConversion(newStringType, userId)).toBe('EXPLICIT');
+        expect(inheritedOperators()).toHaveLength(0); // there are no operators for the new underlying type
+    });
+
+});
@@ -0,0 +1,121 @@
+/******************************************************************************
+ * Copyright 2025 TypeFox GmbH
+ * This program and the accompanying materials are made available under the
+ * terms of the MIT License, which is available in the project root.
+ ******************************************************************************/
+
+/* eslint-disable @typescript-eslint/parameter-properties */
+
+import { beforeEach, describe, expect, test } from 'vitest';
+import { createExhaustiveEnumValidation, EnumType, isEnumType, PrimitiveType, UniqueEnumMemberValidation } from '../../../src/index.js';
+import { isInferenceProblem } from '../../../src/services/inference.js';
+import { IntegerLiteral, TestExpressionNode, TestLanguageNode } from '../../../src/test/predefined-language-nodes.js';
+import { TypirServices } from '../../../src/typir.js';
+import { createTypirServicesForTesting, expectToBeType } from '../../../src/utils/test-utils.js';
+
+class EnumDeclaration extends TestLanguageNode {
+    constructor(
+        public name: string,
+        public members: EnumMemberDeclaration[],
+    ) { super(); }
+}
+
+class EnumMemberDeclaration extends TestLanguageNode {
+    constructor(
+        public name: string,
+    ) { super(); }
+}
+
+class MemberAccess extends TestExpressionNode {
+    constructor(
+        public enumName: string,
+        public memberName: string,
+    ) { super(); }
+}
+
+class SwitchStatement extends TestLanguageNode {
+    constructor(
+        public value: TestExpressionNode,
+        public cases: string[],
+    ) { super(); }
+}
+
+describe('Tests for enum types', () => {
+    let typir: TypirServices;
+    let integerType: PrimitiveType;
+    let colorType: EnumType;
+
+    beforeEach(() => {
+        typir = createTypirServicesForTesting();
+        integerType = typir.factory.Primitives.create({ primitiveName: 'integer', inferenceRules: node => node instanceof IntegerLiteral });
+        colorType = typir.factory.Enums.create({
+            enumName: 'Color',
+            members: ['RED', { name: 'GREEN', value: 2 }, 'BLUE'],
+            underlyingType: integerType,
+            inferenceRuleForDeclaration: node => node instanceof EnumDeclaration && node.name === 'Color',
+            inferenceRuleForMemberAccess: {
+                filter: node => node instanceof MemberAccess,
+                matching: node => node.enumName === 'Color',
+                memberName: node => node.memberName,
+            },
+        });
+    });
+
+    test('Enum types with members', () => {
+        expect(colorType.getName()).toBe('Color');
+        expect(colorType.getUserRepresentation()).toBe('enum Color { RED, GREEN = 2, BLUE }');
+        expect(colorType.getMembers().map(member => member.name)).toEqual(['RED', 'GREEN', 'BLUE']);
+        expect(colorType.getMember('GREEN')?.value).toBe(2);
+        expect(typir.factory.Enums.get({ enumName: 'Color', members: [] })).toBe(colorType);
+    });
+
+    test('Nominal equality and conversion to the underlying type', () => {
+        const sizeType = typir.factory.Enums.create({ enumName: 'Size', members: ['RED', 'GREEN', 'BLUE'] });
+        expect(typir.Equality.areTypesEqual(colorType, colorType)).toBe(true);
+        expect(typir.Equality.areTypesEqual(colorType, sizeType)).toBe(false);
+        expect(typir.Assignability.isAssignable(colorType, integerType)).toBe(true);
+        expect(typir.Assignability.isAssignable(integerType, colorType)).toBe(false);
+        expect(typir.Assignability.isAssignable(sizeType, integerType)).toBe(false);
+
+        const explicitType = typir.factory.Enums.create({ enumName: 'Explicit', members: ['A'], underlyingType: integerType, conversionToUnderlyingType: 'EXPLICIT' });
+        expect(typir.Assignability.isAssignable(explicitType, integerType)).toBe(false);
+        expect(typir.Conversion.getConversion(explicitType, integerType)).toBe('EXPLICIT');
+    });
+
+    test('Inference rule for member access', () => {
+        expectToBeType(typir.Inference.inferType(new MemberAccess('Color', 'GREEN')), isEnumType, result => result === colorType);
+        const result = typir.Inference.inferType(new MemberAccess('Color', 'YELLOW'));
+        expect(Array.isArray(result)).toBe(true);
+        expect((result as unknown[]).filter(isInferenceProblem).some(problem => problem.location === "member 'YELLOW'")).toBe(true);
+    });
+
+    test('Validation of duplicated members', () => {
+        const red1 = new EnumMemberDeclaration('RED');
+        const red2 = new EnumMemberDeclaration('RED');
+        const declaration = new EnumDeclaration('Color', [red1, new EnumMemberDeclaration('GREEN'), red2]);
+        typir.validation.Collector.addValidationRuleWithBeforeAndAfter(new UniqueEnumMemberValidation(typir,
+            (node): node is EnumMemberDeclaration => node instanceof EnumMemberDeclaration,
+            _node => declaration,
+            node => node.name));
+
+        const problems = [
+            ...typir.validation.Collector.validateBefore(declaration),
+            ...declaration.members.flatMap(member => typir.validation.Collector.validate(member)),
+            ...typir.validation.Collector.validateAfter(declaration),
+        ];
+        expect(problems.map(problem => problem.languageNode)).toEqual([red1, red2]);
+        expect(problems[0].message).toBe('Declared members of enums need to be unique (enum-Color.RED).');
+    });
+
+    test('Validation of exhaustiveness', () => {
+        typir.validation.Collector.addValidationRule(createExhaustiveEnumValidation(
+            (node): node is SwitchStatement => node instanceof SwitchStatement,
+            node => node.value,
+            node => node.cases));
+        expect(typir.validation.Collector.validate(new SwitchStatement(new MemberAccess('Color', 'RED'), ['RED', 'GREEN', 'BLUE']))).toHaveLength(0);
+        const problems = typir.validation.Collector.validate(new SwitchStatement(new MemberAccess('Color', 'RED'), ['GREEN']));
+        expect(problems).toHaveLength(1);
+        expect(problems[0].message).toBe("Not all members of the enum 'Color' are covered, missing: RED, BLUE");
+    });
+
+});
@@ -0,0 +1,136 @@
+/******************************************************************************
+ * Copyright 2025 TypeFox GmbH
+ * This program and the accompanying materials are made available under the
+ * terms of the MIT License, which is available in the project root.
+ ******************************************************************************/
+
+/* eslint-disable @typescript-eslint/parameter-properties */
+
+import { beforeEach, describe, expect, test } from 'vitest';
+import { ClassType, FixedParameterKind, FixedParameterType, isFixedParameterType, isIndexedTypeConflict, PrimitiveType } from '../../../src/index.js';
+import { integer2, integer3, IntegerLiteral, string2, StringLiteral, TestExpressionNode } from '../../../src/test/predefined-language-nodes.js';
+import { TypirServices } from '../../../src/typir.js';
+import { createTypirServicesForTesting, expectDerivedSubTypeToFollowChanges, expectToBeType } from '../../../src/utils/test-utils.js';
+
+class MapLiteral extends TestExpressionNode {
+    constructor(
+        public keys: TestExpressionNode[],
+        public values: TestExpressionNode[],
+    ) { super(); }
+}
+
+describe('Tests for the factory of FixedParameterKind', () => {
+    let typir: TypirServices;
+    let integerType: PrimitiveType;
+    let stringType: PrimitiveType;
+
+    beforeEach(() => {
+        typir = createTypirServicesForTesting();
+        integerType = typir.factory.Primitives.create({ primitiveName: 'integer', inferenceRules: node => node instanceof IntegerLiteral });
+        stringType = typir.factory.Primitives.create({ primitiveName: 'string', inferenceRules: node => node instanceof StringLiteral });
+    });
+
+    test('Kinds are managed by their base names', () => {
+        const listKind = typir.factory.FixedParameters.getOrCreateKind('List', {}, 'entry');
+        expect(typir.factory.FixedParameters.getOrCreateKind('List')).toBe(listKind);
+        expect(typir.factory.FixedParameters.getKind('List')).toBe(listKind);
+        expect(typir.factory.FixedParameters.getKind('Map')).toBeUndefined();
+
+        const listInteger = listKind.create({ parameterTypes: integerType }).getTypeFinal()!;
+        expect(listKind.create({ parameterTypes: 'integer' }).getTypeFinal()).toBe(listInteger);
+        expect(listKind.get({ parameterTypes: integerType }).getType()).toBe(listInteger);
+        expect(listKind.create({ parameterTypes: stringType }).getTypeFinal()).not.toBe(listInteger);
+        expect(listInteger.getName()).toBe('List<integer>');
+        expect(() => listKind.create({ parameterTypes: [integerType, stringType] })).toThrowError();
+    });
+
+    test('Deferred creation', () => {
+        const listKind = typir.factory.FixedParameters.getOrCreateKind('List', {}, 'entry');
+        const listPerson = listKind.create({ parameterTypes: 'class-Person' });
+        expect(listPerson.getTypeFinal()).toBeUndefined();
+
+        const classPerson = typir.factory.Classes.create({ className: 'Person', fields: [], methods: [] }).getTypeFinal()!;
+        expectToBeType(listPerson.getTypeFinal(), isFixedParameterType, result => result.getParameterTypes()[0] === classPerson);
+        expect(listPerson.getTypeFinal()!.isInState('Completed')).toBe(true);
+    });
+
+    test('Inference rule for literals', () => {
+        const mapKind = typir.factory.FixedParameters.getOrCreateKind('Map', {}, 'key', 'value');
+        const mapStringInteger = mapKind.create({
+            parameterTypes: [stringType, integerType],
+            inferenceRuleForLiteral: {
+                filter: node => node instanceof MapLiteral,
+                matching: node => node.keys.length === node.values.length,
+                inputValuesForParameters: node => [node.keys, node.values],
+            },
+        }).getTypeFinal()!;
+        expectToBeType(typir.Inference.inferType(new MapLiteral([string2], [integer2])), isFixedParameterType, result => result === mapStringInteger);
+        expectToBeType(typir.Inference.inferType(new MapLiteral([], [])), isFixedParameterType, result => result === mapStringInteger);
+        expect(isFixedParameterType(typir.Inference.inferType(new MapLiteral([integer2], [integer3])))).toBe(false);
+    });
+
+});
+
+describe('Tests for the variance of parameters of FixedParameterKind', () => {
+    let typir: TypirServices;
+    let classAnimal: ClassType;
+    let classDog: ClassType;
+
+    beforeEach(() => {
+        typir = createTypirServicesForTesting();
+        classAnimal = typir.factory.Classes.create({ className: 'Animal', fields: [], methods: [] }).getTypeFinal()!;
+        classDog = typir.factory.Classes.create({ className: 'Dog', superClasses: classAnimal, fields: [], methods: [] }).getTypeFinal()!;
+    });
+
+    function createTypes(kind: FixedParameterKind): [FixedParameterType, FixedParameterType] {
+        return [kind.create({ parameterTypes: classDog }).getTypeFinal()!, kind.create({ parameterTypes: classAnimal }).getTypeFinal()!];
+    }
+
+    test('Covariant parameters', () => {
+        const [listDog, listAnimal] = createTypes(new FixedParameterKind(typir, 'List', {}, { name: 'entry', variance: 'COVARIANT' }));
+        expect(typir.Subtype.isSubType(listDog, listAnimal)).toBe(true);
+        expect(typir.Subtype.isSubType(listAnimal, listDog)).toBe(false);
+        expect(typir.Assignability.isAssignable(listDog, listAnimal)).toBe(true);
+    });
+
+    test('Covariant parameters follow later changes of the relationships of the parameter types', () => {
+        const listKind = new FixedParameterKind(typir, 'List', {}, { name: 'entry', variance: 'COVARIANT' });
+        const [listDog, listAnimal] = createTypes(listKind);
+        const classPuppy = typir.factory.Classes.create({ className: 'Puppy', fields: [], methods: [] }).getTypeFinal()!;
+        const listPuppy = listKind.create({ parameterTypes: classPuppy }).getTypeFinal()!;
+        expectDerivedSubTypeToFollowChanges(typir, { subType: listPuppy, superType: listDog, subDependency: classPuppy, superDependency: classDog,
+            checkRelated: related => {
+                expect(typir.Subtype.isSubType(listPuppy, listAnimal)).toBe(related);
+                expect(typir.Subtype.isSubType(listDog, listAnimal)).toBe(true);
+            },
+        });
+    });
+
+    test('Contravariant parameters', () => {
+        const [consumerDog, consumerAnimal] = createTypes(new FixedParameterKind(typir, 'Consumer', {}, { name: 'input', variance: 'CONTRAVARIANT' }));
+        expect(typir.Subtype.isSubType(consumerAnimal, consumerDog)).toBe(true);
+        expect(typir.Subtype.isSubType(consumerDog, consumerAnimal)).toBe(false);
+    });
+
+    test('Invariant and bivariant parameters', () => {
+        const [arrayDog, arrayAnimal] = createTypes(new FixedParameterKind(typir, 'Array', {}, { name: 'entry', variance: 'INVARIANT' }));
+        expect(typir.Subtype.isSubType(arrayDog, arrayAnimal)).toBe(false);
+        expect(typir.Subtype.isSubType(arrayAnimal, arrayDog)).toBe(false);
+
+        const [anyDog, anyAnimal] = createTypes(new FixedParameterKind(typir, 'Any', {}, { name: 'entry', variance: 'BIVARIANT' }));
+        expect(typir.Subtype.isSubType(anyDog, anyAnimal)).toBe(true);
+        expect(typir.Subtype.isSubType(anyAnimal, anyDog)).toBe(true);
+    });
+
+    test('Parameters with different variances and the reported problems', () => {
+        const functionKind = new FixedParameterKind(typir, 'Function', {}, { name: 'input', variance: 'CONTRAVARIANT' }, { name: 'output', variance: 'COVARIANT' });
+        const dogToAnimal = functionKind.create({ parameterTypes: [classDog, classAnimal] }).getTypeFinal()!;
+        const animalToDog = functionKind.create({ parameterTypes: [classAnimal, classDog] }).getTypeFinal()!;
+        expect(typir.Subtype.isSubType(animalToDog, dogToAnimal)).toBe(true);
+        expect(typir.Subtype.getSubTypeProblem(animalToDog, dogToAnimal)).toBeUndefined();
+        expect(typir.Subtype.getSubTypeProblem(dogToAnimal, animalToDog)).toBeDefined();
+        const conflicts = dogToAnimal.analyzeSubTypeProblems(dogToAnimal, animalToDog).filter(isIndexedTypeConflict);
+        expect(conflicts.map(conflict => conflict.propertyName)).toEqual(['input (CONTRAVARIANT)', 'output (COVARIANT)']);
+    });
+
+});
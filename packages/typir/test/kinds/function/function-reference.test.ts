@@ -0,0 +1,136 @@
+/******************************************************************************
+ * Copyright 2025 TypeFox GmbH
+ * This program and the accompanying materials are made available under the
+ * terms of the MIT License, which is available in the project root.
+ ******************************************************************************/
+
+/* eslint-disable @typescript-eslint/parameter-properties */
+
+import { beforeEach, describe, expect, test } from 'vitest';
+import { FunctionType, isFunctionType, NO_FUNCTION_NAME, NO_PARAMETER_NAME, PrimitiveType, SubTypeEdge, TypeSelector } from '../../../src/index.js';
+import { IntegerLiteral, StringLiteral, TestExpressionNode } from '../../../src/test/predefined-language-nodes.js';
+import { TypirServices } from '../../../src/typir.js';
+import { createTypirServicesForTesting, expectDerivedSubTypeToFollowChanges, expectToBeType } from '../../../src/utils/test-utils.js';
+
+class FunctionReference extends TestExpressionNode {
+    constructor(
+        public functionName: string,
+    ) { super(); }
+}
+
+class Lambda extends TestExpressionNode {
+    constructor(
+        public parameterName: string,
+    ) { super(); }
+}
+
+describe('Tests for references to functions, lambdas and sub-types of function types', () => {
+    let typir: TypirServices;
+    let integerType: PrimitiveType;
+    let doubleType: PrimitiveType;
+    let stringType: PrimitiveType;
+
+    beforeEach(() => {
+        typir = createTypirServicesForTesting();
+        integerType = typir.factory.Primitives.create({ primitiveName: 'integer', inferenceRules: node => node instanceof IntegerLiteral });
+        doubleType = typir.factory.Primitives.create({ primitiveName: 'double' });
+        stringType = typir.factory.Primitives.create({ primitiveName: 'string', inferenceRules: node => node instanceof StringLiteral });
+        typir.Subtype.markAsSubType(integerType, doubleType);
+    });
+
+    function createFunction(functionName: string, inputType: TypeSelector, outputType: TypeSelector): FunctionType {
+        return typir.factory.Functions.create({
+            functionName,
+            outputParameter: { name: NO_PARAMETER_NAME, type: outputType },
+            inputParameters: [{ name: 'value', type: inputType }],
+            inferenceRuleForReferences: node => node instanceof FunctionReference && node.functionName === functionName,
+        }).getTypeFinal()!;
+    }
+
+    function createSignature(inputType: TypeSelector, outputType: TypeSelector): FunctionType {
+        return typir.factory.Functions.create({
+            functionName: NO_FUNCTION_NAME,
+            outputParameter: { name: NO_PARAMETER_NAME, type: outputType },
+            inputParameters: [{ name: NO_PARAMETER_NAME, type: inputType }],
+        }).getTypeFinal()!;
+    }
+
+    test('References to functions are inferred to their anonymous signature', () => {
+        const increment = createFunction('increment', integerType, integerType);
+        const decrement = createFunction('decrement', integerType, integerType);
+        expect(increment.getUserRepresentation()).toBe('increment(value: integer): integer');
+
+        const signature = typir.Inference.inferType(new FunctionReference('increment'));
+        expectToBeType(signature, isFunctionType, result => result !== increment && result.getSimpleFunctionName() === NO_FUNCTION_NAME);
+        expect((signature as FunctionType).getUserRepresentation()).toBe('(integer) => integer');
+        // functions with the same signature share the same signature type
+        expect(typir.Inference.inferType(new FunctionReference('decrement'))).toBe(signature);
+        expect(decrement.getUserRepresentation()).toBe('decrement(value: integer): integer');
+    });
+
+    test('Signatures which are created for references are removed together with their functions', () => {
+        const increment = createFunction('increment', integerType, integerType);
+        const decrement = createFunction('decrement', integerType, integerType);
+        const signature = typir.Inference.inferType(new FunctionReference('increment')) as FunctionType;
+        expect(typir.Inference.inferType(new FunctionReference('decrement'))).toBe(signature);
+
+        typir.infrastructure.Graph.removeNode(increment);
+        expect(typir.infrastructure.Graph.getType(signature.getIdentifier())).toBe(signature); // still used by 'decrement'
+        typir.infrastructure.Graph.removeNode(decrement);
+        expect(typir.infrastructure.Graph.getType(signature.getIdentifier())).toBeUndefined();
+    });
+
+    test('Lambda literals are inferred to their anonymous signature', () => {
+        const lambda = typir.factory.Functions.create({
+            functionName: NO_FUNCTION_NAME,
+            outputParameter: { name: NO_PARAMETER_NAME, type: stringType },
+            inputParameters: [{ name: 'x', type: integerType }],
+            inferenceRuleForReferences: node => node instanceof Lambda && node.parameterName === 'x',
+        }).getTypeFinal()!;
+        expectToBeType(typir.Inference.inferType(new Lambda('x')), isFunctionType, result => result === lambda);
+        expect(createSignature(integerType, stringType)).toBe(lambda);
+    });
+
+    test('Function types with contravariant inputs and covariant outputs are sub-types', () => {
+        const doubleToInteger = createSignature(doubleType, integerType);
+        const integerToDouble = createSignature(integerType, doubleType);
+        const integerToInteger = createSignature(integerType, integerType);
+        const stringToInteger = createSignature(stringType, integerType);
+
+        expect(typir.Subtype.isSubType(doubleToInteger, integerToDouble)).toBe(true);
+        expect(typir.Subtype.isSubType(integerToDouble, doubleToInteger)).toBe(false);
+        expect(typir.Subtype.isSubType(integerToInteger, integerToDouble)).toBe(true);
+        expect(typir.Subtype.isSubType(doubleToInteger, integerToInteger)).toBe(true);
+        expect(typir.Subtype.isSubType(stringToInteger, integerToInteger)).toBe(false);
+        expect(typir.Subtype.isSubType(integerToInteger, stringToInteger)).toBe(false);
+    });
+
+    test('Named functions and operator overloads are not related to each other', () => {
+        const roundDouble = createFunction('round', doubleType, integerType);
+        const roundInteger = createFunction('round', integerType, integerType);
+        expect(typir.Subtype.isSubType(roundDouble, roundInteger)).toBe(false);
+        expect(roundDouble.getEdges<SubTypeEdge>(SubTypeEdge)).toHaveLength(0);
+        // their anonymous signatures are related to each other
+        expect(typir.Subtype.isSubType(typir.factory.Functions.getOrCreateSignature(roundDouble), typir.factory.Functions.getOrCreateSignature(roundInteger))).toBe(true);
+    });
+
+    test('Sub-type relationships between function types follow later changes of the relationships of the parameter types', () => {
+        const numberType = typir.factory.Primitives.create({ primitiveName: 'number' });
+        const numberToString = createSignature(numberType, stringType);
+        const stringToNumber = createSignature(stringType, numberType); // created after the super type
+        // the input parameters are contravariant and the output is covariant
+        expectDerivedSubTypeToFollowChanges(typir, { subType: stringToNumber, superType: numberToString, subDependency: numberType, superDependency: stringType });
+    });
+
+    test('Arguments of higher-order functions are checked with their signatures', () => {
+        const parameterOfHigherOrderFunction = createSignature(integerType, doubleType);
+        createFunction('round', doubleType, integerType);
+        createFunction('length', stringType, integerType);
+
+        const roundReference = typir.Inference.inferType(new FunctionReference('round'));
+        expectToBeType(roundReference, isFunctionType, result => typir.Assignability.isAssignable(result, parameterOfHigherOrderFunction));
+        const lengthReference = typir.Inference.inferType(new FunctionReference('length'));
+        expectToBeType(lengthReference, isFunctionType, result => typir.Assignability.isAssignable(result, parameterOfHigherOrderFunction) === false);
+    });
+
+});
@@ -0,0 +1,152 @@
+/******************************************************************************
+ * Copyright 2025 TypeFox GmbH
+ * This program and the accompanying materials are made available under the
+ * terms of the MIT License, which is available in the project root.
+ ******************************************************************************/
+
+/* eslint-disable @typescript-eslint/parameter-properties */
+
+import { beforeEach, describe, expect, test } from 'vitest';
+import { isFunctionType, isPrimitiveType, isTupleType, isValueConflict, NO_PARAMETER_NAME, PrimitiveType, TypeSelector, TypeVariableType } from '../../../src/index.js';
+import { isInferenceProblem } from '../../../src/services/inference.js';
+import { double2_0, DoubleLiteral, integer2, integer3, IntegerLiteral, string2, StringLiteral, TestExpressionNode } from '../../../src/test/predefined-language-nodes.js';
+import { TypirServices } from '../../../src/typir.js';
+import { createTypirServicesForTesting, expectToBeType } from '../../../src/utils/test-utils.js';
+
+class FunctionCall extends TestExpressionNode {
+    constructor(
+        public functionName: string,
+        public args: TestExpressionNode[],
+    ) { super(); }
+}
+
+describe('Tests for generic functions', () => {
+    let typir: TypirServices;
+    let integerType: PrimitiveType;
+    let stringType: PrimitiveType;
+
+    beforeEach(() => {
+        typir = createTypirServicesForTesting();
+        integerType = typir.factory.Primitives.create({ primitiveName: 'integer', inferenceRules: node => node instanceof IntegerLiteral });
+        typir.factory.Primitives.create({ primitiveName: 'double', inferenceRules: node => node instanceof DoubleLiteral });
+        stringType = typir.factory.Primitives.create({ primitiveName: 'string', inferenceRules: node => node instanceof StringLiteral });
+    });
+
+    function createTypeParameter(owner: string): TypeVariableType {
+        return typir.factory.TypeVariables.create({ variableName: 'T', owner });
+    }
+
+    function createGenericFunction(functionName: string, typeT: TypeVariableType, inputTypes: TypeSelector[], outputType: TypeSelector): void {
+        typir.factory.Functions.create({
+            functionName,
+            typeParameters: [typeT],
+            outputParameter: { name: NO_PARAMETER_NAME, type: outputType },
+            inputParameters: inputTypes.map((type, index) => ({ name: `p${index}`, type })),
+            inferenceRuleForCalls: {
+                filter: node => node instanceof FunctionCall,
+                matching: node => node.functionName === functionName,
+                inputArguments: node => node.args,
+            },
+            validationForCall: () => [],
+        });
+    }
+
+    test('Generic function signatures', () => {
+        const typeT = createTypeParameter('identity');
+        const identity = typir.factory.Functions.create({
+            functionName: 'identity',
+            typeParameters: [typeT],
+            outputParameter: { name: NO_PARAMETER_NAME, type: typeT },
+            inputParameters: [{ name: 'x', type: typeT }],
+        }).getTypeFinal()!;
+        expectToBeType(identity, isFunctionType, result => result.isGeneric() && result.getTypeParameters()[0] === typeT);
+        expect(identity.getUserRepresentation()).toBe('identity<T>(x: T): T');
+    });
+
+    test('The output type is instantiated with the types of the arguments', () => {
+        const typeT = createTypeParameter('identity');
+        createGenericFunction('identity', typeT, [typeT], typeT);
+        expectToBeType(typir.Inference.inferType(new FunctionCall('identity', [integer2])), isPrimitiveType, result => result === integerType);
+        expectToBeType(typir.Inference.inferType(new FunctionCall('identity', [string2])), isPrimitiveType, result => result === stringType);
+        expect(typir.validation.Collector.validate(new FunctionCall('identity', [integer2]))).toHaveLength(0);
+    });
+
+    test('Type parameters inside composite types are instantiated', () => {
+        const typeT = createTypeParameter('pair');
+        createGenericFunction('pair', typeT, [typeT, stringType], () => typir.factory.Tuples.create({ elementTypes: [typeT, stringType] }));
+        expectToBeType(typir.Inference.inferType(new FunctionCall('pair', [integer2, string2])), isTupleType,
+            result => result.getElementTypes()[0] === integerType && result.getElementTypes()[1] === stringType);
+        // the non-generic parameter is still checked
+        expect(isTupleType(typir.Inference.inferType(new FunctionCall('pair', [integer2, integer3])))).toBe(false);
+    });
+
+    test('Conflicting bindings of type parameters are reported', () => {
+        const typeT = createTypeParameter('same');
+        createGenericFunction('same', typeT, [typeT, typeT], typeT);
+        expectToBeType(typir.Inference.inferType(new FunctionCall('same', [integer2, integer3])), isPrimitiveType, result => result === integerType);
+
+        const result = typir.Inference.inferType(new FunctionCall('same', [integer2, double2_0]));
+        expect(Array.isArray(result)).toBe(true);
+        const problems = result as unknown[];
+        const conflict = problems.filter(isInferenceProblem).flatMap(problem => problem.subProblems).find(isValueConflict);
+        expect(conflict?.location).toBe("type variable 'T'");
+        expect(conflict?.firstValue).toBe('integer');
+        expect(conflict?.secondValue).toBe('double');
+
+        const validation = typir.validation.Collector.validate(new FunctionCall('same', [integer2, double2_0]));
+        expect(validation).toHaveLength(1);
+        expect(typir.Printer.printValidationProblem(validation[0])).toContain("type variable 'T'");
+    });
+
+    test('Type parameters which are not bound by the arguments are reported', () => {
+        // T is used only in the output type
+        const typeCreate = createTypeParameter('create');
+        createGenericFunction('create', typeCreate, [integerType], typeCreate);
+        expectUnboundTypeParameter(typir.Inference.inferType(new FunctionCall('create', [integer2])));
+        // there are no arguments at all
+        const typeEmpty = createTypeParameter('empty');
+        createGenericFunction('empty', typeEmpty, [], typeEmpty);
+        expectUnboundTypeParameter(typir.Inference.inferType(new FunctionCall('empty', [])));
+        // T is used inside a composite output type
+        const typeWrap = createTypeParameter('wrap');
+        createGenericFunction('wrap', typeWrap, [], () => typir.factory.Tuples.create({ elementTypes: [typeWrap, stringType] }));
+        expectUnboundTypeParameter(typir.Inference.inferType(new FunctionCall('wrap', [])));
+        // the type of the argument is unknown
+        const typeIdentity = createTypeParameter('identity');
+        createGenericFunction('identity', typeIdentity, [typeIdentity], typeIdentity);
+        expect(Array.isArray(typir.Inference.inferType(new FunctionCall('identity', [new FunctionCall('unknown', [])])))).toBe(true);
+        // output types without type parameters are fine
+        createGenericFunction('size', createTypeParameter('size'), [], integerType);
+        expect(typir.Inference.inferType(new FunctionCall('size', []))).toBe(integerType);
+    });
+
+    test('Type parameters are scoped by their generic functions', () => {
+        const typeIdentity = createTypeParameter('identity');
+        const typeFirst = createTypeParameter('first');
+        expect(typeIdentity).not.toBe(typeFirst);
+        expect(typir.Equality.areTypesEqual(typeIdentity, typeFirst)).toBe(false);
+        expect(typeFirst.getName()).toBe('T');
+        expect(typir.factory.TypeVariables.get({ variableName: 'T', owner: 'first' })).toBe(typeFirst);
+        expect(() => createTypeParameter('first')).toThrowError("The type variable 'T' is already declared by 'first'.");
+
+        // the type arguments of calls of different functions don't influence each other
+        createGenericFunction('identity', typeIdentity, [typeIdentity], typeIdentity);
+        createGenericFunction('first', typeFirst, [typeFirst, typeFirst], typeFirst);
+        expect(typir.Inference.inferType(new FunctionCall('identity', [string2]))).toBe(stringType);
+        expect(typir.Inference.inferType(new FunctionCall('first', [integer2, integer3]))).toBe(integerType);
+        // type variables of other functions are not bound by calls
+        const typeOther = createTypeParameter('other');
+        createGenericFunction('other', typeOther, [typeIdentity], typeOther);
+        expect(Array.isArray(typir.Inference.inferType(new FunctionCall('other', [string2])))).toBe(true);
+    });
+
+    function expectUnboundTypeParameter(result: unknown): void {
+        expect(Array.isArray(result)).toBe(true);
+        const problem = (result as unknown[]).filter(isInferenceProblem).find(problem => problem.location === 'output type');
+        expect(problem).toBeTruthy();
+        const conflict = problem!.subProblems.find(isValueConflict);
+        expect(conflict?.location).toBe("type variable 'T'");
+        expect(conflict?.secondValue).toBeUndefined();
+    }
+
+});
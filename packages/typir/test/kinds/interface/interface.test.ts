@@ -0,0 +1,116 @@
+/******************************************************************************
+ * Copyright 2025 TypeFox GmbH
+ * This program and the accompanying materials are made available under the
+ * terms of the MIT License, which is available in the project root.
+ ******************************************************************************/
+
+/* eslint-disable @typescript-eslint/parameter-properties */
+
+import { beforeEach, describe, expect, test } from 'vitest';
+import { ClassType, createImplementedInterfacesValidation, InterfaceType, isIndexedTypeConflict, isInterfaceType, NO_PARAMETER_NAME, PrimitiveType } from '../../../src/index.js';
+import { TestLanguageNode } from '../../../src/test/predefined-language-nodes.js';
+import { TypirServices } from '../../../src/typir.js';
+import { createTypirServicesForTesting, expectToBeType } from '../../../src/utils/test-utils.js';
+
+class ClassDeclaration extends TestLanguageNode {
+    constructor(
+        public className: string,
+    ) { super(); }
+}
+
+describe('Tests for interfaces which are implemented by classes', () => {
+    let typir: TypirServices;
+    let integerType: PrimitiveType;
+    let stringType: PrimitiveType;
+    let interfaceNamed: InterfaceType;
+    let interfaceGreeter: InterfaceType;
+
+    beforeEach(() => {
+        typir = createTypirServicesForTesting();
+        integerType = typir.factory.Primitives.create({ primitiveName: 'integer' });
+        stringType = typir.factory.Primitives.create({ primitiveName: 'string' });
+        typir.validation.Collector.addValidationRule(createImplementedInterfacesValidation(node => node instanceof ClassDeclaration));
+
+        // interface Named { name: string }
+        interfaceNamed = typir.factory.Interfaces.create({
+            interfaceName: 'Named',
+            fields: [{ name: 'name', type: stringType }],
+            methods: [],
+        }).getTypeFinal()!;
+        // interface Greeter extends Named { greet(times: integer): string }
+        interfaceGreeter = typir.factory.Interfaces.create({
+            interfaceName: 'Greeter',
+            superInterfaces: interfaceNamed,
+            fields: [],
+            methods: [{ functionName: 'greet', outputParameter: { name: NO_PARAMETER_NAME, type: stringType }, inputParameters: [{ name: 'times', type: integerType }] }],
+        }).getTypeFinal()!;
+    });
+
+    function createClass(className: string, fields: Array<[string, PrimitiveType]>, greetOutput: PrimitiveType | undefined, implementedInterfaces: InterfaceType[]): ClassType {
+        return typir.factory.Classes.create({
+            className,
+            implementedInterfaces,
+            fields: fields.map(([name, type]) => ({ name, type })),
+            methods: greetOutput
+                ? [{ functionName: 'greet', outputParameter: { name: NO_PARAMETER_NAME, type: greetOutput }, inputParameters: [{ name: 'count', type: integerType }] }]
+                : [],
+            inferenceRuleForDeclaration: node => node instanceof ClassDeclaration && node.className === className,
+        }).getTypeFinal()!;
+    }
+
+    test('Interfaces with fields, methods and super interfaces', () => {
+        expectToBeType(interfaceGreeter, isInterfaceType, result => result.getName() === 'Greeter');
+        expect(interfaceGreeter.getUserRepresentation()).toBe('interface Greeter extends Named { greet(times: integer): string }');
+        expect(interfaceGreeter.getFields(true).get('name')).toBe(stringType);
+        expect(interfaceGreeter.getMethods(true)).toHaveLength(1);
+        expect(typir.Subtype.isSubType(interfaceGreeter, interfaceNamed)).toBe(true);
+        expect(typir.Subtype.isSubType(interfaceNamed, interfaceGreeter)).toBe(false);
+    });
+
+    test('Classes are sub-types of their implemented interfaces and of their super interfaces', () => {
+        const classPerson = createClass('Person', [['name', stringType]], stringType, [interfaceGreeter]);
+        expect(classPerson.getUserRepresentation()).toBe('Person implements Greeter { name: string, greet(count: integer): string }');
+        expect(typir.Subtype.isSubType(classPerson, interfaceGreeter)).toBe(true);
+        expect(typir.Subtype.isSubType(classPerson, interfaceNamed)).toBe(true);
+        expect(typir.Assignability.isAssignable(classPerson, interfaceNamed)).toBe(true);
+        expect(typir.Subtype.isSubType(interfaceGreeter, classPerson)).toBe(false);
+        expect(typir.validation.Collector.validate(new ClassDeclaration('Person'))).toHaveLength(0);
+    });
+
+    test('Multiple interfaces are allowed independently from the maximum number of super classes', () => {
+        const interfaceCounter = typir.factory.Interfaces.create({ interfaceName: 'Counter', fields: [{ name: 'count', type: integerType }], methods: [] }).getTypeFinal()!;
+        const classBase = createClass('Base', [['name', stringType]], undefined, []);
+        const classChild = typir.factory.Classes.create({
+            className: 'Child',
+            superClasses: classBase,
+            implementedInterfaces: [interfaceNamed, interfaceCounter],
+            fields: [{ name: 'count', type: integerType }],
+            methods: [],
+            inferenceRuleForDeclaration: node => node instanceof ClassDeclaration && node.className === 'Child',
+        }).getTypeFinal()!;
+        expect(typir.Subtype.isSubType(classChild, interfaceNamed)).toBe(true);
+        expect(typir.Subtype.isSubType(classChild, interfaceCounter)).toBe(true);
+        // the field 'name' is inherited from the super class
+        expect(typir.validation.Collector.validate(new ClassDeclaration('Child'))).toHaveLength(0);
+    });
+
+    test('Missing and incompatible members are reported', () => {
+        createClass('Broken', [['name', integerType]], undefined, [interfaceGreeter]);
+        const problems = typir.validation.Collector.validate(new ClassDeclaration('Broken'));
+        expect(problems).toHaveLength(1);
+        expect(problems[0].message).toBe("The class 'Broken' does not correctly implement the interface 'Greeter'.");
+        const conflicts = (problems[0].subProblems ?? []).filter(isIndexedTypeConflict);
+        expect(conflicts.map(conflict => conflict.propertyName)).toEqual(['name', 'greet']);
+        expect(conflicts[0].actual).toBe(integerType); // incompatible type of the field
+        expect(conflicts[1].actual).toBeUndefined(); // missing method
+
+        createClass('WrongMethod', [['name', stringType]], integerType, [interfaceGreeter]);
+        const methodProblems = typir.validation.Collector.validate(new ClassDeclaration('WrongMethod'));
+        expect(methodProblems).toHaveLength(1);
+        const methodConflicts = (methodProblems[0].subProblems ?? []).filter(isIndexedTypeConflict);
+        expect(methodConflicts).toHaveLength(1);
+        expect(methodConflicts[0].propertyName).toBe('greet');
+        expect(methodConflicts[0].actual?.getName()).toBe('greet');
+    });
+
+});
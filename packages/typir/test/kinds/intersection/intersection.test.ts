@@ -0,0 +1,128 @@
+/******************************************************************************
+ * Copyright 2025 TypeFox GmbH
+ * This program and the accompanying materials are made available under the
+ * terms of the MIT License, which is available in the project root.
+ ******************************************************************************/
+
+import { beforeEach, describe, expect, test } from 'vitest';
+import { ClassType, IntersectionType, isIntersectionType, NO_PARAMETER_NAME, PrimitiveType, SubTypeEdge, Type } from '../../../src/index.js';
+import { TypirServices } from '../../../src/typir.js';
+import { createTypirServicesForTesting, expectTypirTypes } from '../../../src/utils/test-utils.js';
+
+describe('Tests for intersection types', () => {
+    let typir: TypirServices;
+    let integerType: PrimitiveType;
+    let stringType: PrimitiveType;
+    let booleanType: PrimitiveType;
+
+    beforeEach(() => {
+        typir = createTypirServicesForTesting();
+        integerType = typir.factory.Primitives.create({ primitiveName: 'integer' });
+        stringType = typir.factory.Primitives.create({ primitiveName: 'string' });
+        booleanType = typir.factory.Primitives.create({ primitiveName: 'boolean' });
+    });
+
+    function createIntersection(...memberTypes: Type[]): IntersectionType {
+        return typir.factory.Intersections.create({ memberTypes }).getTypeFinal()!;
+    }
+
+    function createClass(className: string, fields: Array<[string, Type]>, methodName?: string, superClass?: ClassType): ClassType {
+        return typir.factory.Classes.create({
+            className,
+            superClasses: superClass,
+            fields: fields.map(([name, type]) => ({ name, type })),
+            methods: methodName ? [{ functionName: methodName, outputParameter: { name: NO_PARAMETER_NAME, type: booleanType }, inputParameters: [] }] : [],
+        }).getTypeFinal()!;
+    }
+
+    test('The order of member types does not matter and nested intersections are flattened', () => {
+        const classA = createClass('A', []);
+        const classB = createClass('B', []);
+        const classC = createClass('C', []);
+        const intersection1 = createIntersection(classA, classB);
+        expect(intersection1).toBe(createIntersection(classB, classA));
+        const intersection2 = createIntersection(intersection1, classC, classA);
+        expect(intersection2.getMemberTypes()).toEqual([classA, classB, classC]);
+        expect(intersection2).toBe(createIntersection(classC, classB, classA));
+        expect(typir.Equality.areTypesEqual(intersection1, intersection2)).toBe(false);
+        expectTypirTypes(typir, isIntersectionType, 'A & B', 'A & B & C');
+    });
+
+    test('Intersections need at least one member', () => {
+        expect(() => createIntersection()).toThrowError('The intersection type needs at least one member type.');
+    });
+
+    test('Intersections are sub-types of each member', () => {
+        const classA = createClass('A', []);
+        const classB = createClass('B', []);
+        const intersection = createIntersection(classA, classB);
+        expect(typir.Subtype.isSubType(intersection, classA)).toBe(true);
+        expect(typir.Subtype.isSubType(intersection, classB)).toBe(true);
+        expect(typir.Subtype.isSubType(classA, intersection)).toBe(false);
+        expect(typir.Subtype.isSubType(createIntersection(classA, classB, integerType), intersection)).toBe(true);
+        expect(typir.Subtype.isSubType(intersection, createIntersection(classA, classB, integerType))).toBe(false);
+    });
+
+    test('Types are sub-types of an intersection, if they are sub-types of all members', () => {
+        const classA = createClass('A', []);
+        const classB = createClass('B', []);
+        const intersection = createIntersection(classA, classB);
+        // later sub-type relationships are considered as well
+        const classC = createClass('C', [], undefined, classA);
+        expect(typir.Subtype.isSubType(classC, intersection)).toBe(false);
+        typir.Subtype.markAsSubType(classC, classB);
+        expect(typir.Subtype.isSubType(classC, intersection)).toBe(true);
+    });
+
+    test('Sub-type relationships between intersections follow the relationships of their members, independent from the order of creation', () => {
+        const classA = createClass('A', []);
+        const classB = createClass('B', []);
+        const classC = createClass('C', []);
+        const large = createIntersection(classA, classB); // created before the smaller intersection
+        const small = createIntersection(classC, classB);
+        expect(typir.Subtype.isSubType(small, large)).toBe(false);
+        typir.Subtype.markAsSubType(classC, classA);
+        expect(typir.Subtype.isSubType(small, large)).toBe(true);
+        expect(typir.Subtype.isSubType(large, small)).toBe(false);
+    });
+
+    test('Sub-type relationships to intersections are removed, when the relationships to their members are removed', () => {
+        const classA = createClass('A', []);
+        const classB = createClass('B', []);
+        const classC = createClass('C', [], undefined, classA);
+        typir.Subtype.markAsSubType(classC, classB);
+        const intersection = createIntersection(classA, classB);
+        expect(typir.Subtype.isSubType(classC, intersection)).toBe(true);
+        const memberEdge = classC.getOutgoingEdges<SubTypeEdge>(SubTypeEdge).find(edge => edge.to === classB)!;
+        typir.infrastructure.Graph.removeEdge(memberEdge);
+        expect(typir.Subtype.isSubType(classC, intersection)).toBe(false);
+        expect(typir.Subtype.isSubType(intersection, classB)).toBe(true);
+        // removed intersections are not related anymore
+        typir.infrastructure.Graph.removeNode(intersection);
+        expect(classA.getIncomingEdges<SubTypeEdge>(SubTypeEdge).some(edge => edge.from === intersection)).toBe(false);
+    });
+
+    test('Fields and methods of classes are merged', () => {
+        const classBase = createClass('Base', [['id', integerType]], 'isValid');
+        const classA = createClass('A', [['name', stringType]], 'run', classBase);
+        const classB = createClass('B', [['size', integerType]], 'fly', classBase);
+        const intersection = createIntersection(classA, classB);
+        expect(Array.from(intersection.getFields(true).keys())).toEqual(['id', 'name', 'size']);
+        expect(Array.from(intersection.getFields(false).keys())).toEqual(['name', 'size']);
+        expect(intersection.getMethods(true).map(m => m.getSimpleFunctionName())).toEqual(['run', 'isValid', 'fly']);
+        expect(intersection.analyzeFieldConflicts()).toHaveLength(0);
+    });
+
+    test('Conflicting fields are reported', () => {
+        const classA = createClass('A', [['value', stringType], ['id', integerType]]);
+        const classB = createClass('B', [['value', integerType], ['id', integerType]]);
+        const intersection = createIntersection(classA, classB);
+        const conflicts = intersection.analyzeFieldConflicts();
+        expect(conflicts).toHaveLength(1);
+        expect(conflicts[0].propertyName).toBe('value');
+        expect(conflicts[0].expected).toBe(stringType);
+        expect(conflicts[0].actual).toBe(integerType);
+        expect(intersection.getFields(true).get('value')).toBe(stringType);
+    });
+
+});
@@ -0,0 +1,108 @@
+/******************************************************************************
+ * Copyright 2025 TypeFox GmbH
+ * This program and the accompanying materials are made available under the
+ * terms of the MIT License, which is available in the project root.
+ ******************************************************************************/
+
+/* eslint-disable @typescript-eslint/parameter-properties */
+
+import { beforeEach, describe, expect, test } from 'vitest';
+import { isLiteralType, isPrimitiveType, LiteralType, NO_PARAMETER_NAME, PrimitiveType, Type } from '../../../src/index.js';
+import { IntegerLiteral, StringLiteral, TestExpressionNode } from '../../../src/test/predefined-language-nodes.js';
+import { TypirServices } from '../../../src/typir.js';
+import { createTypirServicesForTesting, expectToBeType } from '../../../src/utils/test-utils.js';
+
+class FunctionCall extends TestExpressionNode {
+    constructor(
+        public functionName: string,
+        public args: TestExpressionNode[],
+    ) { super(); }
+}
+
+describe('Tests for literal types', () => {
+    let typir: TypirServices;
+    let integerType: PrimitiveType;
+    let stringType: PrimitiveType;
+    let getType: LiteralType;
+    let postType: LiteralType;
+
+    beforeEach(() => {
+        typir = createTypirServicesForTesting();
+        integerType = typir.factory.Primitives.create({ primitiveName: 'integer', inferenceRules: node => node instanceof IntegerLiteral });
+        stringType = typir.factory.Primitives.create({ primitiveName: 'string', inferenceRules: node => node instanceof StringLiteral });
+        getType = typir.factory.Literals.create({ baseType: stringType, value: 'GET', inferenceRules: node => node instanceof StringLiteral && node.value === 'GET' });
+        postType = typir.factory.Literals.create({ baseType: stringType, value: 'POST', inferenceRules: node => node instanceof StringLiteral && node.value === 'POST' });
+    });
+
+    test('Literal types are sub-types of their primitive types', () => {
+        expect(getType.getName()).toBe('"GET"');
+        expect(typir.factory.Literals.get({ baseType: stringType, value: 'GET' })).toBe(getType);
+        const fortyTwo = typir.factory.Literals.create({ baseType: integerType, value: 42 });
+        expect(fortyTwo.getName()).toBe('42');
+
+        expect(typir.Assignability.isAssignable(getType, stringType)).toBe(true);
+        expect(typir.Assignability.isAssignable(stringType, getType)).toBe(false);
+        expect(typir.Assignability.isAssignable(getType, postType)).toBe(false);
+        expect(typir.Assignability.isAssignable(fortyTwo, stringType)).toBe(false);
+        expect(typir.Equality.areTypesEqual(getType, postType)).toBe(false);
+    });
+
+    test('Literal types are inferred only, if they are expected', () => {
+        const literals = typir.factory.Literals;
+        // without expectations, literals are widened to their primitive types
+        expectToBeType(typir.Inference.inferType(new StringLiteral('GET')), isPrimitiveType, result => result === stringType);
+        expectToBeType(literals.inferType(new StringLiteral('GET'), undefined), isPrimitiveType, result => result === stringType);
+        expectToBeType(literals.inferType(new StringLiteral('GET'), stringType), isPrimitiveType, result => result === stringType);
+        // with expectations
+        expectToBeType(literals.inferType(new StringLiteral('GET'), getType), isLiteralType, result => result === getType);
+        expectToBeType(literals.inferType(new StringLiteral('PUT'), getType), isPrimitiveType, result => result === stringType);
+        const methods = typir.factory.Unions.create({ memberTypes: [getType, postType] }).getTypeFinal()!;
+        expectToBeType(literals.inferType(new StringLiteral('POST'), methods), isLiteralType, result => result === postType);
+        // widening
+        expect(literals.widen(getType)).toBe(stringType);
+        expect(literals.widen(integerType)).toBe(integerType);
+    });
+
+    test('Validation respects expected literal types', () => {
+        const methods = typir.factory.Unions.create({ memberTypes: [getType, postType] }).getTypeFinal()!;
+        const constraints = typir.validation.Constraints;
+        expect(constraints.ensureNodeIsAssignable(new StringLiteral('GET'), methods, () => ({}))).toHaveLength(0);
+        expect(constraints.ensureNodeIsAssignable(new StringLiteral('PUT'), methods, () => ({}))).toHaveLength(1);
+        expect(constraints.ensureNodeIsAssignable(new StringLiteral('PUT'), stringType, () => ({}))).toHaveLength(0);
+    });
+
+    function createFunction(functionName: string, inputType: Type, outputType: Type): void {
+        typir.factory.Functions.create({
+            functionName,
+            outputParameter: { name: NO_PARAMETER_NAME, type: outputType },
+            inputParameters: [{ name: 'method', type: inputType }],
+            inferenceRuleForCalls: {
+                filter: node => node instanceof FunctionCall,
+                matching: node => node.functionName === functionName,
+                inputArguments: node => node.args,
+            },
+        });
+    }
+
+    test('Arguments of calls respect expected literal types', () => {
+        // fetch(method: "GET" | "POST"): integer
+        const methods = typir.factory.Unions.create({ memberTypes: [getType, postType] }).getTypeFinal()!;
+        createFunction('fetch', methods, integerType);
+        expect(typir.Inference.inferType(new FunctionCall('fetch', [new StringLiteral('GET')]))).toBe(integerType);
+        expect(typir.validation.Collector.validate(new FunctionCall('fetch', [new StringLiteral('GET')]))).toHaveLength(0);
+        expect(typir.validation.Collector.validate(new FunctionCall('fetch', [new StringLiteral('PUT')]))).toHaveLength(1);
+        // outside of calls, the literal is still widened to its primitive type
+        expect(typir.Inference.inferType(new StringLiteral('GET'))).toBe(stringType);
+    });
+
+    test('Overloaded functions are distinguished by expected literal types', () => {
+        // request(method: "GET"): integer and request(method: "POST"): string
+        createFunction('request', getType, integerType);
+        createFunction('request', postType, stringType);
+        expect(typir.Inference.inferType(new FunctionCall('request', [new StringLiteral('GET')]))).toBe(integerType);
+        expect(typir.Inference.inferType(new FunctionCall('request', [new StringLiteral('POST')]))).toBe(stringType);
+        expect(Array.isArray(typir.Inference.inferType(new FunctionCall('request', [new StringLiteral('PUT')])))).toBe(true);
+        expect(typir.validation.Collector.validate(new FunctionCall('request', [new StringLiteral('POST')]))).toHaveLength(0);
+    });
+
+});
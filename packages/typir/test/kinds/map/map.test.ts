@@ -0,0 +1,113 @@
+/******************************************************************************
+ * Copyright 2025 TypeFox GmbH
+ * This program and the accompanying materials are made available under the
+ * terms of the MIT License, which is available in the project root.
+ ******************************************************************************/
+
+/* eslint-disable @typescript-eslint/parameter-properties */
+
+import { beforeEach, describe, expect, test } from 'vitest';
+import { FixedParameterType, isMapType, isTopType, MapKind, PrimitiveType, TypeSelector } from '../../../src/index.js';
+import { DoubleLiteral, IntegerLiteral, StringLiteral, TestExpressionNode } from '../../../src/test/predefined-language-nodes.js';
+import { TypirServices } from '../../../src/typir.js';
+import { createTypirServicesForTesting, expectToBeType } from '../../../src/utils/test-utils.js';
+
+class MapLiteral extends TestExpressionNode {
+    constructor(
+        public entries: Array<[TestExpressionNode, TestExpressionNode]>,
+    ) { super(); }
+}
+
+class MapLookup extends TestExpressionNode {
+    constructor(
+        public map: TestExpressionNode,
+        public key: TestExpressionNode,
+    ) { super(); }
+}
+
+describe('Tests for map types', () => {
+    let typir: TypirServices;
+    let integerType: PrimitiveType;
+    let doubleType: PrimitiveType;
+    let stringType: PrimitiveType;
+
+    beforeEach(() => {
+        typir = createTypirServicesForTesting();
+        createPrimitives();
+    });
+
+    function createPrimitives(): void {
+        integerType = typir.factory.Primitives.create({ primitiveName: 'integer', inferenceRules: node => node instanceof IntegerLiteral });
+        doubleType = typir.factory.Primitives.create({ primitiveName: 'double', inferenceRules: node => node instanceof DoubleLiteral });
+        stringType = typir.factory.Primitives.create({ primitiveName: 'string', inferenceRules: node => node instanceof StringLiteral });
+        typir.Subtype.markAsSubType(integerType, doubleType);
+    }
+
+    function createMap(keyType: TypeSelector, valueType: TypeSelector): FixedParameterType {
+        return typir.factory.Maps.create({ parameterTypes: [keyType, valueType] }).getTypeFinal()!;
+    }
+
+    function addRules(): void {
+        typir.factory.Maps.addInferenceRuleForLiterals({
+            filter: node => node instanceof MapLiteral,
+            matching: _node => true,
+            inputEntries: node => node.entries,
+        });
+        typir.factory.Maps.addInferenceRuleForLookups({
+            filter: node => node instanceof MapLookup,
+            matching: _node => true,
+            map: node => node.map,
+            key: node => node.key,
+        });
+    }
+
+    test('Map types are types with the fixed parameters key and value', () => {
+        const map = createMap(stringType, integerType);
+        expectToBeType(map, isMapType, result => result.getName() === 'Map<string, integer>');
+        expect(createMap(stringType, integerType)).toBe(map);
+        expect(createMap(integerType, stringType)).not.toBe(map);
+        const kind = map.kind as MapKind;
+        expect(kind.getKeyType(map)).toBe(stringType);
+        expect(kind.getValueType(map)).toBe(integerType);
+        // the map kind is the kind for types with fixed parameters with the base name 'Map'
+        expect(typir.factory.FixedParameters.getKind('Map')).toBe(kind);
+    });
+
+    test('Keys are invariant and values are covariant by default', () => {
+        expect(typir.Subtype.isSubType(createMap(stringType, integerType), createMap(stringType, doubleType))).toBe(true);
+        expect(typir.Subtype.isSubType(createMap(stringType, doubleType), createMap(stringType, integerType))).toBe(false);
+        expect(typir.Subtype.isSubType(createMap(integerType, stringType), createMap(doubleType, stringType))).toBe(false);
+        expect(typir.Subtype.isSubType(createMap(doubleType, stringType), createMap(integerType, stringType))).toBe(false);
+    });
+
+    test('Key and value types of map literals are the common super types of their keys and values', () => {
+        addRules();
+        const literal = new MapLiteral([[new StringLiteral('a'), new IntegerLiteral(1)], [new StringLiteral('b'), new DoubleLiteral(2.0)]]);
+        expect(typir.Inference.inferType(literal)).toBe(createMap(stringType, doubleType));
+        expect(typir.Inference.inferType(new MapLiteral([[new IntegerLiteral(1), new StringLiteral('a')]]))).toBe(createMap(integerType, stringType));
+        // empty map literals
+        expectToBeType(typir.Inference.inferType(new MapLiteral([])), isMapType, result => result.getParameterTypes().every(isTopType));
+    });
+
+    test('Lookups are inferred to the value type and their keys are validated', () => {
+        addRules();
+        const literal = new MapLiteral([[new DoubleLiteral(1.0), new StringLiteral('a')]]);
+        const lookup = new MapLookup(literal, new IntegerLiteral(1));
+        expect(typir.Inference.inferType(lookup)).toBe(stringType);
+        expect(typir.validation.Collector.validate(lookup)).toHaveLength(0); // integer keys are assignable to double keys
+        // wrong keys
+        const problems = typir.validation.Collector.validate(new MapLookup(literal, new StringLiteral('a')));
+        expect(problems).toHaveLength(1);
+        expect(problems[0].message).toBe("The key of type 'string' does not fit to the key type 'double' of the map 'Map<double, string>'.");
+        // no map
+        expect(Array.isArray(typir.Inference.inferType(new MapLookup(new StringLiteral('a'), new IntegerLiteral(1))))).toBe(true);
+    });
+
+    test('The variance of keys and values is configurable', () => {
+        typir = createTypirServicesForTesting({ factory: { Maps: services => new MapKind(services, { keyVariance: 'COVARIANT', valueVariance: 'INVARIANT' }) } });
+        createPrimitives();
+        expect(typir.Subtype.isSubType(createMap(integerType, stringType), createMap(doubleType, stringType))).toBe(true);
+        expect(typir.Subtype.isSubType(createMap(stringType, integerType), createMap(stringType, doubleType))).toBe(false);
+    });
+
+});
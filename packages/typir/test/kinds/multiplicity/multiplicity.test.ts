@@ -0,0 +1,111 @@
+/******************************************************************************
+ * Copyright 2025 TypeFox GmbH
+ * This program and the accompanying materials are made available under the
+ * terms of the MIT License, which is available in the project root.
+ ******************************************************************************/
+
+/* eslint-disable @typescript-eslint/parameter-properties */
+
+import { beforeEach, describe, expect, test } from 'vitest';
+import { isMultiplicityType, MULTIPLICITY_UNLIMITED, PrimitiveType } from '../../../src/index.js';
+import { integer2, integer3, IntegerLiteral, string2, StringLiteral, TestExpressionNode } from '../../../src/test/predefined-language-nodes.js';
+import { TypirServices } from '../../../src/typir.js';
+import { createTypirServicesForTesting, expectDerivedSubTypeToFollowChanges, expectToBeType } from '../../../src/utils/test-utils.js';
+
+class CollectionLiteral extends TestExpressionNode {
+    constructor(
+        public values: TestExpressionNode[],
+    ) { super(); }
+}
+
+describe('Tests for multiplicity types', () => {
+    let typir: TypirServices;
+    let integerType: PrimitiveType;
+
+    beforeEach(() => {
+        typir = createTypirServicesForTesting();
+        integerType = typir.factory.Primitives.create({ primitiveName: 'integer', inferenceRules: node => node instanceof IntegerLiteral });
+        typir.factory.Primitives.create({ primitiveName: 'string', inferenceRules: node => node instanceof StringLiteral });
+    });
+
+    test('Create and get multiplicity types', () => {
+        const oneOrMore = typir.factory.Multiplicities.create({ constrainedType: integerType, lowerBound: 1, upperBound: MULTIPLICITY_UNLIMITED }).getTypeFinal()!;
+        expect(oneOrMore.getName()).toBe('integer[1..*]');
+        expect(typir.factory.Multiplicities.create({ constrainedType: 'integer', lowerBound: 1, upperBound: MULTIPLICITY_UNLIMITED }).getTypeFinal()).toBe(oneOrMore);
+        expect(typir.factory.Multiplicities.get({ constrainedType: integerType, lowerBound: 1, upperBound: MULTIPLICITY_UNLIMITED }).getType()).toBe(oneOrMore);
+        expect(() => typir.factory.Multiplicities.create({ constrainedType: integerType, lowerBound: 3, upperBound: 2 })).toThrowError('The bounds [3..2] are invalid.');
+    });
+
+    test('Deferred creation', () => {
+        const optionalPerson = typir.factory.Multiplicities.create({ constrainedType: 'class-Person', lowerBound: 0, upperBound: 1 });
+        expect(optionalPerson.getTypeFinal()).toBeUndefined();
+        const classPerson = typir.factory.Classes.create({ className: 'Person', fields: [], methods: [] }).getTypeFinal()!;
+        expectToBeType(optionalPerson.getTypeFinal(), isMultiplicityType, result => result.getConstrainedType() === classPerson);
+    });
+
+    test('Inference rule for literals', () => {
+        const oneOrTwo = typir.factory.Multiplicities.create({
+            constrainedType: integerType, lowerBound: 1, upperBound: 2,
+            inferenceRuleForLiteral: {
+                filter: node => node instanceof CollectionLiteral,
+                matching: _node => true,
+                inputValues: node => node.values,
+            },
+        }).getTypeFinal()!;
+        expectToBeType(typir.Inference.inferType(new CollectionLiteral([integer2, integer3])), isMultiplicityType, result => result === oneOrTwo);
+        expect(isMultiplicityType(typir.Inference.inferType(new CollectionLiteral([])))).toBe(false); // too few values
+        expect(isMultiplicityType(typir.Inference.inferType(new CollectionLiteral([integer2, integer3, integer2])))).toBe(false); // too many values
+        expect(isMultiplicityType(typir.Inference.inferType(new CollectionLiteral([string2])))).toBe(false); // wrong type
+    });
+
+    test('Equality of multiplicity types', () => {
+        const oneOrMore = typir.factory.Multiplicities.create({ constrainedType: integerType, lowerBound: 1, upperBound: MULTIPLICITY_UNLIMITED }).getTypeFinal()!;
+        const oneOrTwo = typir.factory.Multiplicities.create({ constrainedType: integerType, lowerBound: 1, upperBound: 2 }).getTypeFinal()!;
+        const stringsOneOrMore = typir.factory.Multiplicities.create({ constrainedType: 'string', lowerBound: 1, upperBound: MULTIPLICITY_UNLIMITED }).getTypeFinal()!;
+        expect(typir.Equality.areTypesEqual(oneOrMore, oneOrMore)).toBe(true);
+        expect(typir.Equality.areTypesEqual(oneOrMore, oneOrTwo)).toBe(false);
+        expect(typir.Equality.areTypesEqual(oneOrMore, stringsOneOrMore)).toBe(false);
+        expect(typir.Equality.areTypesEqual(oneOrMore, integerType)).toBe(false);
+    });
+
+    test('Assignability of multiplicity types', () => {
+        const exactlyOne = typir.factory.Multiplicities.create({ constrainedType: integerType, lowerBound: 1, upperBound: 1 }).getTypeFinal()!;
+        const optional = typir.factory.Multiplicities.create({ constrainedType: integerType, lowerBound: 0, upperBound: 1 }).getTypeFinal()!;
+        const many = typir.factory.Multiplicities.create({ constrainedType: integerType, lowerBound: 0, upperBound: MULTIPLICITY_UNLIMITED }).getTypeFinal()!;
+        const twoOrMore = typir.factory.Multiplicities.create({ constrainedType: integerType, lowerBound: 2, upperBound: MULTIPLICITY_UNLIMITED }).getTypeFinal()!;
+        // T[1] is usable as T, T is usable as T[0..1]
+        expect(typir.Assignability.isAssignable(exactlyOne, integerType)).toBe(true);
+        expect(typir.Assignability.isAssignable(integerType, optional)).toBe(true);
+        expect(typir.Assignability.isAssignable(optional, integerType)).toBe(false);
+        expect(typir.Assignability.isAssignable(integerType, twoOrMore)).toBe(false);
+        // the bounds of the source need to be within the bounds of the target
+        expect(typir.Assignability.isAssignable(exactlyOne, optional)).toBe(true);
+        expect(typir.Assignability.isAssignable(optional, many)).toBe(true);
+        expect(typir.Assignability.isAssignable(twoOrMore, many)).toBe(true);
+        expect(typir.Assignability.isAssignable(many, optional)).toBe(false);
+        expect(typir.Assignability.isAssignable(many, twoOrMore)).toBe(false);
+    });
+
+    test('Sub-type relationships follow later changes of the relationships of the constrained types', () => {
+        const numberType = typir.factory.Primitives.create({ primitiveName: 'number' });
+        const manyNumbers = typir.factory.Multiplicities.create({ constrainedType: numberType, lowerBound: 0, upperBound: MULTIPLICITY_UNLIMITED }).getTypeFinal()!;
+        const oneOrTwo = typir.factory.Multiplicities.create({ constrainedType: integerType, lowerBound: 1, upperBound: 2 }).getTypeFinal()!;
+        expectDerivedSubTypeToFollowChanges(typir, { subType: oneOrTwo, superType: manyNumbers, subDependency: integerType, superDependency: numberType });
+    });
+
+    test('Validation of the number of values', () => {
+        const oneOrTwo = typir.factory.Multiplicities.create({ constrainedType: integerType, lowerBound: 1, upperBound: 2 }).getTypeFinal()!;
+        const constraints = typir.validation.Constraints;
+        const messageForNumber = () => ({});
+        const messageForValues = () => ({});
+        expect(constraints.ensureNumberOfValuesFitsToMultiplicity(new CollectionLiteral([]), 2, oneOrTwo, messageForNumber)).toHaveLength(0);
+        const problems = constraints.ensureNumberOfValuesFitsToMultiplicity(new CollectionLiteral([]), 3, oneOrTwo, messageForNumber);
+        expect(problems).toHaveLength(1);
+        expect(problems[0].message).toBe("3 values do not fit to the bounds [1..2] of 'integer[1..2]'.");
+
+        expect(constraints.ensureValuesFitToMultiplicity(new CollectionLiteral([]), [integer2], oneOrTwo, messageForNumber, messageForValues)).toHaveLength(0);
+        expect(constraints.ensureValuesFitToMultiplicity(new CollectionLiteral([]), [], oneOrTwo, messageForNumber, messageForValues)).toHaveLength(1);
+        expect(constraints.ensureValuesFitToMultiplicity(new CollectionLiteral([]), [integer2, string2, string2], oneOrTwo, messageForNumber, messageForValues)).toHaveLength(3);
+    });
+
+});
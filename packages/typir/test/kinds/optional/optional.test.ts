@@ -0,0 +1,90 @@
+/******************************************************************************
+ * Copyright 2025 TypeFox GmbH
+ * This program and the accompanying materials are made available under the
+ * terms of the MIT License, which is available in the project root.
+ ******************************************************************************/
+
+/* eslint-disable @typescript-eslint/parameter-properties */
+
+import { beforeEach, describe, expect, test } from 'vitest';
+import { isOptionalType, PrimitiveType, SubTypeEdge } from '../../../src/index.js';
+import { DoubleLiteral, IntegerLiteral, StringLiteral, TestExpressionNode } from '../../../src/test/predefined-language-nodes.js';
+import { TypirServices } from '../../../src/typir.js';
+import { createTypirServicesForTesting, expectDerivedSubTypeToFollowChanges, expectToBeType } from '../../../src/utils/test-utils.js';
+
+class NullLiteral extends TestExpressionNode {}
+
+class OptionalValue extends TestExpressionNode {
+    constructor(
+        public typeName: string,
+    ) { super(); }
+}
+
+describe('Tests for optional types', () => {
+    let typir: TypirServices;
+    let integerType: PrimitiveType;
+    let doubleType: PrimitiveType;
+    let stringType: PrimitiveType;
+
+    beforeEach(() => {
+        typir = createTypirServicesForTesting();
+        integerType = typir.factory.Primitives.create({ primitiveName: 'integer', inferenceRules: node => node instanceof IntegerLiteral });
+        doubleType = typir.factory.Primitives.create({ primitiveName: 'double', inferenceRules: node => node instanceof DoubleLiteral });
+        stringType = typir.factory.Primitives.create({ primitiveName: 'string', inferenceRules: node => node instanceof StringLiteral });
+        typir.Subtype.markAsSubType(integerType, doubleType);
+    });
+
+    test('Each type is a sub-type of its optional type', () => {
+        const optionalInteger = typir.factory.Optionals.create({ wrappedType: integerType }).getTypeFinal()!;
+        expectToBeType(optionalInteger, isOptionalType, result => result.getWrappedType() === integerType);
+        expect(optionalInteger.getName()).toBe('integer?');
+        expect(typir.factory.Optionals.get({ wrappedType: 'integer' }).getType()).toBe(optionalInteger);
+
+        expect(typir.Subtype.isSubType(integerType, optionalInteger)).toBe(true);
+        expect(typir.Assignability.isAssignable(integerType, optionalInteger)).toBe(true);
+        expect(typir.Assignability.isAssignable(optionalInteger, integerType)).toBe(false);
+        expect(typir.Assignability.isAssignable(stringType, optionalInteger)).toBe(false);
+
+        // S? is a sub-type of T?, if S is a sub-type of T
+        const optionalDouble = typir.factory.Optionals.create({ wrappedType: doubleType }).getTypeFinal()!;
+        expect(typir.Assignability.isAssignable(optionalInteger, optionalDouble)).toBe(true);
+        expect(typir.Assignability.isAssignable(optionalDouble, optionalInteger)).toBe(false);
+        expect(typir.Equality.areTypesEqual(optionalInteger, optionalDouble)).toBe(false);
+    });
+
+    test('Sub-type relationships between optional types follow later changes of the relationships of the wrapped types', () => {
+        const numberType = typir.factory.Primitives.create({ primitiveName: 'number' });
+        const optionalNumber = typir.factory.Optionals.create({ wrappedType: numberType }).getTypeFinal()!;
+        const optionalString = typir.factory.Optionals.create({ wrappedType: stringType }).getTypeFinal()!; // created after the super type
+        expectDerivedSubTypeToFollowChanges(typir, { subType: optionalString, superType: optionalNumber, subDependency: stringType, superDependency: numberType,
+            checkRelated: () => expect(typir.Subtype.isSubType(stringType, optionalString)).toBe(true),
+        });
+        expect(numberType.getOutgoingEdges<SubTypeEdge>(SubTypeEdge).some(edge => edge.to === optionalNumber)).toBe(false);
+    });
+
+    test('The null type is assignable only to optional types', () => {
+        const optionalInteger = typir.factory.Optionals.create({ wrappedType: integerType }).getTypeFinal()!;
+        const nullType = typir.factory.Optionals.createNullType({ primitiveName: 'null', inferenceRules: node => node instanceof NullLiteral });
+        const optionalString = typir.factory.Optionals.create({ wrappedType: stringType }).getTypeFinal()!;
+        expect(typir.factory.Optionals.getNullType()).toBe(nullType);
+
+        // the null type is created before and after optional types
+        expect(typir.Assignability.isAssignable(nullType, optionalInteger)).toBe(true);
+        expect(typir.Assignability.isAssignable(nullType, optionalString)).toBe(true);
+        expect(typir.Assignability.isAssignable(nullType, integerType)).toBe(false);
+        expect(typir.Assignability.isAssignable(optionalInteger, nullType)).toBe(false);
+    });
+
+    test('Validation of nullable values', () => {
+        typir.factory.Optionals.createNullType({ primitiveName: 'null', inferenceRules: node => node instanceof NullLiteral });
+        typir.factory.Optionals.create({ wrappedType: integerType, inferenceRuleForDeclaration: node => node instanceof OptionalValue && node.typeName === 'integer?' });
+        const constraints = typir.validation.Constraints;
+
+        expect(constraints.ensureNodeIsNotNullable(new IntegerLiteral(2), () => ({}))).toHaveLength(0);
+        const problems = constraints.ensureNodeIsNotNullable(new OptionalValue('integer?'), () => ({}));
+        expect(problems).toHaveLength(1);
+        expect(problems[0].message).toBe("The value of type 'integer?' might be null.");
+        expect(constraints.ensureNodeIsNotNullable(new NullLiteral(), actual => ({ message: `'${actual.name}' is always null.` }))[0].message).toBe("'null' is always null.");
+    });
+
+});
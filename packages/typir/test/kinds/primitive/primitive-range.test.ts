@@ -0,0 +1,96 @@
+/******************************************************************************
+ * Copyright 2025 TypeFox GmbH
+ * This program and the accompanying materials are made available under the
+ * terms of the MIT License, which is available in the project root.
+ ******************************************************************************/
+
+/* eslint-disable @typescript-eslint/parameter-properties */
+
+import { beforeEach, describe, expect, test } from 'vitest';
+import { createPrimitiveRangeValidation, PrimitiveType } from '../../../src/index.js';
+import { IntegerLiteral, TestLanguageNode, Variable } from '../../../src/test/predefined-language-nodes.js';
+import { TypirServices } from '../../../src/typir.js';
+import { createTypirServicesForTesting } from '../../../src/utils/test-utils.js';
+
+class RegisterWrite extends TestLanguageNode {
+    constructor(
+        public registerType: PrimitiveType,
+        public value: IntegerLiteral | Variable,
+    ) { super(); }
+}
+
+describe('Tests for primitive types with ranges', () => {
+    let typir: TypirServices;
+    let integerType: PrimitiveType;
+    let byteType: PrimitiveType;
+    let percentageType: PrimitiveType;
+
+    beforeEach(() => {
+        typir = createTypirServicesForTesting();
+        integerType = typir.factory.Primitives.create({ primitiveName: 'integer', inferenceRules: node => node instanceof IntegerLiteral });
+        byteType = typir.factory.Primitives.create({ primitiveName: 'int[0..255]', baseType: integerType, range: { min: 0, max: 255 } });
+        percentageType = typir.factory.Primitives.create({ primitiveName: 'percentage', baseType: integerType, range: { min: 0, max: 100 } });
+    });
+
+    test('Narrower ranges are sub-types of wider ranges', () => {
+        expect(byteType.getBaseType()).toBe(integerType);
+        expect(byteType.getRange()).toEqual({ min: 0, max: 255 });
+        expect(typir.Subtype.isSubType(percentageType, byteType)).toBe(true);
+        expect(typir.Subtype.isSubType(byteType, percentageType)).toBe(false);
+
+        // ranges which are created later and unbounded ranges
+        const signedByteType = typir.factory.Primitives.create({ primitiveName: 'int[-128..127]', baseType: integerType, range: { min: -128, max: 127 } });
+        const naturalType = typir.factory.Primitives.create({ primitiveName: 'natural', baseType: integerType, range: { min: 0 } });
+        expect(typir.Subtype.isSubType(percentageType, signedByteType)).toBe(true);
+        expect(typir.Subtype.isSubType(signedByteType, byteType)).toBe(false);
+        expect(typir.Subtype.isSubType(byteType, signedByteType)).toBe(false);
+        expect(typir.Subtype.isSubType(byteType, naturalType)).toBe(true);
+        expect(typir.Subtype.isSubType(naturalType, byteType)).toBe(false);
+    });
+
+    test('Primitive types with ranges are implicitly convertible to their base type', () => {
+        expect(typir.Conversion.isImplicitExplicitConvertible(byteType, integerType)).toBe(true);
+        expect(typir.Assignability.isAssignable(byteType, integerType)).toBe(true);
+        expect(typir.Assignability.isAssignable(percentageType, integerType)).toBe(true);
+        expect(typir.Assignability.isAssignable(integerType, byteType)).toBe(false);
+    });
+
+    test('Invalid ranges are reported', () => {
+        expect(() => typir.factory.Primitives.create({ primitiveName: 'invalid', baseType: integerType, range: { min: 10, max: 0 } })).toThrowError('The range [10..0] of the primitive type \'invalid\' is invalid.');
+        expect(() => typir.factory.Primitives.create({ primitiveName: 'nobase', range: { min: 0, max: 10 } })).toThrowError('The primitive type \'nobase\' with a range requires a base type.');
+        // equal ranges with the same base type
+        expect(() => typir.factory.Primitives.create({ primitiveName: 'uint8', baseType: integerType, range: { min: 0, max: 255 } }))
+            .toThrowError("The primitive type 'uint8' has the same range [0..255] and base type as the primitive type 'int[0..255]'.");
+        // ranges which exceed the range of a refined base type
+        expect(() => typir.factory.Primitives.create({ primitiveName: 'negative', baseType: byteType, range: { min: -1, max: 10 } }))
+            .toThrowError("The range [-1..10] of the primitive type 'negative' is not within the range [0..255] of its base type 'int[0..255]'.");
+        expect(() => typir.factory.Primitives.create({ primitiveName: 'unbounded', baseType: byteType }))
+            .toThrowError("The range [*..*] of the primitive type 'unbounded' is not within the range [0..255] of its base type 'int[0..255]'.");
+    });
+
+    test('Refined primitive types might be refined again', () => {
+        const smallType = typir.factory.Primitives.create({ primitiveName: 'small', baseType: byteType, range: { min: 0, max: 10 } });
+        const tinyType = typir.factory.Primitives.create({ primitiveName: 'tiny', baseType: byteType, range: { min: 0, max: 1 } });
+        expect(typir.Subtype.isSubType(tinyType, smallType)).toBe(true);
+        expect(typir.Subtype.isSubType(smallType, tinyType)).toBe(false);
+        expect(typir.Assignability.isAssignable(tinyType, integerType)).toBe(true); // via the base type
+        expect(typir.Assignability.isAssignable(byteType, smallType)).toBe(false);
+    });
+
+    test('Constant values out of the range are reported', () => {
+        typir.validation.Collector.addValidationRule(createPrimitiveRangeValidation(
+            node => node instanceof RegisterWrite,
+            node => node.value instanceof IntegerLiteral ? node.value.value : undefined,
+            node => node.registerType,
+        ));
+        expect(typir.validation.Collector.validate(new RegisterWrite(byteType, new IntegerLiteral(255)))).toHaveLength(0);
+        expect(typir.validation.Collector.validate(new RegisterWrite(byteType, new Variable('v', new IntegerLiteral(300))))).toHaveLength(0); // no constant value
+        expect(typir.validation.Collector.validate(new RegisterWrite(integerType, new IntegerLiteral(300)))).toHaveLength(0); // no range
+
+        const problems = typir.validation.Collector.validate(new RegisterWrite(byteType, new IntegerLiteral(300)));
+        expect(problems).toHaveLength(1);
+        expect(problems[0].message).toBe("The value 300 is out of the range [0..255] of the type 'int[0..255]'.");
+        expect(typir.validation.Collector.validate(new RegisterWrite(percentageType, new IntegerLiteral(-1)))).toHaveLength(1);
+    });
+
+});
@@ -0,0 +1,132 @@
+/******************************************************************************
+ * Copyright 2025 TypeFox GmbH
+ * This program and the accompanying materials are made available under the
+ * terms of the MIT License, which is available in the project root.
+ ******************************************************************************/
+
+/* eslint-disable @typescript-eslint/parameter-properties */
+
+import { beforeEach, describe, expect, test } from 'vitest';
+import { CreateRecordPropertyDetails, isRecordType, PrimitiveType, RecordKind, RecordType } from '../../../src/index.js';
+import { InferenceRuleNotApplicable } from '../../../src/services/inference.js';
+import { IntegerLiteral, StringLiteral, TestExpressionNode } from '../../../src/test/predefined-language-nodes.js';
+import { TypirServices } from '../../../src/typir.js';
+import { createTypirServicesForTesting, expectDerivedSubTypeToFollowChanges, expectToBeType } from '../../../src/utils/test-utils.js';
+
+class ObjectLiteral extends TestExpressionNode {
+    constructor(
+        public properties: Map<string, TestExpressionNode>,
+    ) { super(); }
+}
+
+class PropertyAccess extends TestExpressionNode {
+    constructor(
+        public receiver: TestExpressionNode,
+        public propertyName: string,
+    ) { super(); }
+}
+
+describe('Tests for anonymous structural record types', () => {
+    let typir: TypirServices;
+    let integerType: PrimitiveType;
+    let doubleType: PrimitiveType;
+    let stringType: PrimitiveType;
+
+    beforeEach(() => {
+        typir = createTypirServicesForTesting();
+        integerType = typir.factory.Primitives.create({ primitiveName: 'integer', inferenceRules: node => node instanceof IntegerLiteral });
+        doubleType = typir.factory.Primitives.create({ primitiveName: 'double' });
+        stringType = typir.factory.Primitives.create({ primitiveName: 'string', inferenceRules: node => node instanceof StringLiteral });
+        typir.Subtype.markAsSubType(integerType, doubleType);
+    });
+
+    function createRecord(properties: CreateRecordPropertyDetails[]): RecordType {
+        return typir.factory.Records.create({ properties }).getTypeFinal()!;
+    }
+
+    test('Records with the same properties are the same type, independent from the order of the properties', () => {
+        const record1 = createRecord([{ name: 'x', type: integerType }, { name: 'y', type: stringType }]);
+        expect(record1).toBe(createRecord([{ name: 'y', type: stringType }, { name: 'x', type: integerType }]));
+        expect(record1).not.toBe(createRecord([{ name: 'x', type: integerType }, { name: 'y', type: stringType, optional: true }]));
+        expect(record1).not.toBe(createRecord([{ name: 'x', type: integerType }]));
+        expect(typir.factory.Records.get({ properties: [{ name: 'y', type: stringType }, { name: 'x', type: integerType }] }).getType()).toBe(record1);
+        expect(typir.Printer.printTypeName(record1)).toBe('{ x: integer, y: string }');
+        expect(typir.Printer.printTypeName(createRecord([{ name: 'z', type: doubleType, optional: true }]))).toBe('{ z?: double }');
+        expect(typir.Printer.printTypeName(createRecord([]))).toBe('{}');
+    });
+
+    test('Width and depth sub-typing', () => {
+        const point2D = createRecord([{ name: 'x', type: doubleType }, { name: 'y', type: doubleType }]);
+        const point3D = createRecord([{ name: 'x', type: doubleType }, { name: 'y', type: doubleType }, { name: 'z', type: doubleType }]);
+        const integerPoint = createRecord([{ name: 'x', type: integerType }, { name: 'y', type: integerType }]);
+        // width
+        expect(typir.Subtype.isSubType(point3D, point2D)).toBe(true);
+        expect(typir.Subtype.isSubType(point2D, point3D)).toBe(false);
+        // depth
+        expect(typir.Subtype.isSubType(integerPoint, point2D)).toBe(true);
+        expect(typir.Subtype.isSubType(point2D, integerPoint)).toBe(false);
+        expect(typir.Assignability.isAssignable(integerPoint, point2D)).toBe(true);
+        // the empty record is the super type of all records
+        const empty = createRecord([]);
+        expect(typir.Subtype.isSubType(point3D, empty)).toBe(true);
+    });
+
+    test('Sub-type relationships follow later changes of the relationships of the property types', () => {
+        const numberType = typir.factory.Primitives.create({ primitiveName: 'number' });
+        const numberRecord = createRecord([{ name: 'value', type: numberType }]);
+        const stringRecord = createRecord([{ name: 'value', type: stringType }, { name: 'name', type: stringType }]); // created after the super type
+        const nested = createRecord([{ name: 'inner', type: stringRecord }]);
+        const nestedSuper = createRecord([{ name: 'inner', type: numberRecord }]);
+        expectDerivedSubTypeToFollowChanges(typir, { subType: nested, superType: nestedSuper, subDependency: stringType, superDependency: numberType,
+            typeToRemove: numberRecord,
+            checkRelated: related => expect(typir.Subtype.isSubType(stringRecord, numberRecord)).toBe(related),
+        });
+    });
+
+    test('Optional properties', () => {
+        const required = createRecord([{ name: 'name', type: stringType }]);
+        const optional = createRecord([{ name: 'name', type: stringType, optional: true }]);
+        const other = createRecord([{ name: 'age', type: integerType }]);
+        expect(typir.Subtype.isSubType(required, optional)).toBe(true);
+        expect(typir.Subtype.isSubType(optional, required)).toBe(false);
+        expect(typir.Subtype.isSubType(other, optional)).toBe(true); // optional properties might be missing
+        expect(typir.Subtype.isSubType(other, required)).toBe(false);
+    });
+
+    test('Inference rules for object literals and property access', () => {
+        const record = typir.factory.Records.create({
+            properties: [{ name: 'name', type: stringType }, { name: 'age', type: doubleType, optional: true }],
+            inferenceRuleForLiteral: {
+                filter: node => node instanceof ObjectLiteral,
+                matching: _node => true,
+                inputValuesForProperties: node => node.properties,
+            },
+            inferenceRuleForPropertyAccess: node => node instanceof PropertyAccess ? node.propertyName : InferenceRuleNotApplicable,
+        }).getTypeFinal()!;
+
+        // literals with values for all required properties
+        const literal = new ObjectLiteral(new Map<string, TestExpressionNode>([['name', new StringLiteral('Alice')], ['age', new IntegerLiteral(42)]]));
+        expectToBeType(typir.Inference.inferType(literal), isRecordType, result => result === record);
+        expect(typir.Inference.inferType(new ObjectLiteral(new Map([['name', new StringLiteral('Bob')]])))).toBe(record);
+        // wrong literals
+        expect(isRecordType(typir.Inference.inferType(new ObjectLiteral(new Map([['age', new IntegerLiteral(42)]]))))).toBe(false); // missing 'name'
+        expect(isRecordType(typir.Inference.inferType(new ObjectLiteral(new Map([['name', new IntegerLiteral(1)]]))))).toBe(false); // wrong type
+        expect(isRecordType(typir.Inference.inferType(new ObjectLiteral(new Map<string, TestExpressionNode>([['name', new StringLiteral('Bob')], ['city', new StringLiteral('Kiel')]]))))).toBe(false); // unknown property
+
+        // property access
+        expect(typir.Inference.inferType(new PropertyAccess(literal, 'name'))).toBe(stringType);
+        expect(typir.Inference.inferType(new PropertyAccess(literal, 'age'))).toBe(doubleType);
+        expect(Array.isArray(typir.Inference.inferType(new PropertyAccess(literal, 'city')))).toBe(true); // unknown property
+    });
+
+    test('Sub-typing with equal types as strategy', () => {
+        typir = createTypirServicesForTesting({ factory: { Records: services => new RecordKind(services, { subtypePropertyChecking: 'EQUAL_TYPE' }) } });
+        integerType = typir.factory.Primitives.create({ primitiveName: 'integer' });
+        doubleType = typir.factory.Primitives.create({ primitiveName: 'double' });
+        typir.Subtype.markAsSubType(integerType, doubleType);
+        const integerRecord = createRecord([{ name: 'x', type: integerType }, { name: 'y', type: integerType }]);
+        expect(typir.Subtype.isSubType(integerRecord, createRecord([{ name: 'x', type: doubleType }]))).toBe(false);
+        expect(typir.Subtype.isSubType(integerRecord, createRecord([{ name: 'x', type: integerType }]))).toBe(true);
+    });
+
+});
@@ -0,0 +1,109 @@
+/******************************************************************************
+ * Copyright 2025 TypeFox GmbH
+ * This program and the accompanying materials are made available under the
+ * terms of the MIT License, which is available in the project root.
+ ******************************************************************************/
+
+/* eslint-disable @typescript-eslint/parameter-properties */
+
+import { beforeEach, describe, expect, test } from 'vitest';
+import { isPrimitiveType, isTupleType, PrimitiveType, TupleKind, TupleType, Type } from '../../../src/index.js';
+import { InferenceRuleNotApplicable } from '../../../src/services/inference.js';
+import { integer2, integer3, IntegerLiteral, string2, StringLiteral, TestExpressionNode } from '../../../src/test/predefined-language-nodes.js';
+import { TypirServices } from '../../../src/typir.js';
+import { createTypirServicesForTesting, expectDerivedSubTypeToFollowChanges, expectToBeType } from '../../../src/utils/test-utils.js';
+
+class TupleLiteral extends TestExpressionNode {
+    constructor(
+        public elements: TestExpressionNode[],
+    ) { super(); }
+}
+
+class IndexedAccess extends TestExpressionNode {
+    constructor(
+        public tuple: TestExpressionNode,
+        public index: number,
+    ) { super(); }
+}
+
+describe('Tests for tuple types', () => {
+    let typir: TypirServices;
+    let integerType: PrimitiveType;
+    let doubleType: PrimitiveType;
+    let stringType: PrimitiveType;
+
+    beforeEach(() => {
+        typir = createTypirServicesForTesting();
+        integerType = typir.factory.Primitives.create({ primitiveName: 'integer', inferenceRules: node => node instanceof IntegerLiteral });
+        doubleType = typir.factory.Primitives.create({ primitiveName: 'double' });
+        stringType = typir.factory.Primitives.create({ primitiveName: 'string', inferenceRules: node => node instanceof StringLiteral });
+        typir.Subtype.markAsSubType(integerType, doubleType);
+    });
+
+    function createTuple(elementTypes: Type[], restElementType?: Type): TupleType {
+        return typir.factory.Tuples.create({ elementTypes, restElementType }).getTypeFinal()!;
+    }
+
+    test('Tuples with the same element types are the same type', () => {
+        const tuple1 = createTuple([integerType, stringType]);
+        expect(tuple1).toBe(createTuple([integerType, stringType]));
+        expect(tuple1).not.toBe(createTuple([stringType, integerType]));
+        expect(tuple1).not.toBe(createTuple([integerType, stringType], stringType));
+        expect(typir.factory.Tuples.get({ elementTypes: [integerType, stringType] }).getType()).toBe(tuple1);
+        expect(typir.Printer.printTypeName(createTuple([integerType], stringType))).toBe('[integer, ...string[]]');
+    });
+
+    test('Sub-type relationships of tuples', () => {
+        const tupleInteger = createTuple([integerType, stringType]);
+        const tupleDouble = createTuple([doubleType, stringType]);
+        expect(typir.Subtype.isSubType(tupleInteger, tupleDouble)).toBe(true);
+        expect(typir.Subtype.isSubType(tupleDouble, tupleInteger)).toBe(false);
+        // rest elements
+        const tupleRest = createTuple([doubleType], stringType);
+        expect(typir.Subtype.isSubType(tupleInteger, tupleRest)).toBe(true);
+        expect(typir.Subtype.isSubType(createTuple([integerType, stringType, stringType]), tupleRest)).toBe(true);
+        expect(typir.Subtype.isSubType(createTuple([integerType, integerType]), tupleRest)).toBe(false);
+        expect(typir.Subtype.isSubType(tupleRest, tupleDouble)).toBe(false);
+        expect(typir.Subtype.isSubType(createTuple([integerType, stringType], stringType), tupleRest)).toBe(true);
+    });
+
+    test('Sub-type relationships of (nested) tuples follow later changes of the relationships of their element types', () => {
+        const booleanType = typir.factory.Primitives.create({ primitiveName: 'boolean' });
+        const numberType = typir.factory.Primitives.create({ primitiveName: 'number' });
+        const innerNumber = createTuple([numberType]);
+        const outerNumber = createTuple([innerNumber, stringType]);
+        const innerBoolean = createTuple([booleanType]); // created after the super tuples
+        const outerBoolean = createTuple([innerBoolean, stringType]);
+        expectDerivedSubTypeToFollowChanges(typir, { subType: outerBoolean, superType: outerNumber, subDependency: booleanType, superDependency: numberType,
+            typeToRemove: innerNumber,
+            checkRelated: related => expect(typir.Subtype.isSubType(innerBoolean, innerNumber)).toBe(related),
+        });
+    });
+
+    test('Sub-type relationships of tuples with equal types as strategy', () => {
+        typir = createTypirServicesForTesting({ factory: { Tuples: services => new TupleKind(services, { subtypeElementChecking: 'EQUAL_TYPE' }) } });
+        integerType = typir.factory.Primitives.create({ primitiveName: 'integer' });
+        doubleType = typir.factory.Primitives.create({ primitiveName: 'double' });
+        typir.Subtype.markAsSubType(integerType, doubleType);
+        expect(typir.Subtype.isSubType(createTuple([integerType]), createTuple([doubleType]))).toBe(false);
+        expect(typir.Subtype.isSubType(createTuple([integerType, integerType]), createTuple([integerType], integerType))).toBe(true);
+    });
+
+    test('Inference rules for tuple literals and indexed access', () => {
+        const tuple = typir.factory.Tuples.create({
+            elementTypes: [integerType, stringType],
+            inferenceRuleForLiteral: {
+                filter: node => node instanceof TupleLiteral,
+                matching: node => node.elements.length === 2,
+                inputValuesForElements: node => node.elements,
+            },
+            inferenceRuleForIndexedAccess: node => node instanceof IndexedAccess ? node.index : InferenceRuleNotApplicable,
+        }).getTypeFinal()!;
+
+        expectToBeType(typir.Inference.inferType(new TupleLiteral([integer2, string2])), isTupleType, result => result === tuple);
+        expect(isTupleType(typir.Inference.inferType(new TupleLiteral([integer2, integer3])))).toBe(false);
+        expectToBeType(typir.Inference.inferType(new IndexedAccess(new TupleLiteral([integer2, string2]), 1)), isPrimitiveType, result => result === stringType);
+        expect(Array.isArray(typir.Inference.inferType(new IndexedAccess(new TupleLiteral([integer2, string2]), 2)))).toBe(true);
+    });
+
+});
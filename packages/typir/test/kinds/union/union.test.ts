@@ -0,0 +1,133 @@
+/******************************************************************************
+ * Copyright 2025 TypeFox GmbH
+ * This program and the accompanying materials are made available under the
+ * terms of the MIT License, which is available in the project root.
+ ******************************************************************************/
+
+import { beforeEach, describe, expect, test } from 'vitest';
+import { isUnionType, PrimitiveType, SubTypeEdge, UnionType } from '../../../src/index.js';
+import { IntegerLiteral, StringLiteral } from '../../../src/test/predefined-language-nodes.js';
+import { TypirServices } from '../../../src/typir.js';
+import { createTypirServicesForTesting, expectToBeType, expectTypirTypes } from '../../../src/utils/test-utils.js';
+
+describe('Tests for union types', () => {
+    let typir: TypirServices;
+    let integerType: PrimitiveType;
+    let doubleType: PrimitiveType;
+    let stringType: PrimitiveType;
+    let booleanType: PrimitiveType;
+
+    beforeEach(() => {
+        typir = createTypirServicesForTesting();
+        integerType = typir.factory.Primitives.create({ primitiveName: 'integer', inferenceRules: node => node instanceof IntegerLiteral });
+        doubleType = typir.factory.Primitives.create({ primitiveName: 'double' });
+        stringType = typir.factory.Primitives.create({ primitiveName: 'string', inferenceRules: node => node instanceof StringLiteral });
+        booleanType = typir.factory.Primitives.create({ primitiveName: 'boolean' });
+    });
+
+    function createUnion(...memberTypes: PrimitiveType[]): UnionType {
+        return typir.factory.Unions.create({ memberTypes }).getTypeFinal()!;
+    }
+
+    test('The order of member types does not matter', () => {
+        const union1 = createUnion(integerType, stringType);
+        const union2 = createUnion(stringType, integerType);
+        expect(union1).toBe(union2);
+        expect(union1.getIdentifier()).toBe(typir.factory.Unions.calculateIdentifier({ memberTypes: [stringType, integerType] }));
+        expect(typir.factory.Unions.get({ memberTypes: [stringType, integerType] }).getType()).toBe(union1);
+        expectTypirTypes(typir, isUnionType, 'integer | string');
+    });
+
+    test('Nested unions and duplicated members are flattened', () => {
+        const inner = createUnion(integerType, stringType);
+        const outer = typir.factory.Unions.create({ memberTypes: [inner, booleanType, integerType] }).getTypeFinal()!;
+        expect(outer.getMemberTypes()).toEqual([integerType, stringType, booleanType]);
+        expect(outer.getDeclaredMemberTypes()).toHaveLength(3);
+        expect(outer).toBe(createUnion(booleanType, stringType, integerType));
+        expect(typir.Equality.areTypesEqual(outer, inner)).toBe(false);
+    });
+
+    test('Unions need at least one member', () => {
+        expect(() => createUnion()).toThrowError('The union type needs at least one member type.');
+        // unions with a single member are not normalized, but they are assignable in both directions
+        const single = createUnion(integerType);
+        expect(single).not.toBe(integerType);
+        expect(typir.Equality.areTypesEqual(single, integerType)).toBe(false);
+        expect(typir.Assignability.isAssignable(single, integerType)).toBe(true);
+        expect(typir.Assignability.isAssignable(integerType, single)).toBe(true);
+    });
+
+    test('Members are sub-types of their union', () => {
+        const union = createUnion(integerType, stringType);
+        expect(typir.Subtype.isSubType(integerType, union)).toBe(true);
+        expect(typir.Subtype.isSubType(stringType, union)).toBe(true);
+        expect(typir.Subtype.isSubType(booleanType, union)).toBe(false);
+        expect(typir.Subtype.isSubType(union, integerType)).toBe(false);
+        expect(typir.Assignability.isAssignable(integerType, union)).toBe(true);
+    });
+
+    test('Unions are sub-types of other unions, if each member is a sub-type of some member of the other union', () => {
+        typir.Subtype.markAsSubType(integerType, doubleType);
+        const small = createUnion(integerType, stringType);
+        const large = createUnion(doubleType, stringType, booleanType);
+        expect(typir.Subtype.isSubType(small, large)).toBe(true);
+        expect(typir.Subtype.isSubType(large, small)).toBe(false);
+        const other = createUnion(integerType, booleanType);
+        expect(typir.Subtype.isSubType(other, small)).toBe(false);
+        expect(typir.Subtype.isSubType(other, large)).toBe(true);
+    });
+
+    test('Sub-type relationships between members, which are added after the unions, are considered', () => {
+        const large = createUnion(doubleType, stringType); // created before the smaller union
+        const small = createUnion(integerType, stringType);
+        expect(typir.Subtype.isSubType(small, large)).toBe(false);
+        typir.Subtype.markAsSubType(integerType, doubleType);
+        expect(typir.Subtype.isSubType(small, large)).toBe(true);
+        expect(typir.Subtype.isSubType(large, small)).toBe(false);
+    });
+
+    test('Sub-type relationships between unions are removed, when the relationships between their members are removed', () => {
+        typir.Subtype.markAsSubType(integerType, doubleType);
+        const small = createUnion(integerType, stringType);
+        const large = createUnion(doubleType, stringType);
+        expect(typir.Subtype.isSubType(small, large)).toBe(true);
+        const memberEdge = integerType.getOutgoingEdges<SubTypeEdge>(SubTypeEdge).find(edge => edge.to === doubleType)!;
+        typir.infrastructure.Graph.removeEdge(memberEdge);
+        expect(typir.Subtype.isSubType(small, large)).toBe(false);
+        expect(typir.Subtype.isSubType(integerType, small)).toBe(true);
+        expect(typir.Subtype.isSubType(integerType, large)).toBe(false);
+    });
+
+    test('Sub-type relationships to removed unions and to unions with removed members are removed', () => {
+        typir.Subtype.markAsSubType(integerType, doubleType);
+        const small = createUnion(integerType, stringType);
+        const large = createUnion(doubleType, stringType);
+        const largest = createUnion(doubleType, stringType, booleanType);
+        expect(typir.Subtype.isSubType(small, large)).toBe(true);
+        expect(typir.Subtype.isSubType(small, largest)).toBe(true);
+        // remove a union
+        typir.infrastructure.Graph.removeNode(largest);
+        expect(small.getOutgoingEdges(SubTypeEdge).some(edge => edge.to === largest)).toBe(false);
+        // remove a member of a union
+        typir.infrastructure.Graph.removeNode(doubleType);
+        expect(typir.Subtype.isSubType(small, large)).toBe(false);
+        expect(large.getAllEdges()).toHaveLength(0);
+        // unions with removed members are not considered for new relationships
+        typir.Subtype.markAsSubType(integerType, booleanType);
+        expect(typir.Subtype.isSubType(integerType, small)).toBe(true);
+        expect(large.getAllEdges()).toHaveLength(0);
+    });
+
+    test('Unions are sub-types of types, if all members are sub-types of them', () => {
+        const union = createUnion(integerType, booleanType);
+        const topType = typir.factory.Top.create({});
+        expect(typir.Subtype.isSubType(union, topType)).toBe(true);
+    });
+
+    test('Inference rule for union types', () => {
+        const union = typir.factory.Unions.create({ memberTypes: [integerType, stringType], inferenceRules: node => node === 'union' }).getTypeFinal()!;
+        expectToBeType(typir.Inference.inferType('union'), isUnionType, result => result === union);
+        expect(typir.Printer.printTypeName(union)).toBe('integer | string');
+    });
+
+});
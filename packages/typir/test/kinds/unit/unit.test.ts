@@ -0,0 +1,102 @@
+/******************************************************************************
+ * Copyright 2025 TypeFox GmbH
+ * This program and the accompanying materials are made available under the
+ * terms of the MIT License, which is available in the project root.
+ ******************************************************************************/
+
+/* eslint-disable @typescript-eslint/parameter-properties */
+
+import { beforeEach, describe, expect, test, vi } from 'vitest';
+import { InferenceRuleNotApplicable, isUnitType, PrimitiveType, UnitKind, UnitType } from '../../../src/index.js';
+import { BinaryExpression, DoubleLiteral, InferenceRuleBinaryExpression, TestExpressionNode } from '../../../src/test/predefined-language-nodes.js';
+import { TypirServices } from '../../../src/typir.js';
+import { createTypirServicesForTesting, expectToBeType } from '../../../src/utils/test-utils.js';
+
+class Quantity extends TestExpressionNode {
+    constructor(
+        public value: number,
+        public unitType: UnitType,
+    ) { super(); }
+}
+
+describe('Tests for units of measure', () => {
+    let typir: TypirServices;
+    let doubleType: PrimitiveType;
+    let meterType: UnitType;
+    let secondType: UnitType;
+
+    beforeEach(() => {
+        typir = createTypirServicesForTesting();
+        doubleType = typir.factory.Primitives.create({ primitiveName: 'double', inferenceRules: node => node instanceof DoubleLiteral });
+        meterType = typir.factory.Units.create({ baseType: doubleType, unit: 'm' });
+        secondType = typir.factory.Units.create({ baseType: doubleType, unit: 's' });
+        typir.Inference.addInferenceRule(node => node instanceof Quantity ? node.unitType : InferenceRuleNotApplicable);
+
+        const units = typir.factory.Units;
+        typir.factory.Operators.createBinary({ name: '*', signature: units.getMultiplicationSignature(doubleType), inferenceRule: InferenceRuleBinaryExpression });
+        typir.factory.Operators.createBinary({ name: '/', signature: units.getDivisionSignature(doubleType), inferenceRule: InferenceRuleBinaryExpression });
+        typir.factory.Operators.createBinary({ name: '+', signature: units.getAdditionSignature(doubleType), inferenceRule: InferenceRuleBinaryExpression });
+        typir.factory.Operators.createBinary({ name: '-', signature: units.getAdditionSignature(doubleType), inferenceRule: InferenceRuleBinaryExpression });
+    });
+
+    test('Units are normalized and printed', () => {
+        const acceleration = typir.factory.Units.getOrCreate(doubleType, 'm/s^2');
+        expectToBeType(acceleration, isUnitType, result => result.getUnit() === 'm/s^2');
+        expect(typir.Printer.printTypeName(acceleration)).toBe('double<m/s^2>');
+        expect(typir.factory.Units.getOrCreate(doubleType, { s: -2, m: 1 })).toBe(acceleration);
+        expect(typir.factory.Units.getOrCreate(doubleType, 'm*s^-2')).toBe(acceleration);
+        expectToBeType(typir.factory.Units.getOrCreate(doubleType, 'kg*m/s*s'), isUnitType, result => result.getUnit() === 'kg*m/s^2');
+        expectToBeType(typir.factory.Units.getOrCreate(doubleType, '1/s'), isUnitType, result => result.getUnit() === '1/s');
+        // dimensionless units
+        expect(typir.factory.Units.getOrCreate(doubleType, 'm/m')).toBe(doubleType);
+        expect(() => typir.factory.Units.create({ baseType: doubleType, unit: 'm/s/s' })).toThrowError("The unit 'm/s/s' contains more than one '/'.");
+    });
+
+    test('Values with units are implicitly convertible to their base type, but not to other units', () => {
+        expect(typir.Assignability.isAssignable(meterType, doubleType)).toBe(true);
+        expect(typir.Assignability.isAssignable(doubleType, meterType)).toBe(false);
+        expect(typir.Assignability.isAssignable(meterType, secondType)).toBe(false);
+    });
+
+    test('Multiplications and divisions compute the units of their results', () => {
+        const distance = new Quantity(100, meterType);
+        const time = new Quantity(10, secondType);
+        const speed = new BinaryExpression(distance, '/', time);
+        expectToBeType(typir.Inference.inferType(speed), isUnitType, result => result.getName() === 'double<m/s>');
+        expectToBeType(typir.Inference.inferType(new BinaryExpression(speed, '/', time)), isUnitType, result => result.getName() === 'double<m/s^2>');
+        expectToBeType(typir.Inference.inferType(new BinaryExpression(distance, '*', distance)), isUnitType, result => result.getName() === 'double<m^2>');
+        expectToBeType(typir.Inference.inferType(new BinaryExpression(new DoubleLiteral(2.0), '*', distance)), isUnitType, result => result.getName() === 'double<m>');
+        expect(typir.Inference.inferType(new BinaryExpression(speed, '*', time))).toBe(meterType);
+        expect(typir.Inference.inferType(new BinaryExpression(distance, '/', distance))).toBe(doubleType); // dimensionless
+        expect(typir.validation.Collector.validate(speed)).toHaveLength(0);
+    });
+
+    test('The unit types of results are created on demand and their computation is not repeated by the validation', () => {
+        const divide = vi.spyOn(typir.factory.Units as UnitKind, 'divide');
+        const speed = new BinaryExpression(new Quantity(100, meterType), '/', new Quantity(10, secondType));
+        expect(typir.factory.Units.get({ baseType: doubleType, unit: 'm/s' })).toBeUndefined();
+        const speedType = typir.Inference.inferType(speed);
+        expect(speedType).toBe(typir.factory.Units.get({ baseType: doubleType, unit: 'm/s' }));
+        expect(divide).toHaveBeenCalledTimes(1);
+        expect(typir.validation.Collector.validate(speed)).toHaveLength(0);
+        expect(divide).toHaveBeenCalledTimes(1); // the inferred type of the division is reused
+        // the created unit type is reused
+        expect(typir.Inference.inferType(new BinaryExpression(new Quantity(1, meterType), '/', new Quantity(1, secondType)))).toBe(speedType);
+    });
+
+    test('Additions and subtractions require equal units', () => {
+        const distance = new Quantity(100, meterType);
+        expect(typir.Inference.inferType(new BinaryExpression(distance, '+', new Quantity(5, meterType)))).toBe(meterType);
+        expect(typir.Inference.inferType(new BinaryExpression(new DoubleLiteral(1.0), '-', new DoubleLiteral(2.0)))).toBe(doubleType);
+
+        const wrongSum = new BinaryExpression(distance, '+', new Quantity(10, secondType));
+        expect(Array.isArray(typir.Inference.inferType(wrongSum))).toBe(true);
+        const problems = typir.validation.Collector.validate(wrongSum);
+        expect(problems).toHaveLength(1);
+        const message = typir.Printer.printTypirProblem(problems[0]);
+        expect(message, message).includes("The output type of '+' cannot be determined for values of the types 'double<m>', 'double<s>'.");
+        // values without units cannot be added to values with units
+        expect(typir.validation.Collector.validate(new BinaryExpression(distance, '-', new DoubleLiteral(1.0)))).toHaveLength(1);
+    });
+
+});
@@ -35,7 +35,7 @@ describe('Tests for Typir', () => {
         const typeBoolean = typir.factory.Primitives.create({ primitiveName: 'Boolean' });
 
         // create class type Person with 1 firstName and 1..2 lastNames and an age properties
-        const typeOneOrTwoStrings = multiplicityKind.createMultiplicityType({ constrainedType: typeString, lowerBound: 1, upperBound: 2 });
+        const typeOneOrTwoStrings = multiplicityKind.create({ constrainedType: typeString, lowerBound: 1, upperBound: 2 });
         const typePerson = typir.factory.Classes.create({
             className: 'Person',
             fields: [
@@ -56,9 +56,9 @@ describe('Tests for Typir', () => {
         });
 
         // create some more types
-        const typeListInt = listKind.createFixedParameterType({ parameterTypes: typeInt });
-        const typeListString = listKind.createFixedParameterType({ parameterTypes: typeString });
-        // const typeMapStringPerson = mapKind.createFixedParameterType({ parameterTypes: [typeString, typePerson] });
+        const typeListInt = listKind.create({ parameterTypes: typeInt }).getTypeFinal()!;
+        const typeListString = listKind.create({ parameterTypes: typeString }).getTypeFinal()!;
+        // const typeMapStringPerson = mapKind.create({ parameterTypes: [typeString, typePerson] });
         const typeFunctionStringLength = typir.factory.Functions.create({
             functionName: 'length',
             outputParameter: { name: NO_PARAMETER_NAME, type: typeInt },